@@ -1,12 +1,20 @@
 
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import IDEView from './components/IDEView';
 import ProjectDashboard from './components/ProjectDashboard';
-import { FileNode } from './types';
-import { INITIAL_PROJECT_STRUCTURE, unzipAndParse, buildStructureFromAiFiles, zipProject } from './lib/project-utils';
+import { FileNode, ChatMessage } from './types';
+import { INITIAL_PROJECT_STRUCTURE, unzipAndParse, buildStructureFromAiFiles, zipProject, cloneStructure } from './lib/project-utils';
 import { generateProjectFromIdea } from './lib/ai';
+import { applyPathPolicy } from './lib/path-policy';
+import { loadProjects, saveProject, deleteProject as deleteStoredProject } from './lib/project-store';
+import { createAiProvider, DEFAULT_AI_SETTINGS, AiProviderSettings } from './lib/ai-providers';
 import { AiFile } from './lib/ai';
+import { GitData, cloneRepository } from './lib/git';
+import { forgetGitCredentials } from './lib/git-credentials';
+import { DeploySettings, DeployRecord } from './lib/deploy';
+import { ProjectEnv } from './lib/env-vars';
+import { serializeProjectExport, parseProjectExport } from './lib/project-export';
 import { useToast } from './contexts/ToastContext';
 import Icon from './components/Icon';
 
@@ -16,6 +24,12 @@ export interface Project {
   description: string;
   structure: FileNode[];
   lastModified: number;
+  conversation?: ChatMessage[];
+  aiSettings?: AiProviderSettings;
+  git?: GitData; // The project's local repository, if one was initialized.
+  deploySettings?: DeploySettings;
+  deployments?: DeployRecord[]; // Most recent first.
+  env?: ProjectEnv; // Environment variables; never part of exports.
 }
 
 export interface CreateProjectOptions {
@@ -24,6 +38,9 @@ export interface CreateProjectOptions {
   prompt?: string;
   file?: File;
   url?: string;
+  branch?: string; // Repository imports: branch to check out, defaulting to the remote's default.
+  shallow?: boolean; // Repository imports: fetch only the latest commit.
+  corsProxy?: string;
 }
 
 const App: React.FC = () => {
@@ -31,46 +48,67 @@ const App: React.FC = () => {
   const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isCreatingProject, setIsCreatingProject] = useState(false);
+  const [creationProgress, setCreationProgress] = useState<string | null>(null);
+  const [isStorageAvailable, setIsStorageAvailable] = useState(true);
+  const lastSavedProjectsRef = useRef<Project[]>([]);
   const { addToast } = useToast();
 
   useEffect(() => {
-    try {
-      const savedProjects = localStorage.getItem('codematic_projects');
-      if (savedProjects) {
-        const parsedProjects: Project[] = JSON.parse(savedProjects).map((p: any) => ({
-          ...p,
-          description: p.description || 'Contoh interaktif yang menunjukkan bagaimana file HTML, CSS, dan JavaScript bekerja sama',
-        }));
-        setProjects(parsedProjects);
-      } else {
-        const defaultProject: Project = {
-          id: `proj_${Date.now()}`,
-          name: 'Multi-File Demo',
-          description: 'Contoh interaktif yang menunjukkan bagaimana file HTML, CSS, dan JavaScript bekerja sama',
-          structure: JSON.parse(JSON.stringify(INITIAL_PROJECT_STRUCTURE)),
-          lastModified: Date.now(),
-        };
-        setProjects([defaultProject]);
+    const load = async () => {
+      try {
+        const savedProjects = await loadProjects();
+        if (savedProjects.length > 0) {
+          const parsedProjects: Project[] = savedProjects.map(p => ({
+            ...p,
+            description: p.description || 'Contoh interaktif yang menunjukkan bagaimana file HTML, CSS, dan JavaScript bekerja sama',
+          }));
+          lastSavedProjectsRef.current = parsedProjects;
+          setProjects(parsedProjects);
+        } else {
+          const defaultProject: Project = {
+            id: `proj_${Date.now()}`,
+            name: 'Multi-File Demo',
+            description: 'Contoh interaktif yang menunjukkan bagaimana file HTML, CSS, dan JavaScript bekerja sama',
+            structure: cloneStructure(INITIAL_PROJECT_STRUCTURE),
+            lastModified: Date.now(),
+          };
+          setProjects([defaultProject]);
+        }
+        const savedActiveId = localStorage.getItem('codematic_active_project_id');
+        setActiveProjectId(savedActiveId);
+      } catch (error) {
+        console.error("Failed to load projects from storage", error);
+        addToast("Could not open project storage. Changes will not be saved.", "error");
+        setIsStorageAvailable(false);
+        localStorage.removeItem('codematic_active_project_id');
+      } finally {
+        setIsLoading(false);
       }
-      const savedActiveId = localStorage.getItem('codematic_active_project_id');
-      setActiveProjectId(savedActiveId);
-    } catch (error) {
-      console.error("Failed to load projects from localStorage", error);
-      localStorage.removeItem('codematic_projects');
-      localStorage.removeItem('codematic_active_project_id');
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
+    };
+    load();
+  }, [addToast]);
 
+  // Only projects whose object changed since the last save are written; the store
+  // itself skips files whose contents did not change.
   useEffect(() => {
-    if (isLoading) return;
-    try {
-      localStorage.setItem('codematic_projects', JSON.stringify(projects));
-    } catch (error) {
-      console.error("Failed to save projects to localStorage", error);
+    if (isLoading || !isStorageAvailable) return;
+    const previous = lastSavedProjectsRef.current;
+    lastSavedProjectsRef.current = projects;
+
+    for (const project of projects) {
+      if (previous.includes(project)) continue;
+      saveProject(project).catch(error => {
+        console.error("Failed to save project", error);
+        addToast(`Failed to save "${project.name}": ${error instanceof Error ? error.message : String(error)}`, "error");
+      });
     }
-  }, [projects, isLoading]);
+    for (const project of previous) {
+      if (projects.some(p => p.id === project.id)) continue;
+      deleteStoredProject(project.id).catch(error => {
+        console.error("Failed to delete project", error);
+      });
+    }
+  }, [projects, isLoading, isStorageAvailable, addToast]);
 
   useEffect(() => {
     if (isLoading) return;
@@ -91,30 +129,62 @@ const App: React.FC = () => {
     setIsCreatingProject(true);
     try {
         let newProjectStructure: FileNode[] | null = null;
+        let gitData: GitData | undefined;
+        let imported: Partial<Project> = {};
         
         switch (options.type) {
             case 'template':
-                newProjectStructure = JSON.parse(JSON.stringify(INITIAL_PROJECT_STRUCTURE));
+                newProjectStructure = cloneStructure(INITIAL_PROJECT_STRUCTURE);
                 break;
             
             case 'upload':
                 if (!options.file) throw new Error("No file provided for upload.");
+                if (options.file.name.toLowerCase().endsWith('.json')) {
+                    imported = parseProjectExport(await options.file.text());
+                    newProjectStructure = imported.structure || null;
+                    gitData = imported.git;
+                    break;
+                }
                 addToast("Unzipping project...", "info");
                 newProjectStructure = await unzipAndParse(options.file);
                 break;
                 
-            case 'idea':
+            case 'idea': {
                 if (!options.prompt) throw new Error("No prompt provided for AI creation.");
                 addToast("AI is building your project... this may take a minute.", "info");
-                const aiFiles: AiFile[] | null = await generateProjectFromIdea(options.prompt);
+                const aiFiles: AiFile[] | null = await generateProjectFromIdea(createAiProvider(DEFAULT_AI_SETTINGS), options.prompt);
                 if (!aiFiles || aiFiles.length === 0) throw new Error("AI failed to generate project files.");
-                newProjectStructure = buildStructureFromAiFiles(aiFiles);
+                // Generated files go through the same checks as AI edits to an existing project.
+                const policy = applyPathPolicy(aiFiles, [], []);
+                if (policy.filesToUpdate.length === 0) throw new Error("AI did not generate any usable project files.");
+                if (policy.rejected.length > 0) {
+                    addToast(`${policy.rejected.length} generated file(s) were skipped: ${policy.rejected.map(op => `${op.path} (${op.reason})`).join(', ')}`, 'warning');
+                }
+                newProjectStructure = buildStructureFromAiFiles(policy.filesToUpdate);
                 break;
+            }
                 
-            case 'repo':
-                addToast("Importing from Git repositories is coming soon!", "info");
-                setIsCreatingProject(false);
-                return;
+            case 'repo': {
+                if (!options.url) throw new Error("No repository URL provided.");
+                setCreationProgress('Connecting to the repository...');
+                const cloned = await cloneRepository({
+                    url: options.url,
+                    branch: options.branch,
+                    shallow: options.shallow,
+                    corsProxy: options.corsProxy,
+                    onProgress: setCreationProgress,
+                }).catch((error: unknown) => {
+                    // Browsers report a blocked cross-origin request as a bare network error.
+                    if (error instanceof TypeError) {
+                        throw new Error("Could not reach the repository. If its host does not allow cross-origin requests, set a CORS proxy.");
+                    }
+                    throw error;
+                });
+                if (cloned.structure.length === 0) throw new Error("The repository is empty.");
+                newProjectStructure = cloned.structure;
+                gitData = cloned.gitData;
+                break;
+            }
         }
 
         if (newProjectStructure) {
@@ -123,9 +193,15 @@ const App: React.FC = () => {
                 name: options.name,
                 description: options.type === 'idea' 
                     ? `AI-generated project based on the prompt: "${options.prompt}"`
-                    : 'A newly created project.',
+                    : options.type === 'repo'
+                    ? `Imported from ${options.url}`
+                    : imported.description || 'A newly created project.',
                 structure: newProjectStructure,
                 lastModified: Date.now(),
+                conversation: imported.conversation,
+                aiSettings: imported.aiSettings,
+                git: gitData,
+                deploySettings: imported.deploySettings,
             };
             setProjects(prev => [...prev, newProject]);
             setActiveProjectId(newProject.id);
@@ -137,10 +213,12 @@ const App: React.FC = () => {
         addToast(error instanceof Error ? error.message : "An unknown error occurred.", 'error');
     } finally {
         setIsCreatingProject(false);
+        setCreationProgress(null);
     }
   }, [addToast]);
 
   const handleDeleteProject = useCallback((id: string) => {
+    forgetGitCredentials(id);
     setProjects(prev => prev.filter(p => p.id !== id));
     if (activeProjectId === id) {
       setActiveProjectId(null);
@@ -151,8 +229,13 @@ const App: React.FC = () => {
     const projectToDuplicate = projects.find(p => p.id === id);
     if (!projectToDuplicate) return;
 
+    // Deploy history stays with the original: its build outputs are stored under the original's ID.
+    // The copy keeps the deploy target but not the token, since its deploys would replace the
+    // original's site; entering the token again makes that a choice.
+    const { deployments, ...copy } = structuredClone(projectToDuplicate);
+    if (copy.deploySettings) delete copy.deploySettings.authValue;
     const newProject: Project = {
-        ...JSON.parse(JSON.stringify(projectToDuplicate)),
+        ...copy,
         id: `proj_${Date.now()}`,
         name: `${projectToDuplicate.name} (Copy)`,
         lastModified: Date.now(),
@@ -174,7 +257,7 @@ const App: React.FC = () => {
   
   const handleExportProjectAsJson = useCallback((project: Project) => {
     try {
-      const jsonString = JSON.stringify(project, null, 2);
+      const jsonString = serializeProjectExport(project);
       const blob = new Blob([jsonString], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
       const link = document.createElement('a');
@@ -230,7 +313,7 @@ const App: React.FC = () => {
                 <div className="w-12 h-12 border-4 border-white/30 border-t-white rounded-full animate-spin"></div>
                 <div className="text-center">
                     <p className="text-lg font-semibold">Creating Your Project</p>
-                    <p className="text-sm opacity-70">Please wait a moment...</p>
+                    <p className="text-sm opacity-70">{creationProgress || 'Please wait a moment...'}</p>
                 </div>
             </div>
         )}
@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import Icon from './Icon';
+import { AiProviderSettings, AiProviderId, DEFAULT_MODELS, createAiProvider } from '../lib/ai-providers';
+import { DEFAULT_CONTEXT_TOKEN_BUDGET } from '../lib/ai-context';
+import { DEFAULT_MAX_FIX_ATTEMPTS } from '../lib/error-detection';
+
+interface AiSettingsModalProps {
+  settings: AiProviderSettings;
+  onSave: (settings: AiProviderSettings) => void;
+  onClose: () => void;
+}
+
+// Recorded responses are edited as plain text, one response per block.
+const MOCK_RESPONSE_SEPARATOR = '\n---8<---\n';
+
+const PROVIDER_OPTIONS: { id: AiProviderId; icon: string; title: string; description: string }[] = [
+  { id: 'gemini', icon: 'auto_awesome', title: 'Google Gemini', description: 'Hosted Gemini models via the Gemini API.' },
+  { id: 'openai-compatible', icon: 'dns', title: 'OpenAI-compatible', description: 'Any /v1/chat/completions endpoint, e.g. a local llama.cpp or Ollama server.' },
+  { id: 'mock', icon: 'science', title: 'Mock (offline)', description: 'Replays recorded responses deterministically for testing.' },
+];
+
+const inputClassName = "w-full bg-slate-100 dark:bg-slate-700/50 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-sm placeholder-slate-500 dark:placeholder-slate-400 focus:outline-none focus:ring-1 focus:ring-blue-500 text-slate-800 dark:text-slate-200";
+
+const AiSettingsModal: React.FC<AiSettingsModalProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<AiProviderSettings>(settings);
+  const [mockText, setMockText] = useState((settings.mockResponses || []).join(MOCK_RESPONSE_SEPARATOR));
+  const [models, setModels] = useState<string[]>([]);
+  const [isLoadingModels, setIsLoadingModels] = useState(false);
+  const [modelError, setModelError] = useState<string | null>(null);
+
+  const update = (changes: Partial<AiProviderSettings>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const handleSelectProvider = (provider: AiProviderId) => {
+    if (provider === draft.provider) return;
+    update({ provider, model: DEFAULT_MODELS[provider] });
+    setModels([]);
+    setModelError(null);
+  };
+
+  const handleLoadModels = async () => {
+    setIsLoadingModels(true);
+    setModelError(null);
+    try {
+      const available = await createAiProvider(draft).listModels();
+      setModels(available);
+      if (available.length > 0 && !draft.model) {
+        update({ model: available[0] });
+      }
+    } catch (error) {
+      setModelError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsLoadingModels(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const mockResponses = mockText.split(MOCK_RESPONSE_SEPARATOR).filter(r => r.trim());
+    onSave({ ...draft, mockResponses });
+  };
+
+  const isSaveDisabled = (draft.provider === 'openai-compatible' && (!draft.baseUrl?.trim() || !draft.model.trim())) ||
+    (draft.provider === 'mock' && !mockText.trim());
+
+  return (
+    <div className="absolute inset-0 bg-black/60 flex items-center justify-center z-50 backdrop-blur-sm" role="dialog" aria-modal="true" aria-labelledby="ai-settings-title" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-2xl mx-4 flex flex-col max-h-[90vh]" onClick={(e) => e.stopPropagation()}>
+        <form onSubmit={handleSubmit} className="flex flex-col min-h-0">
+          <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+            <h3 className="text-xl leading-6 font-bold text-slate-900 dark:text-white" id="ai-settings-title">AI Provider</h3>
+            <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">These settings apply to this project only.</p>
+          </div>
+
+          <div className="p-6 space-y-5 overflow-y-auto">
+            <div className="grid grid-cols-3 gap-2">
+              {PROVIDER_OPTIONS.map(opt => (
+                <button
+                  key={opt.id}
+                  type="button"
+                  onClick={() => handleSelectProvider(opt.id)}
+                  className={`text-left p-3 rounded-lg border transition-colors ${draft.provider === opt.id ? 'border-blue-500 bg-blue-500/10 dark:bg-blue-500/20' : 'border-slate-200 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-700/50'}`}
+                >
+                  <Icon name={opt.icon} className={`text-2xl ${draft.provider === opt.id ? 'text-blue-600 dark:text-blue-400' : 'text-slate-500 dark:text-slate-400'}`} />
+                  <h4 className="font-semibold text-sm mt-1 text-slate-800 dark:text-slate-100">{opt.title}</h4>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">{opt.description}</p>
+                </button>
+              ))}
+            </div>
+
+            {draft.provider === 'openai-compatible' && (
+              <div>
+                <label htmlFor="ai-base-url" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Base URL</label>
+                <input
+                  id="ai-base-url"
+                  type="url"
+                  value={draft.baseUrl || ''}
+                  onChange={(e) => update({ baseUrl: e.target.value })}
+                  placeholder="http://localhost:11434/v1"
+                  className={inputClassName}
+                />
+              </div>
+            )}
+
+            {draft.provider !== 'mock' && (
+              <>
+                <div>
+                  <label htmlFor="ai-api-key" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                    API Key {draft.provider === 'gemini' ? '(optional, defaults to VITE_API_KEY)' : '(optional)'}
+                  </label>
+                  <input
+                    id="ai-api-key"
+                    type="password"
+                    value={draft.apiKey || ''}
+                    onChange={(e) => update({ apiKey: e.target.value })}
+                    autoComplete="off"
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="ai-model" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Model</label>
+                  <div className="flex gap-2">
+                    <input
+                      id="ai-model"
+                      type="text"
+                      list="ai-model-options"
+                      value={draft.model}
+                      onChange={(e) => update({ model: e.target.value })}
+                      className={inputClassName}
+                    />
+                    <datalist id="ai-model-options">
+                      {models.map(model => <option key={model} value={model} />)}
+                    </datalist>
+                    <button
+                      type="button"
+                      onClick={handleLoadModels}
+                      disabled={isLoadingModels}
+                      className="px-3 py-2 text-sm font-medium rounded-md border border-slate-300 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-800 dark:text-slate-200 flex items-center gap-1 flex-shrink-0 disabled:opacity-50"
+                    >
+                      <Icon name="refresh" className={`text-lg ${isLoadingModels ? 'animate-spin' : ''}`} />
+                      Load models
+                    </button>
+                  </div>
+                  {modelError && <p className="text-xs text-red-600 dark:text-red-400 mt-1">{modelError}</p>}
+                  {!modelError && models.length > 0 && <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{models.length} models available.</p>}
+                </div>
+                <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!!draft.recordResponses}
+                    onChange={(e) => update({ recordResponses: e.target.checked })}
+                  />
+                  Record responses for offline replay with the mock provider
+                  {(draft.mockResponses?.length || 0) > 0 && (
+                    <span className="text-xs text-slate-500 dark:text-slate-400">({draft.mockResponses!.length} recorded)</span>
+                  )}
+                </label>
+              </>
+            )}
+
+            <div>
+              <label htmlFor="ai-context-budget" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Context budget (tokens)</label>
+              <input
+                id="ai-context-budget"
+                type="number"
+                min={1000}
+                step={1000}
+                value={draft.contextTokenBudget ?? ''}
+                onChange={(e) => update({ contextTokenBudget: e.target.value ? Number(e.target.value) : undefined })}
+                placeholder={String(DEFAULT_CONTEXT_TOKEN_BUDGET)}
+                className={inputClassName}
+              />
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                The most relevant files are sent in full; the rest are truncated, outlined or listed by name to stay within this budget.
+              </p>
+            </div>
+
+            <div>
+              <label htmlFor="ai-fix-attempts" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">"Fix with AI" attempts</label>
+              <input
+                id="ai-fix-attempts"
+                type="number"
+                min={1}
+                max={10}
+                value={draft.maxFixAttempts ?? ''}
+                onChange={(e) => update({ maxFixAttempts: e.target.value ? Number(e.target.value) : undefined })}
+                placeholder={String(DEFAULT_MAX_FIX_ATTEMPTS)}
+                className={inputClassName}
+              />
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                How many times the assistant may retry when errors remain after the dev server recompiles.
+              </p>
+            </div>
+
+            {draft.provider === 'mock' && (
+              <div>
+                <label htmlFor="ai-mock-responses" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Recorded responses</label>
+                <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">
+                  Raw model responses, replayed in order. Separate responses with a line containing only <code>---8&lt;---</code>.
+                </p>
+                <textarea
+                  id="ai-mock-responses"
+                  value={mockText}
+                  onChange={(e) => setMockText(e.target.value)}
+                  rows={10}
+                  className={`${inputClassName} font-mono text-xs resize-none`}
+                  placeholder={'<summary>Hello from the mock provider.</summary>'}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="p-6 flex justify-end gap-3 border-t border-slate-200 dark:border-slate-700">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium rounded-md border border-slate-300 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-800 dark:text-slate-200"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaveDisabled}
+              className="px-4 py-2 text-sm font-medium rounded-md border border-transparent bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-400 dark:disabled:bg-slate-600 disabled:cursor-not-allowed"
+            >
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AiSettingsModal;
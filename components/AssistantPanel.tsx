@@ -1,24 +1,57 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import Icon from './Icon';
 import Markdown from 'react-markdown';
-import { Attachment } from '../types';
+import { Attachment, ChatMessage, ChatContextSummary, AgentStep } from '../types';
 import { useToast } from '../contexts/ToastContext';
 
 interface AssistantPanelProps {
   isLoading: boolean;
-  message: string;
+  messages: ChatMessage[];
+  pendingMessage: string; // Partial assistant reply while a request is in flight.
   onSend: (prompt: string, attachments: Attachment[]) => void;
+  onCancel: () => void;
+  onClearConversation: () => void;
+  onOpenFile: (path: string) => void;
+  isReviewModeEnabled: boolean;
+  onToggleReviewMode: () => void;
+  isAgentModeEnabled: boolean;
+  onToggleAgentMode: () => void;
+  pendingAgentSteps: AgentStep[]; // Tool calls of the agent run in progress.
 }
 
+const WELCOME_MESSAGE = "Hello! I'm your AI code assistant. What should we build or change today?";
+
+const CONTEXT_MODE_LABELS: Record<string, string> = {
+  truncated: 'truncated',
+  summary: 'outline',
+};
+
+const AGENT_TOOL_ICONS: Record<string, string> = {
+  read_file: 'description',
+  list_files: 'account_tree',
+  search: 'search',
+  run_command: 'terminal',
+  read_preview_console: 'bug_report',
+};
+
+const formatTokens = (tokens: number) => tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
 const MAX_FILE_SIZE_MB = 5;
 const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
 
-const AssistantPanel: React.FC<AssistantPanelProps> = ({ isLoading, message, onSend }) => {
+const AssistantPanel: React.FC<AssistantPanelProps> = ({ isLoading, messages, pendingMessage, onSend, onCancel, onClearConversation, onOpenFile, isReviewModeEnabled, onToggleReviewMode, isAgentModeEnabled, onToggleAgentMode, pendingAgentSteps }) => {
   const [prompt, setPrompt] = useState('');
   const [attachments, setAttachments] = useState<Attachment[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [expandedContextIds, setExpandedContextIds] = useState<string[]>([]);
+  const [expandedStepKeys, setExpandedStepKeys] = useState<string[]>([]);
   const { addToast } = useToast();
 
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages, pendingMessage, pendingAgentSteps]);
+
   const handleSendClick = () => {
     if ((prompt.trim() || attachments.length > 0) && !isLoading) {
       onSend(prompt, attachments);
@@ -76,18 +109,177 @@ const AssistantPanel: React.FC<AssistantPanelProps> = ({ isLoading, message, onS
     setAttachments(prev => prev.filter((_, index) => index !== indexToRemove));
   };
 
+  const toggleContext = (messageId: string) => {
+    setExpandedContextIds(prev => prev.includes(messageId) ? prev.filter(id => id !== messageId) : [...prev, messageId]);
+  };
+
+  const toggleStep = (key: string) => {
+    setExpandedStepKeys(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+  };
+
+  const renderAgentSteps = (keyPrefix: string, steps: AgentStep[]) => (
+    <div className="mb-2 space-y-1">
+      {steps.map((step, index) => {
+        const key = `${keyPrefix}_${index}`;
+        const isExpanded = expandedStepKeys.includes(key);
+        return (
+          <div key={key} className="border border-slate-200 dark:border-slate-700 rounded text-xs">
+            <button onClick={() => toggleStep(key)} className="w-full flex items-center gap-1.5 px-2 py-1 text-left hover:bg-slate-100 dark:hover:bg-slate-700/50">
+              <Icon name={AGENT_TOOL_ICONS[step.tool] || 'build'} className={`text-sm ${step.isError ? 'text-red-500' : 'text-slate-500 dark:text-slate-400'}`} />
+              <span className="font-medium">{step.tool}</span>
+              <span className="font-mono truncate flex-1 text-slate-500 dark:text-slate-400" title={step.input}>{step.input}</span>
+              <span className="text-slate-400 dark:text-slate-500 flex-shrink-0">{(step.durationMs / 1000).toFixed(1)}s</span>
+            </button>
+            {isExpanded && (
+              <pre className={`px-2 py-1 max-h-48 overflow-auto whitespace-pre-wrap break-words font-mono border-t border-slate-200 dark:border-slate-700 ${step.isError ? 'text-red-600 dark:text-red-400' : ''}`}>
+                {step.output}
+              </pre>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const renderContext = (messageId: string, context: ChatContextSummary) => {
+    const isExpanded = expandedContextIds.includes(messageId);
+    return (
+      <div className="max-w-[90%] text-xs text-slate-500 dark:text-slate-400">
+        <button onClick={() => toggleContext(messageId)} className="flex items-center gap-0.5 ml-auto hover:text-slate-700 dark:hover:text-slate-200">
+          <Icon name={isExpanded ? 'expand_less' : 'expand_more'} className="text-base" />
+          Context: {context.files.length} {context.files.length === 1 ? 'file' : 'files'} · ~{formatTokens(context.totalTokens)} / {formatTokens(context.tokenBudget)} tokens
+        </button>
+        {isExpanded && (
+          <div className="mt-1 border border-slate-200 dark:border-slate-700 rounded p-1.5 space-y-0.5">
+            {context.files.map(file => (
+              <button
+                key={file.path}
+                onClick={() => onOpenFile(file.path)}
+                className="w-full flex items-center gap-2 text-left px-1 rounded hover:bg-slate-100 dark:hover:bg-slate-700/50"
+              >
+                <span className="font-mono truncate flex-1" title={file.path}>{file.path}</span>
+                {CONTEXT_MODE_LABELS[file.mode] && (
+                  <span className="text-yellow-600 dark:text-yellow-400">{CONTEXT_MODE_LABELS[file.mode]}</span>
+                )}
+                <span className="flex-shrink-0">{formatTokens(file.tokens)}</span>
+              </button>
+            ))}
+            {context.omittedCount > 0 && (
+              <p className="px-1 pt-0.5 italic">{context.omittedCount} more listed by name only.</p>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="bg-white dark:bg-[#252526] h-full flex flex-col text-slate-700 dark:text-slate-300">
-      <div className="bg-slate-100 dark:bg-[#252526] px-4 h-[37px] flex items-center border-b border-slate-300 dark:border-slate-700/50">
+      <div className="bg-slate-100 dark:bg-[#252526] px-4 h-[37px] flex items-center justify-between border-b border-slate-300 dark:border-slate-700/50">
         <h3 className="font-medium text-slate-800 dark:text-slate-200 text-sm uppercase tracking-wider">
           Code assistant
         </h3>
-      </div>
-      <div className="flex-1 p-4 overflow-y-auto text-sm">
-        <div className="prose prose-sm dark:prose-invert max-w-none prose-p:my-2 prose-headings:my-3">
-          <Markdown>{message}</Markdown>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onToggleAgentMode}
+            disabled={isLoading}
+            data-tooltip={isAgentModeEnabled ? 'Agent mode (inspect project with tools): on' : 'Agent mode (inspect project with tools): off'}
+            className={`p-1 rounded hover:bg-slate-200 dark:hover:bg-slate-700/50 disabled:opacity-40 disabled:cursor-not-allowed ${isAgentModeEnabled ? 'text-blue-600 dark:text-blue-400' : 'text-slate-600 dark:text-slate-400'}`}
+          >
+            <Icon name="psychology" className="text-lg" />
+          </button>
+          <button
+            onClick={onToggleReviewMode}
+            data-tooltip={isReviewModeEnabled ? 'Review changes before applying: on' : 'Review changes before applying: off'}
+            className={`p-1 rounded hover:bg-slate-200 dark:hover:bg-slate-700/50 ${isReviewModeEnabled ? 'text-blue-600 dark:text-blue-400' : 'text-slate-600 dark:text-slate-400'}`}
+          >
+            <Icon name="rule" className="text-lg" />
+          </button>
+          <button
+            onClick={onClearConversation}
+            disabled={isLoading || messages.length === 0}
+            data-tooltip="Clear conversation"
+            className="p-1 rounded text-slate-600 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700/50 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Icon name="delete_sweep" className="text-lg" />
+          </button>
         </div>
       </div>
+      <div className="flex-1 p-4 overflow-y-auto text-sm space-y-4">
+        {messages.length === 0 && !isLoading && (
+          <div className="prose prose-sm dark:prose-invert max-w-none prose-p:my-2 prose-headings:my-3">
+            <Markdown>{WELCOME_MESSAGE}</Markdown>
+          </div>
+        )}
+        {messages.map(message => (
+          message.role === 'user' ? (
+            <div key={message.id} className="flex flex-col items-end gap-1">
+              <div className="bg-blue-500/10 dark:bg-blue-500/20 rounded-lg px-3 py-2 max-w-[90%] whitespace-pre-wrap break-words text-slate-800 dark:text-slate-200">
+                {message.content}
+              </div>
+              {message.attachments && message.attachments.length > 0 && (
+                <div className="flex flex-wrap justify-end gap-1 max-w-[90%]">
+                  {message.attachments.map((file, index) => (
+                    <span key={index} className="bg-slate-200 dark:bg-slate-700 rounded px-1.5 py-0.5 text-xs flex items-center gap-1 max-w-full">
+                      <Icon name={file.mimeType.startsWith('image/') ? 'image' : 'article'} className="text-sm flex-shrink-0" />
+                      <span className="truncate" title={file.name}>{file.name}</span>
+                    </span>
+                  ))}
+                </div>
+              )}
+              {message.context && renderContext(message.id, message.context)}
+            </div>
+          ) : (
+            <div key={message.id} className={message.status ? 'opacity-70' : ''}>
+              {message.agentSteps && message.agentSteps.length > 0 && renderAgentSteps(message.id, message.agentSteps)}
+              <div className="prose prose-sm dark:prose-invert max-w-none prose-p:my-2 prose-headings:my-3">
+                <Markdown>{message.content}</Markdown>
+              </div>
+              {message.rejectedOperations && message.rejectedOperations.length > 0 && (
+                <div className="mt-2 border border-yellow-500/40 bg-yellow-500/10 rounded px-2 py-1.5 text-xs">
+                  <div className="flex items-center gap-1 font-medium text-yellow-700 dark:text-yellow-400 mb-1">
+                    <Icon name="block" className="text-sm" />
+                    Blocked {message.rejectedOperations.length} file {message.rejectedOperations.length === 1 ? 'operation' : 'operations'}
+                  </div>
+                  <ul className="space-y-0.5">
+                    {message.rejectedOperations.map((op, index) => (
+                      <li key={index} className="break-words">
+                        <span className="font-mono">{op.operation === 'delete' ? 'delete' : 'write'} {op.path}</span>: {op.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {message.status === 'discarded' && (
+                <div className="mt-2 flex items-center gap-1 text-xs text-slate-500 dark:text-slate-400">
+                  <Icon name="undo" className="text-sm" />
+                  Changes discarded in review
+                </div>
+              )}
+              {message.changedFiles && message.changedFiles.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {message.changedFiles.map(path => (
+                    <button
+                      key={path}
+                      onClick={() => onOpenFile(path)}
+                      className="bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-700 rounded px-1.5 py-0.5 text-xs font-mono hover:border-blue-500 dark:hover:border-blue-400"
+                    >
+                      {path}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )
+        ))}
+        {isLoading && pendingAgentSteps.length > 0 && renderAgentSteps('pending', pendingAgentSteps)}
+        {isLoading && pendingMessage && (
+          <div className="prose prose-sm dark:prose-invert max-w-none prose-p:my-2 prose-headings:my-3">
+            <Markdown>{pendingMessage}</Markdown>
+          </div>
+        )}
+        <div ref={messagesEndRef} />
+      </div>
       
       <div className="p-4">
         <textarea
@@ -137,18 +329,24 @@ const AssistantPanel: React.FC<AssistantPanelProps> = ({ isLoading, message, onS
           >
             <Icon name="attach_file" className="text-xl" />
           </button>
-          <button 
-            onClick={handleSendClick}
-            className="w-8 h-8 flex items-center justify-center rounded-full bg-blue-500 hover:bg-blue-600 dark:bg-blue-600 dark:hover:bg-blue-700 text-white disabled:bg-slate-500" 
-            data-tooltip="Send message"
-            disabled={isLoading || (!prompt.trim() && attachments.length === 0)}
-          >
-            {isLoading ? (
-              <div className="w-4 h-4 border-2 border-white/50 border-t-white rounded-full animate-spin"></div>
-            ) : (
+          {isLoading ? (
+            <button 
+              onClick={onCancel}
+              className="w-8 h-8 flex items-center justify-center rounded-full bg-red-500 hover:bg-red-600 dark:bg-red-600 dark:hover:bg-red-700 text-white" 
+              data-tooltip="Stop generating"
+            >
+              <Icon name="stop" className="text-xl" />
+            </button>
+          ) : (
+            <button 
+              onClick={handleSendClick}
+              className="w-8 h-8 flex items-center justify-center rounded-full bg-blue-500 hover:bg-blue-600 dark:bg-blue-600 dark:hover:bg-blue-700 text-white disabled:bg-slate-500" 
+              data-tooltip="Send message"
+              disabled={!prompt.trim() && attachments.length === 0}
+            >
               <Icon name="arrow_upward" className="text-xl" />
-            )}
-          </button>
+            </button>
+          )}
         </div>
       </div>
     </div>
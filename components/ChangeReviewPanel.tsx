@@ -0,0 +1,269 @@
+import React, { useState, useRef } from 'react';
+import { DiffEditor, DiffOnMount } from '@monaco-editor/react';
+import * as monaco from 'monaco-editor';
+import Icon from './Icon';
+import { FileNode } from '../types';
+import { AiFile, AiResponse } from '../lib/ai';
+import { findFileByPath, getLanguageForFile, getTextContent } from '../lib/project-utils';
+import { computeLineHunks, applyHunks, DiffHunk } from '../lib/diff';
+import { useTheme } from '../contexts/ThemeContext';
+
+interface ChangeReviewPanelProps {
+  response: AiResponse;
+  projectStructure: FileNode[];
+  onApply: (filesToUpdate: AiFile[], pathsToDelete: string[]) => void;
+  onDiscard: () => void;
+}
+
+interface ReviewFile {
+  path: string;
+  kind: 'create' | 'update' | 'delete';
+  original: string;
+  modified: string;
+  hunks: DiffHunk[];
+}
+
+// The changes of a response, against the project as it is when called. Unchanged files are left out.
+const getReviewFiles = (response: AiResponse, projectStructure: FileNode[]): ReviewFile[] => {
+  const result: ReviewFile[] = [];
+  for (const file of response.filesToUpdate || []) {
+    const existing = findFileByPath(projectStructure, file.path);
+    const original = getTextContent(existing);
+    const hunks = computeLineHunks(original, file.content);
+    if (existing && hunks.length === 0) continue;
+    result.push({ path: file.path, kind: existing ? 'update' : 'create', original, modified: file.content, hunks });
+  }
+  for (const file of response.filesToDelete || []) {
+    const existing = findFileByPath(projectStructure, file.path);
+    if (!existing) continue;
+    const original = getTextContent(existing);
+    result.push({ path: file.path, kind: 'delete', original, modified: '', hunks: computeLineHunks(original, '') });
+  }
+  return result;
+};
+
+// New and deleted files are accepted as a whole; only updates can be accepted hunk by hunk.
+// A new empty file has no hunks at all.
+const isWholeFile = (file: ReviewFile) => file.kind !== 'update';
+
+const getInitialHunks = (files: ReviewFile[]) =>
+  Object.fromEntries(files.filter(f => !isWholeFile(f)).map(f => [f.path, f.hunks.map(h => h.id)]));
+
+const getInitialWholeFiles = (files: ReviewFile[]) => files.filter(isWholeFile).map(f => f.path);
+
+const KIND_BADGES: Record<ReviewFile['kind'], { label: string; className: string }> = {
+  create: { label: 'A', className: 'text-green-600 dark:text-green-400' },
+  update: { label: 'M', className: 'text-yellow-600 dark:text-yellow-400' },
+  delete: { label: 'D', className: 'text-red-600 dark:text-red-400' },
+};
+
+const ChangeReviewPanel: React.FC<ChangeReviewPanelProps> = ({ response, projectStructure, onApply, onDiscard }) => {
+  const { resolvedTheme } = useTheme();
+  const diffEditorRef = useRef<monaco.editor.IStandaloneDiffEditor | null>(null);
+
+  // The originals are read once, when the response arrives. Container syncs and edits made during
+  // the review would otherwise renumber the hunks already chosen, or turn an update into a create.
+  const [review, setReview] = useState(() => ({ response, files: getReviewFiles(response, projectStructure) }));
+  const { files } = review;
+
+  const [acceptedHunks, setAcceptedHunks] = useState<Record<string, number[]>>(() => getInitialHunks(files));
+  const [acceptedWholeFiles, setAcceptedWholeFiles] = useState<string[]>(() => getInitialWholeFiles(files));
+  const [selectedPath, setSelectedPath] = useState<string | null>(files[0]?.path || null);
+
+  // A new response starts a new review; choices made for the previous one do not carry over.
+  if (review.response !== response) {
+    const nextFiles = getReviewFiles(response, projectStructure);
+    setReview({ response, files: nextFiles });
+    setAcceptedHunks(getInitialHunks(nextFiles));
+    setAcceptedWholeFiles(getInitialWholeFiles(nextFiles));
+    setSelectedPath(nextFiles[0]?.path || null);
+  }
+
+  const selectedFile = files.find(f => f.path === selectedPath) || null;
+
+  const getFileState = (file: ReviewFile): 'all' | 'some' | 'none' => {
+    if (isWholeFile(file)) return acceptedWholeFiles.includes(file.path) ? 'all' : 'none';
+    const accepted = acceptedHunks[file.path] || [];
+    if (accepted.length === 0) return 'none';
+    return accepted.length === file.hunks.length ? 'all' : 'some';
+  };
+
+  const setFileAccepted = (file: ReviewFile, accepted: boolean) => {
+    if (isWholeFile(file)) {
+      setAcceptedWholeFiles(prev => accepted ? [...new Set([...prev, file.path])] : prev.filter(p => p !== file.path));
+      return;
+    }
+    setAcceptedHunks(prev => ({ ...prev, [file.path]: accepted ? file.hunks.map(h => h.id) : [] }));
+  };
+
+  const toggleHunk = (file: ReviewFile, hunkId: number) => {
+    setAcceptedHunks(prev => {
+      const current = prev[file.path] || [];
+      return {
+        ...prev,
+        [file.path]: current.includes(hunkId) ? current.filter(id => id !== hunkId) : [...current, hunkId],
+      };
+    });
+  };
+
+  const revealHunk = (hunk: DiffHunk) => {
+    const line = hunk.modifiedLines.length > 0 ? hunk.modifiedStart + 1 : hunk.originalStart + 1;
+    const editor = hunk.modifiedLines.length > 0
+      ? diffEditorRef.current?.getModifiedEditor()
+      : diffEditorRef.current?.getOriginalEditor();
+    editor?.revealLineInCenter(line, monaco.editor.ScrollType.Smooth);
+  };
+
+  const handleDiffMount: DiffOnMount = (editor) => {
+    diffEditorRef.current = editor;
+  };
+
+  const acceptedCount = files.filter(f => getFileState(f) !== 'none').length;
+
+  const handleApply = () => {
+    const filesToUpdate: AiFile[] = [];
+    const pathsToDelete: string[] = [];
+    for (const file of files) {
+      if (isWholeFile(file)) {
+        if (!acceptedWholeFiles.includes(file.path)) continue;
+        if (file.kind === 'delete') pathsToDelete.push(file.path);
+        else filesToUpdate.push({ path: file.path, content: file.modified });
+        continue;
+      }
+      const accepted = acceptedHunks[file.path] || [];
+      if (accepted.length === 0) continue;
+      const content = accepted.length === file.hunks.length
+        ? file.modified
+        : applyHunks(file.original, file.hunks, accepted);
+      filesToUpdate.push({ path: file.path, content });
+    }
+    onApply(filesToUpdate, pathsToDelete);
+  };
+
+  const checkboxIcon = (state: 'all' | 'some' | 'none') =>
+    state === 'all' ? 'check_box' : state === 'some' ? 'indeterminate_check_box' : 'check_box_outline_blank';
+
+  return (
+    <div className="absolute inset-0 bg-black/60 flex items-center justify-center z-50 backdrop-blur-sm" role="dialog" aria-modal="true" aria-labelledby="review-changes-title">
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-6xl h-[85vh] mx-4 flex flex-col">
+        <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700">
+          <h3 className="text-lg leading-6 font-bold text-slate-900 dark:text-white" id="review-changes-title">Review AI Changes</h3>
+          <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
+            Accept or reject each file or individual change. Only accepted changes are applied to your project.
+          </p>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <div className="w-64 border-r border-slate-200 dark:border-slate-700 overflow-y-auto p-2 flex-shrink-0">
+            {files.length === 0 && (
+              <p className="text-sm text-slate-500 dark:text-slate-400 p-2">The AI did not propose any file changes.</p>
+            )}
+            {files.map(file => {
+              const state = getFileState(file);
+              const badge = KIND_BADGES[file.kind];
+              return (
+                <div
+                  key={file.path}
+                  onClick={() => setSelectedPath(file.path)}
+                  className={`flex items-center gap-2 px-2 py-1.5 rounded cursor-pointer text-sm ${selectedPath === file.path ? 'bg-blue-600/20 dark:bg-slate-700/80' : 'hover:bg-slate-100 dark:hover:bg-slate-700/50'}`}
+                >
+                  <Icon
+                    name={checkboxIcon(state)}
+                    className="text-lg text-blue-600 dark:text-blue-400"
+                    onClick={(e) => { e.stopPropagation(); setFileAccepted(file, state !== 'all'); }}
+                  />
+                  <span className={`truncate flex-1 font-mono text-xs ${state === 'none' ? 'line-through opacity-60' : ''}`} title={file.path}>{file.path}</span>
+                  <span className={`text-xs font-bold ${badge.className}`}>{badge.label}</span>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex-1 flex flex-col min-w-0">
+            {selectedFile ? (
+              <>
+                <div className="flex items-center justify-between px-4 py-2 border-b border-slate-200 dark:border-slate-700 text-sm">
+                  <span className="font-mono truncate text-slate-700 dark:text-slate-300">{selectedFile.path}</span>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <button onClick={() => setFileAccepted(selectedFile, false)} className="px-2 py-1 rounded text-xs font-medium border border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700">
+                      Reject file
+                    </button>
+                    <button onClick={() => setFileAccepted(selectedFile, true)} className="px-2 py-1 rounded text-xs font-medium bg-blue-600 text-white hover:bg-blue-700">
+                      Accept file
+                    </button>
+                  </div>
+                </div>
+                <div className="flex-1 min-h-0">
+                  <DiffEditor
+                    key={selectedFile.path}
+                    height="100%"
+                    original={selectedFile.original}
+                    modified={selectedFile.modified}
+                    originalModelPath={`review-original://${selectedFile.path}`}
+                    modifiedModelPath={`review-modified://${selectedFile.path}`}
+                    language={getLanguageForFile(selectedFile.path)}
+                    theme={resolvedTheme === 'dark' ? 'vs-dark' : 'vs-light'}
+                    onMount={handleDiffMount}
+                    options={{
+                      readOnly: true,
+                      minimap: { enabled: false },
+                      fontSize: 13,
+                      scrollBeyondLastLine: false,
+                      automaticLayout: true,
+                      fontFamily: "'JetBrains Mono', monospace",
+                    }}
+                  />
+                </div>
+                {!isWholeFile(selectedFile) && (
+                  <div className="max-h-40 overflow-y-auto border-t border-slate-200 dark:border-slate-700 p-2 space-y-1">
+                    {selectedFile.hunks.map(hunk => {
+                      const isAccepted = (acceptedHunks[selectedFile.path] || []).includes(hunk.id);
+                      return (
+                        <div key={hunk.id} className="flex items-center gap-3 text-xs px-2 py-1 rounded hover:bg-slate-100 dark:hover:bg-slate-700/50">
+                          <Icon
+                            name={isAccepted ? 'check_box' : 'check_box_outline_blank'}
+                            className="text-lg text-blue-600 dark:text-blue-400 cursor-pointer"
+                            onClick={() => toggleHunk(selectedFile, hunk.id)}
+                          />
+                          <button onClick={() => revealHunk(hunk)} className="flex-1 text-left font-mono hover:underline">
+                            Line {hunk.modifiedStart + 1}
+                          </button>
+                          <span className="text-green-600 dark:text-green-400">+{hunk.modifiedLines.length}</span>
+                          <span className="text-red-600 dark:text-red-400">−{hunk.originalLines.length}</span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </>
+            ) : (
+              <div className="flex-1 flex items-center justify-center text-slate-400 dark:text-slate-500 text-sm">
+                Select a file to review its changes.
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="px-6 py-4 flex justify-end gap-3 border-t border-slate-200 dark:border-slate-700">
+          <button
+            type="button"
+            onClick={onDiscard}
+            className="px-4 py-2 text-sm font-medium rounded-md border border-slate-300 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-800 dark:text-slate-200"
+          >
+            Discard All
+          </button>
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={acceptedCount === 0}
+            className="px-4 py-2 text-sm font-medium rounded-md border border-transparent bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-400 dark:disabled:bg-slate-600 disabled:cursor-not-allowed"
+          >
+            Apply {acceptedCount} {acceptedCount === 1 ? 'file' : 'files'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChangeReviewPanel;
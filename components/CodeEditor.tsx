@@ -1,6 +1,8 @@
-import React, { useRef, useEffect, useMemo, useCallback } from 'react';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
 import { FileNode, SearchMatch } from '../types';
-import { FILE_ICONS, getLanguageForFile } from '../lib/project-utils';
+import { FILE_ICONS, getLanguageForFile, isBinaryContent } from '../lib/project-utils';
+import { parseConflicts, resolveConflicts, ConflictResolution } from '../lib/merge-conflicts';
+import { Problem } from '../lib/problems';
 import Icon from './Icon';
 import Editor, { Monaco } from '@monaco-editor/react';
 import { useTheme } from '../contexts/ThemeContext';
@@ -8,12 +10,13 @@ import * as monaco from 'monaco-editor';
 
 interface CodeEditorProps {
   file: FileNode | null;
-  projectStructure: FileNode[]; // New prop
   onChange?: (path: string, content: string) => void;
   matchesForFile?: SearchMatch[];
-  activeMatch?: { path: string; lineNumber: number } | null;
+  activeMatch?: { path: string; lineNumber: number; column?: number } | null; // With a column, the cursor is placed there.
   isLoadingAI?: boolean;
+  isStreaming?: boolean;
   onRequestRefactor?: (path: string, selectedCode: string) => void;
+  lintProblems?: Problem[]; // ESLint results for this file, shown as markers.
 }
 
 const FileIcon: React.FC<{ filename: string }> = ({ filename }) => {
@@ -23,94 +26,71 @@ const FileIcon: React.FC<{ filename: string }> = ({ filename }) => {
 };
 
 
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  bmp: 'image/bmp',
+  ico: 'image/x-icon',
+};
+
+const getImageMimeType = (fileName: string): string | undefined =>
+  IMAGE_MIME_TYPES[fileName.split('.').pop()?.toLowerCase() || ''];
+
+// Binary files (images, fonts, ...) are shown read-only; images get a preview.
+const BinaryFileView: React.FC<{ file: FileNode; content: Uint8Array }> = ({ file, content }) => {
+    const [imageUrl, setImageUrl] = useState<string | null>(null);
+    const mimeType = getImageMimeType(file.name);
+
+    useEffect(() => {
+        if (!mimeType) return;
+        const url = URL.createObjectURL(new Blob([content as Uint8Array<ArrayBuffer>], { type: mimeType }));
+        setImageUrl(url);
+        return () => URL.revokeObjectURL(url);
+    }, [content, mimeType]);
+
+    return (
+      <div className="flex flex-col items-center justify-center h-full gap-3 p-4 text-slate-500 dark:text-slate-400 text-sm">
+        {imageUrl ? (
+          <img src={imageUrl} alt={file.name} className="max-w-full max-h-[70%] object-contain border border-slate-200 dark:border-slate-700" />
+        ) : (
+          <Icon name="description" className="text-5xl" />
+        )}
+        <p>{file.name} is a binary file ({(content.byteLength / 1024).toFixed(1)} KB) and cannot be edited here.</p>
+      </div>
+    );
+};
+
+const revealMatch = (editor: monaco.editor.IStandaloneCodeEditor, match: { lineNumber: number; column?: number }) => {
+  editor.revealLineInCenter(match.lineNumber, monaco.editor.ScrollType.Smooth);
+  if (match.column !== undefined) {
+    editor.setPosition({ lineNumber: match.lineNumber, column: match.column });
+    editor.focus();
+  }
+};
+
 const CodeEditor: React.FC<CodeEditorProps> & { FileIcon: typeof FileIcon } = ({ 
   file,
-  projectStructure, 
   onChange, 
   matchesForFile, 
   activeMatch, 
   isLoadingAI, 
-  onRequestRefactor 
+  isStreaming,
+  onRequestRefactor,
+  lintProblems
 }) => {
   const { resolvedTheme } = useTheme();
   const editorRef = useRef<monaco.editor.IStandaloneCodeEditor | null>(null);
   const monacoRef = useRef<Monaco | null>(null);
-  const extraLibsRef = useRef<Map<string, monaco.IDisposable>>(new Map());
   const decorationIdsRef = useRef<string[]>([]);
+  const conflictDecorationIdsRef = useRef<string[]>([]);
+  const [conflictIndex, setConflictIndex] = useState(0);
+  const [mountedEditor, setMountedEditor] = useState<monaco.editor.IStandaloneCodeEditor | null>(null);
   const actionAddedRef = useRef(false);
-
-  // --- START: New logic for project-wide intellisense ---
-
-  const allFiles = useMemo(() => {
-    const files = new Map<string, string>();
-    const walk = (nodes: FileNode[]) => {
-      for (const node of nodes) {
-        if (node.type === 'file' && typeof node.content === 'string') {
-          files.set(node.path, node.content);
-        }
-        if (node.children) {
-          walk(node.children);
-        }
-      }
-    };
-    walk(projectStructure);
-    return files;
-  }, [projectStructure]);
-
-  const updateTypeScriptLibs = useCallback((filesToUpdate: Map<string, string>) => {
-    const monacoInstance = monacoRef.current;
-    if (!monacoInstance) return;
-
-    const allFileUris = new Set<string>();
-    filesToUpdate.forEach((_, path) => allFileUris.add(`file://${path}`));
-    
-    // Add or update libs
-    for (const [path, content] of filesToUpdate.entries()) {
-        const uri = `file://${path}`;
-        const currentLib = extraLibsRef.current.get(uri);
-        // Using `getScriptVersion` is a potential optimization, but `addExtraLib` handles updates internally.
-        // For simplicity and robustness, we dispose and re-add.
-        if (currentLib) {
-            currentLib.dispose();
-        }
-        // FIX: The `content` from a file node might not be a string. This type guard
-        // ensures we only pass string content to `addExtraLib`, fixing a potential type error.
-        // FIX: Argument of type 'unknown' is not assignable to parameter of type 'string'.
-        // Added a type guard to ensure content is a string before passing to addExtraLib.
-        if (typeof content === 'string') {
-          const newLib = monacoInstance.languages.typescript.typescriptDefaults.addExtraLib(content, uri);
-          extraLibsRef.current.set(uri, newLib);
-        }
-    }
-    
-    // Clean up libs for deleted files
-    const currentLibUris = new Set(extraLibsRef.current.keys());
-    for (const uri of currentLibUris) {
-        if (!allFileUris.has(uri)) {
-            extraLibsRef.current.get(uri)?.dispose();
-            extraLibsRef.current.delete(uri);
-        }
-    }
-  }, []);
-
-  useEffect(() => {
-    if (monacoRef.current) {
-      updateTypeScriptLibs(allFiles);
-    }
-  }, [allFiles, updateTypeScriptLibs]);
-
-  // Cleanup on unmount
-  useEffect(() => {
-    const libs = extraLibsRef.current;
-    return () => {
-        for (const lib of libs.values()) {
-            lib.dispose();
-        }
-        libs.clear();
-    };
-  }, []);
-
-  // --- END: New logic ---
+  const isApplyingExternalValueRef = useRef(false);
 
   useEffect(() => {
     const editor = editorRef.current;
@@ -136,25 +116,104 @@ const CodeEditor: React.FC<CodeEditorProps> & { FileIcon: typeof FileIcon } = ({
     decorationIdsRef.current = editor.deltaDecorations(decorationIdsRef.current, newDecorations);
     
     if (activeMatch && activeMatch.path === file.path) {
-      editor.revealLineInCenter(activeMatch.lineNumber, monaco.editor.ScrollType.Smooth);
+      revealMatch(editor, activeMatch);
     }
   }, [file, matchesForFile, activeMatch]);
 
+  const conflicts = useMemo(
+    () => (file && typeof file.content === 'string' ? parseConflicts(file.content) : []),
+    [file]
+  );
+  const activeConflict = conflicts[Math.min(conflictIndex, conflicts.length - 1)];
+
+  // Merge conflicts: highlight our side, their side and the marker lines.
+  useEffect(() => {
+    const editor = mountedEditor;
+    if (!editor) return;
+    const lineRange = (start: number, end: number, className: string): monaco.editor.IModelDeltaDecoration[] =>
+      end < start ? [] : [{ range: new monaco.Range(start, 1, end, 1), options: { isWholeLine: true, className } }];
+    const newDecorations = conflicts.flatMap(conflict => [
+      ...lineRange(conflict.startLine, conflict.startLine, 'merge-conflict-marker'),
+      ...lineRange(conflict.startLine + 1, conflict.separatorLine - 1, 'merge-conflict-current'),
+      ...lineRange(conflict.separatorLine, conflict.separatorLine, 'merge-conflict-marker'),
+      ...lineRange(conflict.separatorLine + 1, conflict.endLine - 1, 'merge-conflict-incoming'),
+      ...lineRange(conflict.endLine, conflict.endLine, 'merge-conflict-marker'),
+    ]);
+    conflictDecorationIdsRef.current = editor.deltaDecorations(conflictDecorationIdsRef.current, newDecorations);
+  }, [conflicts, mountedEditor]);
+
+  // Lint markers sit beside the TypeScript service's own, under a separate owner.
+  useEffect(() => {
+    const model = mountedEditor?.getModel();
+    const m = monacoRef.current;
+    if (!model || !m) return;
+    const severities: Record<Problem['severity'], monaco.MarkerSeverity> = {
+      error: m.MarkerSeverity.Error,
+      warning: m.MarkerSeverity.Warning,
+      info: m.MarkerSeverity.Info,
+    };
+    m.editor.setModelMarkers(model, 'eslint', (lintProblems || []).map(problem => ({
+      startLineNumber: problem.line,
+      startColumn: problem.column,
+      endLineNumber: problem.endLine ?? problem.line,
+      endColumn: problem.endColumn ?? problem.column + 1,
+      message: problem.message,
+      code: problem.code,
+      severity: severities[problem.severity],
+      source: 'eslint',
+    })));
+  }, [lintProblems, file?.path, mountedEditor]);
+
+  const revealConflict = (index: number) => {
+    const conflict = conflicts[index];
+    if (!conflict) return;
+    setConflictIndex(index);
+    editorRef.current?.revealLineInCenter(conflict.startLine, monaco.editor.ScrollType.Smooth);
+    editorRef.current?.setPosition({ lineNumber: conflict.startLine, column: 1 });
+  };
+
+  const handleResolveConflict = (resolution: ConflictResolution, all: boolean) => {
+    if (!file || typeof file.content !== 'string' || !onChange || !activeConflict) return;
+    onChange(file.path, resolveConflicts(file.content, resolution, all ? null : activeConflict.startLine));
+  };
+
+  // Models are cached per path, so content written outside the editor (AI changes,
+  // streaming, replace-all) has to be pushed into the model explicitly.
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    if (!model || !file || typeof file.content !== 'string') return;
+    if (model.getValue() === file.content) return;
+
+    // Keeps the cursor and scroll position when the file is rewritten in place, e.g. formatted on save.
+    const viewState = editorRef.current?.saveViewState();
+    isApplyingExternalValueRef.current = true;
+    model.setValue(file.content);
+    isApplyingExternalValueRef.current = false;
+
+    if (isStreaming) {
+      editorRef.current?.revealLine(model.getLineCount());
+    } else if (viewState) {
+      editorRef.current?.restoreViewState(viewState);
+    }
+  }, [file, isStreaming]);
+
   const handleEditorDidMount = (editor: monaco.editor.IStandaloneCodeEditor, m: typeof monaco) => {
     editorRef.current = editor;
     monacoRef.current = m;
+    conflictDecorationIdsRef.current = [];
+    setMountedEditor(editor);
 
-    m.languages.typescript.typescriptDefaults.setCompilerOptions({
-        target: m.languages.typescript.ScriptTarget.ESNext,
-        moduleResolution: m.languages.typescript.ModuleResolutionKind.NodeJs,
-        jsx: m.languages.typescript.JsxEmit.ReactJSX,
-        allowSyntheticDefaultImports: true,
-        esModuleInterop: true,
-        allowNonTsExtensions: true,
-    });
-    
-    // Initial sync of files
-    updateTypeScriptLibs(allFiles);
+    const model = editor.getModel();
+    if (model && file && typeof file.content === 'string' && model.getValue() !== file.content) {
+        isApplyingExternalValueRef.current = true;
+        model.setValue(file.content);
+        isApplyingExternalValueRef.current = false;
+    }
+
+    // Opening a file to show a match mounts a new editor after the match was set.
+    if (file && activeMatch?.path === file.path) {
+        revealMatch(editor, activeMatch);
+    }
 
     if (onRequestRefactor && !actionAddedRef.current) {
         editor.addAction({
@@ -185,7 +244,12 @@ const CodeEditor: React.FC<CodeEditorProps> & { FileIcon: typeof FileIcon } = ({
     );
   }
   
+  if (isBinaryContent(file.content)) {
+    return <BinaryFileView file={file} content={file.content} />;
+  }
+
   const handleEditorChange = (value: string | undefined) => {
+    if (isApplyingExternalValueRef.current) return;
     if (onChange && value !== undefined) {
       onChange(file.path, value);
     }
@@ -193,27 +257,55 @@ const CodeEditor: React.FC<CodeEditorProps> & { FileIcon: typeof FileIcon } = ({
 
   const language = getLanguageForFile(file.name);
 
+  const showConflicts = conflicts.length > 0 && !!onChange;
+  const conflictButtonClass = 'px-2 py-0.5 rounded border border-slate-300 dark:border-slate-600 hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-50';
+  const position = conflicts.indexOf(activeConflict);
+
+  // The editor keeps the same parent whether or not the toolbar shows, so Monaco is not remounted.
   return (
-    <Editor
-      height="100%"
-      path={`file://${file.path}`} // Use file URI for model
-      defaultLanguage={language}
-      defaultValue={file.content}
-      onChange={handleEditorChange}
-      onMount={handleEditorDidMount}
-      theme={resolvedTheme === 'dark' ? 'vs-dark' : 'vs-light'}
-      options={{
-        minimap: { enabled: false },
-        fontSize: 14,
-        wordWrap: 'on',
-        scrollBeyondLastLine: false,
-        automaticLayout: true,
-        fontFamily: "'JetBrains Mono', monospace",
-        readOnly: isLoadingAI,
-        contextmenu: true,
-      }}
-      key={file.path} // Re-mount editor when file path changes to ensure correct model
-    />
+    <div className="flex flex-col h-full">
+      {showConflicts && (
+        <div className="flex items-center gap-2 px-3 py-1.5 text-xs border-b border-slate-200 dark:border-slate-700 bg-amber-50 dark:bg-amber-900/20 text-amber-900 dark:text-amber-200 flex-shrink-0">
+          <Icon name="call_merge" className="text-base" />
+          <span className="font-medium">Conflict {position + 1} of {conflicts.length}</span>
+          <button onClick={() => revealConflict(Math.max(0, position - 1))} disabled={position === 0} className="p-0.5 rounded hover:bg-amber-100 dark:hover:bg-amber-800/40 disabled:opacity-40" title="Previous conflict">
+            <Icon name="arrow_upward" className="text-base" />
+          </button>
+          <button onClick={() => revealConflict(Math.min(conflicts.length - 1, position + 1))} disabled={position === conflicts.length - 1} className="p-0.5 rounded hover:bg-amber-100 dark:hover:bg-amber-800/40 disabled:opacity-40" title="Next conflict">
+            <Icon name="arrow_downward" className="text-base" />
+          </button>
+          <div className="flex-1" />
+          <button onClick={() => handleResolveConflict('current', false)} disabled={isLoadingAI} className={conflictButtonClass} title={activeConflict.currentLabel}>Accept Current</button>
+          <button onClick={() => handleResolveConflict('incoming', false)} disabled={isLoadingAI} className={conflictButtonClass} title={activeConflict.incomingLabel}>Accept Incoming</button>
+          <button onClick={() => handleResolveConflict('both', false)} disabled={isLoadingAI} className={conflictButtonClass}>Accept Both</button>
+          <span className="w-px h-4 bg-amber-300 dark:bg-amber-700" />
+          <button onClick={() => handleResolveConflict('current', true)} disabled={isLoadingAI} className={conflictButtonClass}>All Current</button>
+          <button onClick={() => handleResolveConflict('incoming', true)} disabled={isLoadingAI} className={conflictButtonClass}>All Incoming</button>
+        </div>
+      )}
+      <div className="flex-1 min-h-0">
+        <Editor
+          height="100%"
+          path={`file://${file.path}`} // Use file URI for model
+          defaultLanguage={language}
+          defaultValue={file.content}
+          onChange={handleEditorChange}
+          onMount={handleEditorDidMount}
+          theme={resolvedTheme === 'dark' ? 'vs-dark' : 'vs-light'}
+          options={{
+            minimap: { enabled: false },
+            fontSize: 14,
+            wordWrap: 'on',
+            scrollBeyondLastLine: false,
+            automaticLayout: true,
+            fontFamily: "'JetBrains Mono', monospace",
+            readOnly: isLoadingAI,
+            contextmenu: true,
+          }}
+          key={file.path} // Re-mount editor when file path changes to ensure correct model
+        />
+      </div>
+    </div>
   );
 };
 
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import Icon from './Icon';
+import { DeclaredDependency, DependencyKind, DEPENDENCY_KINDS, DEFAULT_REGISTRY_URL, isOutdated } from '../lib/dependencies';
+
+interface DependenciesPanelProps {
+  dependencies: DeclaredDependency[];
+  hasPackageJson: boolean;
+  installedVersions: Record<string, string | null>; // From node_modules; null if not installed.
+  latestVersions: Record<string, string | null>; // From the registry; missing until checked, null if the lookup failed.
+  registryUrl: string;
+  isEnvironmentReady: boolean;
+  isBusy: boolean; // An npm command is running.
+  isCheckingOutdated: boolean;
+  onAdd: (spec: string, kind: DependencyKind) => void;
+  onRemove: (dependency: DeclaredDependency) => void;
+  onUpgrade: (dependency: DeclaredDependency) => void;
+  onCheckOutdated: () => void;
+  onSetRegistryUrl: (url: string) => void;
+}
+
+const KIND_LABELS: Record<DependencyKind, string> = {
+  dependencies: 'Dependencies',
+  devDependencies: 'Dev Dependencies',
+};
+
+const DependenciesPanel: React.FC<DependenciesPanelProps> = ({
+  dependencies,
+  hasPackageJson,
+  installedVersions,
+  latestVersions,
+  registryUrl,
+  isEnvironmentReady,
+  isBusy,
+  isCheckingOutdated,
+  onAdd,
+  onRemove,
+  onUpgrade,
+  onCheckOutdated,
+  onSetRegistryUrl,
+}) => {
+  const [spec, setSpec] = useState('');
+  const [kind, setKind] = useState<DependencyKind>('dependencies');
+  const [isRegistryFormVisible, setRegistryFormVisible] = useState(false);
+  const [registryDraft, setRegistryDraft] = useState(registryUrl);
+
+  const canRunNpm = isEnvironmentReady && !isBusy;
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!spec.trim() || !canRunNpm) return;
+    onAdd(spec, kind);
+    setSpec('');
+  };
+
+  const handleSaveRegistry = () => {
+    onSetRegistryUrl(registryDraft.trim() || DEFAULT_REGISTRY_URL);
+    setRegistryFormVisible(false);
+  };
+
+  const outdatedCount = dependencies.filter(dependency => {
+    const latest = latestVersions[dependency.name];
+    return latest && isOutdated(installedVersions[dependency.name] || dependency.range, latest);
+  }).length;
+
+  return (
+    <div className="bg-white dark:bg-[#252526] h-full flex flex-col text-slate-700 dark:text-slate-300">
+      <div className="bg-slate-100 dark:bg-[#252526] px-4 h-[37px] flex items-center justify-between border-b border-slate-300 dark:border-slate-700/50">
+        <h3 className="font-medium text-slate-800 dark:text-slate-200 text-sm uppercase tracking-wider">
+          Dependencies
+        </h3>
+        <div className="flex items-center gap-1">
+          <button onClick={onCheckOutdated} disabled={isCheckingOutdated || dependencies.length === 0} className="p-1 rounded hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-50" title="Check for updates">
+            <Icon name="update" className={`text-base ${isCheckingOutdated ? 'animate-spin' : ''}`} />
+          </button>
+          <button onClick={() => { setRegistryDraft(registryUrl); setRegistryFormVisible(prev => !prev); }} className="p-1 rounded hover:bg-slate-200 dark:hover:bg-slate-600" title="Registry settings">
+            <Icon name="settings" className="text-base" />
+          </button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-y-auto text-sm">
+        {isRegistryFormVisible && (
+          <div className="p-3 space-y-2 border-b border-slate-200 dark:border-slate-700/50">
+            <label className="block text-xs text-slate-500 dark:text-slate-400">Registry URL, used for update checks and installs</label>
+            <input
+              type="url"
+              value={registryDraft}
+              onChange={(e) => setRegistryDraft(e.target.value)}
+              placeholder={DEFAULT_REGISTRY_URL}
+              className="w-full bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setRegistryFormVisible(false)} className="px-2 py-1 text-xs rounded border border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700">Cancel</button>
+              <button onClick={handleSaveRegistry} className="px-2 py-1 text-xs font-medium rounded bg-blue-600 text-white hover:bg-blue-700">Save</button>
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={handleAdd} className="p-3 space-y-2 border-b border-slate-200 dark:border-slate-700/50">
+          <div className="flex gap-1">
+            <input
+              type="text"
+              value={spec}
+              onChange={(e) => setSpec(e.target.value)}
+              placeholder="Package, e.g. zod or react-router@6"
+              spellCheck={false}
+              className="flex-1 min-w-0 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded px-2 py-1 text-sm font-mono focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+            <button type="submit" disabled={!spec.trim() || !canRunNpm} className="px-2 py-1 text-xs font-medium rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50">
+              Add
+            </button>
+          </div>
+          <label className="flex items-center gap-2 text-xs cursor-pointer">
+            <input type="checkbox" checked={kind === 'devDependencies'} onChange={(e) => setKind(e.target.checked ? 'devDependencies' : 'dependencies')} />
+            Development dependency
+          </label>
+          {!isEnvironmentReady && <p className="text-xs text-slate-500 dark:text-slate-400">Available once the environment has finished installing.</p>}
+          {isBusy && (
+            <p className="flex items-center gap-1 text-xs text-slate-500 dark:text-slate-400">
+              <Icon name="progress_activity" className="text-sm animate-spin" />
+              Running npm. Output appears in the console.
+            </p>
+          )}
+          {outdatedCount > 0 && <p className="text-xs text-amber-600 dark:text-amber-400">{outdatedCount} package{outdatedCount === 1 ? '' : 's'} can be upgraded.</p>}
+        </form>
+
+        {!hasPackageJson && (
+          <p className="p-3 text-xs text-slate-500 dark:text-slate-400">This project has no package.json.</p>
+        )}
+
+        {DEPENDENCY_KINDS.map(dependencyKind => {
+          const items = dependencies.filter(dependency => dependency.kind === dependencyKind);
+          if (items.length === 0) return null;
+          return (
+            <div key={dependencyKind} className="py-1">
+              <div className="px-3 py-1 text-xs font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400">
+                {KIND_LABELS[dependencyKind]} ({items.length})
+              </div>
+              {items.map(dependency => {
+                const installed = installedVersions[dependency.name];
+                const latest = latestVersions[dependency.name];
+                const canUpgrade = !!latest && isOutdated(installed || dependency.range, latest);
+                return (
+                  <div key={dependency.name} className="group flex items-center gap-2 px-3 py-1 hover:bg-slate-100 dark:hover:bg-slate-700/50">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-mono text-xs truncate" title={dependency.name}>{dependency.name}</div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400">
+                        <span title="Range in package.json">{dependency.range}</span>
+                        {' · '}
+                        {installed === undefined ? '…' : installed === null
+                          ? <span className="text-red-600 dark:text-red-400">not installed</span>
+                          : <span title="Installed in node_modules">{installed}</span>}
+                        {canUpgrade && <span className="text-amber-600 dark:text-amber-400">{` → ${latest}`}</span>}
+                      </div>
+                    </div>
+                    {canUpgrade && (
+                      <button onClick={() => onUpgrade(dependency)} disabled={!canRunNpm} className="px-1.5 py-0.5 text-xs rounded border border-slate-300 dark:border-slate-600 hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-50" title={`Install ${dependency.name}@${latest}`}>
+                        Upgrade
+                      </button>
+                    )}
+                    <button onClick={() => onRemove(dependency)} disabled={!canRunNpm} className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-50" title={`Uninstall ${dependency.name}`}>
+                      <Icon name="delete" className="text-base" />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default DependenciesPanel;
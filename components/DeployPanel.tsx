@@ -1,7 +1,97 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import Icon from './Icon';
+import { BuildResult, BUILD_OUTPUT_DIR } from '../lib/build';
+import { DeploySettings, DeployRecord, DeployAdapterId, DEFAULT_NETLIFY_API_URL } from '../lib/deploy';
+
+interface DeployPanelProps {
+  isEnvironmentReady: boolean; // Dependencies are installed, so a build can run.
+  isBuilding: boolean;
+  buildLogs: string;
+  buildResult: BuildResult | null;
+  previewUrl: string | null;
+  isPreviewStarting: boolean;
+  onBuild: () => void;
+  onStartPreview: () => void;
+  onStopPreview: () => void;
+  onDownload: () => void;
+  deploySettings: DeploySettings | undefined;
+  deployments: DeployRecord[];
+  isDeploying: boolean;
+  deployProgress: string | null;
+  onSaveDeploySettings: (settings: DeploySettings) => void;
+  onDeploy: () => void;
+  onRollback: (record: DeployRecord) => void;
+}
+
+const ADAPTER_LABELS: Record<DeployAdapterId, string> = {
+  'http': 'Generic HTTP upload',
+  'netlify': 'Netlify-style file digest',
+};
+
+const EMPTY_SETTINGS: DeploySettings = { adapter: 'http', endpoint: '', uploadMode: 'zip', authHeader: 'Authorization', authValue: '' };
+
+const inputClassName = 'w-full bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const DeployPanel: React.FC<DeployPanelProps> = ({
+  isEnvironmentReady,
+  isBuilding,
+  buildLogs,
+  buildResult,
+  previewUrl,
+  isPreviewStarting,
+  onBuild,
+  onStartPreview,
+  onStopPreview,
+  onDownload,
+  deploySettings,
+  deployments,
+  isDeploying,
+  deployProgress,
+  onSaveDeploySettings,
+  onDeploy,
+  onRollback,
+}) => {
+  const logsRef = useRef<HTMLPreElement>(null);
+  const [isSettingsFormVisible, setSettingsFormVisible] = useState(false);
+  const [settingsForm, setSettingsForm] = useState<DeploySettings>(deploySettings || EMPTY_SETTINGS);
+
+  const openSettingsForm = () => {
+    setSettingsForm(deploySettings || EMPTY_SETTINGS);
+    setSettingsFormVisible(true);
+  };
+
+  const updateSettingsForm = (changes: Partial<DeploySettings>) => setSettingsForm(prev => ({ ...prev, ...changes }));
+
+  const handleAdapterChange = (adapter: DeployAdapterId) => {
+    updateSettingsForm(adapter === 'netlify'
+      ? { adapter, endpoint: settingsForm.endpoint || DEFAULT_NETLIFY_API_URL }
+      : { adapter, endpoint: settingsForm.endpoint === DEFAULT_NETLIFY_API_URL ? '' : settingsForm.endpoint });
+  };
+
+  const handleSaveSettings = () => {
+    onSaveDeploySettings({ ...settingsForm, endpoint: settingsForm.endpoint.trim() });
+    setSettingsFormVisible(false);
+  };
+
+  // The deploy currently live is the latest successful one; rolling back to it would change nothing.
+  const liveDeployId = deployments.find(record => record.status === 'success')?.id;
+
+  useEffect(() => {
+    if (logsRef.current) logsRef.current.scrollTop = logsRef.current.scrollHeight;
+  }, [buildLogs]);
+
+  const isSuccessful = buildResult !== null && buildResult.exitCode === 0 && buildResult.files.size > 0;
+  const totalSize = buildResult ? buildResult.assets.reduce((sum, asset) => sum + asset.size, 0) : 0;
+  const totalGzipSize = buildResult && buildResult.assets.every(asset => asset.gzipSize !== null)
+    ? buildResult.assets.reduce((sum, asset) => sum + (asset.gzipSize || 0), 0)
+    : null;
 
-const DeployPanel: React.FC = () => {
   return (
     <div className="bg-white dark:bg-[#252526] h-full flex flex-col text-slate-700 dark:text-slate-300">
       <div className="bg-slate-100 dark:bg-[#252526] px-4 h-[37px] flex items-center border-b border-slate-300 dark:border-slate-700/50">
@@ -9,12 +99,203 @@ const DeployPanel: React.FC = () => {
           Deploy
         </h3>
       </div>
-      <div className="flex-1 p-4 overflow-y-auto text-sm">
-        <div className="flex flex-col items-center justify-center h-full text-slate-500 dark:text-slate-400 text-center">
-            <Icon name="rocket_launch" className="text-5xl mb-4" />
-            <h4 className="font-semibold text-lg mb-2 text-slate-700 dark:text-slate-300">Deployment</h4>
-            <p>Deployment sekali klik ke berbagai platform akan segera hadir.</p>
+      <div className="flex-1 p-4 overflow-y-auto text-sm space-y-4">
+        <div className="space-y-2">
+          <button
+            onClick={onBuild}
+            disabled={!isEnvironmentReady || isBuilding}
+            className="w-full flex items-center justify-center gap-2 px-3 py-1.5 rounded text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Icon name={isBuilding ? 'progress_activity' : 'build'} className={`text-base ${isBuilding ? 'animate-spin' : ''}`} />
+            {isBuilding ? 'Building...' : 'Build'}
+          </button>
+          {!isEnvironmentReady && (
+            <p className="text-xs text-slate-500 dark:text-slate-400">Available once dependencies are installed.</p>
+          )}
+          {buildResult && !isBuilding && (
+            <p className={`text-xs ${isSuccessful ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+              {buildResult.exitCode !== 0
+                ? `Build failed with exit code ${buildResult.exitCode}.`
+                : isSuccessful
+                  ? `Built in ${(buildResult.durationMs / 1000).toFixed(1)}s at ${new Date(buildResult.finishedAt).toLocaleTimeString()}.`
+                  : `The build produced no files in ${BUILD_OUTPUT_DIR}.`}
+            </p>
+          )}
         </div>
+
+        {isSuccessful && (
+          <div className="flex items-center gap-2">
+            {previewUrl || isPreviewStarting ? (
+              <button onClick={onStopPreview} className="flex-1 flex items-center justify-center gap-1 px-2 py-1 text-xs font-medium rounded border border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700">
+                <Icon name="stop" className="text-base" />
+                {isPreviewStarting ? 'Starting Preview...' : 'Stop Preview'}
+              </button>
+            ) : (
+              <button onClick={onStartPreview} disabled={isBuilding} className="flex-1 flex items-center justify-center gap-1 px-2 py-1 text-xs font-medium rounded border border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50">
+                <Icon name="play_arrow" className="text-base" />
+                Preview Build
+              </button>
+            )}
+            <button onClick={onDownload} disabled={isBuilding} className="flex-1 flex items-center justify-center gap-1 px-2 py-1 text-xs font-medium rounded border border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50">
+              <Icon name="download" className="text-base" />
+              Download Build
+            </button>
+          </div>
+        )}
+
+        {previewUrl && (
+          <a href={previewUrl} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline truncate" title={previewUrl}>
+            <Icon name="open_in_new" className="text-sm" />
+            {previewUrl}
+          </a>
+        )}
+
+        {isSuccessful && buildResult && (
+          <div>
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400 mb-1">Assets</h4>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-slate-500 dark:text-slate-400">
+                  <th className="text-left font-medium py-1">File</th>
+                  <th className="text-right font-medium py-1">Size</th>
+                  <th className="text-right font-medium py-1">Gzip</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {buildResult.assets.map(asset => (
+                  <tr key={asset.path} className="border-t border-slate-200 dark:border-slate-700/50">
+                    <td className="py-1 pr-2 truncate max-w-[160px]" title={asset.path}>{asset.path}</td>
+                    <td className="py-1 text-right whitespace-nowrap">{formatBytes(asset.size)}</td>
+                    <td className="py-1 text-right whitespace-nowrap text-slate-500 dark:text-slate-400">{asset.gzipSize !== null ? formatBytes(asset.gzipSize) : '-'}</td>
+                  </tr>
+                ))}
+                <tr className="border-t border-slate-300 dark:border-slate-600 font-semibold">
+                  <td className="py-1">Total</td>
+                  <td className="py-1 text-right whitespace-nowrap">{formatBytes(totalSize)}</td>
+                  <td className="py-1 text-right whitespace-nowrap">{totalGzipSize !== null ? formatBytes(totalGzipSize) : '-'}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="space-y-2 pt-2 border-t border-slate-200 dark:border-slate-700/50">
+          <div className="flex items-center justify-between">
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400">Deploy</h4>
+            {!isSettingsFormVisible && (
+              <button onClick={openSettingsForm} className="p-1 rounded hover:bg-slate-200 dark:hover:bg-slate-600" title="Deploy target settings">
+                <Icon name="settings" className="text-base" />
+              </button>
+            )}
+          </div>
+          {isSettingsFormVisible ? (
+            <div className="space-y-2 p-2 rounded border border-slate-200 dark:border-slate-700">
+              <select value={settingsForm.adapter} onChange={(e) => handleAdapterChange(e.target.value as DeployAdapterId)} className={inputClassName}>
+                {(Object.keys(ADAPTER_LABELS) as DeployAdapterId[]).map(id => <option key={id} value={id}>{ADAPTER_LABELS[id]}</option>)}
+              </select>
+              <input
+                type="url"
+                value={settingsForm.endpoint}
+                onChange={(e) => updateSettingsForm({ endpoint: e.target.value })}
+                placeholder={settingsForm.adapter === 'netlify' ? DEFAULT_NETLIFY_API_URL : 'https://deploy.example.com/upload'}
+                className={inputClassName}
+              />
+              {settingsForm.adapter === 'http' ? (
+                <>
+                  <select value={settingsForm.uploadMode || 'zip'} onChange={(e) => updateSettingsForm({ uploadMode: e.target.value as DeploySettings['uploadMode'] })} className={inputClassName}>
+                    <option value="zip">POST one ZIP archive</option>
+                    <option value="files">PUT each file below the endpoint</option>
+                  </select>
+                  <div className="flex gap-2">
+                    <input type="text" value={settingsForm.authHeader || ''} onChange={(e) => updateSettingsForm({ authHeader: e.target.value })} placeholder="Authorization" className={`${inputClassName} w-2/5`} />
+                    <input type="password" value={settingsForm.authValue || ''} onChange={(e) => updateSettingsForm({ authValue: e.target.value })} placeholder="Header value (optional)" autoComplete="off" className={inputClassName} />
+                  </div>
+                  <input type="url" value={settingsForm.siteUrl || ''} onChange={(e) => updateSettingsForm({ siteUrl: e.target.value })} placeholder="Public site URL (optional)" className={inputClassName} />
+                </>
+              ) : (
+                <>
+                  <input type="text" value={settingsForm.siteId || ''} onChange={(e) => updateSettingsForm({ siteId: e.target.value })} placeholder="Site ID" className={inputClassName} />
+                  <input type="password" value={settingsForm.authValue || ''} onChange={(e) => updateSettingsForm({ authValue: e.target.value })} placeholder="Access token" autoComplete="off" className={inputClassName} />
+                </>
+              )}
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setSettingsFormVisible(false)} className="px-2 py-1 text-xs rounded border border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700">Cancel</button>
+                <button onClick={handleSaveSettings} disabled={!settingsForm.endpoint.trim()} className="px-2 py-1 text-xs font-medium rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50">Save</button>
+              </div>
+            </div>
+          ) : deploySettings ? (
+            <>
+              <p className="text-xs text-slate-500 dark:text-slate-400 truncate" title={deploySettings.endpoint}>
+                {ADAPTER_LABELS[deploySettings.adapter]}: {deploySettings.adapter === 'netlify' ? deploySettings.siteId : deploySettings.endpoint}
+              </p>
+              <button
+                onClick={onDeploy}
+                disabled={!isSuccessful || isBuilding || isDeploying}
+                className="w-full flex items-center justify-center gap-2 px-3 py-1.5 rounded text-sm font-medium border border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50"
+                title={isSuccessful ? 'Upload the current build' : 'Build the project first'}
+              >
+                <Icon name={isDeploying ? 'progress_activity' : 'cloud_upload'} className={`text-base ${isDeploying ? 'animate-spin' : ''}`} />
+                {isDeploying ? 'Deploying...' : 'Deploy'}
+              </button>
+            </>
+          ) : (
+            <button onClick={openSettingsForm} className="w-full flex items-center justify-center gap-1 px-2 py-1 text-xs font-medium rounded border border-dashed border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700">
+              <Icon name="cloud" className="text-base" />
+              Configure a deploy target
+            </button>
+          )}
+          {deployProgress && (
+            <p className="text-xs text-slate-500 dark:text-slate-400 truncate" title={deployProgress}>{deployProgress}</p>
+          )}
+          {deployments.length > 0 && (
+            <ul className="space-y-1">
+              {deployments.map(record => (
+                <li key={record.id} className="group flex items-start gap-2 text-xs p-1 rounded hover:bg-slate-100 dark:hover:bg-slate-700/50">
+                  <Icon
+                    name={record.status === 'success' ? 'check_circle' : 'error'}
+                    className={`text-base ${record.status === 'success' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span>{new Date(record.createdAt).toLocaleString()}</span>
+                      {record.id === liveDeployId && <span className="px-1 rounded bg-green-100 dark:bg-green-900/40 text-green-700 dark:text-green-300">live</span>}
+                    </div>
+                    <div className="font-mono text-slate-500 dark:text-slate-400 truncate">
+                      {record.commit ? record.commit.slice(0, 7) : 'no commit'}{record.snapshot ? ` · ${record.snapshot}` : ''}{record.rollbackOf ? ' · rollback' : ''}
+                    </div>
+                    {record.url && (
+                      <a href={record.url} target="_blank" rel="noopener noreferrer" className="block text-blue-600 dark:text-blue-400 hover:underline truncate" title={record.url}>{record.url}</a>
+                    )}
+                    {record.error && <p className="text-red-600 dark:text-red-400 break-words">{record.error}</p>}
+                  </div>
+                  {record.status === 'success' && record.id !== liveDeployId && deploySettings && (
+                    <button
+                      onClick={() => onRollback(record)}
+                      disabled={isDeploying}
+                      className="opacity-0 group-hover:opacity-100 px-1.5 py-0.5 rounded border border-slate-300 dark:border-slate-600 hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-50"
+                      title="Make this deploy live again"
+                    >
+                      Rollback
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {buildLogs ? (
+          <div>
+            <h4 className="text-xs font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400 mb-1">Logs</h4>
+            <pre ref={logsRef} className="max-h-64 overflow-auto p-2 rounded bg-slate-100 dark:bg-slate-900 text-xs font-mono whitespace-pre-wrap break-all">{buildLogs}</pre>
+          </div>
+        ) : !buildResult && !isBuilding && (
+          <div className="flex flex-col items-center justify-center text-slate-500 dark:text-slate-400 text-center pt-8">
+            <Icon name="rocket_launch" className="text-5xl mb-4" />
+            <h4 className="font-semibold text-lg mb-2 text-slate-700 dark:text-slate-300">Production Build</h4>
+            <p>Run <code className="font-mono">npm run build</code> to bundle the site into <code className="font-mono">{BUILD_OUTPUT_DIR}</code>, then preview or download it.</p>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,10 +1,13 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo } from 'react';
 import FileTree from './FileTree';
 import CodeEditor from './CodeEditor';
-import { FileNode, SearchResult, SearchMatch } from '../types';
+import { FileNode, SearchResult } from '../types';
 import Icon from './Icon';
-import { findFileByPath, getAllPaths } from '../lib/project-utils';
+import { findFileByPath } from '../lib/project-utils';
+import { isProtectedPath } from '../lib/path-policy';
 import ContextMenu, { ContextMenuOption } from './ContextMenu';
+import { GitChangeKind } from '../lib/git';
+import { Problem, ProblemCounts } from '../lib/problems';
 
 interface EditorColumnProps {
   projectStructure: FileNode[];
@@ -29,10 +32,13 @@ interface EditorColumnProps {
   canUndo: boolean;
   canRedo: boolean;
   searchResults: SearchResult[];
-  activeMatch: { path: string; lineNumber: number } | null;
+  activeMatch: { path: string; lineNumber: number; column?: number } | null;
   streamingFileOverrides: Record<string, string>;
   isLoadingAI: boolean;
   onRequestRefactor: (path: string, selectedCode: string) => void;
+  gitChanges?: Record<string, GitChangeKind>;
+  problemCounts?: Record<string, ProblemCounts>;
+  lintProblems?: Problem[];
 }
 
 const EditorColumn: React.FC<EditorColumnProps> = ({ 
@@ -61,7 +67,10 @@ const EditorColumn: React.FC<EditorColumnProps> = ({
     activeMatch,
     streamingFileOverrides,
     isLoadingAI,
-    onRequestRefactor
+    onRequestRefactor,
+    gitChanges,
+    problemCounts,
+    lintProblems
 }) => {
   const [isTreeCollapsed, setTreeCollapsed] = React.useState(false);
   const [panelHeights, setPanelHeights] = React.useState([40, 60]);
@@ -160,7 +169,13 @@ const EditorColumn: React.FC<EditorColumnProps> = ({
   
   const showVerticalResizer = !isTreeCollapsed;
   
-  let activeFile = openFiles.find(f => f.path === activeFilePath) || null;
+  // Files the AI is currently writing get a tab even if they don't exist in the project yet.
+  const streamingOnlyFiles: FileNode[] = Object.keys(streamingFileOverrides)
+    .filter(path => !openFiles.some(f => f.path === path))
+    .map(path => ({ name: path.split('/').pop() || path, type: 'file', path, content: '' }));
+  const tabFiles = [...openFiles, ...streamingOnlyFiles];
+
+  let activeFile = tabFiles.find(f => f.path === activeFilePath) || null;
   if (activeFile && streamingFileOverrides[activeFile.path] !== undefined) {
     activeFile = {
         ...activeFile,
@@ -169,6 +184,10 @@ const EditorColumn: React.FC<EditorColumnProps> = ({
   }
   
   const matchesForActiveFile = searchResults.find(r => r.path === activeFilePath)?.matches || [];
+  const lintProblemsForActiveFile = useMemo(
+    () => (lintProblems || []).filter(problem => problem.path === activeFilePath),
+    [lintProblems, activeFilePath]
+  );
 
   const getParentPathForNewNode = (): string => {
     if (selectedNodePaths.length === 0) return '/';
@@ -246,7 +265,7 @@ const EditorColumn: React.FC<EditorColumnProps> = ({
   const getContextMenuOptions = (): ContextMenuOption[] => {
     if (!contextMenu) return [];
     const { node } = contextMenu;
-    const isProtected = selectedNodePaths.some(p => ['/package.json', '/public', '/src', '/index.html', '/vite.config.ts'].includes(p));
+    const isProtected = selectedNodePaths.some(isProtectedPath);
 
     const options: ContextMenuOption[] = [
         { label: 'New File', icon: 'note_add', action: () => {
@@ -333,6 +352,8 @@ const EditorColumn: React.FC<EditorColumnProps> = ({
                 onCancelRename={() => setRenamingPath(null)}
                 onContextMenu={handleContextMenu}
                 onMoveNode={onMoveNode}
+                gitChanges={gitChanges}
+                problemCounts={problemCounts}
             />
           </div>
         )}
@@ -351,7 +372,7 @@ const EditorColumn: React.FC<EditorColumnProps> = ({
        <div className="flex flex-col flex-1" style={{ minHeight: '50px' }}>
         <div className="bg-slate-100 dark:bg-[#252526] flex items-center justify-between border-y border-slate-300 dark:border-slate-700/50 shrink-0">
             <div className="flex-1 flex items-center overflow-x-auto">
-                {openFiles.map(file => (
+                {tabFiles.map(file => (
                     <button
                         key={file.path}
                         onClick={() => onSelectTab(file.path)}
@@ -363,27 +384,32 @@ const EditorColumn: React.FC<EditorColumnProps> = ({
                     >
                         <CodeEditor.FileIcon filename={file.name} />
                         <span>{file.name}</span>
-                        <Icon 
-                            name="close" 
-                            className="text-base p-0.5 rounded-full hover:bg-slate-400/50 dark:hover:bg-slate-500/50"
-                            onClick={(e) => {
-                                e.stopPropagation();
-                                onCloseFile(file.path);
-                            }}
-                        />
+                        {streamingFileOverrides[file.path] !== undefined ? (
+                            <div className="w-3 h-3 mx-0.5 border-2 border-blue-500/40 border-t-blue-500 rounded-full animate-spin" />
+                        ) : (
+                            <Icon 
+                                name="close" 
+                                className="text-base p-0.5 rounded-full hover:bg-slate-400/50 dark:hover:bg-slate-500/50"
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    onCloseFile(file.path);
+                                }}
+                            />
+                        )}
                     </button>
                 ))}
             </div>
         </div>
         <div className="flex-1 overflow-auto bg-white dark:bg-[#1e1e1e]">
           <CodeEditor 
-            projectStructure={projectStructure}
             file={activeFile} 
             onChange={onFileContentChange} 
             matchesForFile={matchesForActiveFile}
             activeMatch={activeMatch}
             isLoadingAI={isLoadingAI}
+            isStreaming={activeFile !== null && streamingFileOverrides[activeFile.path] !== undefined}
             onRequestRefactor={onRequestRefactor}
+            lintProblems={lintProblemsForActiveFile}
           />
         </div>
       </div>
@@ -0,0 +1,155 @@
+import React, { useState, useEffect } from 'react';
+import Icon from './Icon';
+import { ProjectEnv, EnvVariable, EnvironmentName, ENVIRONMENT_NAMES, ENV_KEY_PATTERN, CLIENT_ENV_PREFIX } from '../lib/env-vars';
+
+interface EnvironmentPanelProps {
+  env: ProjectEnv;
+  onSave: (env: ProjectEnv, changedEnvironments: EnvironmentName[]) => void;
+}
+
+const ENVIRONMENT_LABELS: Record<EnvironmentName, { title: string; description: string }> = {
+  development: { title: 'Development', description: 'Used by the dev server, terminals and the assistant\'s commands.' },
+  build: { title: 'Build', description: 'Used by npm run build and the production preview.' },
+};
+
+const isSameVariables = (a: EnvVariable[], b: EnvVariable[]): boolean =>
+  a.length === b.length && a.every((variable, index) =>
+    variable.key === b[index].key && variable.value === b[index].value && variable.isSecret === b[index].isSecret);
+
+const isValidKey = (key: string): boolean => ENV_KEY_PATTERN.test(key.trim());
+
+// Rows left completely empty are dropped on save rather than treated as errors.
+const isBlank = (variable: EnvVariable): boolean => !variable.key.trim() && !variable.value;
+
+const EnvironmentPanel: React.FC<EnvironmentPanelProps> = ({ env, onSave }) => {
+  const [draft, setDraft] = useState<ProjectEnv>(env);
+  const [activeEnvironment, setActiveEnvironment] = useState<EnvironmentName>('development');
+  const [revealedRows, setRevealedRows] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    setDraft(env);
+  }, [env]);
+
+  useEffect(() => {
+    setRevealedRows(new Set());
+  }, [activeEnvironment]);
+
+  const variables = draft[activeEnvironment];
+  const changedEnvironments = ENVIRONMENT_NAMES.filter(name => !isSameVariables(draft[name], env[name]));
+  const keyCounts = variables.reduce((counts, variable) => counts.set(variable.key.trim(), (counts.get(variable.key.trim()) || 0) + 1), new Map<string, number>());
+  const hasInvalidKeys = ENVIRONMENT_NAMES.some(name => draft[name].some(variable => !isBlank(variable) && !isValidKey(variable.key)));
+
+  const updateVariables = (update: (current: EnvVariable[]) => EnvVariable[]) =>
+    setDraft(prev => ({ ...prev, [activeEnvironment]: update(prev[activeEnvironment]) }));
+
+  const updateVariable = (index: number, changes: Partial<EnvVariable>) =>
+    updateVariables(current => current.map((variable, i) => (i === index ? { ...variable, ...changes } : variable)));
+
+  const removeVariable = (index: number) => {
+    updateVariables(current => current.filter((_, i) => i !== index));
+    setRevealedRows(new Set());
+  };
+
+  const toggleRevealed = (index: number) => setRevealedRows(prev => {
+    const next = new Set(prev);
+    if (next.has(index)) next.delete(index); else next.add(index);
+    return next;
+  });
+
+  const handleSave = () => {
+    const cleaned: ProjectEnv = { ...draft };
+    for (const name of ENVIRONMENT_NAMES) {
+      cleaned[name] = draft[name]
+        .filter(variable => !isBlank(variable))
+        .map(variable => ({ ...variable, key: variable.key.trim() }));
+    }
+    onSave(cleaned, changedEnvironments);
+  };
+
+  return (
+    <div className="bg-white dark:bg-[#252526] h-full flex flex-col text-slate-700 dark:text-slate-300">
+      <div className="bg-slate-100 dark:bg-[#252526] px-4 h-[37px] flex items-center justify-between border-b border-slate-300 dark:border-slate-700/50">
+        <h3 className="font-medium text-slate-800 dark:text-slate-200 text-sm uppercase tracking-wider">
+          Environment
+        </h3>
+        <button
+          onClick={handleSave}
+          disabled={changedEnvironments.length === 0 || hasInvalidKeys}
+          className="px-2 py-0.5 text-xs font-medium rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          Save
+        </button>
+      </div>
+      <div className="flex border-b border-slate-200 dark:border-slate-700/50">
+        {ENVIRONMENT_NAMES.map(name => (
+          <button
+            key={name}
+            onClick={() => setActiveEnvironment(name)}
+            className={`flex-1 px-3 py-2 text-xs font-medium border-b-2 ${activeEnvironment === name ? 'border-blue-500 text-slate-900 dark:text-white' : 'border-transparent text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'}`}
+          >
+            {ENVIRONMENT_LABELS[name].title} ({draft[name].length}){changedEnvironments.includes(name) ? ' •' : ''}
+          </button>
+        ))}
+      </div>
+      <div className="flex-1 p-3 overflow-y-auto text-sm space-y-2">
+        <p className="text-xs text-slate-500 dark:text-slate-400">
+          {ENVIRONMENT_LABELS[activeEnvironment].description} Only <code className="font-mono">{CLIENT_ENV_PREFIX}*</code> variables are visible to app code. Variables are not included in exports or sent to the assistant.
+        </p>
+        {variables.map((variable, index) => {
+          const isInvalid = !isBlank(variable) && !isValidKey(variable.key);
+          const isDuplicate = !isInvalid && !isBlank(variable) && (keyCounts.get(variable.key.trim()) || 0) > 1;
+          const isHidden = variable.isSecret && !revealedRows.has(index);
+          return (
+            <div key={index} className="space-y-1">
+              <div className="flex items-center gap-1">
+                <input
+                  type="text"
+                  value={variable.key}
+                  onChange={(e) => updateVariable(index, { key: e.target.value })}
+                  placeholder="VITE_API_URL"
+                  spellCheck={false}
+                  className={`w-2/5 bg-slate-100 dark:bg-slate-800 border rounded px-2 py-1 text-xs font-mono focus:outline-none focus:ring-1 focus:ring-blue-500 ${isInvalid || isDuplicate ? 'border-red-500' : 'border-slate-300 dark:border-slate-600'}`}
+                />
+                <input
+                  type={isHidden ? 'password' : 'text'}
+                  value={variable.value}
+                  onChange={(e) => updateVariable(index, { value: e.target.value })}
+                  placeholder="value"
+                  spellCheck={false}
+                  autoComplete="off"
+                  className="flex-1 min-w-0 bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded px-2 py-1 text-xs font-mono focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+                {variable.isSecret && (
+                  <button onClick={() => toggleRevealed(index)} className="p-1 rounded hover:bg-slate-200 dark:hover:bg-slate-600" title={isHidden ? 'Show value' : 'Hide value'}>
+                    <Icon name={isHidden ? 'visibility' : 'visibility_off'} className="text-base" />
+                  </button>
+                )}
+                <button
+                  onClick={() => updateVariable(index, { isSecret: !variable.isSecret })}
+                  className={`p-1 rounded hover:bg-slate-200 dark:hover:bg-slate-600 ${variable.isSecret ? 'text-amber-600 dark:text-amber-400' : ''}`}
+                  title={variable.isSecret ? 'Secret: masked in logs. Click to unmark.' : 'Mark as secret'}
+                >
+                  <Icon name={variable.isSecret ? 'lock' : 'lock_open'} className="text-base" />
+                </button>
+                <button onClick={() => removeVariable(index)} className="p-1 rounded hover:bg-slate-200 dark:hover:bg-slate-600" title="Remove">
+                  <Icon name="delete" className="text-base" />
+                </button>
+              </div>
+              {isInvalid && <p className="text-xs text-red-600 dark:text-red-400">Names may contain letters, digits and underscores, and must not start with a digit.</p>}
+              {isDuplicate && <p className="text-xs text-red-600 dark:text-red-400">{variable.key} is defined more than once; the last value is used.</p>}
+            </div>
+          );
+        })}
+        <button
+          onClick={() => updateVariables(current => [...current, { key: '', value: '', isSecret: false }])}
+          className="w-full flex items-center justify-center gap-1 px-2 py-1 text-xs font-medium rounded border border-dashed border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700"
+        >
+          <Icon name="add" className="text-base" />
+          Add variable
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default EnvironmentPanel;
@@ -2,6 +2,9 @@ import React, { useState, useEffect, useRef } from 'react';
 import { FileNode } from '../types';
 import { FILE_ICONS } from '../lib/project-utils';
 import Icon from './Icon';
+import { GIT_CHANGE_BADGES } from './SourceControlPanel';
+import { GitChangeKind } from '../lib/git';
+import { ProblemCounts } from '../lib/problems';
 
 interface NodeInputProps {
   type: 'file' | 'folder';
@@ -73,6 +76,8 @@ interface FileTreeProps {
   onCancelRename: () => void;
   onContextMenu: (event: React.MouseEvent, node: FileNode) => void;
   onMoveNode: (sourcePath: string, targetParentPath: string) => void;
+  gitChanges?: Record<string, GitChangeKind>; // Uncommitted changes by path, shown as decorations.
+  problemCounts?: Record<string, ProblemCounts>; // By file and folder path.
 }
 
 const INDENT_WIDTH = 16; // in pixels
@@ -83,7 +88,7 @@ interface FileNodeComponentProps extends Omit<FileTreeProps, 'nodes' | 'level'>
 }
 
 const FileNodeComponent: React.FC<FileNodeComponentProps> = (props) => {
-  const { node, onSelectFile, selectedPaths, level, onSelectNode, creatingNodeInfo, onCommitCreation, onCancelCreation, renamingPath, onCommitRename, onCancelRename, onContextMenu, onMoveNode } = props;
+  const { node, onSelectFile, selectedPaths, level, onSelectNode, creatingNodeInfo, onCommitCreation, onCancelCreation, renamingPath, onCommitRename, onCancelRename, onContextMenu, onMoveNode, gitChanges, problemCounts } = props;
   const [isOpen, setIsOpen] = useState(true);
   const [isDragOver, setIsDragOver] = useState(false);
   
@@ -106,6 +111,13 @@ const FileNodeComponent: React.FC<FileNodeComponentProps> = (props) => {
   };
 
   const isSelected = selectedPaths.includes(node.path);
+  const gitChange = gitChanges?.[node.path];
+  // A folder is highlighted when anything inside it has changed.
+  const hasChangedDescendant = isFolder && !!gitChanges && Object.keys(gitChanges).some(path => path.startsWith(node.path + '/'));
+  const gitBadge = gitChange ? GIT_CHANGE_BADGES[gitChange] : null;
+  const problems = problemCounts?.[node.path];
+  // Errors take precedence over the git colour, the way an editor tab would show them.
+  const problemClassName = problems?.errors ? 'text-red-600 dark:text-red-400' : problems?.warnings ? 'text-amber-600 dark:text-amber-400' : '';
   const isRenaming = renamingPath === node.path;
   
   if (isRenaming) {
@@ -186,7 +198,21 @@ const FileNodeComponent: React.FC<FileNodeComponentProps> = (props) => {
           )}
         </div>
         <Icon name={iconName} className={`text-base mr-1.5 ${isFolder ? 'text-slate-500 dark:text-slate-400' : 'text-blue-500 dark:text-blue-400'}`} />
-        <span className="truncate pointer-events-none">{node.name}</span>
+        <span className={`truncate pointer-events-none ${problemClassName || (gitBadge ? gitBadge.className : '')} ${!problemClassName && hasChangedDescendant ? 'text-yellow-700 dark:text-yellow-300' : ''}`}>{node.name}</span>
+        {problems && (
+          <span
+            className={`ml-auto pl-2 text-xs pointer-events-none ${problemClassName}`}
+            title={`${problems.errors} error(s), ${problems.warnings} warning(s)`}
+          >
+            {problems.errors || problems.warnings}
+          </span>
+        )}
+        {gitBadge && (
+          <span className={`${problems ? '' : 'ml-auto'} pl-2 text-xs font-bold pointer-events-none ${gitBadge.className}`}>{gitBadge.label}</span>
+        )}
+        {hasChangedDescendant && (
+          <span className={`${problems ? '' : 'ml-auto'} pl-2 pointer-events-none text-yellow-600 dark:text-yellow-400 text-[10px]`}>●</span>
+        )}
       </div>
       {isFolder && isOpen && (
         <div className="relative">
@@ -0,0 +1,74 @@
+import React from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import Icon from './Icon';
+import { getLanguageForFile } from '../lib/project-utils';
+import { useTheme } from '../contexts/ThemeContext';
+
+export interface GitDiff {
+  path: string;
+  original: string; // Content at HEAD; empty for a new file.
+  modified: string; // Content in the working tree; empty for a deleted file.
+  isBinary: boolean;
+}
+
+interface GitDiffModalProps {
+  diff: GitDiff;
+  onOpenFile?: (path: string) => void;
+  onClose: () => void;
+}
+
+const GitDiffModal: React.FC<GitDiffModalProps> = ({ diff, onOpenFile, onClose }) => {
+  const { resolvedTheme } = useTheme();
+
+  return (
+    <div className="absolute inset-0 bg-black/60 flex items-center justify-center z-50 backdrop-blur-sm" role="dialog" aria-modal="true" aria-labelledby="git-diff-title" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-6xl h-[85vh] mx-4 flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <h3 className="text-lg leading-6 font-bold text-slate-900 dark:text-white" id="git-diff-title">Working Tree Changes</h3>
+            <p className="text-sm font-mono text-slate-600 dark:text-slate-400 mt-1 truncate" title={diff.path}>{diff.path}</p>
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {onOpenFile && (
+              <button onClick={() => onOpenFile(diff.path)} className="px-3 py-1.5 rounded text-sm font-medium border border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700">
+                Open File
+              </button>
+            )}
+            <button onClick={onClose} className="p-1 rounded hover:bg-slate-100 dark:hover:bg-slate-700" title="Close">
+              <Icon name="close" className="text-xl" />
+            </button>
+          </div>
+        </div>
+        <div className="flex-1 min-h-0">
+          {diff.isBinary ? (
+            <div className="h-full flex flex-col items-center justify-center text-slate-500 dark:text-slate-400 text-sm gap-2">
+              <Icon name="draft" className="text-4xl" />
+              <p>Binary file changed. No text diff is available.</p>
+            </div>
+          ) : (
+            <DiffEditor
+              key={diff.path}
+              height="100%"
+              original={diff.original}
+              modified={diff.modified}
+              originalModelPath={`git-head://${diff.path}`}
+              modifiedModelPath={`git-working://${diff.path}`}
+              language={getLanguageForFile(diff.path)}
+              theme={resolvedTheme === 'dark' ? 'vs-dark' : 'vs-light'}
+              options={{
+                readOnly: true,
+                minimap: { enabled: false },
+                fontSize: 13,
+                scrollBeyondLastLine: false,
+                automaticLayout: true,
+                fontFamily: "'JetBrains Mono', monospace",
+              }}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GitDiffModal;
@@ -1,5 +1,5 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { WebContainer } from '@webcontainer/api';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { WebContainer, WebContainerProcess, PreviewMessageType } from '@webcontainer/api';
 import Sidebar from './Sidebar';
 import MainHeader from './MainHeader';
 import AssistantPanel from './AssistantPanel';
@@ -7,17 +7,73 @@ import EditorColumn from './EditorColumn';
 import PreviewPanel from './PreviewPanel';
 import TerminalPanel from './TerminalPanel';
 import SearchPanel from './SearchPanel';
-import { INITIAL_PROJECT_STRUCTURE, findFileByPath, addOrUpdateFileByPath, deleteNodeByPath, zipProject, findMentionedFiles, addNodeToTree, addFileToTree, searchInProject, getLanguageForFile, projectStructureToWebContainerFiles, getAllPaths } from '../lib/project-utils';
-import { FileNode, Attachment, SearchResult, SearchMatch } from '../types';
-import { generateCodeFromPrompt } from '../lib/ai';
-import { AiResponse } from '../lib/ai';
+import { INITIAL_PROJECT_STRUCTURE, findFileByPath, addOrUpdateFileByPath, deleteNodeByPath, zipProject, findMentionedFiles, addNodeToTree, addFileToTree, searchInProject, getLanguageForFile, projectStructureToWebContainerFiles, getAllPaths, cloneStructure, isBinaryFileName, isBinaryContent, getTextContent, getTextFiles } from '../lib/project-utils';
+import { FileNode, Attachment, SearchResult, SearchMatch, ChatMessage, AgentStep, RejectedOperation } from '../types';
+import { streamCodeFromPrompt, resolveAiPatches, runAgentFromPrompt, withoutAttachmentData } from '../lib/ai';
+import { AiResponse, AiFile } from '../lib/ai';
+import { createAiProvider, DEFAULT_AI_SETTINGS, AiProviderSettings } from '../lib/ai-providers';
+import { buildAiContext } from '../lib/ai-context';
+import { createErrorDetector, buildFixPrompt, DetectedError, DEFAULT_MAX_FIX_ATTEMPTS, stripAnsi } from '../lib/error-detection';
+import { createAgentToolbox, CommandResult } from '../lib/agent-tools';
+import { applyPathPolicy, isProtectedPath } from '../lib/path-policy';
+import { FsChange } from '../lib/fs-sync';
+import { GitData, GitAuthor, DEFAULT_GIT_AUTHOR, isRepository, initRepository, stageFiles, unstageFiles, commitChanges, readHeadFile, checkoutRef, createBranch, deleteBranch, mergeBranch, abortMerge, MergeResult, getMergeHead, getMergeMessage, stashChanges, applyStash, dropStash, GitCredentials, setRemoteConfig, fetchRemote, pullRemote, pushBranch } from '../lib/git';
+import { loadGitCredentials, saveGitCredentials, getThirdPartyProxyHost, isProxyTrusted } from '../lib/git-credentials';
 import { useToast } from '../contexts/ToastContext';
+import { useGitStatus } from '../hooks/useGitStatus';
+import { useProblems } from '../hooks/useProblems';
+import { useContainerSync } from '../hooks/useContainerSync';
+import { useDeploy } from '../hooks/useDeploy';
 import Icon from './Icon';
 import SourceControlPanel from './SourceControlPanel';
 import DeployPanel from './DeployPanel';
+import EnvironmentPanel from './EnvironmentPanel';
+import DependenciesPanel from './DependenciesPanel';
+import { BuildResult, PREVIEW_PORT, readBuildOutput, measureAssets, zipBuildOutput } from '../lib/build';
+import { DeclaredDependency, DependencyKind, DEFAULT_REGISTRY_URL, readDeclaredDependencies, getDependencySignature, readInstalledVersion, fetchLatestVersion, parsePackageSpec, installArgs, uninstallArgs } from '../lib/dependencies';
+import { WebContainerStatus, ProcessManager, createProcessManager } from '../lib/process-manager';
+import { Problem } from '../lib/problems';
+import { acquireTypes, createNodeModulesTypeSource, createLockfileTypeSource } from '../lib/type-acquisition';
+import { formatFiles, isFormattablePath, setFormatterProjectFiles } from '../lib/formatter';
+import { ProjectEnv, EnvironmentName, EMPTY_PROJECT_ENV, getProcessEnv, getSecretValues, maskSecrets } from '../lib/env-vars';
+import ChangeReviewPanel from './ChangeReviewPanel';
+import GitDiffModal, { GitDiff } from './GitDiffModal';
+import AiSettingsModal from './AiSettingsModal';
 import { Project } from '../App';
 
-type WebContainerStatus = 'booting' | 'installing' | 'starting-server' | 'ready' | 'error' | 'idle';
+const MAX_RECENT_EDITS = 10;
+const AUTO_REINSTALL_DELAY_MS = 1500; // Lets edits to package.json settle before installing.
+
+// After an AI fix is applied, wait until the dev server has been quiet for a moment.
+const RECOMPILE_SETTLE_MS = 2000;
+const RECOMPILE_TIMEOUT_MS = 10000;
+
+const MAX_PREVIEW_CONSOLE_ENTRIES = 100;
+
+const loadGitAuthor = (): GitAuthor => {
+    try {
+        const saved = localStorage.getItem('codematic_git_author');
+        return saved ? { ...DEFAULT_GIT_AUTHOR, ...JSON.parse(saved) } : DEFAULT_GIT_AUTHOR;
+    } catch {
+        return DEFAULT_GIT_AUTHOR;
+    }
+};
+
+const collectFiles = (nodes: FileNode[], files = new Map<string, FileNode>()): Map<string, FileNode> => {
+    for (const node of nodes) {
+        if (node.type === 'file') files.set(node.path, node);
+        else if (node.children) collectFiles(node.children, files);
+    }
+    return files;
+};
+
+const createChatMessage = (role: ChatMessage['role'], content: string, extra: Partial<ChatMessage> = {}): ChatMessage => ({
+    id: `msg_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    role,
+    content,
+    timestamp: Date.now(),
+    ...extra,
+});
 
 interface IDEViewProps {
     project: Project;
@@ -39,7 +95,7 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   
   const [viewState, setViewState] = useState({
-    activeLeftPanel: 'assistant' as 'assistant' | 'search' | 'source_control' | 'deploy' | 'none',
+    activeLeftPanel: 'assistant' as 'assistant' | 'search' | 'source_control' | 'dependencies' | 'deploy' | 'environment' | 'none',
     editorVisible: true,
     previewVisible: true,
   });
@@ -51,12 +107,14 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
   const [isPreviewFullscreen, setPreviewFullscreen] = useState(false);
   
   const [isLoadingAI, setIsLoadingAI] = useState(false);
-  const [aiMessage, setAiMessage] = useState<string>("Hello! I'm your AI code assistant. What should we build or change today?");
+  const [aiMessage, setAiMessage] = useState<string>('');
+  const [conversation, setConversation] = useState<ChatMessage[]>(() => (project.conversation || []).map(withoutAttachmentData));
   const [isRenamingProject, setIsRenamingProject] = useState(false);
   const [showNewProjectConfirm, setShowNewProjectConfirm] = useState(false);
   
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
-  const [activeMatch, setActiveMatch] = useState<{ path: string; lineNumber: number } | null>(null);
+  const [activeMatch, setActiveMatch] = useState<{ path: string; lineNumber: number; column?: number } | null>(null);
+  const [revealProblemsKey, setRevealProblemsKey] = useState(0);
   const [searchQuery, setSearchQuery] = useState<{ query: string; options: { isCaseSensitive: boolean; isRegex: boolean; isWholeWord: boolean; } } | null>(null);
   const [lastSearchRegex, setLastSearchRegex] = useState<RegExp | null>(null);
   const [focusOnSearchPanel, setFocusOnSearchPanel] = useState<'search' | 'replace' | null>(null);
@@ -69,6 +127,20 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
   const [nodesToDelete, setNodesToDelete] = useState<FileNode[] | null>(null);
 
   const [streamingFileOverrides, setStreamingFileOverrides] = useState<Record<string, string>>({});
+  const aiAbortControllerRef = useRef<AbortController | null>(null);
+  const [isReviewModeEnabled, setReviewModeEnabled] = useState(() => localStorage.getItem('codematic_review_ai_changes') === 'true');
+  const [pendingChangeset, setPendingChangeset] = useState<{ messageId: string; response: AiResponse } | null>(null);
+  const [isAiSettingsOpen, setAiSettingsOpen] = useState(false);
+  const recentlyEditedPathsRef = useRef<string[]>([]); // Most recent first; used to rank AI context.
+  const [isAgentModeEnabled, setAgentModeEnabled] = useState(() => localStorage.getItem('codematic_agent_mode') === 'true');
+  const [isFormatOnSaveEnabled, setFormatOnSaveEnabled] = useState(() => localStorage.getItem('codematic_format_on_save') === 'true'); // Also formats AI changes.
+  const [agentSteps, setAgentSteps] = useState<AgentStep[]>([]); // Steps of the agent run in progress.
+  const previewConsoleRef = useRef<string[]>([]);
+
+  const aiSettings = project.aiSettings || DEFAULT_AI_SETTINGS;
+  const aiProvider = useMemo(() => createAiProvider(aiSettings, (responseText) => {
+      onUpdate(project.id, { aiSettings: { ...aiSettings, mockResponses: [...(aiSettings.mockResponses || []), responseText] } });
+  }), [aiSettings, onUpdate, project.id]);
 
   const webContainerRef = useRef<WebContainer | null>(null);
   const [wcStatus, setWcStatus] = useState<WebContainerStatus>('booting');
@@ -77,6 +149,37 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
   const terminalWriteEmitterRef = useRef<((data: string) => void) | null>(null);
   const logQueue = useRef<string[]>([]);
   const [allLogs, setAllLogs] = useState('');
+  const processManagerRef = useRef<ProcessManager | null>(null);
+  const [hasEnvironmentStarted, setEnvironmentStarted] = useState(false); // The first install and server start have settled.
+  const lastOutputAtRef = useRef(0);
+  const errorDetectorRef = useRef(createErrorDetector());
+  const [detectedErrors, setDetectedErrors] = useState<DetectedError[]>([]);
+  const [fixProgress, setFixProgress] = useState<{ attempt: number; maxAttempts: number } | null>(null);
+  const isFixCancelledRef = useRef(false);
+  const [gitData, setGitData] = useState<GitData | undefined>(project.git);
+  const [gitCredentials, setGitCredentials] = useState<GitCredentials>(() => loadGitCredentials(project.id));
+  const [gitRemoteProgress, setGitRemoteProgress] = useState<string | null>(null);
+  const [isGitBusy, setGitBusy] = useState(false);
+  const [gitAuthor, setGitAuthor] = useState<GitAuthor>(loadGitAuthor);
+  const [gitDiff, setGitDiff] = useState<GitDiff | null>(null);
+  const [isBuilding, setBuilding] = useState(false);
+  const [buildLogs, setBuildLogs] = useState('');
+  const [buildResult, setBuildResult] = useState<BuildResult | null>(null);
+  const [buildPreviewUrl, setBuildPreviewUrl] = useState<string | null>(null);
+  const [isBuildPreviewStarting, setBuildPreviewStarting] = useState(false);
+  const buildPreviewProcessRef = useRef<WebContainerProcess | null>(null);
+  const [isDependencyBusy, setDependencyBusy] = useState(false);
+  const [installedVersions, setInstalledVersions] = useState<Record<string, string | null>>({});
+  const [latestVersions, setLatestVersions] = useState<Record<string, string | null>>({});
+  const [isCheckingOutdated, setCheckingOutdated] = useState(false);
+  const [dependencyTypeFiles, setDependencyTypeFiles] = useState<Map<string, string>>(new Map()); // Declarations from node_modules, for the editor.
+  const [registryUrl, setRegistryUrl] = useState(() => localStorage.getItem('codematic_npm_registry') || DEFAULT_REGISTRY_URL);
+  const [projectEnv, setProjectEnv] = useState<ProjectEnv>(project.env || EMPTY_PROJECT_ENV);
+  // Read by stream callbacks and the boot effect, which outlive a render.
+  const projectEnvRef = useRef(projectEnv);
+  const secretValuesRef = useRef(getSecretValues(projectEnv));
+  const secretValues = useMemo(() => getSecretValues(projectEnv), [projectEnv]);
+  const terminalEnv = useMemo(() => getProcessEnv(projectEnv, 'development'), [projectEnv]);
 
   const topLevelContentRef = useRef<HTMLDivElement>(null);
   const rightStackContentRef = useRef<HTMLDivElement>(null);
@@ -90,15 +193,59 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
   } | null>(null);
   const animationFrameId = useRef<number | null>(null);
   
+  const handleProcessOutput = useCallback((rawData: string) => {
+    const data = maskSecrets(rawData, secretValuesRef.current);
+    setAllLogs(prev => prev + data);
+    lastOutputAtRef.current = Date.now();
+    if (errorDetectorRef.current.push(data)) {
+        setDetectedErrors(errorDetectorRef.current.getErrors());
+    }
+    if (terminalWriteEmitterRef.current) {
+        terminalWriteEmitterRef.current(data);
+    } else {
+        logQueue.current.push(data);
+    }
+  }, []);
+
+  const reportEnvironmentError = useCallback((err: unknown) => {
+    setWcStatus('error');
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    setWcStatusMessage(`Error: ${errorMessage}`);
+    addToast(`Initialization failed: ${errorMessage}`, 'error');
+    setAllLogs(prev => prev + `\n[Initialization Error]: ${errorMessage}`);
+  }, [addToast]);
+
+  const handleProcessStatus = useCallback((status: WebContainerStatus, message: string) => {
+    setWcStatus(status);
+    setWcStatusMessage(message);
+    if (status === 'error') addToast(message, 'error');
+  }, [addToast]);
+
+  useEffect(() => {
+    if (wcStatus === 'ready' || wcStatus === 'error' || wcStatus === 'idle') setEnvironmentStarted(true);
+  }, [wcStatus]);
+
   useEffect(() => {
     const boot = async () => {
       try {
         setWcStatus('booting');
         setWcStatusMessage('Booting WebContainer...');
-        const wc = await WebContainer.boot();
+        const wc = await WebContainer.boot({ forwardPreviewErrors: true });
         webContainerRef.current = wc;
 
+        wc.on('preview-message', (message) => {
+          const text = 'args' in message
+            ? `[console.error] ${message.args.map(arg => (typeof arg === 'string' ? arg : JSON.stringify(arg))).join(' ')}`
+            : `[${message.type === PreviewMessageType.UnhandledRejection ? 'unhandled rejection' : 'uncaught exception'}] ${message.message}${message.stack ? `\n${message.stack}` : ''}`;
+          previewConsoleRef.current = [...previewConsoleRef.current, maskSecrets(`${message.pathname} ${text}`, secretValuesRef.current)].slice(-MAX_PREVIEW_CONSOLE_ENTRIES);
+        });
+
         wc.on('server-ready', (port, url) => {
+          if (port === PREVIEW_PORT) {
+            setBuildPreviewUrl(url);
+            setBuildPreviewStarting(false);
+            return;
+          }
           setWcStatus('ready');
           setPreviewUrl(url);
           setWcStatusMessage('Live preview is ready!');
@@ -124,41 +271,27 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
             throw new Error('Critical Error: Could not find package.json to mount.');
         }
 
-        const handleProcessOutput = (data: string) => {
-            setAllLogs(prev => prev + data);
-            if (terminalWriteEmitterRef.current) {
-                terminalWriteEmitterRef.current(data);
-            } else {
-                logQueue.current.push(data);
-            }
-        };
+        startSync(wc.fs);
 
-        setWcStatus('installing');
-        setWcStatusMessage('Running npm install...');
-        const installProcess = await wc.spawn('npm', ['install']);
-        installProcess.output.pipeTo(new WritableStream({ write: handleProcessOutput }));
-        const installExitCode = await installProcess.exit;
-        if (installExitCode !== 0) {
-          throw new Error(`Installation failed with exit code: ${installExitCode}`);
-        }
-        
-        setWcStatus('starting-server');
-        setWcStatusMessage('Starting development server...');
-        const startProcess = await wc.spawn('npm', ['run', 'dev']);
-        startProcess.output.pipeTo(new WritableStream({ write: handleProcessOutput }));
+        const processManager = createProcessManager(wc, {
+            getEnv: () => getProcessEnv(projectEnvRef.current, 'development'),
+            onOutput: handleProcessOutput,
+            onStatus: handleProcessStatus,
+            onError: reportEnvironmentError,
+        });
+        processManagerRef.current = processManager;
+        await processManager.start();
 
       } catch (err: unknown) {
-        setWcStatus('error');
-        const errorMessage = err instanceof Error ? err.message : String(err);
-        setWcStatusMessage(`Error: ${errorMessage}`);
-        addToast(`Initialization failed: ${errorMessage}`, 'error');
-        setAllLogs(prev => prev + `\n[Initialization Error]: ${errorMessage}`);
+        reportEnvironmentError(err);
       }
     };
     
     boot();
     
     return () => {
+        stopSync();
+        processManagerRef.current = null;
         webContainerRef.current?.teardown();
     }
 
@@ -182,11 +315,46 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
 
     useEffect(() => {
         onUpdate(project.id, { structure: projectStructure });
-    }, [projectStructure]);
+    }, [projectStructure, onUpdate, project.id]);
 
     useEffect(() => {
         onUpdate(project.id, { name: projectName });
-    }, [projectName]);
+    }, [projectName, onUpdate, project.id]);
+
+    const { projectTextFiles, problems, lintProblems, problemCounts, problemCountsByPath } = useProblems(projectStructure, dependencyTypeFiles);
+
+    // The editor's Format Document and Format Selection read the project's Prettier config.
+    useEffect(() => {
+        setFormatterProjectFiles(projectTextFiles);
+    }, [projectTextFiles]);
+
+    useEffect(() => {
+        onUpdate(project.id, { conversation });
+    }, [conversation, onUpdate, project.id]);
+
+    // gitData starts out as the stored repository, which need not be written back.
+    useEffect(() => {
+        if (gitData === project.git) return;
+        onUpdate(project.id, { git: gitData });
+    }, [gitData, project.git, onUpdate, project.id]);
+
+    useEffect(() => {
+        localStorage.setItem('codematic_git_author', JSON.stringify(gitAuthor));
+    }, [gitAuthor]);
+
+    const { gitStatus, gitLog, gitBranch, gitBranches, gitStashes, gitRemoteUrl, gitCorsProxy, gitAheadBehind, gitChanges, gitConflicts } = useGitStatus(projectStructure, gitData);
+
+    useEffect(() => {
+        localStorage.setItem('codematic_review_ai_changes', String(isReviewModeEnabled));
+    }, [isReviewModeEnabled]);
+
+    useEffect(() => {
+        localStorage.setItem('codematic_agent_mode', String(isAgentModeEnabled));
+    }, [isAgentModeEnabled]);
+
+    useEffect(() => {
+        localStorage.setItem('codematic_format_on_save', String(isFormatOnSaveEnabled));
+    }, [isFormatOnSaveEnabled]);
   
     useEffect(() => {
         if (projectStructure.length > 0 && openFiles.length === 0) {
@@ -221,6 +389,10 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
         if (animationFrameId.current) cancelAnimationFrame(animationFrameId.current);
         };
     }, []);
+
+    useEffect(() => {
+        return () => aiAbortControllerRef.current?.abort();
+    }, []);
   
     useEffect(() => {
         setOpenFiles(prevOpenFiles =>
@@ -236,6 +408,14 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
         setProjectStructure(newStructure);
     }, [history, historyIndex]);
 
+    const { dirtyPathsRef, syncConflicts, startSync, stopSync, applyContainerChanges, writeContainerFile, handleResolveSyncConflict } = useContainerSync({
+        webContainerRef,
+        projectStructure,
+        openFiles,
+        pushHistory,
+        onTreeChanged: () => setHasUnsavedChanges(true),
+    });
+
     const handleUndo = useCallback(() => {
         if (historyIndex <= 0) return;
         const newIndex = historyIndex - 1;
@@ -257,7 +437,7 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
         const key = panel === 'editor' ? 'editorVisible' : 'previewVisible';
         setViewState(prev => ({ ...prev, [key]: !prev[key] }));
     };
-    const handleSetLeftPanel = (panel: 'assistant' | 'search' | 'source_control' | 'deploy') => {
+    const handleSetLeftPanel = (panel: 'assistant' | 'search' | 'source_control' | 'dependencies' | 'deploy' | 'environment') => {
         setViewState(prev => ({ ...prev, activeLeftPanel: prev.activeLeftPanel === panel ? 'none' : panel }));
     }
 
@@ -323,23 +503,284 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
         setOpenFiles(newOpenFiles);
     };
   
+    const trackRecentEdits = (paths: string[]) => {
+        const recent = recentlyEditedPathsRef.current.filter(p => !paths.includes(p));
+        recentlyEditedPathsRef.current = [...paths, ...recent].slice(0, MAX_RECENT_EDITS);
+    };
+
     const handleFileContentChange = useCallback(async (path: string, content: string) => {
         if(isLoadingAI) return;
         const wc = webContainerRef.current;
-        if (wc && wcStatus === 'ready') {
-        await wc.fs.writeFile(path, content);
+        if (wc && wcStatus !== 'booting') {
+        await writeContainerFile(wc, path, content);
         }
         const newStructure = addOrUpdateFileByPath(projectStructure, path, content);
         pushHistory(newStructure);
+        trackRecentEdits([path]);
         setHasUnsavedChanges(true);
+        dirtyPathsRef.current.add(path);
         return newStructure;
-    }, [projectStructure, pushHistory, isLoadingAI, wcStatus]);
+    }, [projectStructure, pushHistory, isLoadingAI, wcStatus, writeContainerFile, dirtyPathsRef]);
 
-    const handleSaveProject = useCallback(() => {
+    const handleSaveProject = useCallback(async () => {
+        if (isFormatOnSaveEnabled && !isLoadingAI) {
+            const dirtyFiles = Array.from(dirtyPathsRef.current).flatMap(path => {
+                const node = findFileByPath(projectStructure, path);
+                return node?.type === 'file' && typeof node.content === 'string' && isFormattablePath(path) ? [{ path, content: node.content }] : [];
+            });
+            const { files, errors } = await formatFiles(dirtyFiles, projectTextFiles);
+            const changedFiles = files.filter((file, i) => file.content !== dirtyFiles[i].content);
+            if (changedFiles.length > 0) {
+                const wc = webContainerRef.current;
+                let newStructure = projectStructure;
+                for (const file of changedFiles) {
+                    if (wc && wcStatus !== 'booting') await writeContainerFile(wc, file.path, file.content);
+                    newStructure = addOrUpdateFileByPath(newStructure, file.path, file.content);
+                }
+                pushHistory(newStructure);
+            }
+            if (errors.length > 0) {
+                addToast(`Saved without formatting ${errors.length === 1 ? errors[0] : `${errors.length} files, e.g. ${errors[0]}`}`, 'warning');
+            }
+        }
         addToast('Project changes saved!', 'success');
         setHasUnsavedChanges(false);
+        dirtyPathsRef.current.clear();
+    }, [isFormatOnSaveEnabled, isLoadingAI, projectStructure, projectTextFiles, wcStatus, pushHistory, addToast, writeContainerFile, dirtyPathsRef]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 's') {
+                e.preventDefault();
+                if (hasUnsavedChanges) handleSaveProject();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [hasUnsavedChanges, handleSaveProject]);
+
+    // Brings the container in line with a tree that replaced `previous` wholesale (a checkout,
+    // merge or stash). Removed files are deleted, then the new tree is mounted over the old one.
+    const remountStructure = useCallback(async (previous: FileNode[], next: FileNode[]) => {
+        const wc = webContainerRef.current;
+        if (!wc) return;
+        const remaining = collectFiles(next);
+        for (const path of collectFiles(previous).keys()) {
+            if (!remaining.has(path)) await wc.fs.rm(path, { force: true });
+        }
+        await wc.mount(projectStructureToWebContainerFiles(next));
+    }, []);
+
+    const runGitOperation = useCallback(async <T,>(operation: () => Promise<T>, failureMessage: string): Promise<T | null> => {
+        setGitBusy(true);
+        try {
+            return await operation();
+        } catch (error) {
+            console.error(failureMessage, error);
+            addToast(`${failureMessage}: ${error instanceof Error ? error.message : String(error)}`, 'error');
+            return null;
+        } finally {
+            setGitBusy(false);
+        }
     }, [addToast]);
-    
+
+    const handleGitInit = useCallback(async () => {
+        const data = await runGitOperation(() => initRepository(projectStructure), 'Failed to initialize the repository');
+        if (data) {
+            setGitData(data);
+            addToast('Initialized an empty Git repository.', 'success');
+        }
+    }, [projectStructure, runGitOperation, addToast]);
+
+    const handleGitStage = useCallback(async (paths: string[]) => {
+        if (!isRepository(gitData)) return;
+        const data = await runGitOperation(() => stageFiles(projectStructure, gitData, paths), 'Failed to stage changes');
+        if (data) setGitData(data);
+    }, [projectStructure, gitData, runGitOperation]);
+
+    const handleGitUnstage = useCallback(async (paths: string[]) => {
+        if (!isRepository(gitData)) return;
+        const data = await runGitOperation(() => unstageFiles(projectStructure, gitData, paths), 'Failed to unstage changes');
+        if (data) setGitData(data);
+    }, [projectStructure, gitData, runGitOperation]);
+
+    const handleGitCommit = useCallback(async (message: string): Promise<boolean> => {
+        if (!isRepository(gitData)) return false;
+        const author = { name: gitAuthor.name.trim() || DEFAULT_GIT_AUTHOR.name, email: gitAuthor.email.trim() || DEFAULT_GIT_AUTHOR.email };
+        const result = await runGitOperation(() => commitChanges(projectStructure, gitData, message, author), 'Failed to commit');
+        if (!result) return false;
+        setGitData(result.gitData);
+        addToast(`Committed ${result.oid.slice(0, 7)}.`, 'success');
+        return true;
+    }, [projectStructure, gitData, gitAuthor, runGitOperation, addToast]);
+
+    // Shared by operations that rewrite the working tree: the result replaces the project tree
+    // (as one undo step) and the container is remounted to match.
+    const runWorkingTreeOperation = useCallback(async <T extends { structure: FileNode[]; gitData: GitData },>(
+        operation: () => Promise<T>,
+        failureMessage: string,
+    ): Promise<T | null> => {
+        setGitBusy(true);
+        try {
+            const result = await operation();
+            await remountStructure(projectStructure, result.structure);
+            dirtyPathsRef.current.clear();
+            pushHistory(result.structure);
+            setGitData(result.gitData);
+            return result;
+        } catch (error) {
+            if ((error as { code?: string }).code === 'CheckoutConflictError') {
+                addToast('Your uncommitted changes would be overwritten. Commit or stash them first.', 'warning');
+            } else {
+                console.error(failureMessage, error);
+                addToast(`${failureMessage}: ${error instanceof Error ? error.message : String(error)}`, 'error');
+            }
+            return null;
+        } finally {
+            setGitBusy(false);
+        }
+    }, [projectStructure, remountStructure, dirtyPathsRef, pushHistory, addToast]);
+
+    const handleGitCheckout = useCallback(async (ref: string) => {
+        if (!isRepository(gitData)) return;
+        const result = await runWorkingTreeOperation(() => checkoutRef(projectStructure, gitData, ref), 'Failed to check out');
+        if (result) addToast(`Checked out ${/^[0-9a-f]{40}$/.test(ref) ? ref.slice(0, 7) : ref}.`, 'success');
+    }, [projectStructure, gitData, runWorkingTreeOperation, addToast]);
+
+    const handleGitCreateBranch = useCallback(async (name: string) => {
+        if (!isRepository(gitData)) return;
+        const data = await runGitOperation(() => createBranch(gitData, name), 'Failed to create the branch');
+        if (!data) return;
+        // The new branch points at HEAD, so switching to it leaves the working tree as it is.
+        const result = await runWorkingTreeOperation(() => checkoutRef(projectStructure, data, name), 'Failed to switch branches');
+        if (result) addToast(`Created and switched to branch "${name}".`, 'success');
+    }, [projectStructure, gitData, runGitOperation, runWorkingTreeOperation, addToast]);
+
+    const handleGitDeleteBranch = useCallback(async (name: string) => {
+        if (!isRepository(gitData)) return;
+        const data = await runGitOperation(() => deleteBranch(gitData, name), 'Failed to delete the branch');
+        if (data) {
+            setGitData(data);
+            addToast(`Deleted branch "${name}".`, 'success');
+        }
+    }, [gitData, runGitOperation, addToast]);
+
+    const reportMergeResult = useCallback((merged: MergeResult, source: string) => {
+        switch (merged.outcome) {
+            case 'up-to-date':
+                addToast(`Already up to date with "${source}".`, 'info');
+                break;
+            case 'fast-forward':
+            case 'merged':
+                addToast(`Merged "${source}".`, 'success');
+                break;
+            case 'conflicts': {
+                // Open the conflicted files so they can be resolved in the editor.
+                const conflictedFiles = merged.conflicts
+                    .map(path => findFileByPath(merged.structure, path))
+                    .filter((node): node is FileNode => node?.type === 'file');
+                setOpenFiles(prev => [...prev, ...conflictedFiles.filter(node => !prev.some(f => f.path === node.path))]);
+                if (conflictedFiles.length > 0) setActiveFilePath(conflictedFiles[0].path);
+                addToast(`Merge conflicts in ${merged.conflicts.length} file(s). Resolve them, stage the files and commit.`, 'warning');
+                break;
+            }
+        }
+    }, [addToast]);
+
+    const handleGitMerge = useCallback(async (branch: string) => {
+        if (!isRepository(gitData)) return;
+        const merged = await runWorkingTreeOperation(() => mergeBranch(projectStructure, gitData, branch, gitAuthor), 'Failed to merge');
+        if (merged) reportMergeResult(merged, branch);
+    }, [projectStructure, gitData, gitAuthor, runWorkingTreeOperation, reportMergeResult]);
+
+    const handleGitAbortMerge = useCallback(async () => {
+        if (!isRepository(gitData)) return;
+        const result = await runWorkingTreeOperation(() => abortMerge(projectStructure, gitData), 'Failed to abort the merge');
+        if (result) addToast('Merge aborted.', 'info');
+    }, [projectStructure, gitData, runWorkingTreeOperation, addToast]);
+
+    const handleGitStash = useCallback(async (message: string) => {
+        if (!isRepository(gitData)) return;
+        const result = await runWorkingTreeOperation(() => stashChanges(projectStructure, gitData, gitAuthor, message), 'Failed to stash changes');
+        if (result) addToast('Changes stashed.', 'success');
+    }, [projectStructure, gitData, gitAuthor, runWorkingTreeOperation, addToast]);
+
+    const handleGitApplyStash = useCallback(async (index: number, pop: boolean) => {
+        if (!isRepository(gitData)) return;
+        const result = await runWorkingTreeOperation(() => applyStash(projectStructure, gitData, index, pop), 'Failed to apply the stash');
+        if (result) addToast(pop ? 'Stash popped.' : 'Stash applied.', 'success');
+    }, [projectStructure, gitData, runWorkingTreeOperation, addToast]);
+
+    const handleGitDropStash = useCallback(async (index: number) => {
+        if (!isRepository(gitData)) return;
+        const data = await runGitOperation(() => dropStash(gitData, index), 'Failed to drop the stash');
+        if (data) setGitData(data);
+    }, [gitData, runGitOperation]);
+
+    const handleGitSaveRemote = useCallback(async (url: string, corsProxy: string, credentials: GitCredentials) => {
+        if (!isRepository(gitData)) return;
+        saveGitCredentials(project.id, credentials);
+        setGitCredentials(credentials);
+        if (url === (gitRemoteUrl || '') && corsProxy === gitCorsProxy) return;
+        const data = await runGitOperation(() => setRemoteConfig(gitData, { url, corsProxy }), 'Failed to update the remote');
+        if (data) {
+            setGitData(data);
+            addToast(url ? 'Remote saved.' : 'Remote removed.', 'success');
+        }
+    }, [gitData, gitRemoteUrl, gitCorsProxy, project.id, runGitOperation, addToast]);
+
+    const remoteOptions = useCallback(() => {
+        // A proxy run by a third party sees the token, so it is only used once the user agreed to that.
+        if (!isProxyTrusted(gitCredentials, gitCorsProxy, gitRemoteUrl || '')) {
+            throw new Error(`The access token would be sent through the proxy ${getThirdPartyProxyHost(gitCorsProxy, gitRemoteUrl || '')}. Confirm the proxy in the remote settings first.`);
+        }
+        return {
+            credentials: gitCredentials,
+            corsProxy: gitCorsProxy || undefined,
+            onProgress: setGitRemoteProgress,
+        };
+    }, [gitCredentials, gitCorsProxy, gitRemoteUrl]);
+
+    const handleGitFetch = useCallback(async () => {
+        if (!isRepository(gitData)) return;
+        const data = await runGitOperation(() => fetchRemote(gitData, remoteOptions()), 'Failed to fetch');
+        setGitRemoteProgress(null);
+        if (data) setGitData(data);
+    }, [gitData, runGitOperation, remoteOptions]);
+
+    const handleGitPull = useCallback(async (fastForwardOnly: boolean) => {
+        if (!isRepository(gitData)) return;
+        const merged = await runWorkingTreeOperation(
+            () => pullRemote(projectStructure, gitData, gitAuthor, fastForwardOnly, remoteOptions()),
+            'Failed to pull',
+        );
+        setGitRemoteProgress(null);
+        if (merged) reportMergeResult(merged, gitBranch ? `origin/${gitBranch}` : 'origin');
+    }, [projectStructure, gitData, gitAuthor, gitBranch, runWorkingTreeOperation, remoteOptions, reportMergeResult]);
+
+    const handleGitPush = useCallback(async () => {
+        if (!isRepository(gitData)) return;
+        const data = await runGitOperation(() => pushBranch(gitData, remoteOptions()), 'Failed to push');
+        setGitRemoteProgress(null);
+        if (data) {
+            setGitData(data);
+            addToast(`Pushed "${gitBranch}" to origin.`, 'success');
+        }
+    }, [gitData, gitBranch, runGitOperation, remoteOptions, addToast]);
+
+    const handleOpenGitDiff = useCallback(async (path: string) => {
+        if (!isRepository(gitData)) return;
+        const head = await runGitOperation(() => readHeadFile(gitData, path), 'Failed to read the committed file');
+        const node = findFileByPath(projectStructure, path);
+        const isBinary = isBinaryFileName(path) || isBinaryContent(node?.content);
+        setGitDiff({
+            path,
+            original: head && !isBinary ? new TextDecoder().decode(head) : '',
+            modified: isBinary ? '' : getTextContent(node),
+            isBinary,
+        });
+    }, [projectStructure, gitData, runGitOperation]);
+
     const handleNewProject = () => {
         setShowNewProjectConfirm(true);
     };
@@ -348,7 +789,8 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
         addToast('Creating new project... environment will reload.', 'success');
         onUpdate(project.id, {
             name: 'New-Codematic-App',
-            structure: JSON.parse(JSON.stringify(INITIAL_PROJECT_STRUCTURE))
+            structure: cloneStructure(INITIAL_PROJECT_STRUCTURE),
+            conversation: [],
         });
         setShowNewProjectConfirm(false);
         // A full reload might be needed if state isn't perfectly reset
@@ -382,65 +824,388 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
             addToast("Failed to create ZIP file.", "error");
         }
     }, [projectStructure, projectName, addToast]);
+
+    const stopBuildPreview = useCallback(() => {
+        buildPreviewProcessRef.current?.kill();
+        buildPreviewProcessRef.current = null;
+        setBuildPreviewUrl(null);
+        setBuildPreviewStarting(false);
+    }, []);
+
+    // Runs `npm run build` and collects the output directory. A running production preview
+    // is stopped first, as it would keep serving the previous build.
+    const handleBuild = useCallback(async () => {
+        const wc = webContainerRef.current;
+        if (!wc || isBuilding) return;
+        stopBuildPreview();
+        setBuilding(true);
+        setBuildLogs('');
+        const startedAt = Date.now();
+        let logs = '';
+        try {
+            const process = await wc.spawn('npm', ['run', 'build'], { env: getProcessEnv(projectEnvRef.current, 'build') });
+            process.output.pipeTo(new WritableStream({
+                write: (data) => {
+                    logs += maskSecrets(stripAnsi(data), secretValuesRef.current);
+                    setBuildLogs(logs);
+                },
+            }));
+            const exitCode = await process.exit;
+            const files = exitCode === 0 ? await readBuildOutput(wc.fs) : new Map<string, Uint8Array>();
+            setBuildResult({
+                exitCode,
+                logs,
+                durationMs: Date.now() - startedAt,
+                finishedAt: Date.now(),
+                assets: await measureAssets(files),
+                files,
+            });
+            if (exitCode !== 0) {
+                addToast(`Build failed with exit code ${exitCode}.`, 'error');
+            } else if (files.size === 0) {
+                addToast('The build finished but produced no files in dist.', 'warning');
+            } else {
+                addToast('Build completed.', 'success');
+            }
+        } catch (error: unknown) {
+            addToast(`Build failed: ${error instanceof Error ? error.message : String(error)}`, 'error');
+        } finally {
+            setBuilding(false);
+        }
+    }, [isBuilding, stopBuildPreview, addToast]);
+
+    const handleStartBuildPreview = useCallback(async () => {
+        const wc = webContainerRef.current;
+        if (!wc || buildPreviewProcessRef.current) return;
+        setBuildPreviewStarting(true);
+        try {
+            const process = await wc.spawn('npx', ['vite', 'preview', '--port', String(PREVIEW_PORT), '--strictPort'], { env: getProcessEnv(projectEnvRef.current, 'build') });
+            buildPreviewProcessRef.current = process;
+            process.output.pipeTo(new WritableStream({ write: (data) => setBuildLogs(prev => prev + maskSecrets(stripAnsi(data), secretValuesRef.current)) }));
+            process.exit.then(() => {
+                if (buildPreviewProcessRef.current === process) {
+                    buildPreviewProcessRef.current = null;
+                    setBuildPreviewUrl(null);
+                    setBuildPreviewStarting(false);
+                }
+            });
+        } catch (error: unknown) {
+            setBuildPreviewStarting(false);
+            addToast(`Could not start the preview: ${error instanceof Error ? error.message : String(error)}`, 'error');
+        }
+    }, [addToast]);
+
+    const handleDownloadBuild = useCallback(async () => {
+        if (!buildResult || buildResult.files.size === 0) return;
+        try {
+            await zipBuildOutput(buildResult.files, projectName);
+        } catch (error) {
+            console.error("Failed to zip build output", error);
+            addToast("Failed to create ZIP file.", "error");
+        }
+    }, [buildResult, projectName, addToast]);
   
-    const applyAiChanges = async (response: AiResponse) => {
-        setAiMessage(""); // Clear "Thinking..."
-        const summaryWords = response.summary.split(/(\s+)/); // Split by space, keeping spaces
-        for (const word of summaryWords) {
-            setAiMessage(prev => prev + word);
-            await new Promise(res => setTimeout(res, 25));
+    const handleStopServer = useCallback(() => {
+        processManagerRef.current?.stop();
+    }, []);
+
+    const handleRestartServer = useCallback(() => {
+        processManagerRef.current?.restartServer();
+    }, []);
+
+    const handleReinstall = useCallback(() => {
+        errorDetectorRef.current.clear();
+        setDetectedErrors([]);
+        processManagerRef.current?.reinstall();
+    }, []);
+
+    const handleCleanInstall = useCallback(() => {
+        errorDetectorRef.current.clear();
+        setDetectedErrors([]);
+        processManagerRef.current?.cleanInstall();
+    }, []);
+
+    // Restarts the dev server if it is running, e.g. to pick up a new environment or new dependencies.
+    const restartDevServer = useCallback(async () => {
+        const processManager = processManagerRef.current;
+        if (processManager?.isServerRunning()) await processManager.restartServer();
+    }, []);
+
+    // Saving restarts a running dev server, since it only reads its environment on start.
+    const handleSaveEnv = useCallback(async (env: ProjectEnv, changedEnvironments: EnvironmentName[]) => {
+        setProjectEnv(env);
+        projectEnvRef.current = env;
+        secretValuesRef.current = getSecretValues(env);
+        onUpdate(project.id, { env });
+        if (!changedEnvironments.includes('development') || !processManagerRef.current?.isServerRunning()) {
+            addToast('Environment variables saved.', 'success');
+            return;
         }
+        addToast('Environment variables saved. Restarting the dev server...', 'info');
+        await restartDevServer();
+    }, [onUpdate, project.id, restartDevServer, addToast]);
 
-        const hasDeletions = response.filesToDelete && response.filesToDelete.length > 0;
-        const hasUpdates = response.filesToUpdate && response.filesToUpdate.length > 0;
-        
-        if (!hasDeletions && !hasUpdates) {
+    const packageJsonContent = useMemo(() => {
+        const node = findFileByPath(projectStructure, '/package.json');
+        return node?.type === 'file' ? getTextContent(node) : null;
+    }, [projectStructure]);
+
+    const packageLockContent = useMemo(() => {
+        const node = findFileByPath(projectStructure, '/package-lock.json');
+        return node?.type === 'file' ? getTextContent(node) : null;
+    }, [projectStructure]);
+
+    const declaredDependencies = useMemo(() => {
+        if (packageJsonContent === null) return [];
+        try {
+            return readDeclaredDependencies(packageJsonContent);
+        } catch {
+            return [];
+        }
+    }, [packageJsonContent]);
+
+    useEffect(() => {
+        localStorage.setItem('codematic_npm_registry', registryUrl);
+    }, [registryUrl]);
+
+    // Dependencies are reinstalled when package.json changes them, whether by an edit, the AI
+    // or a checkout. Installs started from the Dependencies panel record their own result.
+    const dependencySignature = useMemo(() => (packageJsonContent === null ? null : getDependencySignature(packageJsonContent)), [packageJsonContent]);
+    const installedDependencySignatureRef = useRef(dependencySignature);
+
+    useEffect(() => {
+        if (dependencySignature === null || dependencySignature === installedDependencySignatureRef.current) return;
+        if (isDependencyBusy || !hasEnvironmentStarted || !processManagerRef.current) return;
+        const timer = setTimeout(() => {
+            installedDependencySignatureRef.current = dependencySignature;
+            addToast('Dependencies in package.json changed. Reinstalling...', 'info');
+            processManagerRef.current?.reinstall();
+        }, AUTO_REINSTALL_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [dependencySignature, isDependencyBusy, hasEnvironmentStarted, addToast]);
+
+    // Installed versions are re-read whenever package.json changes or an install finishes.
+    useEffect(() => {
+        const wc = webContainerRef.current;
+        if (!wc || isDependencyBusy || (wcStatus !== 'ready' && wcStatus !== 'starting-server')) return;
+        let isCancelled = false;
+        Promise.all(declaredDependencies.map(async dependency => [dependency.name, await readInstalledVersion(wc.fs, dependency.name)] as const))
+            .then(entries => { if (!isCancelled) setInstalledVersions(Object.fromEntries(entries)); });
+        return () => { isCancelled = true; };
+    }, [declaredDependencies, isDependencyBusy, wcStatus]);
+
+    // Type acquisition for the editor, re-run whenever package.json changes or an install finishes.
+    // While npm install runs, packages already cached at their lockfile versions are used instead.
+    useEffect(() => {
+        const wc = webContainerRef.current;
+        if (!wc || isDependencyBusy) return;
+        const isInstalling = wcStatus === 'booting' || wcStatus === 'installing';
+        if (isInstalling && packageLockContent === null) return;
+        const source = isInstalling ? createLockfileTypeSource(packageLockContent!) : createNodeModulesTypeSource(wc.fs);
+        let isCancelled = false;
+        acquireTypes(source, declaredDependencies.map(dependency => dependency.name))
+            .then(files => { if (!isCancelled) setDependencyTypeFiles(files); })
+            .catch(error => console.warn('Failed to acquire dependency types:', error));
+        return () => { isCancelled = true; };
+    }, [declaredDependencies, packageLockContent, isDependencyBusy, wcStatus]);
+
+    const handleCheckOutdated = useCallback(async () => {
+        setCheckingOutdated(true);
+        const results = await Promise.all(declaredDependencies.map(async dependency => {
+            try {
+                return [dependency.name, await fetchLatestVersion(registryUrl, dependency.name)] as const;
+            } catch {
+                return [dependency.name, null] as const;
+            }
+        }));
+        setLatestVersions(Object.fromEntries(results));
+        setCheckingOutdated(false);
+        const failed = results.filter(([, version]) => version === null).length;
+        if (failed > 0) {
+            addToast(`Could not look up ${failed} of ${results.length} packages in ${registryUrl}.`, 'warning');
+        }
+    }, [declaredDependencies, registryUrl, addToast]);
+
+    // Runs npm in the container, copies the resulting package.json and lockfile into the
+    // project tree and restarts the dev server so the change takes effect.
+    const runDependencyCommand = useCallback(async (args: string[], successMessage: string) => {
+        const wc = webContainerRef.current;
+        if (!wc || isDependencyBusy) return;
+        setDependencyBusy(true);
+        handleProcessOutput(`\r\n$ npm ${args.join(' ')}\r\n`);
+        try {
+            const process = await wc.spawn('npm', args, { env: getProcessEnv(projectEnvRef.current, 'development') });
+            process.output.pipeTo(new WritableStream({ write: handleProcessOutput }));
+            const exitCode = await process.exit;
+            const changes: FsChange[] = [];
+            for (const path of ['/package.json', '/package-lock.json']) {
+                try {
+                    changes.push({ kind: 'file', path, content: await wc.fs.readFile(path, 'utf-8') });
+                } catch {
+                    // No lockfile yet.
+                }
+            }
+            const packageJson = changes.find(change => change.path === '/package.json');
+            if (packageJson?.kind === 'file' && typeof packageJson.content === 'string') {
+                installedDependencySignatureRef.current = getDependencySignature(packageJson.content);
+            }
+            applyContainerChanges(changes);
+            if (exitCode !== 0) {
+                throw new Error(`npm exited with code ${exitCode}. See the console for details.`);
+            }
+            addToast(successMessage, 'success');
+            await restartDevServer();
+        } catch (error: unknown) {
+            addToast(error instanceof Error ? error.message : String(error), 'error');
+        } finally {
+            setDependencyBusy(false);
+        }
+    }, [isDependencyBusy, handleProcessOutput, restartDevServer, applyContainerChanges, addToast]);
+
+    const handleAddDependency = useCallback((spec: string, kind: DependencyKind) => {
+        try {
+            parsePackageSpec(spec);
+        } catch (error: unknown) {
+            addToast(error instanceof Error ? error.message : String(error), 'error');
             return;
         }
+        runDependencyCommand(installArgs([spec.trim()], kind, registryUrl), `Added ${spec.trim()}.`);
+    }, [runDependencyCommand, registryUrl, addToast]);
+
+    const handleRemoveDependency = useCallback((dependency: DeclaredDependency) => {
+        runDependencyCommand(uninstallArgs([dependency.name], registryUrl), `Removed ${dependency.name}.`);
+    }, [runDependencyCommand, registryUrl]);
+
+    const handleUpgradeDependency = useCallback((dependency: DeclaredDependency) => {
+        const latest = latestVersions[dependency.name];
+        runDependencyCommand(installArgs([`${dependency.name}@${latest || 'latest'}`], dependency.kind, registryUrl), `Upgraded ${dependency.name}${latest ? ` to ${latest}` : ''}.`);
+    }, [runDependencyCommand, latestVersions, registryUrl]);
+
+    const { deploySettings, deployments, isDeploying, deployProgress, handleSaveDeploySettings, handleDeploy, handleRollback } = useDeploy({ project, onUpdate, buildResult, gitData, gitLog });
+
+    const applyFileChanges = async (filesToUpdate: AiFile[], pathsToDelete: string[]): Promise<string[]> => {
+        if (filesToUpdate.length === 0 && pathsToDelete.length === 0) {
+            return [];
+        }
 
         let finalStructure = projectStructure;
 
-        if (hasDeletions) {
-            for (const file of response.filesToDelete!) {
-            finalStructure = deleteNodeByPath(finalStructure, file.path);
+        for (const path of pathsToDelete) {
+            finalStructure = deleteNodeByPath(finalStructure, path);
             if (webContainerRef.current) {
                 try {
-                await webContainerRef.current.fs.rm(file.path, { recursive: true });
+                await webContainerRef.current.fs.rm(path, { recursive: true });
                 } catch (e) {
-                console.warn(`AI requested to delete a non-existent file: ${file.path}`, e);
+                console.warn(`AI requested to delete a non-existent file: ${path}`, e);
                 }
             }
+        }
+
+        if (isFormatOnSaveEnabled) {
+            // Resolved against the config as it will be once the changes are in, in case they touch .prettierrc.
+            const configFiles = new Map([...getTextFiles(finalStructure), ...filesToUpdate.map(file => [file.path, file.content] as const)]);
+            const formatted = await formatFiles(filesToUpdate, configFiles);
+            filesToUpdate = formatted.files;
+            if (formatted.errors.length > 0) {
+                addToast(`Some AI changes could not be formatted: ${formatted.errors[0]}`, 'warning');
             }
         }
 
-        if (hasUpdates) {
-            for (const fileToUpdate of response.filesToUpdate!) {
-                if (webContainerRef.current) {
-                    const parentDir = fileToUpdate.path.substring(0, fileToUpdate.path.lastIndexOf('/'));
-                    if (parentDir) {
-                        await webContainerRef.current.fs.mkdir(parentDir, { recursive: true });
-                    }
-                    await webContainerRef.current.fs.writeFile(fileToUpdate.path, fileToUpdate.content);
+        for (const fileToUpdate of filesToUpdate) {
+            if (webContainerRef.current) {
+                const parentDir = fileToUpdate.path.substring(0, fileToUpdate.path.lastIndexOf('/'));
+                if (parentDir) {
+                    await webContainerRef.current.fs.mkdir(parentDir, { recursive: true });
                 }
-                finalStructure = addOrUpdateFileByPath(finalStructure, fileToUpdate.path, fileToUpdate.content);
+                await writeContainerFile(webContainerRef.current, fileToUpdate.path, fileToUpdate.content);
             }
+            finalStructure = addOrUpdateFileByPath(finalStructure, fileToUpdate.path, fileToUpdate.content);
         }
         
         pushHistory(finalStructure);
+        trackRecentEdits(filesToUpdate.map(file => file.path));
 
-        if(hasUpdates) {
-            response.filesToUpdate!.forEach(file => handleOpenFile(file.path));
-        }
+        filesToUpdate.forEach(file => handleOpenFile(file.path));
 
         addToast("AI changes applied successfully!", "success");
         setHasUnsavedChanges(true);
+
+        return [...filesToUpdate.map(file => file.path), ...pathsToDelete];
     };
 
-    const handleSendPrompt = useCallback(async (prompt: string, attachments: Attachment[]) => {
-        if ((!prompt && attachments.length === 0) || isLoadingAI) return;
+    const applyAiChanges = (response: AiResponse): Promise<string[]> =>
+        applyFileChanges(response.filesToUpdate || [], (response.filesToDelete || []).map(file => file.path));
+
+    const handleApplyReviewedChanges = useCallback(async (filesToUpdate: AiFile[], pathsToDelete: string[]) => {
+        if (!pendingChangeset) return;
+        const { messageId } = pendingChangeset;
+        setPendingChangeset(null);
+        const changedFiles = await applyFileChanges(filesToUpdate, pathsToDelete);
+        setConversation(prev => prev.map(m => m.id === messageId ? { ...m, changedFiles } : m));
+    }, [pendingChangeset, projectStructure, pushHistory, handleOpenFile, addToast, isFormatOnSaveEnabled]);
+
+    const handleDiscardReviewedChanges = useCallback(() => {
+        if (!pendingChangeset) return;
+        const { messageId } = pendingChangeset;
+        setPendingChangeset(null);
+        setConversation(prev => prev.map(m => m.id === messageId ? { ...m, status: 'discarded' } : m));
+        addToast("AI changes discarded.", "info");
+    }, [pendingChangeset, addToast]);
+
+    const runAgentCommand = useCallback(async (command: string, args: string[], timeoutMs: number, signal?: AbortSignal): Promise<CommandResult> => {
+        const wc = webContainerRef.current;
+        if (!wc) {
+            throw new Error('The WebContainer is not running.');
+        }
+        if (signal?.aborted) {
+            return { exitCode: null, output: '' };
+        }
+        const process = await wc.spawn(command, args, { env: getProcessEnv(projectEnvRef.current, 'development') });
+        let output = '';
+        process.output.pipeTo(new WritableStream({ write: (data) => { output += maskSecrets(data, secretValuesRef.current); } }));
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let onAbort = () => {};
+        const exitCode = await Promise.race([
+            process.exit,
+            new Promise<null>(resolve => {
+                timer = setTimeout(() => resolve(null), timeoutMs);
+                onAbort = () => resolve(null);
+                signal?.addEventListener('abort', onAbort);
+            }),
+        ]);
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        if (exitCode === null) {
+            process.kill();
+        }
+        return { exitCode, output: stripAnsi(output) };
+    }, []);
+
+    // Resolves to the paths changed by this turn, or null if nothing could be applied.
+    const handleSendPrompt = useCallback(async (prompt: string, attachments: Attachment[]): Promise<string[] | null> => {
+        if ((!prompt && attachments.length === 0) || isLoadingAI) return null;
         setIsLoadingAI(true);
         setAiMessage("Thinking... I'm analyzing the project and your request.");
         setStreamingFileOverrides({});
+        setAgentSteps([]);
+
+        const history = conversation;
+        const projectContext = buildAiContext(projectStructure, {
+            prompt,
+            openFilePaths: openFiles.map(f => f.path),
+            activeFilePath,
+            recentlyEditedPaths: recentlyEditedPathsRef.current,
+            tokenBudget: aiSettings.contextTokenBudget,
+        });
+        setConversation(prev => [...prev, withoutAttachmentData(createChatMessage('user', prompt, {
+            ...(attachments.length > 0 ? { attachments } : {}),
+            context: {
+                files: projectContext.files,
+                omittedCount: projectContext.omittedCount,
+                totalTokens: projectContext.totalTokens,
+                tokenBudget: projectContext.tokenBudget,
+            },
+        }))]);
         
         const mentionedFiles = findMentionedFiles(prompt, projectStructure);
         let finalPrompt = prompt;
@@ -451,16 +1216,167 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
             finalPrompt = focusMessage + prompt;
         }
         
-        const aiResponse = await generateCodeFromPrompt(finalPrompt, projectStructure, attachments);
-        if (aiResponse) {
-            await applyAiChanges(aiResponse);
+        const abortController = new AbortController();
+        aiAbortControllerRef.current = abortController;
+        let lastStreamedPath: string | null = null;
+        // Tabs opened to follow the stream are closed again when its changes are not applied now.
+        const streamedPaths = new Set<string>();
+        const activeFilePathBefore = activeFilePath;
+        const restoreTabs = () => {
+            if (streamedPaths.size === 0) return;
+            setOpenFiles(prev => prev.filter(f => !streamedPaths.has(f.path)));
+            setActiveFilePath(current => (current && streamedPaths.has(current) ? activeFilePathBefore : current));
+        };
+
+        const steps: AgentStep[] = [];
+
+        let aiResponse = isAgentModeEnabled
+            ? await runAgentFromPrompt(aiProvider, finalPrompt, projectContext, attachments, history, createAgentToolbox({
+                getProjectStructure: () => projectStructure,
+                runCommand: runAgentCommand,
+                getPreviewConsole: () => previewConsoleRef.current,
+            }), (step) => {
+                steps.push(step);
+                setAgentSteps([...steps]);
+            }, abortController.signal)
+            : await streamCodeFromPrompt(aiProvider, finalPrompt, projectContext, attachments, history, {
+                onSummary: (summary) => {
+                    if (summary) setAiMessage(summary);
+                },
+                onFileProgress: (path, partialContent) => {
+                    setStreamingFileOverrides(prev => ({ ...prev, [path]: partialContent }));
+                    if (path !== lastStreamedPath) {
+                        lastStreamedPath = path;
+                        if (!openFiles.some(f => f.path === path)) streamedPaths.add(path);
+                        setActiveFilePath(path);
+                    }
+                },
+                onPatchStart: (path) => {
+                    if (!openFiles.some(f => f.path === path)) streamedPaths.add(path);
+                    handleOpenFile(path);
+                },
+            }, abortController.signal);
+
+        if (aiResponse?.filesToPatch?.length && !abortController.signal.aborted) {
+            aiResponse = await resolveAiPatches(aiProvider, aiResponse, projectStructure, abortController.signal);
+        }
+        aiAbortControllerRef.current = null;
+
+        let rejectedOperations: RejectedOperation[] = [];
+        if (aiResponse && !abortController.signal.aborted) {
+            const policy = applyPathPolicy(aiResponse.filesToUpdate || [], (aiResponse.filesToDelete || []).map(file => file.path), projectStructure);
+            aiResponse = {
+                ...aiResponse,
+                filesToUpdate: policy.filesToUpdate,
+                filesToDelete: policy.pathsToDelete.map(path => ({ path, content: '' })),
+            };
+            rejectedOperations = policy.rejected;
+            if (rejectedOperations.length > 0) {
+                addToast(`${rejectedOperations.length} AI file operation(s) were blocked.`, 'warning');
+            }
+        }
+
+        let changedFiles: string[] | null = null;
+        const messageExtras = {
+            ...(steps.length > 0 ? { agentSteps: steps } : {}),
+            ...(rejectedOperations.length > 0 ? { rejectedOperations } : {}),
+        };
+        if (abortController.signal.aborted) {
+            restoreTabs();
+            setConversation(prev => [...prev, createChatMessage('assistant', "Generation cancelled. No changes were applied to your project.", { status: 'cancelled', ...messageExtras })]);
+            addToast("AI request cancelled.", "info");
+        } else if (aiResponse && isReviewModeEnabled && (aiResponse.filesToUpdate?.length || aiResponse.filesToDelete?.length)) {
+            const message = createChatMessage('assistant', aiResponse.summary, { changedFiles: [], ...messageExtras });
+            restoreTabs();
+            setConversation(prev => [...prev, message]);
+            setPendingChangeset({ messageId: message.id, response: aiResponse });
+        } else if (aiResponse) {
+            const appliedFiles = await applyAiChanges(aiResponse);
+            changedFiles = appliedFiles;
+            setConversation(prev => [...prev, createChatMessage('assistant', aiResponse.summary, { changedFiles: appliedFiles, ...messageExtras })]);
         } else {
-            setAiMessage("Sorry, I encountered an error and couldn't process your request. Please check the console for details and try again.");
+            restoreTabs();
+            setConversation(prev => [...prev, createChatMessage('assistant', "Sorry, I encountered an error and couldn't process your request. Please check the console for details and try again.", { status: 'error', ...messageExtras })]);
             addToast("AI request failed.", "error");
         }
+        setAiMessage('');
+        setStreamingFileOverrides({});
+        setAgentSteps([]);
         setIsLoadingAI(false);
-    }, [projectStructure, isLoadingAI, addToast, handleOpenFile, pushHistory]);
+        return changedFiles;
+    }, [aiProvider, aiSettings.contextTokenBudget, projectStructure, openFiles, activeFilePath, isLoadingAI, conversation, isReviewModeEnabled, isAgentModeEnabled, isFormatOnSaveEnabled, runAgentCommand, addToast, handleOpenFile, pushHistory]);
+
+    // The fix loop spans several renders, so it always calls the latest `handleSendPrompt`.
+    const handleSendPromptRef = useRef(handleSendPrompt);
+    handleSendPromptRef.current = handleSendPrompt;
+
+    const waitForRecompile = async (since: number) => {
+        const start = Date.now();
+        while (Date.now() - start < RECOMPILE_TIMEOUT_MS) {
+            await new Promise(resolve => setTimeout(resolve, 500));
+            const lastOutputAt = lastOutputAtRef.current;
+            if (lastOutputAt > since && Date.now() - lastOutputAt >= RECOMPILE_SETTLE_MS) return;
+        }
+    };
+
+    const handleFixErrors = useCallback(async () => {
+        if (isLoadingAI || fixProgress) return;
+        const maxAttempts = aiSettings.maxFixAttempts || DEFAULT_MAX_FIX_ATTEMPTS;
+        isFixCancelledRef.current = false;
+        setViewState(prev => ({ ...prev, activeLeftPanel: 'assistant' }));
+
+        let errors = errorDetectorRef.current.getErrors();
+        let isStopped = false;
+        for (let attempt = 1; attempt <= maxAttempts && errors.length > 0; attempt++) {
+            setFixProgress({ attempt, maxAttempts });
+            const startedAt = Date.now();
+            const changedFiles = await handleSendPromptRef.current(buildFixPrompt(errors), []);
+            // Stop when cancelled, when the AI proposed nothing, or when changes await review;
+            // the assistant panel already explains each of these.
+            if (isFixCancelledRef.current || !changedFiles || changedFiles.length === 0) {
+                isStopped = true;
+                break;
+            }
+
+            const processManager = processManagerRef.current;
+            if (processManager && errors.some(e => e.kind === 'npm')) {
+                errorDetectorRef.current.clear();
+                setDetectedErrors([]);
+                await processManager.reinstall();
+            }
+            await waitForRecompile(startedAt);
+            errors = errorDetectorRef.current.getErrors();
+        }
+        setFixProgress(null);
+
+        if (isStopped) return;
+        if (errors.length === 0) {
+            addToast('All detected errors are resolved.', 'success');
+        } else {
+            addToast(`${errors.length} error(s) remain after the AI fix attempts.`, 'warning');
+        }
+    }, [isLoadingAI, fixProgress, aiSettings.maxFixAttempts, addToast]);
+
+    const handleCancelFix = useCallback(() => {
+        isFixCancelledRef.current = true;
+        aiAbortControllerRef.current?.abort();
+    }, []);
+
 
+    const handleCancelPrompt = useCallback(() => {
+        aiAbortControllerRef.current?.abort();
+    }, []);
+
+    const handleSaveAiSettings = useCallback((settings: AiProviderSettings) => {
+        onUpdate(project.id, { aiSettings: settings });
+        setAiSettingsOpen(false);
+        addToast('AI provider settings saved.', 'success');
+    }, [onUpdate, project.id, addToast]);
+
+    const handleClearConversation = useCallback(() => {
+        if (isLoadingAI) return;
+        setConversation([]);
+    }, [isLoadingAI]);
 
     const handleRefreshPreview = useCallback(() => {
         addToast('Preview manually refreshed.', 'info');
@@ -501,10 +1417,23 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
         await handleSendPrompt(finalPrompt, []);
     }, [refactorData, refactorPrompt, handleSendPrompt]);
 
-    const handleRefreshWorkspace = useCallback(() => {
-        addToast('Workspace refreshed. Reloading environment...', 'info');
-        window.location.reload();
-    }, [addToast]);
+    // Writes the whole project tree into the container again and reinstalls, for when the two have drifted apart.
+    const handleRefreshWorkspace = useCallback(async () => {
+        const wc = webContainerRef.current;
+        const processManager = processManagerRef.current;
+        if (!wc || !processManager) return;
+        addToast('Refreshing workspace...', 'info');
+        try {
+            await wc.mount(projectStructureToWebContainerFiles(projectStructure));
+        } catch (error: unknown) {
+            addToast(`Failed to refresh the workspace: ${error instanceof Error ? error.message : String(error)}`, 'error');
+            return;
+        }
+        installedDependencySignatureRef.current = dependencySignature;
+        errorDetectorRef.current.clear();
+        setDetectedErrors([]);
+        await processManager.reinstall();
+    }, [projectStructure, dependencySignature, addToast]);
 
     const handleAddNode = useCallback(async (parentPath: string, nodeName: string, type: 'file' | 'folder') => {
         try {
@@ -543,7 +1472,7 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
         const nodes = paths.map(p => findFileByPath(projectStructure, p)).filter(Boolean) as FileNode[];
         if (nodes.length === 0) return;
 
-        const protectedItem = nodes.find(n => ['/package.json', '/src', '/public', '/index.html', '/vite.config.ts'].includes(n.path));
+        const protectedItem = nodes.find(n => isProtectedPath(n.path));
         if (protectedItem) {
             addToast(`Core item "${protectedItem.name}" cannot be deleted.`, "warning");
             return;
@@ -647,7 +1576,7 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
                 };
                 reader.onerror = reject;
 
-                if (file.type.startsWith('image/')) {
+                if (isBinaryFileName(file.name)) {
                     reader.readAsArrayBuffer(file);
                 } else {
                     reader.readAsText(file);
@@ -664,7 +1593,7 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
                 if (webContainerRef.current) {
                     await webContainerRef.current.fs.writeFile(newPath, content);
                 }
-                tempStructure = addFileToTree(tempStructure, parentPath, { name: file.name, content: typeof content === 'string' ? content : '[binary data]' });
+                tempStructure = addFileToTree(tempStructure, parentPath, { name: file.name, content });
             }
             pushHistory(tempStructure);
             setHasUnsavedChanges(true);
@@ -693,13 +1622,13 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
         
         let regex: RegExp;
         try {
-            let pattern = options.isRegex ? query : query.replace(/[-\/\\^$*+?.()|[\]{}]/g, '\\$&');
+            let pattern = options.isRegex ? query : query.replace(/[-/\\^$*+?.()|[\]{}]/g, '\\$&');
             if (!options.isRegex && options.isWholeWord) {
                 pattern = `\\b${pattern}\\b`;
             }
             const flags = options.isCaseSensitive ? 'g' : 'gi';
             regex = new RegExp(pattern, flags);
-        } catch (e) {
+        } catch {
             addToast("Invalid regular expression.", "error");
             return;
         }
@@ -725,6 +1654,21 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
         }
     }, [projectStructure]);
 
+    const handleSelectProblem = useCallback((problem: Problem) => {
+        const file = findFileByPath(projectStructure, problem.path);
+        if (file && file.type === 'file') {
+        setOpenFiles(prevOpenFiles => (prevOpenFiles.some(f => f.path === problem.path) ? prevOpenFiles : [...prevOpenFiles, file]));
+        setActiveFilePath(problem.path);
+        setSelectedNodePaths([problem.path]);
+        setActiveMatch({ path: problem.path, lineNumber: problem.line, column: problem.column });
+        }
+    }, [projectStructure]);
+
+    const handleOpenProblems = useCallback(() => {
+        setTerminalCollapsed(false);
+        setRevealProblemsKey(prev => prev + 1);
+    }, []);
+
     const handleReplaceOne = useCallback(async (path: string, match: SearchMatch, replaceText: string) => {
         if (!lastSearchRegex) return;
 
@@ -764,12 +1708,12 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
 
         for(const path of filePathsWithChanges) {
             const fileNode = findFileByPath(tempStructure, path);
-            if (fileNode?.content) {
+            if (typeof fileNode?.content === 'string' && fileNode.content) {
                 const matches = fileNode.content.match(lastSearchRegex);
                 totalReplaced += matches ? matches.length : 0;
                 const newContent = fileNode.content.replace(lastSearchRegex, replaceText);
                 if(webContainerRef.current) {
-                    await webContainerRef.current.fs.writeFile(path, newContent);
+                    await writeContainerFile(webContainerRef.current, path, newContent);
                 }
                 tempStructure = addOrUpdateFileByPath(tempStructure, path, newContent);
             }
@@ -780,7 +1724,7 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
         setSearchResults([]);
         setSearchQuery(null);
         setShowReplaceAllConfirm(null);
-    }, [showReplaceAllConfirm, lastSearchRegex, projectStructure, addToast, pushHistory]);
+    }, [showReplaceAllConfirm, lastSearchRegex, projectStructure, addToast, pushHistory, writeContainerFile]);
   
     const cancelReplaceAll = () => {
         setShowReplaceAllConfirm(null);
@@ -820,6 +1764,12 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
                 onRefresh={handleRefreshPreview}
                 status={wcStatus}
                 url={previewUrl}
+                errorCount={detectedErrors.length}
+                onFixErrors={!isLoadingAI ? handleFixErrors : undefined}
+                onStopServer={handleStopServer}
+                onRestartServer={handleRestartServer}
+                onReinstall={handleReinstall}
+                onCleanInstall={handleCleanInstall}
             />
         </div>
         );
@@ -827,7 +1777,7 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
 
     return (
         <>
-        {wcStatus !== 'ready' && wcStatus !== 'error' && (
+        {!hasEnvironmentStarted && (
             <div className="absolute inset-0 bg-slate-800/80 flex items-center justify-center z-[10000] text-white flex-col gap-4 backdrop-blur-sm">
                 <div className="w-12 h-12 border-4 border-white/30 border-t-white rounded-full animate-spin"></div>
                 <div className="text-center">
@@ -837,7 +1787,7 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
             </div>
         )}
         <div className="h-screen w-screen bg-white dark:bg-[#0d1117] text-slate-800 dark:text-slate-300 flex overflow-hidden">
-            <Sidebar activePanel={viewState.activeLeftPanel} onSetPanel={handleSetLeftPanel} />
+            <Sidebar activePanel={viewState.activeLeftPanel} onSetPanel={handleSetLeftPanel} onOpenAiSettings={() => setAiSettingsOpen(true)} />
             <div className="flex flex-col flex-1">
             <MainHeader
                 projectName={projectName}
@@ -846,6 +1796,8 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
                 onRename={handleRenameProject}
                 onNewProject={handleNewProject}
                 onSaveProject={handleSaveProject}
+                isFormatOnSaveEnabled={isFormatOnSaveEnabled}
+                onToggleFormatOnSave={() => setFormatOnSaveEnabled(prev => !prev)}
                 onDownloadProject={handleDownloadProject}
                 panelVisibility={{
                     assistant: viewState.activeLeftPanel === 'assistant',
@@ -855,11 +1807,28 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
                 onTogglePanel={handleTogglePanel}
                 hasUnsavedChanges={hasUnsavedChanges}
                 onExitIDE={onExit}
+                gitSummary={isRepository(gitData) ? { branch: gitBranch, aheadBehind: gitAheadBehind } : null}
+                onOpenSourceControl={() => setViewState(prev => ({ ...prev, activeLeftPanel: 'source_control' }))}
+                problemCounts={problemCounts}
+                onOpenProblems={handleOpenProblems}
             />
             <div ref={topLevelContentRef} className="flex-1 flex flex-row overflow-hidden">
                 {viewState.activeLeftPanel !== 'none' && (
                     <div style={{ flexBasis: `${leftPanelWidth}%` }} className="h-full flex-shrink-0 min-w-[300px]">
-                        {viewState.activeLeftPanel === 'assistant' && <AssistantPanel isLoading={isLoadingAI} message={aiMessage} onSend={handleSendPrompt} />}
+                        {viewState.activeLeftPanel === 'assistant' && <AssistantPanel 
+                                isLoading={isLoadingAI} 
+                                messages={conversation} 
+                                pendingMessage={aiMessage} 
+                                onSend={handleSendPrompt} 
+                                onCancel={handleCancelPrompt} 
+                                onClearConversation={handleClearConversation}
+                                onOpenFile={handleOpenFile}
+                                isReviewModeEnabled={isReviewModeEnabled}
+                                onToggleReviewMode={() => setReviewModeEnabled(prev => !prev)}
+                                isAgentModeEnabled={isAgentModeEnabled}
+                                onToggleAgentMode={() => setAgentModeEnabled(prev => !prev)}
+                                pendingAgentSteps={agentSteps}
+                            />}
                         {viewState.activeLeftPanel === 'search' && 
                             <SearchPanel 
                                 onSearch={handleSearch} 
@@ -875,8 +1844,84 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
                                 onFocusHandled={() => setFocusOnSearchPanel(null)}
                             />
                         }
-                        {viewState.activeLeftPanel === 'source_control' && <SourceControlPanel />}
-                        {viewState.activeLeftPanel === 'deploy' && <DeployPanel />}
+                        {viewState.activeLeftPanel === 'source_control' &&
+                            <SourceControlPanel
+                                isRepository={isRepository(gitData)}
+                                branch={gitBranch}
+                                status={gitStatus}
+                                log={gitLog}
+                                isBusy={isGitBusy}
+                                author={gitAuthor}
+                                onChangeAuthor={setGitAuthor}
+                                onInit={handleGitInit}
+                                onStage={handleGitStage}
+                                onUnstage={handleGitUnstage}
+                                onCommit={handleGitCommit}
+                                onCheckout={handleGitCheckout}
+                                onOpenDiff={handleOpenGitDiff}
+                                branches={gitBranches}
+                                onCreateBranch={handleGitCreateBranch}
+                                onDeleteBranch={handleGitDeleteBranch}
+                                onMerge={handleGitMerge}
+                                mergeHead={isRepository(gitData) ? getMergeHead(gitData) : null}
+                                mergeMessage={isRepository(gitData) ? getMergeMessage(gitData) : null}
+                                conflicts={gitConflicts}
+                                onAbortMerge={handleGitAbortMerge}
+                                onOpenFile={handleOpenFile}
+                                stashes={gitStashes}
+                                onStash={handleGitStash}
+                                onApplyStash={handleGitApplyStash}
+                                onDropStash={handleGitDropStash}
+                                remoteUrl={gitRemoteUrl}
+                                corsProxy={gitCorsProxy}
+                                credentials={gitCredentials}
+                                aheadBehind={gitAheadBehind}
+                                remoteProgress={gitRemoteProgress}
+                                onSaveRemote={handleGitSaveRemote}
+                                onFetch={handleGitFetch}
+                                onPull={handleGitPull}
+                                onPush={handleGitPush}
+                            />
+                        }
+                        {viewState.activeLeftPanel === 'dependencies' &&
+                            <DependenciesPanel
+                                dependencies={declaredDependencies}
+                                hasPackageJson={packageJsonContent !== null}
+                                installedVersions={installedVersions}
+                                latestVersions={latestVersions}
+                                registryUrl={registryUrl}
+                                isEnvironmentReady={wcStatus === 'ready' || wcStatus === 'starting-server'}
+                                isBusy={isDependencyBusy}
+                                isCheckingOutdated={isCheckingOutdated}
+                                onAdd={handleAddDependency}
+                                onRemove={handleRemoveDependency}
+                                onUpgrade={handleUpgradeDependency}
+                                onCheckOutdated={handleCheckOutdated}
+                                onSetRegistryUrl={setRegistryUrl}
+                            />
+                        }
+                        {viewState.activeLeftPanel === 'environment' && <EnvironmentPanel env={projectEnv} onSave={handleSaveEnv} />}
+                        {viewState.activeLeftPanel === 'deploy' &&
+                            <DeployPanel
+                                isEnvironmentReady={wcStatus === 'ready' || wcStatus === 'starting-server'}
+                                isBuilding={isBuilding}
+                                buildLogs={buildLogs}
+                                buildResult={buildResult}
+                                previewUrl={buildPreviewUrl}
+                                isPreviewStarting={isBuildPreviewStarting}
+                                onBuild={handleBuild}
+                                onStartPreview={handleStartBuildPreview}
+                                onStopPreview={stopBuildPreview}
+                                onDownload={handleDownloadBuild}
+                                deploySettings={deploySettings}
+                                deployments={deployments}
+                                isDeploying={isDeploying}
+                                deployProgress={deployProgress}
+                                onSaveDeploySettings={handleSaveDeploySettings}
+                                onDeploy={handleDeploy}
+                                onRollback={handleRollback}
+                            />
+                        }
                     </div>
                 )}
                 {viewState.activeLeftPanel !== 'none' && (viewState.editorVisible || viewState.previewVisible) && (
@@ -915,6 +1960,9 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
                                     streamingFileOverrides={streamingFileOverrides}
                                     isLoadingAI={isLoadingAI}
                                     onRequestRefactor={handleRequestRefactor}
+                                    gitChanges={gitChanges}
+                                    problemCounts={problemCountsByPath}
+                                    lintProblems={lintProblems}
                                 />
                             </div>
                         )}
@@ -931,6 +1979,12 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
                                     onRefresh={handleRefreshPreview}
                                     status={wcStatus}
                                     url={previewUrl}
+                                    errorCount={detectedErrors.length}
+                                    onFixErrors={!isLoadingAI ? handleFixErrors : undefined}
+                                    onStopServer={handleStopServer}
+                                    onRestartServer={handleRestartServer}
+                                    onReinstall={handleReinstall}
+                                    onCleanInstall={handleCleanInstall}
                                 />
                             </div>
                         )}
@@ -943,8 +1997,17 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
                             isCollapsed={isTerminalCollapsed} 
                             onToggle={handleToggleTerminal} 
                             webContainer={webContainerRef.current}
+                            env={terminalEnv}
+                            secretValues={secretValues}
                             onMount={handleTerminalMount}
                             logs={allLogs}
+                            detectedErrors={detectedErrors}
+                            fixProgress={fixProgress}
+                            onFixErrors={handleFixErrors}
+                            onCancelFix={handleCancelFix}
+                            problems={problems}
+                            onSelectProblem={handleSelectProblem}
+                            revealProblemsKey={revealProblemsKey}
                         />
                     </div>
                 </div>
@@ -1061,6 +2124,71 @@ const IDEView: React.FC<IDEViewProps> = ({ project, onExit, onUpdate }) => {
                 </div>
             </div>
         )}
+        {isAiSettingsOpen && (
+            <AiSettingsModal
+                settings={aiSettings}
+                onSave={handleSaveAiSettings}
+                onClose={() => setAiSettingsOpen(false)}
+            />
+        )}
+        {pendingChangeset && (
+            <ChangeReviewPanel
+                response={pendingChangeset.response}
+                projectStructure={projectStructure}
+                onApply={handleApplyReviewedChanges}
+                onDiscard={handleDiscardReviewedChanges}
+            />
+        )}
+        {gitDiff && (
+            <GitDiffModal
+                diff={gitDiff}
+                onOpenFile={findFileByPath(projectStructure, gitDiff.path) ? (path) => { setGitDiff(null); handleOpenFile(path); } : undefined}
+                onClose={() => setGitDiff(null)}
+            />
+        )}
+        {syncConflicts.length > 0 && (
+            <div className="absolute inset-0 bg-black/60 flex items-center justify-center z-50 backdrop-blur-sm" role="dialog" aria-modal="true" aria-labelledby="sync-conflict-title">
+                <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl p-6 w-full max-w-lg mx-4">
+                    <div className="flex items-start gap-4">
+                        <div className="flex-shrink-0 flex items-center justify-center h-10 w-10 rounded-full bg-yellow-100 dark:bg-yellow-900/30">
+                            <Icon name="sync_problem" className="text-yellow-600 dark:text-yellow-400 text-2xl" />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                            <h3 className="text-lg leading-6 font-bold text-slate-900 dark:text-white" id="sync-conflict-title">
+                                Files changed in the environment
+                            </h3>
+                            <p className="text-sm text-slate-600 dark:text-slate-400 mt-2">
+                                These files were changed by a command in the container while they had unsaved edits in the editor. Choose which version to keep.
+                            </p>
+                            <ul className="mt-3 space-y-2 max-h-64 overflow-y-auto">
+                                {syncConflicts.map(conflict => (
+                                    <li key={conflict.path} className="flex items-center gap-2 text-sm">
+                                        <span className="flex-1 min-w-0 truncate font-mono text-slate-700 dark:text-slate-200" title={conflict.path}>
+                                            {conflict.path}
+                                            {conflict.kind === 'deleted' && <span className="ml-1 font-sans text-red-600 dark:text-red-400">(deleted)</span>}
+                                        </span>
+                                        <button
+                                            type="button"
+                                            onClick={() => handleResolveSyncConflict(conflict, 'editor')}
+                                            className="px-2 py-1 rounded-md border border-slate-300 dark:border-slate-600 text-xs font-medium hover:bg-slate-50 dark:hover:bg-slate-700"
+                                        >
+                                            Keep editor version
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => handleResolveSyncConflict(conflict, 'container')}
+                                            className="px-2 py-1 rounded-md bg-blue-600 text-white text-xs font-medium hover:bg-blue-700"
+                                        >
+                                            {conflict.kind === 'deleted' ? 'Delete file' : 'Use new version'}
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        )}
         {nodesToDelete && (
             <div className="absolute inset-0 bg-black/60 flex items-center justify-center z-50 backdrop-blur-sm" role="dialog" aria-modal="true" aria-labelledby="delete-node-title">
                 <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl p-6 w-full max-w-md mx-4">
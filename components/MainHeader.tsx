@@ -1,6 +1,8 @@
 
 import React from 'react';
 import Icon from './Icon';
+import { AheadBehind } from '../lib/git';
+import { ProblemCounts } from '../lib/problems';
 
 interface MainHeaderProps {
     projectName: string;
@@ -9,6 +11,8 @@ interface MainHeaderProps {
     onRename: (newName: string) => void;
     onNewProject: () => void;
     onSaveProject: () => void;
+    isFormatOnSaveEnabled?: boolean;
+    onToggleFormatOnSave?: () => void;
     onDownloadProject: () => void;
     panelVisibility: {
         assistant: boolean;
@@ -18,6 +22,10 @@ interface MainHeaderProps {
     onTogglePanel: (panel: 'editor' | 'preview') => void;
     hasUnsavedChanges: boolean;
     onExitIDE: () => void; // New prop to go back to dashboard
+    gitSummary?: { branch: string | null; aheadBehind: AheadBehind | null } | null; // Null when the project is not a repository.
+    onOpenSourceControl?: () => void;
+    problemCounts?: ProblemCounts;
+    onOpenProblems?: () => void;
 }
 
 const MainHeader: React.FC<MainHeaderProps> = ({ 
@@ -27,11 +35,17 @@ const MainHeader: React.FC<MainHeaderProps> = ({
     onRename,
     onNewProject,
     onSaveProject,
+    isFormatOnSaveEnabled,
+    onToggleFormatOnSave,
     onDownloadProject,
     panelVisibility, 
     onTogglePanel,
     hasUnsavedChanges,
-    onExitIDE
+    onExitIDE,
+    gitSummary,
+    onOpenSourceControl,
+    problemCounts,
+    onOpenProblems
 }) => {
     const [name, setName] = React.useState(projectName);
     
@@ -80,10 +94,47 @@ const MainHeader: React.FC<MainHeaderProps> = ({
               className={hasUnsavedChanges ? 'cursor-pointer text-blue-500 hover:text-blue-400' : 'text-slate-500 cursor-not-allowed'} 
               onClick={hasUnsavedChanges ? onSaveProject : undefined}
             />
+            {onToggleFormatOnSave && (
+              <Icon
+                name="format_align_left"
+                title={isFormatOnSaveEnabled ? 'Format on save (Prettier): on' : 'Format on save (Prettier): off'}
+                className={`cursor-pointer ${isFormatOnSaveEnabled ? 'text-blue-500 hover:text-blue-400' : 'hover:text-slate-900 dark:hover:text-white'}`}
+                onClick={onToggleFormatOnSave}
+              />
+            )}
             <Icon name="download" title="Download as ZIP" className="cursor-pointer hover:text-slate-900 dark:hover:text-white" onClick={onDownloadProject} />
         </div>
       </div>
       <div className="flex items-center gap-6">
+        {problemCounts && (
+            <button
+                onClick={onOpenProblems}
+                data-tooltip="Show Problems"
+                className="flex items-center gap-2 px-2 py-1 rounded-md text-sm text-slate-600 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700/50"
+            >
+                <span className={`flex items-center gap-0.5 ${problemCounts.errors > 0 ? 'text-red-600 dark:text-red-400' : ''}`}>
+                    <Icon name="error" className="text-base" />
+                    {problemCounts.errors}
+                </span>
+                <span className={`flex items-center gap-0.5 ${problemCounts.warnings > 0 ? 'text-amber-600 dark:text-amber-400' : ''}`}>
+                    <Icon name="warning" className="text-base" />
+                    {problemCounts.warnings}
+                </span>
+            </button>
+        )}
+        {gitSummary && (
+            <button
+                onClick={onOpenSourceControl}
+                data-tooltip="Open Source Control"
+                className="flex items-center gap-1.5 px-2 py-1 rounded-md text-sm text-slate-600 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700/50"
+            >
+                <Icon name="account_tree" className="text-base" />
+                <span className="font-mono truncate max-w-[160px]">{gitSummary.branch || 'detached'}</span>
+                {gitSummary.aheadBehind && (gitSummary.aheadBehind.behind > 0 || gitSummary.aheadBehind.ahead > 0) && (
+                    <span className="text-xs">↓{gitSummary.aheadBehind.behind} ↑{gitSummary.aheadBehind.ahead}</span>
+                )}
+            </button>
+        )}
         <div className="flex items-center gap-2 p-1 bg-slate-200 dark:bg-slate-800/50 rounded-md">
              <button data-tooltip="Toggle Editor Panel" onClick={() => onTogglePanel('editor')} className={`p-1.5 rounded ${panelVisibility.editor ? 'bg-slate-300 dark:bg-slate-600/70 text-slate-900 dark:text-white' : 'text-slate-500 dark:text-slate-400 hover:bg-slate-300 dark:hover:bg-slate-700/50'}`}>
                 <Icon name="code_blocks" className="text-base" />
@@ -3,6 +3,7 @@
 import React, { useState, useCallback, useRef } from 'react';
 import Icon from './Icon';
 import { CreateProjectOptions } from '../App';
+import { MAX_CLONE_BYTES } from '../lib/git';
 
 interface NewProjectModalProps {
   onClose: () => void;
@@ -11,12 +12,18 @@ interface NewProjectModalProps {
 
 type CreationType = 'template' | 'idea' | 'upload' | 'repo';
 
+// "https://host/user/my-app.git" -> "my-app"
+const repoUrlName = (url: string) => url.trim().replace(/\/+$/, '').split('/').pop()?.replace(/\.git$/, '') || '';
+
 const NewProjectModal: React.FC<NewProjectModalProps> = ({ onClose, onCreate }) => {
   const [creationType, setCreationType] = useState<CreationType>('template');
   const [projectName, setProjectName] = useState('My-Vite-App');
   const [prompt, setPrompt] = useState('');
   const [file, setFile] = useState<File | null>(null);
   const [repoUrl, setRepoUrl] = useState('');
+  const [repoBranch, setRepoBranch] = useState('');
+  const [isShallowClone, setShallowClone] = useState(true);
+  const [corsProxy, setCorsProxy] = useState(() => localStorage.getItem('codematic_git_cors_proxy') || '');
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -29,22 +36,36 @@ const NewProjectModal: React.FC<NewProjectModalProps> = ({ onClose, onCreate })
       type: creationType,
       prompt: creationType === 'idea' ? prompt : undefined,
       file: creationType === 'upload' ? (file || undefined) : undefined,
-      url: creationType === 'repo' ? repoUrl : undefined,
+      url: creationType === 'repo' ? repoUrl.trim() : undefined,
+      branch: creationType === 'repo' ? (repoBranch.trim() || undefined) : undefined,
+      shallow: creationType === 'repo' ? isShallowClone : undefined,
+      corsProxy: creationType === 'repo' ? (corsProxy.trim() || undefined) : undefined,
     });
+    if (creationType === 'repo') localStorage.setItem('codematic_git_cors_proxy', corsProxy.trim());
     onClose();
   };
 
+  const handleRepoUrlChange = (url: string) => {
+    setRepoUrl(url);
+    // Suggest the repository name as the project name until the user picks one.
+    const repoName = repoUrlName(url);
+    if (repoName && (projectName === 'My-Vite-App' || projectName === repoUrlName(repoUrl))) {
+      setProjectName(repoName);
+    }
+  };
+
   const handleFileSelect = (files: FileList | null) => {
     if (files && files.length > 0) {
       const selectedFile = files[0];
-      if (selectedFile.type === 'application/zip' || selectedFile.name.endsWith('.zip')) {
+      // A .zip of the files, or a project exported as JSON.
+      if (selectedFile.type === 'application/zip' || /\.(zip|json)$/i.test(selectedFile.name)) {
         setFile(selectedFile);
         if (!projectName || projectName === 'My-Vite-App') {
-            setProjectName(selectedFile.name.replace('.zip', ''));
+            setProjectName(selectedFile.name.replace(/\.(zip|json)$/i, ''));
         }
       } else {
         // You might want to show a toast message here
-        alert('Please upload a .zip file.');
+        alert('Please upload a .zip or exported .json file.');
       }
     }
   };
@@ -71,8 +92,8 @@ const NewProjectModal: React.FC<NewProjectModalProps> = ({ onClose, onCreate })
   const options: { id: CreationType, icon: string, title: string, description: string }[] = [
     { id: 'template', icon: 'auto_awesome_motion', title: 'Start from template', description: 'Create a standard Vite + React project.' },
     { id: 'idea', icon: 'tips_and_updates', title: 'Create from an idea', description: 'Describe your app and let AI build it.' },
-    { id: 'upload', icon: 'upload_file', title: 'Upload project', description: 'Upload a .zip file to start.' },
-    { id: 'repo', icon: 'hub', title: 'Import repository', description: 'Import from a public Git repository.' },
+    { id: 'upload', icon: 'upload_file', title: 'Upload project', description: 'Upload a .zip or exported .json file to start.' },
+    { id: 'repo', icon: 'hub', title: 'Import repository', description: 'Clone a public Git repository.' },
   ];
 
   const renderContent = () => {
@@ -93,7 +114,7 @@ const NewProjectModal: React.FC<NewProjectModalProps> = ({ onClose, onCreate })
         case 'upload':
             return (
                 <div>
-                    <input type="file" accept=".zip" ref={fileInputRef} className="hidden" onChange={(e) => handleFileSelect(e.target.files)} />
+                    <input type="file" accept=".zip,.json" ref={fileInputRef} className="hidden" onChange={(e) => handleFileSelect(e.target.files)} />
                     <div 
                         onDragOver={handleDragOver}
                         onDragLeave={handleDragLeave}
@@ -111,7 +132,7 @@ const NewProjectModal: React.FC<NewProjectModalProps> = ({ onClose, onCreate })
                         ) : (
                              <div className="text-slate-500 dark:text-slate-400">
                                 <Icon name="upload" className="text-4xl mb-2" />
-                                <p className="font-semibold">Drag & drop a .zip file here</p>
+                                <p className="font-semibold">Drag & drop a .zip or .json file here</p>
                                 <p className="text-sm">or click to browse</p>
                             </div>
                         )}
@@ -120,19 +141,48 @@ const NewProjectModal: React.FC<NewProjectModalProps> = ({ onClose, onCreate })
             );
         case 'repo':
             return (
-                <div>
-                     <p className="text-sm text-slate-600 dark:text-slate-400 mb-2">Enter the URL of a public Git repository.</p>
-                     <div className="relative">
+                <div className="space-y-4">
+                    <div>
+                        <p className="text-sm text-slate-600 dark:text-slate-400 mb-2">Enter the HTTPS URL of a public Git repository.</p>
                         <input
                             type="url"
                             value={repoUrl}
-                            onChange={(e) => setRepoUrl(e.target.value)}
+                            onChange={(e) => handleRepoUrlChange(e.target.value)}
                             placeholder="https://github.com/username/repository.git"
-                            className="w-full bg-slate-100 dark:bg-slate-700/50 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50"
-                            disabled
+                            className="w-full bg-slate-100 dark:bg-slate-700/50 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        />
+                    </div>
+                    <div className="flex gap-4 items-end">
+                        <div className="flex-1">
+                            <label htmlFor="repo-branch" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Branch</label>
+                            <input
+                                id="repo-branch"
+                                type="text"
+                                value={repoBranch}
+                                onChange={(e) => setRepoBranch(e.target.value)}
+                                placeholder="Default branch"
+                                className="w-full bg-slate-100 dark:bg-slate-700/50 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+                            />
+                        </div>
+                        <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 pb-2 cursor-pointer">
+                            <input type="checkbox" checked={isShallowClone} onChange={(e) => setShallowClone(e.target.checked)} />
+                            Latest commit only
+                        </label>
+                    </div>
+                    <div>
+                        <label htmlFor="repo-cors-proxy" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">CORS proxy (optional)</label>
+                        <input
+                            id="repo-cors-proxy"
+                            type="url"
+                            value={corsProxy}
+                            onChange={(e) => setCorsProxy(e.target.value)}
+                            placeholder="https://cors.isomorphic-git.org"
+                            className="w-full bg-slate-100 dark:bg-slate-700/50 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
                         />
-                        <span className="absolute top-1/2 -translate-y-1/2 right-2 text-xs font-semibold bg-yellow-400/30 text-yellow-800 dark:bg-yellow-500/20 dark:text-yellow-300 px-2 py-1 rounded-md">Coming Soon</span>
-                     </div>
+                        <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                            Hosts such as GitHub do not allow cloning straight from the browser and need a proxy. Repositories larger than {Math.round(MAX_CLONE_BYTES / (1024 * 1024))} MB cannot be imported.
+                        </p>
+                    </div>
                 </div>
             );
         case 'template':
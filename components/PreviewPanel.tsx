@@ -1,12 +1,19 @@
 import React from 'react';
 import Icon from './Icon';
+import { WebContainerStatus } from '../lib/process-manager';
 
 interface PreviewPanelProps {
   isPreviewFullscreen?: boolean;
   onToggleFullscreen?: () => void;
   onRefresh: () => void;
-  status: 'booting' | 'installing' | 'starting-server' | 'ready' | 'error' | 'idle';
+  status: WebContainerStatus;
   url: string;
+  errorCount?: number; // Errors detected in the install and dev server output.
+  onFixErrors?: () => void; // Offered whenever `errorCount` is above zero, whatever the server status.
+  onStopServer?: () => void;
+  onRestartServer?: () => void; // Also starts a stopped server.
+  onReinstall?: () => void;
+  onCleanInstall?: () => void;
 }
 
 const PreviewPanel: React.FC<PreviewPanelProps> = ({ 
@@ -15,7 +22,16 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({
   onRefresh,
   status,
   url,
+  errorCount = 0,
+  onFixErrors,
+  onStopServer,
+  onRestartServer,
+  onReinstall,
+  onCleanInstall,
 }) => {
+  const isServerActive = status === 'ready' || status === 'starting-server' || status === 'installing';
+  // Compile errors usually arrive while the server keeps running, so this does not depend on `status`.
+  const canFixErrors = errorCount > 0 && !!onFixErrors;
 
   const StatusDisplay: React.FC = () => {
     let icon = "hourglass_top";
@@ -38,8 +54,8 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({
             message = "An error occurred.";
             break;
         case 'idle':
-             icon = "widgets";
-             message = "Workspace is Empty";
+             icon = "stop_circle";
+             message = "Dev server stopped";
             break;
     }
 
@@ -49,6 +65,24 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({
               <Icon name={icon} className="text-4xl mb-2" />
               <h4 className="font-semibold text-lg mb-1">{message}</h4>
               <p className="text-sm">The live preview will appear here once the server is running.</p>
+              {(status === 'idle' || status === 'error') && onRestartServer && (
+                <button
+                  onClick={onRestartServer}
+                  className="mt-4 mr-2 inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-md border border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-800"
+                >
+                  <Icon name="play_arrow" className="text-lg" />
+                  Start Server
+                </button>
+              )}
+              {canFixErrors && (
+                <button
+                  onClick={onFixErrors}
+                  className="mt-4 inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-md bg-blue-600 text-white hover:bg-blue-700"
+                >
+                  <Icon name="auto_fix_high" className="text-lg" />
+                  Fix with AI
+                </button>
+              )}
           </div>
       </div>
     );
@@ -59,7 +93,20 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({
       <div className="bg-slate-100 dark:bg-[#252526] px-4 h-[37px] flex items-center justify-between border-b border-slate-300 dark:border-slate-700/50">
         <h3 className="font-medium text-slate-800 dark:text-slate-200 text-sm uppercase tracking-wider">Preview</h3>
         <div className="flex items-center gap-3 text-slate-600 dark:text-slate-400">
-          <Icon name="refresh" className="cursor-pointer hover:text-slate-900 dark:hover:text-white text-lg" onClick={onRefresh} />
+          {isServerActive && onStopServer && (
+            <Icon name="stop" title="Stop dev server" className="cursor-pointer hover:text-slate-900 dark:hover:text-white text-lg" onClick={onStopServer} />
+          )}
+          {onRestartServer && (
+            <Icon name="restart_alt" title={isServerActive ? 'Restart dev server' : 'Start dev server'} className="cursor-pointer hover:text-slate-900 dark:hover:text-white text-lg" onClick={onRestartServer} />
+          )}
+          {onReinstall && (
+            <Icon name="download" title="Reinstall dependencies" className="cursor-pointer hover:text-slate-900 dark:hover:text-white text-lg" onClick={onReinstall} />
+          )}
+          {onCleanInstall && (
+            <Icon name="mop" title="Clean install (remove node_modules)" className="cursor-pointer hover:text-slate-900 dark:hover:text-white text-lg" onClick={onCleanInstall} />
+          )}
+          <div className="w-px h-4 bg-slate-300 dark:bg-slate-600"></div>
+          <Icon name="refresh" title="Reload preview" className="cursor-pointer hover:text-slate-900 dark:hover:text-white text-lg" onClick={onRefresh} />
           {url && <a href={url} target="_blank" rel="noopener noreferrer"><Icon name="open_in_new" className="cursor-pointer hover:text-slate-900 dark:hover:text-white text-lg" /></a>}
           <Icon 
             name={isPreviewFullscreen ? 'fullscreen_exit' : 'fullscreen'} 
@@ -71,12 +118,27 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({
       
       <div className="flex-1 relative">
         {status === 'ready' && url ? (
-          <iframe
-              src={url}
-              title="Live Preview"
-              className="w-full h-full border-0"
-              sandbox="allow-scripts allow-same-origin allow-forms allow-modals allow-popups allow-presentation"
-          />
+          <>
+            <iframe
+                src={url}
+                title="Live Preview"
+                className="w-full h-full border-0"
+                sandbox="allow-scripts allow-same-origin allow-forms allow-modals allow-popups allow-presentation"
+            />
+            {canFixErrors && (
+              <div className="absolute bottom-3 left-3 right-3 flex items-center gap-2 px-3 py-2 rounded-md border border-red-300 dark:border-red-800 bg-red-50 dark:bg-red-900/40 text-sm text-red-800 dark:text-red-200 shadow">
+                <Icon name="error" className="text-lg" />
+                <span className="flex-1">{errorCount === 1 ? '1 error' : `${errorCount} errors`} in the dev server output.</span>
+                <button
+                  onClick={onFixErrors}
+                  className="inline-flex items-center gap-1.5 px-3 py-1 text-sm font-medium rounded-md bg-blue-600 text-white hover:bg-blue-700"
+                >
+                  <Icon name="auto_fix_high" className="text-lg" />
+                  Fix with AI
+                </button>
+              </div>
+            )}
+          </>
         ) : (
           <StatusDisplay />
         )}
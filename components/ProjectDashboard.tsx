@@ -3,6 +3,8 @@ import { Project, CreateProjectOptions } from '../App';
 import Icon from './Icon';
 import NewProjectModal from './NewProjectModal';
 import { FileNode } from '../types';
+import { getContentSize } from '../lib/project-utils';
+import { getStorageEstimate, StorageEstimate } from '../lib/project-store';
 
 interface ProjectDashboardProps {
   projects: Project[];
@@ -26,7 +28,7 @@ const getProjectStats = (structure: FileNode[]) => {
     for (const node of nodes) {
       if (node.type === 'file') {
         fileCount++;
-        totalSize += node.content?.length || 0;
+        totalSize += getContentSize(node.content);
         const extension = node.name.split('.').pop()?.toUpperCase() || 'unknown';
         
         const langMap: { [key: string]: string[] } = {
@@ -35,11 +37,9 @@ const getProjectStats = (structure: FileNode[]) => {
           'CSS': ['CSS', 'SCSS', 'SASS'],
         };
 
-        let mapped = false;
         for (const lang in langMap) {
           if (langMap[lang].includes(extension)) {
             fileTypes[lang] = (fileTypes[lang] || 0) + 1;
-            mapped = true;
             break;
           }
         }
@@ -70,6 +70,16 @@ const formatTimeAgo = (timestamp: number): string => {
   return `Updated ${days} day${days > 1 ? 's' : ''} ago`;
 };
 
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+// Above this share of the quota the usage bar turns amber.
+const STORAGE_WARNING_RATIO = 0.8;
+
 // --- Main Component ---
 
 const ProjectDashboard: React.FC<ProjectDashboardProps> = (props) => {
@@ -89,8 +99,17 @@ const ProjectDashboard: React.FC<ProjectDashboardProps> = (props) => {
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [openMenuId, setOpenMenuId] = useState<string | null>(null);
   const [editingState, setEditingState] = useState<{ id: string; name: string; description: string; } | null>(null);
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
   const menuRef = useRef<HTMLDivElement>(null);
 
+  useEffect(() => {
+    let isCancelled = false;
+    getStorageEstimate()
+      .then(estimate => { if (!isCancelled) setStorageEstimate(estimate); })
+      .catch(error => console.error("Failed to read storage usage", error));
+    return () => { isCancelled = true; };
+  }, [projects]);
+
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
@@ -200,6 +219,18 @@ const ProjectDashboard: React.FC<ProjectDashboardProps> = (props) => {
 
       <header className="bg-white dark:bg-[#202124] border-b border-slate-200 dark:border-slate-700/50">
         <div className="max-w-screen-2xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex justify-end items-center gap-4">
+          {storageEstimate && (
+            <div className="mr-auto flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400" title="Browser storage used by your projects">
+              <Icon name="storage" className="text-lg" />
+              <div className="w-32 h-1.5 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+                <div
+                  className={`h-full ${storageEstimate.usage / storageEstimate.quota > STORAGE_WARNING_RATIO ? 'bg-amber-500' : 'bg-blue-500'}`}
+                  style={{ width: `${Math.min(100, (storageEstimate.usage / storageEstimate.quota) * 100)}%` }}
+                />
+              </div>
+              <span>{formatBytes(storageEstimate.usage)} of {formatBytes(storageEstimate.quota)} used</span>
+            </div>
+          )}
           <button
             onClick={() => setNewProjectModalOpen(true)}
             className="flex items-center gap-2 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 text-slate-800 dark:text-slate-200 font-medium py-2 px-4 rounded-md transition-colors text-sm"
@@ -335,7 +366,7 @@ const ProjectDashboard: React.FC<ProjectDashboardProps> = (props) => {
                     
                     <div className="flex flex-wrap gap-x-4 gap-y-2 text-sm text-slate-500 dark:text-slate-400 items-center">
                         <span className="flex items-center gap-1.5"><Icon name="folder_open" className="text-lg" /> {fileCount} files</span>
-                        <span className="flex items-center gap-1.5"><Icon name="storage" className="text-lg" /> {(totalSize / 1024).toFixed(1)} KB</span>
+                        <span className="flex items-center gap-1.5"><Icon name="storage" className="text-lg" /> {formatBytes(totalSize)}</span>
                     </div>
 
                     <div className="flex flex-wrap gap-x-4 gap-y-2 text-sm text-slate-500 dark:text-slate-400 items-center">
@@ -4,9 +4,10 @@ import Icon from './Icon';
 
 interface SettingsMenuProps {
   onClose: () => void;
+  onOpenAiSettings?: () => void;
 }
 
-const SettingsMenu: React.FC<SettingsMenuProps> = ({ onClose }) => {
+const SettingsMenu: React.FC<SettingsMenuProps> = ({ onClose, onOpenAiSettings }) => {
   const { theme, setTheme } = useTheme();
   const options = [
     { value: 'light', label: 'Light' },
@@ -34,6 +35,20 @@ const SettingsMenu: React.FC<SettingsMenuProps> = ({ onClose }) => {
           </button>
         ))}
       </div>
+      {onOpenAiSettings && (
+        <div className="p-1 border-t border-slate-300 dark:border-slate-700">
+          <button
+            onClick={() => {
+              onOpenAiSettings();
+              onClose();
+            }}
+            className="w-full text-left px-3 py-1.5 text-sm flex items-center gap-2 rounded-md hover:bg-slate-200 dark:hover:bg-slate-700"
+          >
+            <Icon name="smart_toy" className="text-lg" />
+            <span>AI Provider...</span>
+          </button>
+        </div>
+      )}
     </div>
   );
 };
@@ -4,14 +4,15 @@ import React, { useState, useRef, useEffect } from 'react';
 import Icon from './Icon';
 import SettingsMenu from './SettingsMenu';
 
-type PanelType = 'assistant' | 'search' | 'source_control' | 'deploy';
+type PanelType = 'assistant' | 'search' | 'source_control' | 'dependencies' | 'deploy' | 'environment';
 
 interface SidebarProps {
   activePanel: PanelType | 'none';
   onSetPanel: (panel: PanelType) => void;
+  onOpenAiSettings?: () => void;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ activePanel, onSetPanel }) => {
+const Sidebar: React.FC<SidebarProps> = ({ activePanel, onSetPanel, onOpenAiSettings }) => {
   const [isSettingsOpen, setSettingsOpen] = useState(false);
   const settingsRef = useRef<HTMLDivElement>(null);
   
@@ -20,6 +21,8 @@ const Sidebar: React.FC<SidebarProps> = ({ activePanel, onSetPanel }) => {
     { id: 'assistant', icon: 'new_window', label: 'Code Assistant', isToggle: true },
     { id: 'search', icon: 'search', label: 'Search', isToggle: true },
     { id: 'source_control', icon: 'account_tree', label: 'Source Control', isToggle: true },
+    { id: 'dependencies', icon: 'package_2', label: 'Dependencies', isToggle: true },
+    { id: 'environment', icon: 'key', label: 'Environment Variables', isToggle: true },
     { id: 'deploy', icon: 'rocket_launch', label: 'Deploy', isToggle: true },
   ] as const;
   
@@ -66,7 +69,7 @@ const Sidebar: React.FC<SidebarProps> = ({ activePanel, onSetPanel }) => {
             <Icon name="account_circle" className="text-2xl" />
           </div>
         </button>
-        {isSettingsOpen && <SettingsMenu onClose={() => setSettingsOpen(false)} />}
+        {isSettingsOpen && <SettingsMenu onClose={() => setSettingsOpen(false)} onOpenAiSettings={onOpenAiSettings} />}
         <button 
           onClick={() => setSettingsOpen(prev => !prev)}
           className={`w-12 h-12 flex items-center justify-center rounded-lg transition-colors duration-200 hover:bg-slate-300 dark:hover:bg-slate-700/50 ${isSettingsOpen ? 'bg-slate-300 dark:bg-slate-700' : ''}`}
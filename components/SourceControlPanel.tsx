@@ -1,19 +1,551 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import Icon from './Icon';
+import { GitStatusEntry, GitCommit, GitChangeKind, GitAuthor, GitCredentials, AheadBehind, DEFAULT_BRANCH } from '../lib/git';
+import { getThirdPartyProxyHost } from '../lib/git-credentials';
 
-const SourceControlPanel: React.FC = () => {
+interface SourceControlPanelProps {
+  isRepository: boolean;
+  branch: string | null; // Null while HEAD is detached.
+  status: GitStatusEntry[];
+  log: GitCommit[];
+  isBusy: boolean;
+  author: GitAuthor;
+  onChangeAuthor: (author: GitAuthor) => void;
+  onInit: () => void;
+  onStage: (paths: string[]) => void;
+  onUnstage: (paths: string[]) => void;
+  onCommit: (message: string) => Promise<boolean>;
+  onCheckout: (ref: string) => void;
+  onOpenDiff: (path: string) => void;
+  branches: string[];
+  onCreateBranch: (name: string) => void;
+  onDeleteBranch: (name: string) => void;
+  onMerge: (branch: string) => void;
+  mergeHead: string | null; // Commit being merged while conflicts are resolved.
+  mergeMessage: string | null;
+  conflicts: string[]; // Files that still contain conflict markers.
+  onAbortMerge: () => void;
+  onOpenFile: (path: string) => void;
+  stashes: string[];
+  onStash: (message: string) => void;
+  onApplyStash: (index: number, pop: boolean) => void;
+  onDropStash: (index: number) => void;
+  remoteUrl: string | null;
+  corsProxy: string;
+  credentials: GitCredentials;
+  aheadBehind: AheadBehind | null; // Null when the branch has no remote-tracking branch yet.
+  remoteProgress: string | null;
+  onSaveRemote: (url: string, corsProxy: string, credentials: GitCredentials) => void;
+  onFetch: () => void;
+  onPull: (fastForwardOnly: boolean) => void;
+  onPush: () => void;
+}
+
+type ChangeBadgeKind = GitChangeKind | 'conflicted';
+
+export const GIT_CHANGE_BADGES: Record<ChangeBadgeKind, { label: string; className: string }> = {
+  conflicted: { label: 'C', className: 'text-red-600 dark:text-red-400' },
+  added: { label: 'A', className: 'text-green-600 dark:text-green-400' },
+  modified: { label: 'M', className: 'text-yellow-600 dark:text-yellow-400' },
+  deleted: { label: 'D', className: 'text-red-600 dark:text-red-400' },
+  untracked: { label: 'U', className: 'text-green-600 dark:text-green-400' },
+};
+
+const formatCommitTime = (timestamp: number) => new Date(timestamp).toLocaleString(undefined, {
+  month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
+});
+
+const RowAction: React.FC<{ icon: string; title: string; disabled: boolean; onClick: () => void }> = ({ icon, title, disabled, onClick }) => (
+  <button
+    onClick={(e) => { e.stopPropagation(); onClick(); }}
+    disabled={disabled}
+    className="opacity-0 group-hover:opacity-100 p-0.5 rounded hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-40"
+    title={title}
+  >
+    <Icon name={icon} className="text-base" />
+  </button>
+);
+
+const ChangeRow: React.FC<{
+  path: string;
+  kind: ChangeBadgeKind;
+  actionIcon: string;
+  actionTitle: string;
+  disabled: boolean;
+  onAction: () => void;
+  onOpen: () => void;
+}> = ({ path, kind, actionIcon, actionTitle, disabled, onAction, onOpen }) => {
+  const badge = GIT_CHANGE_BADGES[kind];
+  const name = path.split('/').pop() || path;
+  const folder = path.substring(1, path.lastIndexOf('/'));
   return (
-    <div className="bg-white dark:bg-[#252526] h-full flex flex-col text-slate-700 dark:text-slate-300">
-      <div className="bg-slate-100 dark:bg-[#252526] px-4 h-[37px] flex items-center border-b border-slate-300 dark:border-slate-700/50">
-        <h3 className="font-medium text-slate-800 dark:text-slate-200 text-sm uppercase tracking-wider">
-          Source Control
-        </h3>
-      </div>
-      <div className="flex-1 p-4 overflow-y-auto text-sm">
-        <div className="flex flex-col items-center justify-center h-full text-slate-500 dark:text-slate-400 text-center">
+    <div onClick={onOpen} className="group flex items-center gap-2 px-2 h-[24px] rounded cursor-pointer hover:bg-slate-100 dark:hover:bg-slate-700/50" title={path}>
+      <span className={`truncate ${kind === 'deleted' ? 'line-through' : ''}`}>{name}</span>
+      <span className="truncate flex-1 text-xs text-slate-400 dark:text-slate-500">{folder}</span>
+      <RowAction icon={actionIcon} title={actionTitle} disabled={disabled} onClick={onAction} />
+      <span className={`w-3 text-xs font-bold text-center ${badge.className}`}>{badge.label}</span>
+    </div>
+  );
+};
+
+const SectionHeader: React.FC<{ title: string; count: number; actionIcon?: string; actionTitle?: string; disabled?: boolean; onAction?: () => void }> = ({ title, count, actionIcon, actionTitle, disabled, onAction }) => (
+  <div className="flex items-center justify-between px-2 py-1 text-xs font-semibold uppercase tracking-wider text-slate-500 dark:text-slate-400">
+    <span>{title} <span className="ml-1 font-normal">{count}</span></span>
+    {actionIcon && onAction && count > 0 && (
+      <button onClick={onAction} disabled={disabled} className="p-0.5 rounded hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-40" title={actionTitle}>
+        <Icon name={actionIcon} className="text-base" />
+      </button>
+    )}
+  </div>
+);
+
+const SourceControlPanel: React.FC<SourceControlPanelProps> = ({
+  isRepository,
+  branch,
+  status,
+  log,
+  isBusy,
+  author,
+  onChangeAuthor,
+  onInit,
+  onStage,
+  onUnstage,
+  onCommit,
+  onCheckout,
+  onOpenDiff,
+  branches,
+  onCreateBranch,
+  onDeleteBranch,
+  onMerge,
+  mergeHead,
+  mergeMessage,
+  conflicts,
+  onAbortMerge,
+  onOpenFile,
+  stashes,
+  onStash,
+  onApplyStash,
+  onDropStash,
+  remoteUrl,
+  corsProxy,
+  credentials,
+  aheadBehind,
+  remoteProgress,
+  onSaveRemote,
+  onFetch,
+  onPull,
+  onPush,
+}) => {
+  const [message, setMessage] = useState('');
+  const [isAuthorVisible, setAuthorVisible] = useState(false);
+  const [newBranchName, setNewBranchName] = useState<string | null>(null);
+  const [isRemoteFormVisible, setRemoteFormVisible] = useState(false);
+  const [remoteForm, setRemoteForm] = useState({ url: remoteUrl || '', corsProxy, ...credentials });
+  const [isFastForwardOnly, setFastForwardOnly] = useState(() => localStorage.getItem('codematic_git_pull_ff_only') === 'true');
+
+  useEffect(() => {
+    localStorage.setItem('codematic_git_pull_ff_only', String(isFastForwardOnly));
+  }, [isFastForwardOnly]);
+
+  const openRemoteForm = () => {
+    setRemoteForm({ url: remoteUrl || '', corsProxy, ...credentials });
+    setRemoteFormVisible(true);
+  };
+
+  // A token sent through someone else's proxy is readable there, so the user has to agree to that first.
+  const thirdPartyProxyHost = remoteForm.token.trim() ? getThirdPartyProxyHost(remoteForm.corsProxy.trim(), remoteForm.url.trim()) : null;
+  const isProxyConfirmed = !thirdPartyProxyHost || remoteForm.trustedProxy === thirdPartyProxyHost;
+
+  const handleSaveRemote = () => {
+    onSaveRemote(remoteForm.url.trim(), remoteForm.corsProxy.trim(), {
+      username: remoteForm.username.trim(),
+      token: remoteForm.token.trim(),
+      trustedProxy: thirdPartyProxyHost || undefined,
+    });
+    setRemoteFormVisible(false);
+  };
+
+  // Conflicted files are listed on their own until they are resolved.
+  const staged = status.filter(entry => entry.staged && !conflicts.includes(entry.path));
+  const unstaged = status.filter(entry => entry.unstaged && !conflicts.includes(entry.path));
+  const hasTrackedChanges = status.some(entry => entry.staged || (entry.unstaged && entry.unstaged !== 'untracked'));
+  const headOid = log[0]?.oid;
+  const commitMessage = message.trim() || mergeMessage || '';
+  const canCommit = !!commitMessage && staged.length > 0 && conflicts.length === 0;
+
+  const handleCommit = async () => {
+    if (!canCommit) return;
+    if (await onCommit(commitMessage)) setMessage('');
+  };
+
+  const handleStash = () => {
+    onStash(message.trim());
+    setMessage('');
+  };
+
+  const handleCreateBranch = () => {
+    const name = newBranchName?.trim();
+    if (name) onCreateBranch(name);
+    setNewBranchName(null);
+  };
+
+  const header = (
+    <div className="bg-slate-100 dark:bg-[#252526] px-4 h-[37px] flex items-center justify-between border-b border-slate-300 dark:border-slate-700/50">
+      <h3 className="font-medium text-slate-800 dark:text-slate-200 text-sm uppercase tracking-wider">
+        Source Control
+      </h3>
+      {isRepository && (
+        <div className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+          <span className="flex items-center gap-1" title={branch ? `On branch ${branch}` : 'HEAD is detached'}>
+            <Icon name="account_tree" className="text-base" />
+            {branch || (headOid ? headOid.slice(0, 7) : 'detached')}
+          </span>
+          <button onClick={() => setAuthorVisible(prev => !prev)} className="p-0.5 rounded hover:bg-slate-200 dark:hover:bg-slate-600" title="Commit author">
+            <Icon name="person" className="text-base" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+
+  if (!isRepository) {
+    return (
+      <div className="bg-white dark:bg-[#252526] h-full flex flex-col text-slate-700 dark:text-slate-300">
+        {header}
+        <div className="flex-1 p-4 overflow-y-auto text-sm">
+          <div className="flex flex-col items-center justify-center h-full text-slate-500 dark:text-slate-400 text-center">
             <Icon name="account_tree" className="text-5xl mb-4" />
-            <h4 className="font-semibold text-lg mb-2 text-slate-700 dark:text-slate-300">Source Control</h4>
-            <p>Integrasi Git dan fitur kontrol versi akan segera hadir.</p>
+            <h4 className="font-semibold text-lg mb-2 text-slate-700 dark:text-slate-300">No Repository</h4>
+            <p className="mb-4">Initialize a Git repository to track changes to this project.</p>
+            <button
+              onClick={onInit}
+              disabled={isBusy}
+              className="px-4 py-2 text-sm font-medium rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              Initialize Repository
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white dark:bg-[#252526] h-full flex flex-col text-slate-700 dark:text-slate-300">
+      {header}
+      <div className="flex-1 overflow-y-auto text-sm">
+        {isAuthorVisible && (
+          <div className="p-3 space-y-2 border-b border-slate-200 dark:border-slate-700/50">
+            <input
+              type="text"
+              value={author.name}
+              onChange={(e) => onChangeAuthor({ ...author, name: e.target.value })}
+              placeholder="Author name"
+              className="w-full bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+            <input
+              type="email"
+              value={author.email}
+              onChange={(e) => onChangeAuthor({ ...author, email: e.target.value })}
+              placeholder="Author email"
+              className="w-full bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+          </div>
+        )}
+
+        {!branch && (
+          <div className="m-3 p-2 rounded border border-yellow-400/50 bg-yellow-50 dark:bg-yellow-900/20 text-xs text-yellow-800 dark:text-yellow-300 flex items-center justify-between gap-2">
+            <span>Viewing a previous commit. New commits will not belong to a branch.</span>
+            <button onClick={() => onCheckout(DEFAULT_BRANCH)} disabled={isBusy} className="flex-shrink-0 font-medium hover:underline disabled:opacity-50">
+              Back to {DEFAULT_BRANCH}
+            </button>
+          </div>
+        )}
+
+        {mergeHead && (
+          <div className="m-3 p-2 rounded border border-red-400/50 bg-red-50 dark:bg-red-900/20 text-xs text-red-800 dark:text-red-300 flex items-center justify-between gap-2">
+            <span>
+              Merging {mergeHead.slice(0, 7)}.{' '}
+              {conflicts.length > 0 ? `${conflicts.length} file(s) with conflicts.` : 'All conflicts resolved; commit to finish.'}
+            </span>
+            <button onClick={onAbortMerge} disabled={isBusy} className="flex-shrink-0 font-medium hover:underline disabled:opacity-50">
+              Abort merge
+            </button>
+          </div>
+        )}
+
+        <div className="px-3 pt-3 space-y-2">
+          {remoteUrl && !isRemoteFormVisible && (
+            <div className="flex items-center gap-1">
+              <button onClick={onFetch} disabled={isBusy || !branch} className="flex-1 flex items-center justify-center gap-1 px-2 py-1 text-xs font-medium rounded border border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50" title="Fetch from origin">
+                <Icon name="sync" className="text-base" />
+                Fetch
+              </button>
+              <button onClick={() => onPull(isFastForwardOnly)} disabled={isBusy || !branch || !!mergeHead} className="flex-1 flex items-center justify-center gap-1 px-2 py-1 text-xs font-medium rounded border border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50" title={isFastForwardOnly ? 'Pull (fast-forward only)' : 'Pull and merge'}>
+                <Icon name="download" className="text-base" />
+                Pull{aheadBehind && aheadBehind.behind > 0 ? ` ${aheadBehind.behind}` : ''}
+              </button>
+              <button onClick={onPush} disabled={isBusy || !branch || !headOid || !!mergeHead} className="flex-1 flex items-center justify-center gap-1 px-2 py-1 text-xs font-medium rounded border border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50" title={`Push ${branch || ''} to origin`}>
+                <Icon name="upload" className="text-base" />
+                Push{aheadBehind && aheadBehind.ahead > 0 ? ` ${aheadBehind.ahead}` : ''}
+              </button>
+              <button onClick={openRemoteForm} className="p-1 rounded hover:bg-slate-200 dark:hover:bg-slate-600" title="Remote settings">
+                <Icon name="settings" className="text-base" />
+              </button>
+            </div>
+          )}
+          {!remoteUrl && !isRemoteFormVisible && (
+            <button onClick={openRemoteForm} className="w-full flex items-center justify-center gap-1 px-2 py-1 text-xs font-medium rounded border border-dashed border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700">
+              <Icon name="cloud" className="text-base" />
+              Add remote
+            </button>
+          )}
+          {isRemoteFormVisible && (
+            <div className="space-y-2 p-2 rounded border border-slate-200 dark:border-slate-700">
+              <input
+                type="url"
+                value={remoteForm.url}
+                onChange={(e) => setRemoteForm(prev => ({ ...prev, url: e.target.value }))}
+                placeholder="https://git.example.com/team/app.git"
+                className="w-full bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+              <input
+                type="text"
+                value={remoteForm.username}
+                onChange={(e) => setRemoteForm(prev => ({ ...prev, username: e.target.value }))}
+                placeholder="Username (optional)"
+                autoComplete="off"
+                className="w-full bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+              <input
+                type="password"
+                value={remoteForm.token}
+                onChange={(e) => setRemoteForm(prev => ({ ...prev, token: e.target.value }))}
+                placeholder="Access token (optional)"
+                autoComplete="off"
+                className="w-full bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+              <input
+                type="url"
+                value={remoteForm.corsProxy}
+                onChange={(e) => setRemoteForm(prev => ({ ...prev, corsProxy: e.target.value }))}
+                placeholder="CORS proxy (optional)"
+                className="w-full bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+              {thirdPartyProxyHost && (
+                <div className="p-2 rounded border border-yellow-400/50 bg-yellow-50 dark:bg-yellow-900/20 text-xs text-yellow-800 dark:text-yellow-300 space-y-1">
+                  <p>Requests go through {thirdPartyProxyHost}, which can read your access token. Use a proxy you run yourself, or a token that can only reach this repository.</p>
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={isProxyConfirmed}
+                      onChange={(e) => setRemoteForm(prev => ({ ...prev, trustedProxy: e.target.checked ? thirdPartyProxyHost : undefined }))}
+                    />
+                    Send my token through {thirdPartyProxyHost}
+                  </label>
+                </div>
+              )}
+              <label className="flex items-center gap-2 text-xs cursor-pointer">
+                <input type="checkbox" checked={isFastForwardOnly} onChange={(e) => setFastForwardOnly(e.target.checked)} />
+                Pull only when it can fast-forward
+              </label>
+              <p className="text-xs text-slate-400 dark:text-slate-500">The token is kept for this browser session only.</p>
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setRemoteFormVisible(false)} className="px-2 py-1 text-xs rounded border border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700">Cancel</button>
+                <button onClick={handleSaveRemote} disabled={isBusy || !isProxyConfirmed} className="px-2 py-1 text-xs font-medium rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50">Save</button>
+              </div>
+            </div>
+          )}
+          {remoteProgress && (
+            <p className="text-xs text-slate-500 dark:text-slate-400 truncate" title={remoteProgress}>{remoteProgress}</p>
+          )}
+        </div>
+
+        <div className="p-3 space-y-2">
+          <textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                e.preventDefault();
+                handleCommit();
+              }
+            }}
+            placeholder={mergeMessage || `Message (Ctrl+Enter to commit${branch ? ` on "${branch}"` : ''})`}
+            rows={3}
+            className="w-full bg-slate-100 dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded px-2 py-1.5 text-sm resize-none focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={handleCommit}
+              disabled={isBusy || !canCommit}
+              className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Icon name="check" className="text-base" />
+              Commit
+            </button>
+            <button
+              onClick={handleStash}
+              disabled={isBusy || !hasTrackedChanges || !!mergeHead}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded border border-slate-300 dark:border-slate-600 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50"
+              title="Stash uncommitted changes to tracked files"
+            >
+              <Icon name="inventory_2" className="text-base" />
+              Stash
+            </button>
+          </div>
+        </div>
+
+        <div className="px-1">
+          {conflicts.length > 0 && (
+            <>
+              <SectionHeader title="Merge Changes" count={conflicts.length} />
+              {conflicts.map(path => (
+                <ChangeRow
+                  key={path}
+                  path={path}
+                  kind="conflicted"
+                  actionIcon="edit_note"
+                  actionTitle="Resolve in the editor"
+                  disabled={false}
+                  onAction={() => onOpenFile(path)}
+                  onOpen={() => onOpenFile(path)}
+                />
+              ))}
+            </>
+          )}
+          <SectionHeader
+            title="Staged Changes"
+            count={staged.length}
+            actionIcon="remove"
+            actionTitle="Unstage all changes"
+            disabled={isBusy}
+            onAction={() => onUnstage(staged.map(entry => entry.path))}
+          />
+          {staged.map(entry => (
+            <ChangeRow
+              key={entry.path}
+              path={entry.path}
+              kind={entry.staged!}
+              actionIcon="remove"
+              actionTitle="Unstage changes"
+              disabled={isBusy}
+              onAction={() => onUnstage([entry.path])}
+              onOpen={() => onOpenDiff(entry.path)}
+            />
+          ))}
+
+          <SectionHeader
+            title="Changes"
+            count={unstaged.length}
+            actionIcon="add"
+            actionTitle="Stage all changes"
+            disabled={isBusy}
+            onAction={() => onStage(unstaged.map(entry => entry.path))}
+          />
+          {unstaged.map(entry => (
+            <ChangeRow
+              key={entry.path}
+              path={entry.path}
+              kind={entry.unstaged!}
+              actionIcon="add"
+              actionTitle="Stage changes"
+              disabled={isBusy}
+              onAction={() => onStage([entry.path])}
+              onOpen={() => onOpenDiff(entry.path)}
+            />
+          ))}
+          {status.length === 0 && (
+            <p className="px-2 py-1 text-xs text-slate-400 dark:text-slate-500">No changes since the last commit.</p>
+          )}
+        </div>
+
+        <div className="px-1 mt-3 border-t border-slate-200 dark:border-slate-700/50 pt-2">
+          <SectionHeader
+            title="Branches"
+            count={branches.length}
+            actionIcon="add"
+            actionTitle="Create a branch from the current commit"
+            disabled={isBusy || !headOid}
+            onAction={() => setNewBranchName('')}
+          />
+          {newBranchName !== null && (
+            <div className="px-2 py-1">
+              <input
+                autoFocus
+                type="text"
+                value={newBranchName}
+                onChange={(e) => setNewBranchName(e.target.value.replace(/\s+/g, '-'))}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleCreateBranch();
+                  if (e.key === 'Escape') setNewBranchName(null);
+                }}
+                onBlur={handleCreateBranch}
+                placeholder="Branch name"
+                className="w-full bg-slate-100 dark:bg-slate-800 border border-blue-500 rounded px-2 py-0.5 text-sm focus:outline-none"
+              />
+            </div>
+          )}
+          {branches.map(name => (
+            <div
+              key={name}
+              onClick={() => name !== branch && onCheckout(name)}
+              className={`group flex items-center gap-2 px-2 h-[24px] rounded ${name === branch ? 'font-medium' : 'cursor-pointer hover:bg-slate-100 dark:hover:bg-slate-700/50'}`}
+              title={name === branch ? `On branch ${name}` : `Switch to ${name}`}
+            >
+              <Icon name={name === branch ? 'check' : 'account_tree'} className="text-base text-slate-500 dark:text-slate-400" />
+              <span className="truncate flex-1">{name}</span>
+              {name !== branch && (
+                <>
+                  <RowAction icon="call_merge" title={`Merge ${name} into ${branch || 'HEAD'}`} disabled={isBusy || !branch} onClick={() => onMerge(name)} />
+                  <RowAction icon="delete" title={`Delete ${name}`} disabled={isBusy} onClick={() => onDeleteBranch(name)} />
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {stashes.length > 0 && (
+          <div className="px-1 mt-3 border-t border-slate-200 dark:border-slate-700/50 pt-2">
+            <SectionHeader title="Stashes" count={stashes.length} />
+            {stashes.map((stash, index) => (
+              <div key={`${index}-${stash}`} className="group flex items-center gap-2 px-2 h-[24px] rounded hover:bg-slate-100 dark:hover:bg-slate-700/50" title={stash}>
+                <Icon name="inventory_2" className="text-base text-slate-500 dark:text-slate-400" />
+                <span className="truncate flex-1">{stash.replace(/^stash@\{\d+\}: /, '')}</span>
+                <RowAction icon="unarchive" title="Pop stash (apply and remove)" disabled={isBusy || !!mergeHead} onClick={() => onApplyStash(index, true)} />
+                <RowAction icon="content_copy" title="Apply stash (keep it)" disabled={isBusy || !!mergeHead} onClick={() => onApplyStash(index, false)} />
+                <RowAction icon="delete" title="Drop stash" disabled={isBusy} onClick={() => onDropStash(index)} />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="px-1 mt-3 border-t border-slate-200 dark:border-slate-700/50 pt-2">
+          <SectionHeader title="History" count={log.length} />
+          {log.length === 0 && (
+            <p className="px-2 py-1 text-xs text-slate-400 dark:text-slate-500">No commits yet.</p>
+          )}
+          {log.map(commit => (
+            <div key={commit.oid} className="group flex items-start gap-2 px-2 py-1.5 rounded hover:bg-slate-100 dark:hover:bg-slate-700/50">
+              <Icon name={commit.oid === headOid ? 'radio_button_checked' : 'radio_button_unchecked'} className="text-base mt-0.5 text-blue-600 dark:text-blue-400" />
+              <div className="flex-1 min-w-0">
+                <p className="truncate" title={commit.message}>{commit.message.split('\n')[0]}</p>
+                <p className="text-xs text-slate-400 dark:text-slate-500 truncate">
+                  <span className="font-mono">{commit.oid.slice(0, 7)}</span> · {commit.authorName} · {formatCommitTime(commit.timestamp)}
+                </p>
+              </div>
+              {commit.oid !== headOid && (
+                <button
+                  onClick={() => onCheckout(commit.oid)}
+                  disabled={isBusy}
+                  className="opacity-0 group-hover:opacity-100 p-0.5 rounded hover:bg-slate-200 dark:hover:bg-slate-600 disabled:opacity-40"
+                  title="Check out this commit"
+                >
+                  <Icon name="restore" className="text-base" />
+                </button>
+              )}
+            </div>
+          ))}
         </div>
       </div>
     </div>
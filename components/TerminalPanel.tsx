@@ -5,6 +5,9 @@ import { Terminal } from 'xterm';
 import { FitAddon } from 'xterm-addon-fit';
 import { WebContainer, WebContainerProcess } from '@webcontainer/api';
 import 'xterm/css/xterm.css';
+import { DetectedError } from '../lib/error-detection';
+import { maskSecrets } from '../lib/env-vars';
+import { Problem, ProblemSeverity, countProblems, groupProblemsByPath } from '../lib/problems';
 
 // Interface for a terminal instance
 interface TerminalInstance {
@@ -19,11 +22,73 @@ interface TerminalPanelProps {
     isCollapsed: boolean;
     onToggle: () => void;
     webContainer: WebContainer | null;
+    env: Record<string, string>; // Environment of new shells.
+    secretValues: string[]; // Masked in shell output.
     onMount: (writer: (data: string) => void) => void;
     logs: string;
+    detectedErrors: DetectedError[];
+    fixProgress: { attempt: number; maxAttempts: number } | null;
+    onFixErrors: () => void;
+    onCancelFix: () => void;
+    problems: Problem[];
+    onSelectProblem: (problem: Problem) => void;
+    revealProblemsKey: number; // Switches to the Problems tab whenever it changes.
 }
 
-const TerminalPanel: React.FC<TerminalPanelProps> = ({ isCollapsed, onToggle, webContainer, onMount, logs }) => {
+const PROBLEMS_TAB_ID = 'PROBLEMS';
+
+const SEVERITY_ICONS: Record<ProblemSeverity, { name: string; className: string }> = {
+    error: { name: 'error', className: 'text-red-600 dark:text-red-400' },
+    warning: { name: 'warning', className: 'text-amber-600 dark:text-amber-400' },
+    info: { name: 'info', className: 'text-blue-600 dark:text-blue-400' },
+};
+
+const ProblemsList: React.FC<{ problems: Problem[]; onSelectProblem: (problem: Problem) => void }> = ({ problems, onSelectProblem }) => {
+    const [collapsedPaths, setCollapsedPaths] = useState<Set<string>>(new Set());
+
+    const toggleCollapsed = (path: string) => setCollapsedPaths(prev => {
+        const next = new Set(prev);
+        if (next.has(path)) next.delete(path); else next.add(path);
+        return next;
+    });
+
+    if (problems.length === 0) {
+        return <div className="p-2 text-slate-600 dark:text-slate-400">No problems have been detected in the project.</div>;
+    }
+
+    return (
+        <div className="py-1 font-sans">
+            {groupProblemsByPath(problems).map(group => {
+                const isCollapsed = collapsedPaths.has(group.path);
+                const fileName = group.path.split('/').pop();
+                const folder = group.path.slice(1, group.path.length - (fileName?.length || 0) - 1);
+                return (
+                    <div key={group.path}>
+                        <button onClick={() => toggleCollapsed(group.path)} className="w-full flex items-center gap-1 px-2 py-0.5 text-left hover:bg-slate-100 dark:hover:bg-slate-800/60">
+                            <Icon name={isCollapsed ? 'chevron_right' : 'expand_more'} className="text-base" />
+                            <span className="font-medium">{fileName}</span>
+                            {folder && <span className="text-slate-500 dark:text-slate-400 truncate">{folder}</span>}
+                            <span className="ml-1 px-1.5 rounded-full bg-slate-200 dark:bg-slate-700 text-[10px]">{group.problems.length}</span>
+                        </button>
+                        {!isCollapsed && group.problems.map((problem, index) => (
+                            <button
+                                key={index}
+                                onClick={() => onSelectProblem(problem)}
+                                className="w-full flex items-start gap-1.5 pl-8 pr-2 py-0.5 text-left hover:bg-slate-100 dark:hover:bg-slate-800/60"
+                            >
+                                <Icon name={SEVERITY_ICONS[problem.severity].name} className={`text-sm mt-px ${SEVERITY_ICONS[problem.severity].className}`} />
+                                <span className="flex-1 min-w-0 whitespace-pre-wrap break-words">{problem.message}</span>
+                                <span className="flex-shrink-0 text-slate-500 dark:text-slate-400">{problem.code} [{problem.line}, {problem.column}]</span>
+                            </button>
+                        ))}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+const TerminalPanel: React.FC<TerminalPanelProps> = ({ isCollapsed, onToggle, webContainer, env, secretValues, logs, detectedErrors, fixProgress, onFixErrors, onCancelFix, problems, onSelectProblem, revealProblemsKey }) => {
     const [terminals, setTerminals] = useState<TerminalInstance[]>([]);
     const [activeTerminalId, setActiveTerminalId] = useState<string>('CONSOLE');
     const { resolvedTheme } = useTheme();
@@ -32,7 +97,14 @@ const TerminalPanel: React.FC<TerminalPanelProps> = ({ isCollapsed, onToggle, we
     const terminalContainerRefs = useRef<Record<string, HTMLDivElement | null>>({});
     
     const terminalCounter = useRef(0);
+    const secretValuesRef = useRef(secretValues);
+    secretValuesRef.current = secretValues;
     const panelContentRef = useRef<HTMLDivElement>(null);
+    const problemCounts = countProblems(problems);
+
+    useEffect(() => {
+        if (revealProblemsKey > 0) setActiveTerminalId(PROBLEMS_TAB_ID);
+    }, [revealProblemsKey]);
 
     // The core logic for creating a new terminal session
     const createNewTerminal = useCallback(async () => {
@@ -56,10 +128,10 @@ const TerminalPanel: React.FC<TerminalPanelProps> = ({ isCollapsed, onToggle, we
         const fitAddon = new FitAddon();
         term.loadAddon(fitAddon);
 
-        const shellProcess = await webContainer.spawn('jsh', ['--no-rc']);
+        const shellProcess = await webContainer.spawn('jsh', ['--no-rc'], { env });
         
         shellProcess.output.pipeTo(new WritableStream({
-            write(data) { term.write(data); }
+            write(data) { term.write(maskSecrets(data, secretValuesRef.current)); }
         }));
 
         const input = shellProcess.input.getWriter();
@@ -76,7 +148,7 @@ const TerminalPanel: React.FC<TerminalPanelProps> = ({ isCollapsed, onToggle, we
         setTerminals(prev => [...prev, newTerminalInstance]);
         setActiveTerminalId(newId);
 
-    }, [webContainer, resolvedTheme]);
+    }, [webContainer, env, resolvedTheme]);
 
     // Effect to mount the terminal to its container DIV when it's created and visible
     useEffect(() => {
@@ -130,7 +202,7 @@ const TerminalPanel: React.FC<TerminalPanelProps> = ({ isCollapsed, onToggle, we
     };
     
     const clearActiveTerminal = () => {
-        if (activeTerminalId === 'CONSOLE') return;
+        if (activeTerminalId === 'CONSOLE' || activeTerminalId === PROBLEMS_TAB_ID) return;
         const active = terminals.find(t => t.id === activeTerminalId);
         active?.terminal.clear();
     };
@@ -162,6 +234,18 @@ const TerminalPanel: React.FC<TerminalPanelProps> = ({ isCollapsed, onToggle, we
                     >
                         CONSOLE
                     </button>
+                    {/* Problems Tab */}
+                    <button
+                        onClick={() => setActiveTerminalId(PROBLEMS_TAB_ID)}
+                        className={`px-4 py-2 border-r border-slate-300 dark:border-slate-700/50 transition-colors flex items-center gap-2 flex-shrink-0 ${activeTerminalId === PROBLEMS_TAB_ID ? 'bg-white dark:bg-[#1e1e1e] text-slate-900 dark:text-white' : 'hover:bg-slate-200 dark:hover:bg-slate-700/20'}`}
+                    >
+                        PROBLEMS
+                        {problems.length > 0 && (
+                            <span className={`px-1.5 rounded-full text-[10px] text-white ${problemCounts.errors > 0 ? 'bg-red-600' : problemCounts.warnings > 0 ? 'bg-amber-600' : 'bg-slate-500'}`}>
+                                {problems.length}
+                            </span>
+                        )}
+                    </button>
                     {/* Terminal Tabs */}
                     {terminals.map(term => (
                         <button
@@ -181,7 +265,30 @@ const TerminalPanel: React.FC<TerminalPanelProps> = ({ isCollapsed, onToggle, we
 
                 {/* Toolbar */}
                 <div className="flex items-center text-slate-600 dark:text-slate-400 px-2 flex-shrink-0">
-                    {activeTerminalId !== 'CONSOLE' && (
+                    {fixProgress ? (
+                        <div className="flex items-center gap-2 mr-2 text-xs">
+                            <div className="w-3 h-3 border-2 border-blue-500/30 border-t-blue-500 rounded-full animate-spin"></div>
+                            <span>Fixing with AI (attempt {fixProgress.attempt}/{fixProgress.maxAttempts})</span>
+                            <button onClick={onCancelFix} data-tooltip="Stop fixing" className="p-1 rounded hover:bg-slate-200 dark:hover:bg-slate-700/50">
+                                <Icon name="stop" className="text-base text-red-500" />
+                            </button>
+                        </div>
+                    ) : detectedErrors.length > 0 && (
+                        <div className="flex items-center gap-2 mr-2 text-xs">
+                            <span
+                                className="flex items-center gap-1 text-red-600 dark:text-red-400"
+                                title={detectedErrors.map(e => e.message).join('\n')}
+                            >
+                                <Icon name="error" className="text-base" />
+                                {detectedErrors.length} {detectedErrors.length === 1 ? 'error' : 'errors'} detected
+                            </span>
+                            <button onClick={onFixErrors} className="flex items-center gap-1 px-2 py-0.5 rounded bg-blue-600 text-white hover:bg-blue-700">
+                                <Icon name="auto_fix_high" className="text-sm" />
+                                Fix with AI
+                            </button>
+                        </div>
+                    )}
+                    {activeTerminalId !== 'CONSOLE' && activeTerminalId !== PROBLEMS_TAB_ID && (
                         <div className="flex items-center gap-1 mr-2">
                             <button onClick={clearActiveTerminal} data-tooltip="Clear Terminal" className="p-1.5 rounded hover:bg-slate-200 dark:hover:bg-slate-700/50">
                                 <Icon name="delete" className="text-lg" />
@@ -214,6 +321,11 @@ const TerminalPanel: React.FC<TerminalPanelProps> = ({ isCollapsed, onToggle, we
                         )}
                     </div>
                     
+                    {/* Problems Panel */}
+                    <div className="text-xs h-full overflow-auto" style={{ display: activeTerminalId === PROBLEMS_TAB_ID ? 'block' : 'none' }}>
+                        <ProblemsList problems={problems} onSelectProblem={onSelectProblem} />
+                    </div>
+
                     {/* Terminal Instance Panels */}
                     {terminals.map(term => (
                         <div
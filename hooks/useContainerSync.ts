@@ -0,0 +1,83 @@
+import { MutableRefObject, useCallback, useRef, useState } from 'react';
+import { FileSystemAPI, WebContainer } from '@webcontainer/api';
+import { FileNode } from '../types';
+import { findFileByPath } from '../lib/project-utils';
+import { startFsSync, applyFsChanges, isEffectiveChange, FsChange, FsSync } from '../lib/fs-sync';
+import { useToast } from '../contexts/ToastContext';
+
+interface ContainerSyncOptions {
+    webContainerRef: MutableRefObject<WebContainer | null>;
+    projectStructure: FileNode[];
+    openFiles: FileNode[];
+    pushHistory: (structure: FileNode[]) => void;
+    onTreeChanged: () => void; // Container changes were merged into the tree.
+}
+
+/**
+ * Keeps the project tree in step with files changed inside the container (terminal commands,
+ * npm install, codegen). Changes to open files with unsaved edits are held back as conflicts.
+ */
+export const useContainerSync = ({ webContainerRef, projectStructure, openFiles, pushHistory, onTreeChanged }: ContainerSyncOptions) => {
+    const { addToast } = useToast();
+    const fsSyncRef = useRef<FsSync | null>(null);
+    const dirtyPathsRef = useRef(new Set<string>()); // Edited in the editor since the last save.
+    const [syncConflicts, setSyncConflicts] = useState<FsChange[]>([]);
+
+    // The watcher outlives a render, so it always calls the latest handler.
+    const changesHandlerRef = useRef<(changes: FsChange[]) => void>(() => {});
+    changesHandlerRef.current = (changes: FsChange[]) => {
+        const effective = changes.filter(change => isEffectiveChange(projectStructure, change));
+        if (effective.length === 0) return;
+        const isConflict = (change: FsChange) =>
+            dirtyPathsRef.current.has(change.path) && openFiles.some(f => f.path === change.path);
+        const conflicts = effective.filter(isConflict);
+        const accepted = effective.filter(change => !isConflict(change));
+        if (accepted.length > 0) {
+            pushHistory(applyFsChanges(projectStructure, accepted));
+            onTreeChanged();
+        }
+        if (conflicts.length > 0) {
+            setSyncConflicts(prev => [...prev.filter(c => !conflicts.some(n => n.path === c.path)), ...conflicts]);
+        }
+    };
+
+    const startSync = useCallback((fs: FileSystemAPI) => {
+        fsSyncRef.current = startFsSync(fs, changes => changesHandlerRef.current(changes));
+    }, []);
+
+    const stopSync = useCallback(() => {
+        fsSyncRef.current?.dispose();
+        fsSyncRef.current = null;
+    }, []);
+
+    /** Merges changes read from the container outside the watcher, e.g. after an npm command. */
+    const applyContainerChanges = useCallback((changes: FsChange[]) => changesHandlerRef.current(changes), []);
+
+    // The watcher sees the IDE's own writes too; recording them lets it drop the echoes.
+    const writeContainerFile = useCallback(async (wc: WebContainer, path: string, content: string | Uint8Array) => {
+        fsSyncRef.current?.recordWrite(path, content);
+        await wc.fs.writeFile(path, content);
+    }, []);
+
+    const handleResolveSyncConflict = useCallback(async (conflict: FsChange, resolution: 'editor' | 'container') => {
+        setSyncConflicts(prev => prev.filter(c => c.path !== conflict.path));
+        if (resolution === 'container') {
+            dirtyPathsRef.current.delete(conflict.path);
+            pushHistory(applyFsChanges(projectStructure, [conflict]));
+            return;
+        }
+        // Keeping the editor version means writing it back over the container's copy.
+        const node = findFileByPath(projectStructure, conflict.path);
+        const wc = webContainerRef.current;
+        if (!wc || node?.type !== 'file') return;
+        try {
+            const parentPath = conflict.path.substring(0, conflict.path.lastIndexOf('/'));
+            if (parentPath) await wc.fs.mkdir(parentPath, { recursive: true });
+            await writeContainerFile(wc, conflict.path, node.content ?? '');
+        } catch (error) {
+            addToast(`Failed to write ${conflict.path}: ${error instanceof Error ? error.message : String(error)}`, 'error');
+        }
+    }, [webContainerRef, projectStructure, pushHistory, addToast, writeContainerFile]);
+
+    return { dirtyPathsRef, syncConflicts, startSync, stopSync, applyContainerChanges, writeContainerFile, handleResolveSyncConflict };
+};
@@ -0,0 +1,107 @@
+import { useCallback, useState } from 'react';
+import { Project } from '../App';
+import { BuildResult } from '../lib/build';
+import { DeploySettings, DeployRecord, MAX_DEPLOY_HISTORY, createDeployAdapter, digestFiles, snapshotId } from '../lib/deploy';
+import { saveDeployArtifact, loadDeployArtifact } from '../lib/project-store';
+import { GitData, GitCommit, isRepository } from '../lib/git';
+import { useToast } from '../contexts/ToastContext';
+
+interface DeployOptions {
+    project: Project;
+    onUpdate: (id: string, updates: Partial<Project>) => void;
+    buildResult: BuildResult | null;
+    gitData: GitData | undefined;
+    gitLog: GitCommit[];
+}
+
+/** Deploys the latest build with the project's adapter and keeps the deploy history for rollbacks. */
+export const useDeploy = ({ project, onUpdate, buildResult, gitData, gitLog }: DeployOptions) => {
+    const { addToast } = useToast();
+    const [deploySettings, setDeploySettings] = useState<DeploySettings | undefined>(project.deploySettings);
+    const [deployments, setDeployments] = useState<DeployRecord[]>(project.deployments || []);
+    const [isDeploying, setDeploying] = useState(false);
+    const [deployProgress, setDeployProgress] = useState<string | null>(null);
+
+    const handleSaveDeploySettings = useCallback((settings: DeploySettings) => {
+        setDeploySettings(settings);
+        onUpdate(project.id, { deploySettings: settings });
+        addToast('Deploy settings saved.', 'success');
+    }, [onUpdate, project.id, addToast]);
+
+    // Adds a deploy to the history. The output of successful deploys is kept so they can be rolled back to.
+    const recordDeploy = useCallback(async (record: DeployRecord, files: Map<string, Uint8Array> | null) => {
+        const history = [record, ...deployments].slice(0, MAX_DEPLOY_HISTORY);
+        setDeployments(history);
+        onUpdate(project.id, { deployments: history });
+        if (files && record.status === 'success') {
+            try {
+                await saveDeployArtifact(project.id, record.id, files, history.map(entry => entry.id));
+            } catch (error: unknown) {
+                console.error('Failed to store deploy output', error);
+            }
+        }
+    }, [deployments, onUpdate, project.id]);
+
+    // Uploads `files` with the configured adapter, or republishes `rollbackOf` if the adapter can restore it.
+    const runDeploy = useCallback(async (files: Map<string, Uint8Array> | null, rollbackOf: DeployRecord | null) => {
+        if (!deploySettings || isDeploying) return;
+        const adapter = createDeployAdapter(deploySettings);
+        const canRestore = rollbackOf !== null && !!adapter.restore && !!rollbackOf.remoteId && rollbackOf.adapter === adapter.id;
+        setDeploying(true);
+        setDeployProgress('Starting deploy');
+        const record: DeployRecord = {
+            id: `deploy_${Date.now()}`,
+            adapter: adapter.id,
+            createdAt: Date.now(),
+            status: 'success',
+            url: null,
+            commit: rollbackOf ? rollbackOf.commit : (isRepository(gitData) && gitLog[0]?.oid) || null,
+            snapshot: rollbackOf ? rollbackOf.snapshot : '',
+            fileCount: files ? files.size : rollbackOf?.fileCount || 0,
+            ...(rollbackOf ? { rollbackOf: rollbackOf.id } : {}),
+        };
+        try {
+            if (files && !rollbackOf) {
+                record.snapshot = await snapshotId(await digestFiles(files));
+            }
+            const outcome = canRestore && adapter.restore
+                ? await adapter.restore(rollbackOf, setDeployProgress)
+                : await adapter.deploy(files || new Map(), setDeployProgress);
+            record.url = outcome.url;
+            if (outcome.remoteId) record.remoteId = outcome.remoteId;
+            addToast(rollbackOf ? 'Rolled back to the earlier deploy.' : 'Deployed successfully.', 'success');
+        } catch (error: unknown) {
+            record.status = 'failed';
+            record.error = error instanceof Error ? error.message : String(error);
+            addToast(`Deploy failed: ${record.error}`, 'error');
+        } finally {
+            setDeploying(false);
+            setDeployProgress(null);
+        }
+        await recordDeploy(record, files);
+    }, [deploySettings, isDeploying, gitData, gitLog, recordDeploy, addToast]);
+
+    const handleDeploy = useCallback(() => {
+        if (!buildResult || buildResult.exitCode !== 0 || buildResult.files.size === 0) {
+            addToast('Build the project before deploying.', 'warning');
+            return;
+        }
+        runDeploy(buildResult.files, null);
+    }, [buildResult, runDeploy, addToast]);
+
+    const handleRollback = useCallback(async (record: DeployRecord) => {
+        const adapter = deploySettings ? createDeployAdapter(deploySettings) : null;
+        if (adapter?.restore && record.remoteId && record.adapter === adapter.id) {
+            runDeploy(null, record);
+            return;
+        }
+        const files = await loadDeployArtifact(project.id, record.id).catch(() => null);
+        if (!files) {
+            addToast('The output of this deploy is no longer stored, so it cannot be redeployed.', 'error');
+            return;
+        }
+        runDeploy(files, record);
+    }, [deploySettings, project.id, runDeploy, addToast]);
+
+    return { deploySettings, deployments, isDeploying, deployProgress, handleSaveDeploySettings, handleDeploy, handleRollback };
+};
@@ -0,0 +1,96 @@
+import { useEffect, useMemo, useState } from 'react';
+import { FileNode } from '../types';
+import { findFileByPath } from '../lib/project-utils';
+import { GitData, GitStatusEntry, GitCommit, GitChangeKind, AheadBehind, isRepository, getStatus, getLog, getCurrentBranch, listBranches, listStashes, getRemoteConfig, getAheadBehind, getMergeHead } from '../lib/git';
+import { hasConflictMarkers } from '../lib/merge-conflicts';
+
+// Git status is recomputed once edits have paused for this long.
+const GIT_STATUS_DEBOUNCE_MS = 500;
+
+export interface GitState {
+    gitStatus: GitStatusEntry[];
+    gitLog: GitCommit[];
+    gitBranch: string | null; // Null while HEAD is detached.
+    gitBranches: string[];
+    gitStashes: string[];
+    gitRemoteUrl: string | null;
+    gitCorsProxy: string;
+    gitAheadBehind: AheadBehind | null;
+    gitChanges: Record<string, GitChangeKind>; // Working tree changes by path, for decorating the file tree.
+    gitConflicts: string[]; // While a merge is in progress, changed files that still contain conflict markers.
+}
+
+/** Reads the status, history, branches and remote of the project's repository as it changes. */
+export const useGitStatus = (projectStructure: FileNode[], gitData: GitData | undefined): GitState => {
+    const [gitStatus, setGitStatus] = useState<GitStatusEntry[]>([]);
+    const [gitLog, setGitLog] = useState<GitCommit[]>([]);
+    const [gitBranch, setGitBranch] = useState<string | null>(null);
+    const [gitBranches, setGitBranches] = useState<string[]>([]);
+    const [gitStashes, setGitStashes] = useState<string[]>([]);
+    const [gitRemoteUrl, setGitRemoteUrl] = useState<string | null>(null);
+    const [gitCorsProxy, setGitCorsProxy] = useState('');
+    const [gitAheadBehind, setGitAheadBehind] = useState<AheadBehind | null>(null);
+
+    useEffect(() => {
+        if (!isRepository(gitData)) {
+            setGitStatus([]);
+            return;
+        }
+        let isCancelled = false;
+        const timer = setTimeout(() => {
+            getStatus(projectStructure, gitData)
+                .then(status => { if (!isCancelled) setGitStatus(status); })
+                .catch(error => console.error('Failed to read git status:', error));
+        }, GIT_STATUS_DEBOUNCE_MS);
+        return () => {
+            isCancelled = true;
+            clearTimeout(timer);
+        };
+    }, [projectStructure, gitData]);
+
+    useEffect(() => {
+        if (!isRepository(gitData)) {
+            setGitLog([]);
+            setGitBranch(null);
+            setGitBranches([]);
+            setGitStashes([]);
+            setGitRemoteUrl(null);
+            setGitCorsProxy('');
+            setGitAheadBehind(null);
+            return;
+        }
+        let isCancelled = false;
+        Promise.all([getLog(gitData), getCurrentBranch(gitData), listBranches(gitData), listStashes(gitData), getRemoteConfig(gitData), getAheadBehind(gitData)])
+            .then(([log, branch, branches, stashes, remote, aheadBehind]) => {
+                if (isCancelled) return;
+                setGitLog(log);
+                setGitBranch(branch);
+                setGitBranches(branches);
+                setGitStashes(stashes);
+                setGitRemoteUrl(remote.url);
+                setGitCorsProxy(remote.corsProxy);
+                setGitAheadBehind(aheadBehind);
+            })
+            .catch(error => console.error('Failed to read git history:', error));
+        return () => { isCancelled = true; };
+    }, [gitData]);
+
+    const gitChanges = useMemo(() => {
+        const changes: Record<string, GitChangeKind> = {};
+        for (const entry of gitStatus) {
+            const kind = entry.unstaged || entry.staged;
+            if (kind) changes[entry.path] = kind;
+        }
+        return changes;
+    }, [gitStatus]);
+
+    const gitConflicts = useMemo(() => {
+        if (!isRepository(gitData) || !getMergeHead(gitData)) return [];
+        return gitStatus
+            .map(entry => findFileByPath(projectStructure, entry.path))
+            .filter(node => typeof node?.content === 'string' && hasConflictMarkers(node.content))
+            .map(node => node!.path);
+    }, [gitStatus, gitData, projectStructure]);
+
+    return { gitStatus, gitLog, gitBranch, gitBranches, gitStashes, gitRemoteUrl, gitCorsProxy, gitAheadBehind, gitChanges, gitConflicts };
+};
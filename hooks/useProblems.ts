@@ -0,0 +1,78 @@
+import { useEffect, useMemo, useState } from 'react';
+import { loader } from '@monaco-editor/react';
+import { FileNode } from '../types';
+import { getTextFiles } from '../lib/project-utils';
+import { Problem, countProblems, getProblemCountsByPath } from '../lib/problems';
+import { syncProjectFiles, syncDependencyTypes, clearProjectFiles, collectTypeScriptProblems, applyCompilerOptions, isTypeScriptPath } from '../lib/typescript-project';
+import { collectLintProblems, clearLintResults } from '../lib/linter';
+import { loadTsConfig, getPrimaryProject } from '../lib/tsconfig';
+
+const PROBLEMS_DELAY_MS = 800; // Type checking and linting the whole project wait for a pause in typing.
+
+/**
+ * Type checks and lints the project as it changes, for the Problems tab and the editor markers.
+ * Project files are registered with the editor's TypeScript service for cross-file IntelliSense,
+ * configured by the project's tsconfig.json, then the whole project is checked.
+ */
+export const useProblems = (projectStructure: FileNode[], dependencyTypeFiles: Map<string, string>) => {
+    const [typeScriptProblems, setTypeScriptProblems] = useState<Problem[]>([]);
+    const [lintProblems, setLintProblems] = useState<Problem[]>([]);
+
+    const projectTextFiles = useMemo(() => getTextFiles(projectStructure), [projectStructure]);
+    const tsConfig = useMemo(() => {
+        const { projects, problems: configProblems } = loadTsConfig(projectTextFiles);
+        const sourcePaths = Array.from(projectTextFiles.keys()).filter(isTypeScriptPath);
+        return { projects, configProblems, primaryProject: getPrimaryProject(projects, sourcePaths) };
+    }, [projectTextFiles]);
+
+    useEffect(() => {
+        const monacoPromise = loader.init();
+        monacoPromise.then(m => {
+            applyCompilerOptions(m, tsConfig.primaryProject);
+            syncProjectFiles(m, projectTextFiles);
+            syncDependencyTypes(m, dependencyTypeFiles);
+        }).catch(() => { /* Reported by the check below. */ });
+        let isCancelled = false;
+        const timer = setTimeout(async () => {
+            try {
+                const m = await monacoPromise;
+                const typeScriptProblems = await collectTypeScriptProblems(m, projectTextFiles, tsConfig.projects);
+                if (!isCancelled) setTypeScriptProblems([...tsConfig.configProblems, ...typeScriptProblems]);
+            } catch (error: unknown) {
+                console.warn('Failed to collect problems:', error);
+            }
+        }, PROBLEMS_DELAY_MS);
+        return () => {
+            isCancelled = true;
+            clearTimeout(timer);
+        };
+    }, [projectTextFiles, tsConfig, dependencyTypeFiles]);
+
+    // ESLint runs on its own schedule, so a slow type check does not hold back lint markers.
+    useEffect(() => {
+        let isCancelled = false;
+        const timer = setTimeout(async () => {
+            try {
+                const problems = await collectLintProblems(projectTextFiles);
+                if (!isCancelled) setLintProblems(problems);
+            } catch (error: unknown) {
+                console.warn('Failed to lint the project:', error);
+            }
+        }, PROBLEMS_DELAY_MS);
+        return () => {
+            isCancelled = true;
+            clearTimeout(timer);
+        };
+    }, [projectTextFiles]);
+
+    useEffect(() => () => {
+        clearProjectFiles();
+        clearLintResults();
+    }, []);
+
+    const problems = useMemo(() => [...typeScriptProblems, ...lintProblems], [typeScriptProblems, lintProblems]);
+    const problemCounts = useMemo(() => countProblems(problems), [problems]);
+    const problemCountsByPath = useMemo(() => getProblemCountsByPath(problems), [problems]);
+
+    return { projectTextFiles, problems, lintProblems, problemCounts, problemCountsByPath };
+};
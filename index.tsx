@@ -5,10 +5,15 @@ import App from './App';
 import { loader } from '@monaco-editor/react';
 import { ThemeProvider } from './contexts/ThemeContext';
 import { ToastProvider } from './contexts/ToastContext';
+import { registerPrettierFormatter } from './lib/formatter';
+import { registerLintCodeActions } from './lib/linter';
 import 'react-markdown'; // Ensure this is available for components
 
 // Configure Monaco Editor to load its assets from a CDN
 loader.config({ paths: { vs: 'https://cdn.jsdelivr.net/npm/monaco-editor@0.41.0/min/vs' } });
+// Registered before any editor exists, so Monaco's built-in formatters are never set up.
+loader.init().then(registerPrettierFormatter).catch(error => console.warn('Failed to set up formatting:', error));
+loader.init().then(registerLintCodeActions).catch(error => console.warn('Failed to set up lint quick fixes:', error));
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
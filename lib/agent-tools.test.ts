@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { FileNode } from '../types';
+import { AgentEnvironment, createAgentToolbox } from './agent-tools';
+
+const createEnvironment = (structure: FileNode[] = [], output = 'done') => {
+    const commands: { command: string; args: string[]; timeoutMs: number; signal?: AbortSignal }[] = [];
+    const env: AgentEnvironment = {
+        getProjectStructure: () => structure,
+        getPreviewConsole: () => [],
+        runCommand: async (command, args, timeoutMs, signal) => {
+            commands.push({ command, args, timeoutMs, signal });
+            return { exitCode: 0, output };
+        },
+    };
+    return { env, commands };
+};
+
+const runCommand = (command: string, timeLimitMs?: number) => {
+    const { env, commands } = createEnvironment();
+    const result = createAgentToolbox(env).execute({ name: 'run_command', args: { command } }, { timeLimitMs });
+    return { result, commands };
+};
+
+describe('run_command', () => {
+    it('runs commands that only read or build', async () => {
+        for (const command of ['npx tsc --noEmit', 'cat src/App.tsx', 'rm -rf node_modules/.vite', 'cp package.json /tmp/package.json', 'git status']) {
+            const { result, commands } = runCommand(command);
+            expect((await result).isError).toBe(false);
+            expect(commands).toHaveLength(1);
+        }
+    });
+
+    it('refuses commands that change core project items', async () => {
+        for (const command of [
+            'rm -rf src',
+            'rm ./index.html',
+            'mv vite.config.ts old.ts',
+            'sed -i s/a/b/ src/App.tsx',
+            'cp other.json package.json',
+            'rm -rf *',
+            'rm -rf ../project',
+            'sh -c "ls && rm -rf public"',
+            'sh -c "echo {} > package.json"',
+            'git checkout -- src/main.tsx',
+            'git reset --hard',
+        ]) {
+            const { result, commands } = runCommand(command);
+            const { isError, output } = await result;
+            expect(isError, command).toBe(true);
+            expect(output).toMatch(/Commands must not change project files/);
+            expect(commands).toHaveLength(0);
+        }
+    });
+
+    it('keeps commands within the time left to the agent', async () => {
+        const { result, commands } = runCommand('npm test', 5000);
+        await result;
+        expect(commands[0].timeoutMs).toBe(5000);
+
+        const late = runCommand('npm test', 0);
+        expect((await late.result).isError).toBe(true);
+        expect(late.commands).toHaveLength(0);
+    });
+
+    it('passes the cancel signal to the command', async () => {
+        const { env, commands } = createEnvironment();
+        const controller = new AbortController();
+        await createAgentToolbox(env).execute({ name: 'run_command', args: { command: 'npm test' } }, { signal: controller.signal });
+        expect(commands[0].signal).toBe(controller.signal);
+    });
+
+    it('refuses commands that read environment files', async () => {
+        for (const command of ['cat .env', 'grep API_KEY .env.local', 'cat < .env', 'sh -c "cat .env*"', 'bash -c "ls && source ./.env"', 'node --env-file=.env server.js']) {
+            const { result, commands } = runCommand(command);
+            const { isError, output } = await result;
+            expect(isError, command).toBe(true);
+            expect(output).toMatch(/environment file/);
+            expect(commands).toHaveLength(0);
+        }
+        expect((await runCommand('cat .env.example').result).isError).toBe(false);
+    });
+
+    it('masks env file values in command output', async () => {
+        const structure: FileNode[] = [{ name: '.env', type: 'file', path: '/.env', content: 'API_KEY="sk-secret-value"\nDEBUG=1\n' }];
+        const { env } = createEnvironment(structure, './.env:1:API_KEY="sk-secret-value"\n./.env:2:DEBUG=1\nsrc/api.ts:3: fetch(url, { key: "sk-secret-value" })');
+        const { output, isError } = await createAgentToolbox(env).execute({ name: 'run_command', args: { command: 'grep -r API_KEY .' } });
+        expect(isError).toBe(false);
+        expect(output).not.toContain('sk-secret-value');
+        expect(output).not.toContain('DEBUG=1');
+        expect(output).toContain('src/api.ts:3:');
+    });
+});
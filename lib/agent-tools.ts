@@ -0,0 +1,242 @@
+import { FileNode } from '../types';
+import { findFileByPath, searchInProject, isBinaryContent, getTextFiles } from './project-utils';
+import { isEnvFilePath, parseEnvFile, maskEnvVariables } from './env-vars';
+import { formatFileTree } from './ai-context';
+import { normalizeProjectPath, PROTECTED_PATHS } from './path-policy';
+
+export interface AgentToolCall {
+    name: string;
+    args: Record<string, unknown>;
+}
+
+export interface AgentToolResult {
+    input: string; // Human-readable summary of the call, shown in the assistant panel.
+    output: string;
+    isError: boolean;
+}
+
+export interface CommandResult {
+    exitCode: number | null; // null when the command was killed after timing out or being cancelled.
+    output: string;
+}
+
+/** What the tools need from the IDE. Kept minimal so the agent loop stays testable. */
+export interface AgentEnvironment {
+    getProjectStructure: () => FileNode[];
+    // Kills the command once `timeoutMs` has passed or `signal` is aborted.
+    runCommand: (command: string, args: string[], timeoutMs: number, signal?: AbortSignal) => Promise<CommandResult>;
+    getPreviewConsole: () => string[];
+}
+
+export interface ToolCallOptions {
+    signal?: AbortSignal;
+    timeLimitMs?: number; // What is left of the agent's time; no command runs longer.
+}
+
+export interface AgentToolbox {
+    instructions: string;
+    execute: (call: AgentToolCall, options?: ToolCallOptions) => Promise<AgentToolResult>;
+}
+
+const MAX_TOOL_OUTPUT_CHARS = 8000;
+const MAX_SEARCH_MATCHES = 50;
+const DEFAULT_COMMAND_TIMEOUT_MS = 60000;
+const MAX_COMMAND_TIMEOUT_MS = 120000;
+
+const TOOL_INSTRUCTIONS = `You can call tools to inspect the project before answering. To call a tool, respond with one or more tags of the form:
+<tool_call name="tool_name">{"argument": "value"}</tool_call>
+The body must be a JSON object. You will receive the results in <tool_result> tags and can then call more tools.
+
+Available tools:
+- read_file {"path": "/src/App.tsx"}: Returns the full content of a file.
+- list_files {}: Returns the project file tree.
+- search {"query": "useState", "isRegex": false, "isCaseSensitive": false}: Searches all files and returns matching lines.
+- run_command {"command": "npx tsc --noEmit", "timeoutMs": 60000}: Runs a command in the project's WebContainer and returns its exit code and output. Use it to inspect, build or type-check; do not use it to modify project files. Commands that change core project items or read environment files are refused.
+- read_preview_console {}: Returns errors and uncaught exceptions reported by the live preview.
+
+When you have enough information, stop calling tools and give your final answer in the normal response format (<summary>, <update>, <patch>, <delete>). A response without any <tool_call> tags is treated as your final answer.`;
+
+const truncateOutput = (text: string): string =>
+    text.length > MAX_TOOL_OUTPUT_CHARS
+        ? `${text.slice(0, MAX_TOOL_OUTPUT_CHARS)}\n... (${text.length - MAX_TOOL_OUTPUT_CHARS} more characters truncated)`
+        : text;
+
+// Splits a command line on whitespace, honouring single and double quotes.
+const splitCommandLine = (commandLine: string): string[] => {
+    const parts: string[] = [];
+    for (const match of commandLine.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)) {
+        parts.push(match[1] ?? match[2] ?? match[3]);
+    }
+    return parts;
+};
+
+// Programs whose operands are all files they change or remove. cp and ln only write their last
+// operand; sed and perl write files only when editing in place. Shell scripts passed with -c
+// are checked command by command. This catches the usual ways of changing files, not every one.
+const FILE_CHANGING_PROGRAMS = ['rm', 'rmdir', 'unlink', 'shred', 'truncate', 'touch', 'chmod', 'chown', 'mv', 'tee'];
+const FILE_COPYING_PROGRAMS = ['cp', 'ln'];
+const IN_PLACE_EDITORS = ['sed', 'perl'];
+const GIT_CHECKOUT_COMMANDS = ['rm', 'mv', 'checkout', 'restore', 'clean', 'switch'];
+const SHELLS = ['sh', 'bash', 'zsh', 'jsh'];
+
+const getOperands = (args: string[]): string[] => args.filter(arg => !arg.startsWith('-'));
+
+// The simple commands of a command line. A shell script passed with -c is split into its own.
+const getSimpleCommands = (words: string[]): string[][] => {
+    const [program = '', ...args] = words;
+    const name = program.split('/').pop() || '';
+    if (SHELLS.includes(name) && args[0] === '-c' && args[1]) {
+        return args[1].split(/&&|\|\||[;|&\n]/).flatMap(part => getSimpleCommands(splitCommandLine(part)));
+    }
+    return [words];
+};
+
+// The paths a command writes to, as written in it. "." stands for the whole project.
+const getChangedPaths = (words: string[]): string[] => {
+    const [program = '', ...args] = words;
+    const name = program.split('/').pop() || '';
+    const redirects = words.flatMap((word, i) => {
+        if (word === '>' || word === '>>') return words[i + 1] ? [words[i + 1]] : [];
+        const inline = word.match(/^\d?>>?([^>&].*)$/);
+        return inline ? [inline[1]] : [];
+    });
+    const operands = getOperands(args);
+
+    if (FILE_CHANGING_PROGRAMS.includes(name)) return [...redirects, ...operands];
+    if (FILE_COPYING_PROGRAMS.includes(name)) return [...redirects, ...operands.slice(-1)];
+    if (IN_PLACE_EDITORS.includes(name) && args.some(arg => /^(-i|--in-place)/.test(arg))) return [...redirects, ...operands];
+    if (name === 'git') {
+        const [subcommand, ...paths] = operands;
+        // Without paths these act on the whole working tree.
+        if (GIT_CHECKOUT_COMMANDS.includes(subcommand) || (subcommand === 'reset' && args.includes('--hard'))) {
+            return [...redirects, ...(paths.length > 0 ? paths : ['.'])];
+        }
+    }
+    return redirects;
+};
+
+// Names a glob could expand to when deciding whether it reaches an env file.
+const ENV_FILE_NAMES = ['.env', '.env.local', '.env.development', '.env.production'];
+
+// Whether a word of a command names an env file, as an operand, a redirect, a `--flag=value`
+// or a glob such as ".env*". Globs only reach dotfiles when they start with a dot.
+const namesEnvFile = (word: string): boolean => {
+    const path = word.replace(/^\d?[<>]+/, '').split('=').pop() || '';
+    const name = path.split('/').pop() || '';
+    if (!/[*?[]/.test(name)) return isEnvFilePath(name);
+    if (!name.startsWith('.')) return false;
+    const source = name.replace(/[.+^$(){}|\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+    try {
+        const pattern = new RegExp(`^${source}$`);
+        return ENV_FILE_NAMES.some(envFileName => pattern.test(envFileName));
+    } catch {
+        return true; // A malformed bracket expression; refusing is the safe reading.
+    }
+};
+
+// The protected item `path` is, contains or lies inside, if any. A glob is taken to match
+// anything in the folder it starts in.
+const findProtectedTarget = (path: string): string | null => {
+    const globIndex = path.search(/[*?[]/);
+    const literal = globIndex === -1 ? path : path.slice(0, path.lastIndexOf('/', globIndex) + 1);
+    const segments = literal.replace(/\\/g, '/').split('/').filter(segment => segment && segment !== '.');
+    // A path that leaves the project may lead back into it.
+    if (segments.includes('..')) return '/';
+    const target = '/' + segments.join('/');
+    if (target === '/') return '/';
+    return PROTECTED_PATHS.find(protectedPath =>
+        target === protectedPath || target.startsWith(`${protectedPath}/`) || protectedPath.startsWith(`${target}/`)
+    ) || null;
+};
+
+const stringArg = (args: Record<string, unknown>, name: string): string => {
+    const value = args[name];
+    if (typeof value !== 'string' || !value) {
+        throw new Error(`Missing required string argument "${name}".`);
+    }
+    return value;
+};
+
+export const createAgentToolbox = (env: AgentEnvironment): AgentToolbox => {
+    const runTool = async (call: AgentToolCall, options: ToolCallOptions): Promise<{ input: string; output: string }> => {
+        const { args } = call;
+        switch (call.name) {
+            case 'read_file': {
+                const path = normalizeProjectPath(stringArg(args, 'path'));
+                const node = findFileByPath(env.getProjectStructure(), path);
+                if (!node || node.type !== 'file') {
+                    throw new Error(`File not found: ${path}`);
+                }
+                if (isEnvFilePath(path)) {
+                    throw new Error(`${path} holds environment variables and is not shared with the assistant.`);
+                }
+                if (isBinaryContent(node.content)) {
+                    throw new Error(`${path} is a binary file (${node.content.byteLength} bytes) and cannot be read as text.`);
+                }
+                return { input: path, output: node.content || '' };
+            }
+            case 'list_files':
+                return { input: '', output: formatFileTree(env.getProjectStructure()) };
+            case 'search': {
+                const query = stringArg(args, 'query');
+                const results = searchInProject(env.getProjectStructure(), query, {
+                    isCaseSensitive: args.isCaseSensitive === true,
+                    isRegex: args.isRegex === true,
+                    isWholeWord: false,
+                });
+                const lines = results.filter(result => !isEnvFilePath(result.path)).flatMap(result =>
+                    result.matches.map(match => `${result.path}:${match.lineNumber}: ${match.content.trim()}`)
+                );
+                const output = lines.length === 0
+                    ? 'No matches.'
+                    : lines.slice(0, MAX_SEARCH_MATCHES).join('\n') + (lines.length > MAX_SEARCH_MATCHES ? `\n... (${lines.length - MAX_SEARCH_MATCHES} more matches)` : '');
+                return { input: query, output };
+            }
+            case 'run_command': {
+                const commandLine = stringArg(args, 'command');
+                const words = splitCommandLine(commandLine);
+                const commands = getSimpleCommands(words);
+                if (commands.some(commandWords => commandWords.some(namesEnvFile))) {
+                    throw new Error('The command would read an environment file. Environment files are not shared with the assistant.');
+                }
+                for (const path of commands.flatMap(getChangedPaths)) {
+                    const target = findProtectedTarget(path);
+                    if (target) {
+                        throw new Error(`The command would change ${target === '/' ? 'the whole project' : `the core project item ${target}`}. Commands must not change project files; propose the edits in your answer instead.`);
+                    }
+                }
+                const [command, ...commandArgs] = words;
+                const requestedTimeout = typeof args.timeoutMs === 'number' ? args.timeoutMs : DEFAULT_COMMAND_TIMEOUT_MS;
+                const timeoutMs = Math.min(requestedTimeout, MAX_COMMAND_TIMEOUT_MS, options.timeLimitMs ?? Infinity);
+                if (timeoutMs <= 0) throw new Error('The time limit for this task has been reached.');
+                const result = await env.runCommand(command, commandArgs, timeoutMs, options.signal);
+                const status = result.exitCode !== null ? `Exit code: ${result.exitCode}`
+                    : options.signal?.aborted ? 'Cancelled and was killed.' : 'Timed out and was killed.';
+                // Commands such as `grep -r` can still print env files; their values are masked.
+                const envFileVariables = Array.from(getTextFiles(env.getProjectStructure()))
+                    .filter(([path]) => isEnvFilePath(path))
+                    .flatMap(([, content]) => parseEnvFile(content));
+                return { input: commandLine, output: `${status}\n${maskEnvVariables(result.output, envFileVariables)}` };
+            }
+            case 'read_preview_console': {
+                const entries = env.getPreviewConsole();
+                return { input: '', output: entries.length > 0 ? entries.join('\n') : 'The preview has not reported any errors.' };
+            }
+            default:
+                throw new Error(`Unknown tool "${call.name}".`);
+        }
+    };
+
+    return {
+        instructions: TOOL_INSTRUCTIONS,
+        execute: async (call, options = {}) => {
+            try {
+                const { input, output } = await runTool(call, options);
+                return { input, output: truncateOutput(output), isError: false };
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                return { input: JSON.stringify(call.args), output: message, isError: true };
+            }
+        },
+    };
+};
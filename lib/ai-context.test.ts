@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { FileNode } from '../types';
+import { addOrUpdateFileByPath } from './project-utils';
+import { buildAiContext, AiContextOptions } from './ai-context';
+
+const createStructure = (files: Record<string, string | Uint8Array>): FileNode[] =>
+    Object.entries(files).reduce<FileNode[]>((nodes, [path, content]) => addOrUpdateFileByPath(nodes, path, content), []);
+
+const OPTIONS: AiContextOptions = { prompt: 'Add a button', openFilePaths: [], activeFilePath: null, recentlyEditedPaths: [] };
+
+// A file of `lines` numbered statements, about 5 tokens a line.
+const longFile = (header: string, lines: number) =>
+    `${header}\n${Array.from({ length: lines }, (_, i) => `const value${i} = ${i};`).join('\n')}\n`;
+
+describe('buildAiContext', () => {
+    it('leaves out lockfiles, environment files and binaries', () => {
+        const structure = createStructure({
+            '/package.json': '{ "name": "app" }',
+            '/package-lock.json': '{ "lockfileVersion": 3 }',
+            '/pnpm-lock.yaml': 'lockfileVersion: 9.0',
+            '/.env': 'API_KEY=sk-live-secret',
+            '/.env.local': 'API_KEY=sk-local-secret',
+            '/.env.example': 'API_KEY=',
+            '/public/logo.png': new Uint8Array([0x89, 0x50, 0x4e, 0x47]),
+            '/public/old-logo.png': '[binary data]',
+            '/src/main.tsx': "import './index.css';\n",
+        });
+
+        const context = buildAiContext(structure, OPTIONS);
+
+        expect(context.files.map(file => file.path).sort()).toEqual(['/.env.example', '/package.json', '/src/main.tsx']);
+        expect(context.omittedCount).toBe(6);
+        expect(context.text).not.toContain('sk-live-secret');
+        expect(context.text).not.toContain('sk-local-secret');
+        expect(context.text).not.toContain('lockfileVersion');
+        // They are still listed in the file tree.
+        expect(context.text).toContain('📄 .env\n');
+        expect(context.text).toContain('📄 package-lock.json\n');
+    });
+
+    it('sends every file in full when they fit', () => {
+        const structure = createStructure({
+            '/src/App.tsx': longFile("import { helper } from './utils';", 100),
+            '/src/utils.ts': 'export const helper = () => 1;\n',
+        });
+
+        const context = buildAiContext(structure, { ...OPTIONS, activeFilePath: '/src/App.tsx' });
+
+        expect(context.files.map(({ path, mode }) => ({ path, mode }))).toEqual([
+            { path: '/src/App.tsx', mode: 'full' },
+            { path: '/src/utils.ts', mode: 'full' },
+        ]);
+        expect(context.omittedCount).toBe(0);
+        expect(context.totalTokens).toBeLessThanOrEqual(context.tokenBudget);
+    });
+
+    it('truncates relevant files and outlines the rest once the budget runs out', () => {
+        const structure = createStructure({
+            '/src/App.tsx': longFile("import { helper } from './utils';\nexport const App = () => helper();", 400),
+            '/src/utils.ts': 'export const helper = () => 1;\n',
+            '/src/unrelated.ts': longFile("import { z } from 'zod';\nexport const schema = z.object({});", 400),
+        });
+
+        const context = buildAiContext(structure, { ...OPTIONS, activeFilePath: '/src/App.tsx', tokenBudget: 2000 });
+
+        // The active file comes first but does not fit; its import neighbour does.
+        expect(context.files.map(({ path, mode }) => ({ path, mode }))).toEqual([
+            { path: '/src/App.tsx', mode: 'truncated' },
+            { path: '/src/utils.ts', mode: 'full' },
+            { path: '/src/unrelated.ts', mode: 'summary' },
+        ]);
+        expect(context.text).toContain('--- START OF FILE: /src/App.tsx (truncated) ---\nimport { helper }');
+        expect(context.text).toMatch(/\/\/ \.\.\. \(\d+ more lines truncated\)/);
+        expect(context.text).toContain("--- START OF FILE: /src/unrelated.ts (summary) ---\nimport { z } from 'zod';\nexport const schema = z.object({});\n// (403 lines; body omitted)");
+        expect(context.text).not.toContain('const value399 = 399;');
+        expect(context.totalTokens).toBeLessThanOrEqual(2000);
+    });
+
+    it('omits files that do not fit even as an outline', () => {
+        const structure = createStructure({
+            '/src/App.tsx': longFile('export const App = () => null;', 400),
+            '/src/a.ts': longFile('export const a = 1;', 400),
+        });
+
+        const context = buildAiContext(structure, { ...OPTIONS, activeFilePath: '/src/App.tsx', tokenBudget: 80 });
+
+        expect(context.files.map(({ path, mode }) => ({ path, mode }))).toEqual([{ path: '/src/App.tsx', mode: 'summary' }]);
+        expect(context.omittedCount).toBe(1);
+        expect(context.text).toContain('(1 file(s) listed in the structure above were omitted to fit the context window.)');
+    });
+});
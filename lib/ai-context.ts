@@ -0,0 +1,222 @@
+import { FileNode, ChatContextFile, ChatContextSummary } from '../types';
+import { findMentionedFiles, findFileByPath, getTextContent, isBinaryContent } from './project-utils';
+import { isEnvFilePath } from './env-vars';
+
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 32000;
+
+export interface AiContextOptions {
+    prompt: string;
+    openFilePaths: string[];
+    activeFilePath: string | null;
+    recentlyEditedPaths: string[]; // Most recent first.
+    tokenBudget?: number;
+}
+
+export interface AiContext extends ChatContextSummary {
+    text: string;
+}
+
+interface RankedFile {
+    node: FileNode;
+    score: number;
+    tokens: number;
+}
+
+// Rough heuristic for code: one token per ~4 characters. Good enough for budgeting.
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Files that are never useful to the model and would only eat into the budget.
+const NOISE_FILE_NAMES = new Set(['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb']);
+// Older projects stored uploaded binaries as this placeholder text.
+const BINARY_PLACEHOLDER = '[binary data]';
+
+const IMPORT_REGEX = /(?:import|export)\s[^'"]*?from\s*['"]([^'"]+)['"]|import\s*\(?\s*['"]([^'"]+)['"]|require\(\s*['"]([^'"]+)['"]\s*\)/g;
+const RESOLVE_SUFFIXES = ['', '.ts', '.tsx', '.js', '.jsx', '.json', '.css', '/index.ts', '/index.tsx', '/index.js', '/index.jsx'];
+
+// Only the head of a truncated file is sent; the rest is replaced by a marker line.
+const TRUNCATED_HEAD_RATIO = 0.5;
+const MIN_TRUNCATED_TOKENS = 400;
+
+const SCORE_MENTIONED = 100;
+const SCORE_ACTIVE = 80;
+const SCORE_OPEN = 40;
+const SCORE_IMPORT_NEIGHBOUR = 30;
+const SCORE_RECENT_EDIT = 25;
+const SCORE_ENTRY_POINT = 10;
+
+const ENTRY_POINT_PATHS = ['/package.json', '/index.html', '/src/main.tsx', '/src/App.tsx'];
+
+const collectFiles = (nodes: FileNode[], result: FileNode[] = []): FileNode[] => {
+    for (const node of nodes) {
+        if (node.type === 'file') {
+            result.push(node);
+        } else if (node.children) {
+            collectFiles(node.children, result);
+        }
+    }
+    return result;
+};
+
+const normalizePath = (path: string): string => {
+    const parts: string[] = [];
+    for (const part of path.split('/')) {
+        if (!part || part === '.') continue;
+        if (part === '..') parts.pop();
+        else parts.push(part);
+    }
+    return '/' + parts.join('/');
+};
+
+const resolveImport = (fromPath: string, specifier: string, filePaths: Set<string>): string | null => {
+    if (!specifier.startsWith('.') && !specifier.startsWith('/')) return null; // Package import.
+    const base = specifier.startsWith('/')
+        ? specifier
+        : fromPath.substring(0, fromPath.lastIndexOf('/')) + '/' + specifier;
+    const normalized = normalizePath(base);
+    for (const suffix of RESOLVE_SUFFIXES) {
+        if (filePaths.has(normalized + suffix)) return normalized + suffix;
+    }
+    return null;
+};
+
+const getImportedPaths = (file: FileNode, filePaths: Set<string>): string[] => {
+    const imported: string[] = [];
+    for (const match of getTextContent(file).matchAll(IMPORT_REGEX)) {
+        const resolved = resolveImport(file.path, match[1] || match[2] || match[3], filePaths);
+        if (resolved) imported.push(resolved);
+    }
+    return imported;
+};
+
+/**
+ * Returns the files imported by `path` and the files importing it, resolved against the
+ * project tree. Only relative and root-absolute specifiers are followed.
+ */
+export const getImportNeighbours = (nodes: FileNode[], path: string): string[] => {
+    const files = collectFiles(nodes);
+    const filePaths = new Set(files.map(f => f.path));
+    const neighbours = new Set<string>();
+    for (const file of files) {
+        const imported = getImportedPaths(file, filePaths);
+        if (file.path === path) {
+            imported.forEach(p => neighbours.add(p));
+        } else if (imported.includes(path)) {
+            neighbours.add(file.path);
+        }
+    }
+    neighbours.delete(path);
+    return Array.from(neighbours);
+};
+
+// A cheap outline of a file: its import and export lines, which is usually enough
+// for the model to know the file exists and what it provides.
+const summarizeFile = (content: string): string => {
+    const lines = content.split('\n');
+    const outline = lines.filter(line => /^\s*(import|export)\s/.test(line));
+    return `${outline.join('\n')}${outline.length > 0 ? '\n' : ''}// (${lines.length} lines; body omitted)`;
+};
+
+const truncateFile = (content: string, maxTokens: number): string => {
+    const lines = content.split('\n');
+    const kept: string[] = [];
+    let used = 0;
+    for (const line of lines) {
+        used += estimateTokens(line + '\n');
+        if (used > maxTokens) break;
+        kept.push(line);
+    }
+    return `${kept.join('\n')}\n// ... (${lines.length - kept.length} more lines truncated)`;
+};
+
+export const formatFileTree = (nodes: FileNode[], indent = ''): string => {
+    let result = '';
+    const sorted = [...nodes].sort((a, b) => {
+        if (a.type === b.type) return a.name.localeCompare(b.name);
+        return a.type === 'folder' ? -1 : 1;
+    });
+    for (const node of sorted) {
+        if (node.type === 'folder') {
+            result += `${indent}📁 ${node.name}/\n`;
+            if (node.children) result += formatFileTree(node.children, indent + '  ');
+        } else {
+            result += `${indent}📄 ${node.name}\n`;
+        }
+    }
+    return result;
+};
+
+const rankFiles = (nodes: FileNode[], options: AiContextOptions): RankedFile[] => {
+    const scores = new Map<string, number>();
+    const addScore = (path: string, score: number) => scores.set(path, (scores.get(path) || 0) + score);
+
+    findMentionedFiles(options.prompt, nodes).forEach(file => addScore(file.path, SCORE_MENTIONED));
+    options.openFilePaths.forEach(path => addScore(path, SCORE_OPEN));
+    if (options.activeFilePath && findFileByPath(nodes, options.activeFilePath)) {
+        addScore(options.activeFilePath, SCORE_ACTIVE);
+        getImportNeighbours(nodes, options.activeFilePath).forEach(path => addScore(path, SCORE_IMPORT_NEIGHBOUR));
+    }
+    options.recentlyEditedPaths.forEach((path, index) => {
+        addScore(path, Math.max(SCORE_RECENT_EDIT - index * 5, 5));
+    });
+    ENTRY_POINT_PATHS.forEach(path => addScore(path, SCORE_ENTRY_POINT));
+
+    return collectFiles(nodes)
+        .filter(node => !NOISE_FILE_NAMES.has(node.name) && !isEnvFilePath(node.path) && !isBinaryContent(node.content) && node.content !== BINARY_PLACEHOLDER)
+        .map(node => ({ node, score: scores.get(node.path) || 0, tokens: estimateTokens(getTextContent(node)) }))
+        .sort((a, b) => b.score - a.score || a.tokens - b.tokens);
+};
+
+/**
+ * Builds the project context sent with a prompt. The full file tree is always included;
+ * file contents are added in order of relevance until the token budget is used up, with
+ * lower-ranked or oversized files truncated or reduced to an import/export outline.
+ */
+export const buildAiContext = (nodes: FileNode[], options: AiContextOptions): AiContext => {
+    const tokenBudget = options.tokenBudget || DEFAULT_CONTEXT_TOKEN_BUDGET;
+    const header = `This is the current project structure:\n\n${formatFileTree(nodes)}`;
+    let remaining = tokenBudget - estimateTokens(header);
+
+    const files: ChatContextFile[] = [];
+    const sections: string[] = [];
+    let omittedCount = collectFiles(nodes).length;
+
+    const addSection = (path: string, mode: ChatContextFile['mode'], content: string) => {
+        const section = `\n--- START OF FILE: ${path}${mode === 'full' ? '' : ` (${mode})`} ---\n${content}\n--- END OF FILE: ${path} ---\n`;
+        const tokens = estimateTokens(section);
+        sections.push(section);
+        files.push({ path, mode, tokens });
+        remaining -= tokens;
+        omittedCount--;
+    };
+
+    for (const { node, score, tokens } of rankFiles(nodes, options)) {
+        const content = getTextContent(node);
+        if (tokens + 20 <= remaining) {
+            addSection(node.path, 'full', content);
+            continue;
+        }
+        // Relevant files that do not fit are cut down rather than dropped.
+        const truncatedBudget = Math.floor(remaining * TRUNCATED_HEAD_RATIO);
+        if (score > 0 && truncatedBudget >= MIN_TRUNCATED_TOKENS) {
+            addSection(node.path, 'truncated', truncateFile(content, truncatedBudget));
+            continue;
+        }
+        const summary = summarizeFile(content);
+        if (estimateTokens(summary) + 20 <= remaining) {
+            addSection(node.path, 'summary', summary);
+        }
+    }
+
+    let text = `${header}\n--- FILE CONTENTS ---\n${sections.join('')}`;
+    if (omittedCount > 0) {
+        text += `\n(${omittedCount} file(s) listed in the structure above were omitted to fit the context window.)\n`;
+    }
+
+    return {
+        text,
+        files,
+        omittedCount,
+        totalTokens: tokenBudget - remaining,
+        tokenBudget,
+    };
+};
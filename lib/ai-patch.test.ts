@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { applyPatchHunks, formatPatchHunk, parsePatchHunks } from './ai-patch';
+
+describe('parsePatchHunks', () => {
+    it('reads every SEARCH/REPLACE block', () => {
+        const body = [
+            '<<<<<<< SEARCH',
+            'const a = 1;',
+            '=======',
+            'const a = 2;',
+            '>>>>>>> REPLACE',
+            '<<<<<<< SEARCH',
+            'old',
+            '=======',
+            '>>>>>>> REPLACE',
+        ].join('\n');
+        expect(parsePatchHunks(body)).toEqual([
+            { search: 'const a = 1;', replace: 'const a = 2;' },
+            { search: 'old', replace: '' },
+        ]);
+    });
+
+    it('keeps divider lines that belong to the replacement', () => {
+        const hunk = { search: 'Title', replace: 'Title\n=======\n\nText' };
+        expect(parsePatchHunks(formatPatchHunk(hunk))).toEqual([hunk]);
+    });
+
+    it('reads a SEARCH section that copies a merge conflict', () => {
+        const hunk = { search: '<<<<<<< HEAD\nconst a = 1;\n=======\nconst a = 2;\n>>>>>>> feature', replace: 'const a = 2;' };
+        expect(parsePatchHunks(formatPatchHunk(hunk))).toEqual([hunk]);
+    });
+
+    it('only treats whole lines as markers', () => {
+        const body = ['<<<<<<< SEARCH', '// =======', '=======', '// -------', '>>>>>>> REPLACE'].join('\n');
+        expect(parsePatchHunks(body)).toEqual([{ search: '// =======', replace: '// -------' }]);
+    });
+
+    it('reads what formatPatchHunk writes', () => {
+        const hunk = { search: 'a\nb', replace: 'c' };
+        expect(parsePatchHunks(formatPatchHunk(hunk))).toEqual([hunk]);
+    });
+});
+
+describe('applyPatchHunks', () => {
+    it('applies hunks in order, each to the result of the previous one', () => {
+        const result = applyPatchHunks('a\nb\nc', [{ search: 'b', replace: 'B' }, { search: 'B\nc', replace: 'C' }]);
+        expect(result).toEqual({ content: 'a\nC', failures: [] });
+    });
+
+    it('reports hunks that match nowhere or more than once, and applies the rest', () => {
+        const result = applyPatchHunks('x\nx\ny', [
+            { search: 'x', replace: 'z' },
+            { search: 'missing', replace: 'z' },
+            { search: 'y', replace: 'Y' },
+        ]);
+        expect(result.content).toBe('x\nx\nY');
+        expect(result.failures.map(failure => failure.reason)).toEqual([
+            'The SEARCH section matches 2 locations; add surrounding lines to make it unique.',
+            'The SEARCH section was not found in the file.',
+        ]);
+    });
+
+    it('matches lines that differ only in trailing whitespace', () => {
+        expect(applyPatchHunks('a  \nb\t\nc', [{ search: 'a\nb', replace: 'A' }]).content).toBe('A\nc');
+    });
+
+    it('deletes whole lines without leaving an empty line', () => {
+        expect(applyPatchHunks('a\nb\nc', [{ search: 'b', replace: '' }]).content).toBe('a\nc');
+    });
+
+    it('deletes loosely matched lines without leaving an empty line', () => {
+        expect(applyPatchHunks('a\nb\nc', [{ search: 'b  ', replace: '' }]).content).toBe('a\nc');
+    });
+
+    it('keeps CRLF line endings', () => {
+        const result = applyPatchHunks('a\r\nb\r\nc\r\n', [{ search: 'b', replace: 'B\nB2' }]);
+        expect(result.content).toBe('a\r\nB\r\nB2\r\nc\r\n');
+    });
+
+    it('returns the content unchanged when no hunk applies', () => {
+        const content = 'a\r\nb\r\n';
+        expect(applyPatchHunks(content, [{ search: 'missing', replace: 'x' }]).content).toBe(content);
+    });
+
+    it('fills an empty file from a hunk with an empty SEARCH section', () => {
+        expect(applyPatchHunks('', [{ search: '', replace: 'new' }]).content).toBe('new');
+        expect(applyPatchHunks('old', [{ search: '', replace: 'new' }]).failures).toHaveLength(1);
+    });
+});
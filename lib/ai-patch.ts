@@ -0,0 +1,138 @@
+export interface AiPatchHunk {
+    search: string;
+    replace: string;
+}
+
+export interface AiPatch {
+    path: string;
+    hunks: AiPatchHunk[];
+}
+
+export interface AiPatchFailure {
+    hunk: AiPatchHunk;
+    reason: string;
+}
+
+export interface AiPatchResult {
+    content: string;
+    failures: AiPatchFailure[];
+}
+
+const SEARCH_MARKER = '<<<<<<< SEARCH';
+const DIVIDER = '=======';
+const REPLACE_MARKER = '>>>>>>> REPLACE';
+
+// Merge conflict markers inside a hunk, as in a SEARCH section that copies a conflicted block.
+const CONFLICT_START = /^<{7}(?: |$)/;
+const CONFLICT_END = /^>{7}(?: |$)/;
+
+// The divider is the first `=======` line outside merge conflict markers, so a SEARCH section may
+// contain a conflict and a REPLACE section any number of `=======` lines.
+const findDivider = (lines: string[]): number => {
+    let depth = 0;
+    for (let index = 0; index < lines.length; index++) {
+        const line = lines[index].trimEnd();
+        if (line === DIVIDER && depth === 0) return index;
+        if (CONFLICT_START.test(line)) depth++;
+        else if (CONFLICT_END.test(line)) depth = Math.max(0, depth - 1);
+    }
+    // Unbalanced markers: fall back to the first divider line.
+    return lines.findIndex(line => line.trimEnd() === DIVIDER);
+};
+
+export const parsePatchHunks = (body: string): AiPatchHunk[] => {
+    const hunks: AiPatchHunk[] = [];
+    let block: string[] | null = null;
+    for (const line of body.replace(/\r\n/g, '\n').split('\n')) {
+        const marker = line.trimEnd();
+        if (block === null) {
+            if (marker === SEARCH_MARKER) block = [];
+        } else if (marker === REPLACE_MARKER) {
+            const divider = findDivider(block);
+            if (divider !== -1) {
+                hunks.push({ search: block.slice(0, divider).join('\n'), replace: block.slice(divider + 1).join('\n') });
+            }
+            block = null;
+        } else {
+            block.push(line);
+        }
+    }
+    return hunks;
+};
+
+export const formatPatchHunk = (hunk: AiPatchHunk): string =>
+    [SEARCH_MARKER, hunk.search, DIVIDER, hunk.replace, REPLACE_MARKER].join('\n');
+
+const countOccurrences = (content: string, search: string): number[] => {
+    const indices: number[] = [];
+    let index = content.indexOf(search);
+    while (index !== -1) {
+        indices.push(index);
+        index = content.indexOf(search, index + 1);
+    }
+    return indices;
+};
+
+// Fallback for hunks whose only difference is trailing whitespace: compares whole lines
+// with `trimEnd()` and returns the starting line of every match.
+const findLineMatches = (lines: string[], searchLines: string[]): number[] => {
+    const matches: number[] = [];
+    for (let start = 0; start + searchLines.length <= lines.length; start++) {
+        if (searchLines.every((line, offset) => lines[start + offset].trimEnd() === line.trimEnd())) {
+            matches.push(start);
+        }
+    }
+    return matches;
+};
+
+const applyHunk = (content: string, hunk: AiPatchHunk): string | AiPatchFailure => {
+    if (hunk.search === '') {
+        return content.trim() === ''
+            ? hunk.replace
+            : { hunk, reason: 'The SEARCH section is empty, but the file is not.' };
+    }
+
+    const exact = countOccurrences(content, hunk.search);
+    if (exact.length === 1) {
+        let end = exact[0] + hunk.search.length;
+        // Deleting whole lines should not leave an empty line behind.
+        if (hunk.replace === '' && (exact[0] === 0 || content[exact[0] - 1] === '\n') && content[end] === '\n') end++;
+        return content.slice(0, exact[0]) + hunk.replace + content.slice(end);
+    }
+    if (exact.length > 1) {
+        return { hunk, reason: `The SEARCH section matches ${exact.length} locations; add surrounding lines to make it unique.` };
+    }
+
+    const lines = content.split('\n');
+    const searchLines = hunk.search.split('\n');
+    const loose = findLineMatches(lines, searchLines);
+    if (loose.length === 1) {
+        // An empty REPLACE section removes the lines instead of leaving an empty one.
+        const replaced = hunk.replace === '' ? [] : [hunk.replace];
+        return [...lines.slice(0, loose[0]), ...replaced, ...lines.slice(loose[0] + searchLines.length)].join('\n');
+    }
+    return loose.length > 1
+        ? { hunk, reason: `The SEARCH section matches ${loose.length} locations; add surrounding lines to make it unique.` }
+        : { hunk, reason: 'The SEARCH section was not found in the file.' };
+};
+
+/**
+ * Applies search/replace hunks in order. Each hunk must match exactly one location of the
+ * content as it stands after the previous hunks; hunks that do not are skipped and reported.
+ * Hunks are matched against LF line endings; a file that used CRLF gets CRLF back.
+ */
+export const applyPatchHunks = (content: string, hunks: AiPatchHunk[]): AiPatchResult => {
+    const usesCrlf = content.includes('\r\n');
+    let result = usesCrlf ? content.replace(/\r\n/g, '\n') : content;
+    const failures: AiPatchFailure[] = [];
+    for (const hunk of hunks) {
+        const applied = applyHunk(result, hunk);
+        if (typeof applied === 'string') {
+            result = applied;
+        } else {
+            failures.push(applied);
+        }
+    }
+    if (failures.length === hunks.length) return { content, failures };
+    return { content: usesCrlf ? result.replace(/\n/g, '\r\n') : result, failures };
+};
@@ -0,0 +1,281 @@
+import { GoogleGenAI } from "@google/genai";
+
+export type AiProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export type AiPart =
+    | { text: string }
+    | { inlineData: { mimeType: string; data: string } };
+
+export interface AiContent {
+    role: 'user' | 'model';
+    parts: AiPart[];
+}
+
+export interface AiGenerateRequest {
+    systemInstruction: string;
+    contents: AiContent[];
+    temperature?: number;
+    signal?: AbortSignal;
+}
+
+export interface AiProvider {
+    id: AiProviderId;
+    model: string;
+    generate: (request: AiGenerateRequest) => Promise<string>;
+    stream: (request: AiGenerateRequest) => AsyncGenerator<string>;
+    listModels: () => Promise<string[]>;
+}
+
+export interface AiProviderSettings {
+    provider: AiProviderId;
+    model: string;
+    baseUrl?: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+    apiKey?: string;
+    mockResponses?: string[]; // Raw responses replayed in order by the mock provider.
+    recordResponses?: boolean; // Append every raw response to `mockResponses`.
+    contextTokenBudget?: number; // Upper bound for project context sent with each prompt.
+    maxFixAttempts?: number; // Rounds of "Fix with AI" before giving up.
+}
+
+export const DEFAULT_AI_SETTINGS: AiProviderSettings = {
+    provider: 'gemini',
+    model: 'gemini-2.5-flash',
+};
+
+export const DEFAULT_MODELS: Record<AiProviderId, string> = {
+    'gemini': 'gemini-2.5-flash',
+    'openai-compatible': '',
+    'mock': 'mock',
+};
+
+// --- Gemini ---
+
+const createGeminiProvider = (settings: AiProviderSettings): AiProvider => {
+    const getClient = () => {
+        const apiKey = settings.apiKey || import.meta.env.VITE_API_KEY;
+        if (!apiKey) {
+            throw new Error("API key is not configured. Please set the VITE_API_KEY environment variable or add a key in the AI provider settings.");
+        }
+        return new GoogleGenAI({ apiKey });
+    };
+
+    const model = settings.model || DEFAULT_MODELS.gemini;
+
+    const toParams = (request: AiGenerateRequest) => ({
+        model,
+        contents: request.contents,
+        config: {
+            systemInstruction: request.systemInstruction,
+            temperature: request.temperature,
+            abortSignal: request.signal,
+        }
+    });
+
+    return {
+        id: 'gemini',
+        model,
+        generate: async (request) => {
+            const response = await getClient().models.generateContent(toParams(request));
+            return response.text || '';
+        },
+        stream: async function* (request) {
+            const stream = await getClient().models.generateContentStream(toParams(request));
+            for await (const chunk of stream) {
+                if (chunk.text) yield chunk.text;
+            }
+        },
+        listModels: async () => {
+            const models: string[] = [];
+            const pager = await getClient().models.list();
+            for await (const entry of pager) {
+                if (entry.name && entry.supportedActions?.includes('generateContent')) {
+                    models.push(entry.name.replace(/^models\//, ''));
+                }
+            }
+            return models;
+        },
+    };
+};
+
+// --- OpenAI-compatible (llama.cpp, Ollama, LM Studio, vLLM, ...) ---
+
+// The subset of the chat completions message format the providers send.
+type OpenAiContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAiMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string | OpenAiContentPart[];
+}
+
+const toOpenAiMessages = (request: AiGenerateRequest): OpenAiMessage[] => {
+    const messages: OpenAiMessage[] = [{ role: 'system', content: request.systemInstruction }];
+    for (const content of request.contents) {
+        const role = content.role === 'model' ? 'assistant' : 'user';
+        const hasImages = content.parts.some(part => 'inlineData' in part);
+        if (!hasImages) {
+            messages.push({ role, content: content.parts.map(part => ('text' in part ? part.text : '')).join('\n') });
+            continue;
+        }
+        messages.push({
+            role,
+            content: content.parts.map((part): OpenAiContentPart => 'text' in part
+                ? { type: 'text', text: part.text }
+                : { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } }),
+        });
+    }
+    return messages;
+};
+
+const createOpenAiCompatibleProvider = (settings: AiProviderSettings): AiProvider => {
+    const getBaseUrl = () => {
+        if (!settings.baseUrl) {
+            throw new Error("No base URL configured for the OpenAI-compatible provider.");
+        }
+        return settings.baseUrl.replace(/\/+$/, '');
+    };
+
+    const headers = (): Record<string, string> => ({
+        'Content-Type': 'application/json',
+        ...(settings.apiKey ? { 'Authorization': `Bearer ${settings.apiKey}` } : {}),
+    });
+
+    const request = async (body: object, signal?: AbortSignal): Promise<Response> => {
+        const response = await fetch(`${getBaseUrl()}/chat/completions`, {
+            method: 'POST',
+            headers: headers(),
+            body: JSON.stringify(body),
+            signal,
+        });
+        if (!response.ok) {
+            throw new Error(`Request failed with status ${response.status}: ${await response.text()}`);
+        }
+        return response;
+    };
+
+    return {
+        id: 'openai-compatible',
+        model: settings.model,
+        generate: async (req) => {
+            const response = await request({
+                model: settings.model,
+                messages: toOpenAiMessages(req),
+                temperature: req.temperature,
+            }, req.signal);
+            const data = await response.json();
+            return data.choices?.[0]?.message?.content || '';
+        },
+        stream: async function* (req) {
+            const response = await request({
+                model: settings.model,
+                messages: toOpenAiMessages(req),
+                temperature: req.temperature,
+                stream: true,
+            }, req.signal);
+            if (!response.body) return;
+
+            const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+            let buffer = '';
+            while (true) {
+                const { value, done } = await reader.read();
+                if (done) break;
+                buffer += value;
+
+                // Server-sent events: one "data: {...}" payload per line.
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || '';
+                for (const line of lines) {
+                    const trimmed = line.trim();
+                    if (!trimmed.startsWith('data:')) continue;
+                    const payload = trimmed.slice('data:'.length).trim();
+                    if (payload === '[DONE]') return;
+                    const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+                    if (delta) yield delta;
+                }
+            }
+        },
+        listModels: async () => {
+            const response = await fetch(`${getBaseUrl()}/models`, { headers: headers() });
+            if (!response.ok) {
+                throw new Error(`Failed to list models (status ${response.status}).`);
+            }
+            const data = await response.json();
+            return (data.data || []).map((model: { id: string }) => model.id);
+        },
+    };
+};
+
+// --- Mock ---
+
+const MOCK_CHUNK_SIZE = 24;
+
+/**
+ * Replays `settings.mockResponses` in order (wrapping around), so assistant flows
+ * can be exercised offline with the same output every time. The replay position
+ * lives on the provider instance, so create it once per session.
+ */
+const createMockProvider = (settings: AiProviderSettings): AiProvider => {
+    let callIndex = 0;
+
+    const nextResponse = (): string => {
+        const responses = settings.mockResponses || [];
+        if (responses.length === 0) {
+            throw new Error("The mock provider has no recorded responses to replay.");
+        }
+        return responses[callIndex++ % responses.length];
+    };
+
+    return {
+        id: 'mock',
+        model: 'mock',
+        generate: async () => nextResponse(),
+        stream: async function* (request) {
+            const response = nextResponse();
+            for (let i = 0; i < response.length; i += MOCK_CHUNK_SIZE) {
+                if (request.signal?.aborted) return;
+                await Promise.resolve();
+                yield response.slice(i, i + MOCK_CHUNK_SIZE);
+            }
+        },
+        listModels: async () => ['mock'],
+    };
+};
+
+// --- Recording wrapper ---
+
+const withRecording = (provider: AiProvider, onRecord: (responseText: string) => void): AiProvider => ({
+    ...provider,
+    generate: async (request) => {
+        const text = await provider.generate(request);
+        onRecord(text);
+        return text;
+    },
+    stream: async function* (request) {
+        let text = '';
+        for await (const chunk of provider.stream(request)) {
+            text += chunk;
+            yield chunk;
+        }
+        if (!request.signal?.aborted) onRecord(text);
+    },
+});
+
+export const createAiProvider = (settings: AiProviderSettings, onRecord?: (responseText: string) => void): AiProvider => {
+    let provider: AiProvider;
+    switch (settings.provider) {
+        case 'openai-compatible':
+            provider = createOpenAiCompatibleProvider(settings);
+            break;
+        case 'mock':
+            provider = createMockProvider(settings);
+            break;
+        case 'gemini':
+        default:
+            provider = createGeminiProvider(settings);
+            break;
+    }
+    return settings.recordResponses && onRecord && settings.provider !== 'mock'
+        ? withRecording(provider, onRecord)
+        : provider;
+};
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { AiFile } from './ai';
+import { createAiStreamParser } from './ai-stream-parser';
+
+const APP = `import { useState } from 'react';
+
+export const App = () => {
+    const [count, setCount] = useState(0);
+    return <div onClick={() => setCount(count + 1)}>{count < 10 ? count : '10+'}</div>;
+};
+`;
+
+const PATCH = `<<<<<<< SEARCH
+    <title>Vite App</title>
+=======
+    <title>Counter</title>
+>>>>>>> REPLACE`;
+
+const RESPONSE = `<summary>
+Added a counter and renamed the page.
+</summary>
+<update file="src/App.tsx">${APP}</update>
+<patch file="index.html">
+${PATCH}
+</patch>
+<delete file="src/old.css" />
+<update file="src/empty.ts"></update>`;
+
+interface ParsedStream {
+    summaries: string[];
+    progress: Map<string, string[]>;
+    files: AiFile[];
+    deleted: string[];
+    patched: string[];
+    text: string;
+}
+
+const parseInChunks = (chunks: string[]): ParsedStream => {
+    const result: ParsedStream = { summaries: [], progress: new Map(), files: [], deleted: [], patched: [], text: '' };
+    const parser = createAiStreamParser({
+        onSummary: summary => result.summaries.push(summary),
+        onFileProgress: (path, content) => result.progress.set(path, [...(result.progress.get(path) || []), content]),
+        onFileComplete: file => result.files.push(file),
+        onDelete: path => result.deleted.push(path),
+        onPatchStart: path => result.patched.push(path),
+    });
+    for (const chunk of chunks) parser.push(chunk);
+    result.text = parser.getText();
+    return result;
+};
+
+const splitEvery = (text: string, size: number): string[] => {
+    const chunks: string[] = [];
+    for (let i = 0; i < text.length; i += size) chunks.push(text.slice(i, i + size));
+    return chunks;
+};
+
+describe('createAiStreamParser', () => {
+    it('reads a whole response', () => {
+        const parsed = parseInChunks([RESPONSE]);
+
+        expect(parsed.summaries).toEqual(['Added a counter and renamed the page.']);
+        expect(parsed.files).toEqual([{ path: 'src/App.tsx', content: APP }, { path: 'src/empty.ts', content: '' }]);
+        expect(parsed.patched).toEqual(['index.html']);
+        expect(parsed.deleted).toEqual(['src/old.css']);
+        expect(parsed.text).toBe(RESPONSE);
+    });
+
+    it('reads the same files however the response is split', () => {
+        const expected = parseInChunks([RESPONSE]);
+        for (const size of [1, 2, 3, 5, 8, 13, 64]) {
+            const parsed = parseInChunks(splitEvery(RESPONSE, size));
+
+            expect(parsed.files).toEqual(expected.files);
+            expect(parsed.deleted).toEqual(expected.deleted);
+            expect(parsed.patched).toEqual(expected.patched);
+            expect(parsed.summaries.at(-1)).toBe(expected.summaries[0]);
+            expect(parsed.text).toBe(RESPONSE);
+        }
+    });
+
+    it('reads tags split at any point', () => {
+        const expected = parseInChunks([RESPONSE]);
+        for (let i = 1; i < RESPONSE.length; i++) {
+            const parsed = parseInChunks([RESPONSE.slice(0, i), RESPONSE.slice(i)]);
+
+            expect(parsed.files).toEqual(expected.files);
+            expect(parsed.deleted).toEqual(expected.deleted);
+            expect(parsed.patched).toEqual(expected.patched);
+        }
+    });
+
+    it('only reports partial content the file will actually have', () => {
+        const parsed = parseInChunks(splitEvery(RESPONSE, 1));
+
+        // Every step is a prefix of the file: "<", "</" or "</upd" at the end is held back until it
+        // turns out not to be the closing tag.
+        const steps = parsed.progress.get('src/App.tsx')!;
+        expect(steps.length).toBeGreaterThan(APP.length / 2);
+        for (const step of steps) expect(APP.startsWith(step)).toBe(true);
+        expect(steps.at(-1)).toBe(APP);
+        for (const summary of parsed.summaries) expect('Added a counter and renamed the page.'.startsWith(summary)).toBe(true);
+    });
+
+    it('holds back a partial closing tag', () => {
+        const progress: string[] = [];
+        const parser = createAiStreamParser({ onFileProgress: (_path, content) => progress.push(content) });
+
+        parser.push('<update file="a.ts">const a = 1;\n</upd');
+        expect(progress).toEqual(['const a = 1;\n']);
+
+        // It was JSX after all.
+        parser.push('ate-banner>');
+        expect(progress.at(-1)).toBe('const a = 1;\n</update-banner>');
+
+        parser.push('\n</update>');
+        expect(progress.at(-1)).toBe('const a = 1;\n</update-banner>\n');
+    });
+
+    it('does not report patch content as file content', () => {
+        const parsed = parseInChunks(splitEvery(RESPONSE, 7));
+
+        expect(parsed.progress.has('index.html')).toBe(false);
+        expect(parsed.files.map(file => file.path)).not.toContain('index.html');
+        // The hunks are read from the complete text.
+        expect(parsed.text).toContain(PATCH);
+    });
+});
@@ -0,0 +1,103 @@
+import { AiFile } from './ai';
+
+export interface AiStreamHandlers {
+    onSummary?: (summary: string) => void;
+    onFileProgress?: (path: string, partialContent: string) => void;
+    onFileComplete?: (file: AiFile) => void;
+    onDelete?: (path: string) => void;
+    onPatchStart?: (path: string) => void; // Patch hunks are only applied once the response is complete.
+}
+
+export interface AiStreamParser {
+    push: (chunk: string) => void;
+    getText: () => string;
+}
+
+type OpenTag = { kind: 'summary' } | { kind: 'update'; path: string } | { kind: 'patch'; path: string };
+
+const OPENING_TAG_REGEX = /<summary>|<update file="([^"]+)">|<delete file="([^"]+)"\s*\/?>|<patch file="([^"]+)">/g;
+
+const CLOSING_TAGS: Record<OpenTag['kind'], string> = {
+    summary: '</summary>',
+    update: '</update>',
+    patch: '</patch>',
+};
+
+// Removes a trailing fragment that could be the beginning of the closing tag,
+// so a half-received "</upd" never flashes in the editor.
+const stripPartialClosingTag = (text: string, closingTag: string): string => {
+    for (let length = Math.min(closingTag.length - 1, text.length); length > 0; length--) {
+        if (text.endsWith(closingTag.slice(0, length))) {
+            return text.slice(0, text.length - length);
+        }
+    }
+    return text;
+};
+
+/**
+ * Incrementally parses the `<summary>`, `<update>`, `<patch>` and `<delete>` tags of an AI response
+ * as chunks arrive, reporting partial content so the UI can render files while they are written.
+ */
+export const createAiStreamParser = (handlers: AiStreamHandlers): AiStreamParser => {
+    let buffer = '';
+    let cursor = 0;
+    let openTag: OpenTag | null = null;
+    let contentStart = 0;
+
+    const parse = () => {
+        while (true) {
+            if (!openTag) {
+                OPENING_TAG_REGEX.lastIndex = cursor;
+                const match = OPENING_TAG_REGEX.exec(buffer);
+                if (!match) return;
+
+                if (match[2]) {
+                    handlers.onDelete?.(match[2]);
+                    cursor = match.index + match[0].length;
+                    continue;
+                }
+
+                if (match[3]) {
+                    openTag = { kind: 'patch', path: match[3] };
+                    handlers.onPatchStart?.(match[3]);
+                } else {
+                    openTag = match[1] ? { kind: 'update', path: match[1] } : { kind: 'summary' };
+                }
+                contentStart = match.index + match[0].length;
+                cursor = contentStart;
+                continue;
+            }
+
+            const closingTag = CLOSING_TAGS[openTag.kind];
+            const closingIndex = buffer.indexOf(closingTag, contentStart);
+
+            if (closingIndex === -1) {
+                const partial = stripPartialClosingTag(buffer.slice(contentStart), closingTag);
+                if (openTag.kind === 'summary') {
+                    handlers.onSummary?.(partial.trim());
+                } else if (openTag.kind === 'update') {
+                    handlers.onFileProgress?.(openTag.path, partial);
+                }
+                return;
+            }
+
+            const content = buffer.slice(contentStart, closingIndex);
+            if (openTag.kind === 'summary') {
+                handlers.onSummary?.(content.trim());
+            } else if (openTag.kind === 'update') {
+                handlers.onFileProgress?.(openTag.path, content);
+                handlers.onFileComplete?.({ path: openTag.path, content });
+            }
+            openTag = null;
+            cursor = closingIndex + closingTag.length;
+        }
+    };
+
+    return {
+        push: (chunk: string) => {
+            buffer += chunk;
+            parse();
+        },
+        getText: () => buffer,
+    };
+};
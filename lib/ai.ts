@@ -1,7 +1,11 @@
 
-import { GoogleGenAI } from "@google/genai";
-import { FileNode, Attachment } from '../types';
-import { formatProjectStructureForAI } from './project-utils';
+import { FileNode, Attachment, ChatMessage, AgentStep } from '../types';
+import { AiContext } from './ai-context';
+import { AiPatch, parsePatchHunks, applyPatchHunks, formatPatchHunk, AiPatchFailure } from './ai-patch';
+import { findFileByPath, isBinaryContent } from './project-utils';
+import { AgentToolbox, AgentToolResult } from './agent-tools';
+import { createAiStreamParser, AiStreamHandlers } from './ai-stream-parser';
+import { AiProvider, AiContent, AiPart } from './ai-providers';
 
 export interface AiFile {
     path: string;
@@ -12,6 +16,7 @@ export interface AiResponse {
     summary: string;
     filesToUpdate?: AiFile[];
     filesToDelete?: AiFile[];
+    filesToPatch?: AiPatch[]; // Resolved into `filesToUpdate` by `resolveAiPatches`.
 }
 
 const parseAiResponse = (responseText: string): AiResponse => {
@@ -29,40 +34,32 @@ const parseAiResponse = (responseText: string): AiResponse => {
     for (const match of deleteMatches) {
         filesToDelete.push({ path: match[1], content: '' });
     }
+
+    const filesToPatch: AiPatch[] = [];
+    const patchMatches = responseText.matchAll(/<patch file="([^"]+)">([\s\S]*?)<\/patch>/g);
+    for (const match of patchMatches) {
+        filesToPatch.push({ path: match[1], hunks: parsePatchHunks(match[2]) });
+    }
     
-    if (filesToUpdate.length === 0 && filesToDelete.length === 0 && !summaryMatch) {
+    if (filesToUpdate.length === 0 && filesToDelete.length === 0 && filesToPatch.length === 0 && !summaryMatch) {
          if (!responseText.trim().startsWith('<')) {
             return { summary: responseText.trim(), filesToUpdate, filesToDelete };
          }
     }
 
-    return { summary, filesToUpdate, filesToDelete };
+    return { summary, filesToUpdate, filesToDelete, filesToPatch };
 };
 
 
-export const generateCodeFromPrompt = async (
-    prompt: string,
-    projectStructure: FileNode[],
-    attachments: Attachment[]
-): Promise<AiResponse | null> => {
-    
-    if (!import.meta.env.VITE_API_KEY) {
-        console.error("VITE_API_KEY environment variable not set.");
-        return { summary: "Error: API key is not configured. Please set the VITE_API_KEY environment variable." };
-    }
-
-    const ai = new GoogleGenAI({ apiKey: import.meta.env.VITE_API_KEY });
-    
-    const projectContext = formatProjectStructureForAI(projectStructure);
-
-    const systemInstruction = `You are an expert web developer AI assistant.
+const CODE_ASSISTANT_SYSTEM_INSTRUCTION = `You are an expert web developer AI assistant.
 Your task is to help the user build and modify a web application based on their prompts.
 The user's project structure and file contents are provided below.
 
 When the user asks for changes, you MUST respond in the following format:
 1.  A summary of the changes you are making, enclosed in <summary> tags.
-2.  For each file you need to create or update, provide the full path and the complete new content of the file, enclosed in <update file="path/to/file.tsx">...</update> tags.
-3.  For each file you need to delete, use an empty <delete file="path/to/file.ts" /> tag.
+2.  For each file you need to create or rewrite, provide the full path and the complete new content of the file, enclosed in <update file="path/to/file.tsx">...</update> tags.
+3.  For small edits to an existing file, use a <patch file="path/to/file.tsx">...</patch> tag containing one or more search/replace hunks instead of rewriting the whole file.
+4.  For each file you need to delete, use an empty <delete file="path/to/file.ts" /> tag.
 
 Example response:
 <summary>
@@ -82,67 +79,267 @@ function App() {
 
 export default App;
 </update>
+<patch file="/src/main.tsx">
+<<<<<<< SEARCH
+import './index.css'
+=======
+import './index.css'
+import './theme.css'
+>>>>>>> REPLACE
+</patch>
 <delete file="/src/unused.css" />
 
 IMPORTANT RULES:
-- ALWAYS provide the FULL content for any file you are updating. Do not use placeholders or comments like "... rest of the code".
+- ALWAYS provide the FULL content for any file in an <update> tag. Do not use placeholders or comments like "... rest of the code".
+- In a <patch>, the SEARCH section must copy the existing lines exactly, including indentation, and must match exactly one location in the file. Include a few surrounding lines if needed to make it unique. Hunks are applied in order.
+- Prefer <patch> for focused changes to large files and <update> for new files or changes that touch most of a file.
 - Ensure the file paths are correct and start with a '/'.
 - If the user provides attachments, analyze them and incorporate them into your response.
 - If you are only providing information or answering a question, just provide the text response inside the <summary> tag and omit the update/delete tags.
 - Do not add any text outside of the specified XML tags.
+- To stay within the context window, some files are marked "(truncated)" or "(summary)", and others are only listed in the project structure. Never send an <update> for a file whose full content you have not seen; a <patch> may only touch lines you have seen. If you need a file you cannot see, ask the user to mention it by path so it is included in the next request.
 `;
-    
-    const fullPrompt = `${projectContext}\n\nUser prompt: ${prompt}`;
-    
-    const promptParts: any[] = [{ text: fullPrompt }];
+
+const MAX_HISTORY_MESSAGES = 20;
+
+// Images and PDFs are read as data URLs of up to several megabytes. They are sent with the request
+// that attaches them, but the saved conversation only keeps their name and type.
+export const withoutAttachmentData = (message: ChatMessage): ChatMessage => {
+    if (!message.attachments?.some(attachment => attachment.content.startsWith('data:'))) return message;
+    return {
+        ...message,
+        attachments: message.attachments.map(attachment =>
+            attachment.content.startsWith('data:') ? { ...attachment, content: '' } : attachment
+        ),
+    };
+};
+
+const buildAttachmentParts = (text: string, attachments: Attachment[]): AiPart[] => {
+    const parts: AiPart[] = [{ text }];
 
     for (const attachment of attachments) {
-        if (attachment.mimeType.startsWith('image/')) {
+        if (!attachment.content) {
+            (parts[0] as { text: string }).text += `\n\n[${attachment.name} was attached here; its content is no longer available.]`;
+        } else if (attachment.mimeType.startsWith('image/')) {
             const base64Data = attachment.content.split(',')[1] || attachment.content;
-            promptParts.push({
+            parts.push({
                 inlineData: {
                     mimeType: attachment.mimeType,
                     data: base64Data
                 }
             });
         } else {
-            promptParts[0].text += `\n\n--- ATTACHED FILE: ${attachment.name} ---\n${attachment.content}\n--- END OF ATTACHED FILE ---\n`;
+            (parts[0] as { text: string }).text += `\n\n--- ATTACHED FILE: ${attachment.name} ---\n${attachment.content}\n--- END OF ATTACHED FILE ---\n`;
         }
     }
+
+    return parts;
+};
+
+// Replays completed turns as alternating user/model contents. Cancelled or failed
+// assistant turns are dropped together with the user message that triggered them.
+// Turns whose changes the user discarded in review are kept, so the model knows.
+const buildHistoryContents = (history: ChatMessage[]): AiContent[] => {
+    const contents: AiContent[] = [];
+    const recent = history.slice(-MAX_HISTORY_MESSAGES);
+
+    for (let i = 0; i < recent.length; i++) {
+        const message = recent[i];
+        if (message.role !== 'user') continue;
+
+        const reply = recent[i + 1];
+        if (!reply || reply.role !== 'assistant' || (reply.status && reply.status !== 'discarded')) continue;
+
+        contents.push({ role: 'user', parts: buildAttachmentParts(message.content, message.attachments || []) });
+
+        let replyText = `<summary>\n${reply.content}\n</summary>`;
+        if (reply.changedFiles && reply.changedFiles.length > 0) {
+            replyText += `\n[Files changed in this turn: ${reply.changedFiles.join(', ')}]`;
+        }
+        if (reply.status === 'discarded') {
+            replyText += '\n[The user discarded the changes proposed in this turn; none were applied.]';
+        }
+        contents.push({ role: 'model', parts: [{ text: replyText }] });
+    }
+
+    return contents;
+};
+
+const buildCodeContents = (prompt: string, projectContext: AiContext, attachments: Attachment[], history: ChatMessage[]): AiContent[] => {
+    const fullPrompt = `${projectContext.text}\n\nUser prompt: ${prompt}`;
+
+    return [
+        ...buildHistoryContents(history),
+        { role: 'user', parts: buildAttachmentParts(fullPrompt, attachments) },
+    ];
+};
+
+export const generateCodeFromPrompt = async (
+    provider: AiProvider,
+    prompt: string,
+    projectContext: AiContext,
+    attachments: Attachment[],
+    history: ChatMessage[] = []
+): Promise<AiResponse | null> => {
+    
+    const contents = buildCodeContents(prompt, projectContext, attachments, history);
     
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: promptParts },
-            config: {
-                systemInstruction: systemInstruction,
-                temperature: 0.1,
-            }
+        const responseText = await provider.generate({
+            systemInstruction: CODE_ASSISTANT_SYSTEM_INSTRUCTION,
+            contents,
+            temperature: 0.1,
         });
-
-        const responseText = response.text;
         
         if (!responseText) {
-            console.error("Gemini API returned an empty response.");
+            console.error(`${provider.id} provider returned an empty response.`);
             return { summary: "The AI returned an empty response. Please try again." };
         }
 
         return parseAiResponse(responseText);
 
     } catch (error) {
-        console.error("Error calling Gemini API:", error);
+        console.error(`Error calling ${provider.id} provider:`, error);
         return { summary: `An error occurred while communicating with the AI. Error: ${error instanceof Error ? error.message : String(error)}` };
     }
 };
 
-export const generateProjectFromIdea = async (idea: string): Promise<AiFile[] | null> => {
-    if (!import.meta.env.VITE_API_KEY) {
-        console.error("VITE_API_KEY environment variable not set.");
-        throw new Error("Error: API key is not configured. Please set the VITE_API_KEY environment variable.");
+/**
+ * Streaming variant of `generateCodeFromPrompt`. Partial summaries and file contents are
+ * reported through `handlers` as they arrive; the fully parsed response is returned at the end.
+ * `projectContext` comes from `buildAiContext`; `history` holds the previous turns of the conversation. Returns `null` when the request
+ * is cancelled through `signal`.
+ */
+export const streamCodeFromPrompt = async (
+    provider: AiProvider,
+    prompt: string,
+    projectContext: AiContext,
+    attachments: Attachment[],
+    history: ChatMessage[],
+    handlers: AiStreamHandlers,
+    signal?: AbortSignal
+): Promise<AiResponse | null> => {
+
+    const contents = buildCodeContents(prompt, projectContext, attachments, history);
+    const parser = createAiStreamParser(handlers);
+
+    try {
+        const stream = provider.stream({
+            systemInstruction: CODE_ASSISTANT_SYSTEM_INSTRUCTION,
+            contents,
+            temperature: 0.1,
+            signal,
+        });
+
+        for await (const chunk of stream) {
+            if (signal?.aborted) return null;
+            parser.push(chunk);
+        }
+
+        if (signal?.aborted) return null;
+
+        const responseText = parser.getText();
+        if (!responseText) {
+            console.error(`${provider.id} provider returned an empty response.`);
+            return { summary: "The AI returned an empty response. Please try again." };
+        }
+
+        return parseAiResponse(responseText);
+
+    } catch (error) {
+        if (signal?.aborted) return null;
+        console.error(`Error calling ${provider.id} provider:`, error);
+        return { summary: `An error occurred while communicating with the AI. Error: ${error instanceof Error ? error.message : String(error)}` };
     }
+};
 
-    const ai = new GoogleGenAI({ apiKey: import.meta.env.VITE_API_KEY });
+const AGENT_MAX_STEPS = 12;
+const AGENT_TIME_LIMIT_MS = 3 * 60 * 1000;
+const TOOL_CALL_REGEX = /<tool_call name="([\w-]+)">([\s\S]*?)<\/tool_call>/g;
 
+const parseToolArgs = (body: string): Record<string, unknown> | null => {
+    try {
+        const args = JSON.parse(body.trim() || '{}');
+        return args && typeof args === 'object' && !Array.isArray(args) ? args : null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Agent-mode variant of `streamCodeFromPrompt`: the model may call the tools in `toolbox`
+ * (one request per round, results fed back as <tool_result> tags) before giving a final answer
+ * in the normal format. Each executed tool call is reported through `onStep`. The loop is capped
+ * at AGENT_MAX_STEPS tool calls and AGENT_TIME_LIMIT_MS, after which the model must answer; commands
+ * are killed when the time runs out. Returns `null` when cancelled through `signal`, which also
+ * kills a running command.
+ */
+export const runAgentFromPrompt = async (
+    provider: AiProvider,
+    prompt: string,
+    projectContext: AiContext,
+    attachments: Attachment[],
+    history: ChatMessage[],
+    toolbox: AgentToolbox,
+    onStep: (step: AgentStep) => void,
+    signal?: AbortSignal
+): Promise<AiResponse | null> => {
+
+    const systemInstruction = `${CODE_ASSISTANT_SYSTEM_INSTRUCTION}\n${toolbox.instructions}`;
+    const contents = buildCodeContents(prompt, projectContext, attachments, history);
+    const startedAt = Date.now();
+    let stepCount = 0;
+    let isLimitReached = false;
+
+    try {
+        while (true) {
+            const responseText = await provider.generate({ systemInstruction, contents, temperature: 0.1, signal });
+            if (signal?.aborted) return null;
+
+            const calls = Array.from(responseText.matchAll(TOOL_CALL_REGEX));
+            if (calls.length === 0) {
+                if (!responseText) {
+                    console.error(`${provider.id} provider returned an empty response.`);
+                    return { summary: "The AI returned an empty response. Please try again." };
+                }
+                return parseAiResponse(responseText);
+            }
+            if (isLimitReached) {
+                return { summary: `The agent was stopped after ${stepCount} steps without giving a final answer.` };
+            }
+
+            contents.push({ role: 'model', parts: [{ text: responseText }] });
+            const results: string[] = [];
+            for (const [, name, body] of calls) {
+                if (stepCount >= AGENT_MAX_STEPS || Date.now() - startedAt > AGENT_TIME_LIMIT_MS) {
+                    isLimitReached = true;
+                    break;
+                }
+                stepCount++;
+
+                const stepStartedAt = Date.now();
+                const args = parseToolArgs(body);
+                const result: AgentToolResult = args
+                    ? await toolbox.execute({ name, args }, { signal, timeLimitMs: AGENT_TIME_LIMIT_MS - (Date.now() - startedAt) })
+                    : { input: body.trim(), output: 'Tool arguments must be a JSON object.', isError: true };
+                if (signal?.aborted) return null;
+
+                onStep({ tool: name, input: result.input, output: result.output, isError: result.isError, durationMs: Date.now() - stepStartedAt });
+                results.push(`<tool_result name="${name}"${result.isError ? ' error="true"' : ''}>\n${result.output}\n</tool_result>`);
+            }
+            if (isLimitReached) {
+                results.push('You have reached the step or time limit. Do not call any more tools; give your final answer now.');
+            }
+            contents.push({ role: 'user', parts: [{ text: results.join('\n') }] });
+        }
+    } catch (error) {
+        if (signal?.aborted) return null;
+        console.error(`Error calling ${provider.id} provider in agent mode:`, error);
+        return { summary: `An error occurred while communicating with the AI. Error: ${error instanceof Error ? error.message : String(error)}` };
+    }
+};
+
+export const generateProjectFromIdea = async (provider: AiProvider, idea: string): Promise<AiFile[] | null> => {
     const systemInstruction = `You are an expert full-stack web developer AI. Your task is to generate a complete, runnable starter project based on the user's idea. The project should be a Vite + React + TypeScript application.
 
 You MUST respond ONLY with a series of \`<update file="path/to/file">...</update>\` tags. Each tag must contain the full and complete content for that file.
@@ -156,18 +353,14 @@ Do NOT include a \`<summary>\` tag or any other explanatory text outside of the
 `;
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [{ text: `Project Idea: ${idea}` }] },
-            config: {
-                systemInstruction: systemInstruction,
-                temperature: 0.2,
-            }
+        const responseText = await provider.generate({
+            systemInstruction: systemInstruction,
+            contents: [{ role: 'user', parts: [{ text: `Project Idea: ${idea}` }] }],
+            temperature: 0.2,
         });
 
-        const responseText = response.text;
         if (!responseText) {
-            console.error("Gemini API returned an empty response for project generation.");
+            console.error(`${provider.id} provider returned an empty response for project generation.`);
             return null;
         }
 
@@ -185,7 +378,121 @@ Do NOT include a \`<summary>\` tag or any other explanatory text outside of the
         return filesToUpdate;
 
     } catch (error) {
-        console.error("Error calling Gemini API for project generation:", error);
+        console.error(`Error calling ${provider.id} provider for project generation:`, error);
         throw new Error(`AI failed to generate project. ${error instanceof Error ? error.message : ''}`);
     }
 };
+
+const MAX_PATCH_RETRIES = 1;
+
+interface FailedPatch {
+    path: string;
+    content: string; // File content with the successful hunks already applied.
+    failures: AiPatchFailure[];
+}
+
+const buildPatchRetryPrompt = (failed: FailedPatch[]): string => {
+    let prompt = 'Some of the search/replace hunks in your previous response could not be applied. The hunks that did apply are already reflected in the file contents below.\n';
+    for (const { path, content, failures } of failed) {
+        prompt += `\n--- START OF FILE: ${path} ---\n${content}\n--- END OF FILE: ${path} ---\n`;
+        for (const { hunk, reason } of failures) {
+            prompt += `\nFailed hunk for ${path} (${reason}):\n${formatPatchHunk(hunk)}\n`;
+        }
+    }
+    prompt += '\nRespond ONLY with <patch> tags containing corrected hunks for the failed edits above. Do not repeat hunks that already applied.';
+    return prompt;
+};
+
+/**
+ * Applies the `<patch>` blocks of a response against the project and folds the results into
+ * `filesToUpdate`, so the rest of the app only ever deals with full file contents. Hunks that
+ * do not match exactly once are sent back to the model for one corrective round; anything
+ * still failing is listed in the summary. Returns `null` when cancelled through `signal`.
+ */
+export const resolveAiPatches = async (
+    provider: AiProvider,
+    response: AiResponse,
+    projectStructure: FileNode[],
+    signal?: AbortSignal
+): Promise<AiResponse | null> => {
+    if (!response.filesToPatch || response.filesToPatch.length === 0) {
+        return response;
+    }
+
+    const updates = new Map((response.filesToUpdate || []).map(file => [file.path, file.content]));
+    const problems: string[] = [];
+    let pending = response.filesToPatch;
+
+    for (let attempt = 0; pending.length > 0; attempt++) {
+        const failed: FailedPatch[] = [];
+        for (const patch of pending) {
+            const current = updates.get(patch.path) ?? findFileByPath(projectStructure, patch.path)?.content;
+            if (current === undefined) {
+                problems.push(`\`${patch.path}\`: the file does not exist.`);
+                continue;
+            }
+            if (isBinaryContent(current)) {
+                problems.push(`\`${patch.path}\`: binary files cannot be patched.`);
+                continue;
+            }
+            const result = applyPatchHunks(current, patch.hunks);
+            if (result.content !== current) {
+                updates.set(patch.path, result.content);
+            }
+            if (result.failures.length > 0) {
+                failed.push({ path: patch.path, content: result.content, failures: result.failures });
+            }
+        }
+
+        if (failed.length === 0) break;
+
+        if (attempt >= MAX_PATCH_RETRIES) {
+            for (const { path, failures } of failed) {
+                failures.forEach(({ reason }) => problems.push(`\`${path}\`: ${reason}`));
+            }
+            break;
+        }
+
+        try {
+            const retryText = await provider.generate({
+                systemInstruction: CODE_ASSISTANT_SYSTEM_INSTRUCTION,
+                contents: [{ role: 'user', parts: [{ text: buildPatchRetryPrompt(failed) }] }],
+                temperature: 0.1,
+                signal,
+            });
+            if (signal?.aborted) return null;
+
+            const retry = parseAiResponse(retryText);
+            const failedPaths = failed.map(f => f.path);
+            // A full rewrite of a failed file is accepted as well.
+            for (const file of retry.filesToUpdate || []) {
+                if (failedPaths.includes(file.path)) updates.set(file.path, file.content);
+            }
+            const rewritten = (retry.filesToUpdate || []).map(file => file.path);
+            pending = (retry.filesToPatch || []).filter(patch => failedPaths.includes(patch.path) && !rewritten.includes(patch.path));
+            for (const { path, failures } of failed) {
+                if (!rewritten.includes(path) && !pending.some(patch => patch.path === path)) {
+                    failures.forEach(({ reason }) => problems.push(`\`${path}\`: ${reason}`));
+                }
+            }
+        } catch (error) {
+            if (signal?.aborted) return null;
+            console.error(`Error retrying failed patches with ${provider.id} provider:`, error);
+            for (const { path, failures } of failed) {
+                failures.forEach(({ reason }) => problems.push(`\`${path}\`: ${reason}`));
+            }
+            break;
+        }
+    }
+
+    const summary = problems.length > 0
+        ? `${response.summary}\n\n**Some edits could not be applied:**\n${problems.map(p => `- ${p}`).join('\n')}`
+        : response.summary;
+
+    return {
+        ...response,
+        summary,
+        filesToUpdate: Array.from(updates, ([path, content]) => ({ path, content })),
+        filesToPatch: [],
+    };
+};
@@ -0,0 +1,82 @@
+import { FileSystemAPI } from '@webcontainer/api';
+import JSZip from 'jszip';
+
+// Where `vite build` writes the production site, relative to the project root.
+export const BUILD_OUTPUT_DIR = 'dist';
+// Port of `vite preview`. The dev server uses a different one, so `server-ready` events can be told apart.
+export const PREVIEW_PORT = 4173;
+
+export interface BuildAsset {
+    path: string; // Relative to the output directory.
+    size: number;
+    gzipSize: number | null; // Null if the browser cannot compress streams.
+}
+
+export interface BuildResult {
+    exitCode: number;
+    logs: string;
+    durationMs: number;
+    finishedAt: number;
+    assets: BuildAsset[]; // Largest first; empty when the build failed.
+    files: Map<string, Uint8Array>; // Output contents keyed by relative path.
+}
+
+/** Reads every file below `dir` in the container. Resolves to an empty map if the directory does not exist. */
+export const readBuildOutput = async (fs: FileSystemAPI, dir: string = BUILD_OUTPUT_DIR): Promise<Map<string, Uint8Array>> => {
+    const files = new Map<string, Uint8Array>();
+    const walk = async (relativeDir: string) => {
+        const absoluteDir = relativeDir ? `/${dir}/${relativeDir}` : `/${dir}`;
+        const entries = await fs.readdir(absoluteDir, { withFileTypes: true });
+        for (const entry of entries) {
+            const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+            if (entry.isDirectory()) {
+                await walk(relativePath);
+            } else {
+                files.set(relativePath, await fs.readFile(`/${dir}/${relativePath}`));
+            }
+        }
+    };
+    try {
+        await fs.readdir(`/${dir}`);
+    } catch {
+        return files; // Nothing was built.
+    }
+    await walk('');
+    return files;
+};
+
+const gzipSize = async (bytes: Uint8Array): Promise<number | null> => {
+    if (typeof CompressionStream === 'undefined') return null;
+    const stream = new Blob([bytes as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new CompressionStream('gzip'));
+    const compressed = await new Response(stream).arrayBuffer();
+    return compressed.byteLength;
+};
+
+export const measureAssets = async (files: Map<string, Uint8Array>): Promise<BuildAsset[]> => {
+    const assets: BuildAsset[] = [];
+    for (const [path, content] of files) {
+        assets.push({ path, size: content.byteLength, gzipSize: await gzipSize(content) });
+    }
+    return assets.sort((a, b) => b.size - a.size);
+};
+
+/** Zips the build output with the output directory's contents at the root. */
+export const createBuildZip = async (files: Map<string, Uint8Array>): Promise<Blob> => {
+    const zip = new JSZip();
+    for (const [path, content] of files) {
+        zip.file(path, content);
+    }
+    return zip.generateAsync({ type: 'blob' });
+};
+
+/** Downloads the build output as `<project>-dist.zip`. */
+export const zipBuildOutput = async (files: Map<string, Uint8Array>, projectName: string): Promise<void> => {
+    const blob = await createBuildZip(files);
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${projectName}-dist.zip`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+};
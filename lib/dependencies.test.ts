@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_REGISTRY_URL, getDependencySignature, installArgs, isOutdated, parsePackageSpec, readDeclaredDependencies, uninstallArgs } from './dependencies';
+
+describe('parsePackageSpec', () => {
+    it('splits off the version', () => {
+        expect(parsePackageSpec('lodash')).toEqual({ name: 'lodash', version: null });
+        expect(parsePackageSpec('react@18')).toEqual({ name: 'react', version: '18' });
+        expect(parsePackageSpec(' vite@^5.2.0 ')).toEqual({ name: 'vite', version: '^5.2.0' });
+    });
+
+    it('keeps the scope of scoped packages', () => {
+        expect(parsePackageSpec('@types/node')).toEqual({ name: '@types/node', version: null });
+        expect(parsePackageSpec('@types/node@^20')).toEqual({ name: '@types/node', version: '^20' });
+    });
+
+    it('treats a trailing @ as no version', () => {
+        expect(parsePackageSpec('react@')).toEqual({ name: 'react', version: null });
+        expect(parsePackageSpec('@babel/core@')).toEqual({ name: '@babel/core', version: null });
+    });
+
+    it('rejects invalid names', () => {
+        expect(() => parsePackageSpec('React')).toThrow('"React" is not a valid package name.');
+        expect(() => parsePackageSpec('@types')).toThrow('not a valid package name');
+        expect(() => parsePackageSpec('left pad')).toThrow('not a valid package name');
+        expect(() => parsePackageSpec('')).toThrow('not a valid package name');
+    });
+});
+
+describe('readDeclaredDependencies', () => {
+    it('lists dependencies and devDependencies by name', () => {
+        const packageJson = JSON.stringify({
+            dependencies: { react: '^18.2.0', 'react-dom': '^18.2.0', '@emotion/react': '11.11.4' },
+            devDependencies: { vite: '^5.2.0' },
+        });
+
+        expect(readDeclaredDependencies(packageJson)).toEqual([
+            { name: '@emotion/react', kind: 'dependencies', range: '11.11.4' },
+            { name: 'react', kind: 'dependencies', range: '^18.2.0' },
+            { name: 'react-dom', kind: 'dependencies', range: '^18.2.0' },
+            { name: 'vite', kind: 'devDependencies', range: '^5.2.0' },
+        ]);
+        expect(() => readDeclaredDependencies('{')).toThrow('package.json is not valid JSON.');
+    });
+});
+
+describe('getDependencySignature', () => {
+    it('changes only when the dependencies do', () => {
+        const signature = getDependencySignature(JSON.stringify({ name: 'app', dependencies: { react: '^18.2.0' } }));
+
+        expect(getDependencySignature(JSON.stringify({ name: 'renamed', scripts: { dev: 'vite' }, dependencies: { react: '^18.2.0' } }))).toBe(signature);
+        expect(getDependencySignature(JSON.stringify({ name: 'app', dependencies: { react: '^18.3.0' } }))).not.toBe(signature);
+        expect(getDependencySignature(JSON.stringify({ name: 'app', devDependencies: { react: '^18.2.0' } }))).not.toBe(signature);
+        expect(getDependencySignature('{ "dependencies": ')).toBeNull();
+    });
+});
+
+describe('isOutdated', () => {
+    it('compares installed versions', () => {
+        expect(isOutdated('18.2.0', '18.3.1')).toBe(true);
+        expect(isOutdated('18.3.1', '18.3.1')).toBe(false);
+        expect(isOutdated('19.0.0', '18.3.1')).toBe(false);
+        expect(isOutdated('1.9.0', '1.10.0')).toBe(true);
+    });
+
+    it('reads the lowest version of a range', () => {
+        expect(isOutdated('^18.2.0', '18.3.1')).toBe(true);
+        expect(isOutdated('~5.4.2', '5.4.2')).toBe(false);
+        expect(isOutdated('>=4 <6', '5.0.0')).toBe(true);
+    });
+
+    it('counts missing parts as zero', () => {
+        expect(isOutdated('^5', '5.0.0')).toBe(false);
+        expect(isOutdated('^5', '5.0.1')).toBe(true);
+        expect(isOutdated('5.1', '5.0.9')).toBe(false);
+        expect(isOutdated('5.x', '6.0.0')).toBe(true);
+    });
+
+    it('is false for versions without numbers', () => {
+        expect(isOutdated('latest', '5.0.0')).toBe(false);
+        expect(isOutdated('github:user/repo', '1.0.0')).toBe(false);
+        expect(isOutdated('1.0.0', 'next')).toBe(false);
+    });
+});
+
+describe('installArgs', () => {
+    it('saves devDependencies with --save-dev', () => {
+        expect(installArgs(['react@18', 'react-dom'], 'dependencies', DEFAULT_REGISTRY_URL)).toEqual(['install', 'react@18', 'react-dom']);
+        expect(installArgs(['vite'], 'devDependencies', DEFAULT_REGISTRY_URL)).toEqual(['install', 'vite', '--save-dev']);
+    });
+
+    it('passes a registry other than the default', () => {
+        expect(installArgs(['vite'], 'devDependencies', 'https://npm.example.com')).toEqual(['install', 'vite', '--save-dev', '--registry', 'https://npm.example.com']);
+        expect(installArgs(['vite'], 'dependencies', '')).toEqual(['install', 'vite']);
+    });
+});
+
+describe('uninstallArgs', () => {
+    it('passes a registry other than the default', () => {
+        expect(uninstallArgs(['lodash', '@types/lodash'], DEFAULT_REGISTRY_URL)).toEqual(['uninstall', 'lodash', '@types/lodash']);
+        expect(uninstallArgs(['lodash'], 'https://npm.example.com')).toEqual(['uninstall', 'lodash', '--registry', 'https://npm.example.com']);
+    });
+});
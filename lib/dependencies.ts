@@ -0,0 +1,103 @@
+import { FileSystemAPI } from '@webcontainer/api';
+
+export type DependencyKind = 'dependencies' | 'devDependencies';
+
+export interface DeclaredDependency {
+    name: string;
+    kind: DependencyKind;
+    range: string; // As written in package.json, e.g. "^18.2.0".
+}
+
+export const DEPENDENCY_KINDS: DependencyKind[] = ['dependencies', 'devDependencies'];
+export const DEFAULT_REGISTRY_URL = 'https://registry.npmjs.org';
+
+const PACKAGE_NAME_PATTERN = /^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+
+const textDecoder = new TextDecoder();
+
+/** Splits "react@18", "@types/node@^20" or "lodash" into name and version. Throws for invalid names. */
+export const parsePackageSpec = (spec: string): { name: string; version: string | null } => {
+    const trimmed = spec.trim();
+    const versionAt = trimmed.indexOf('@', 1);
+    const name = versionAt === -1 ? trimmed : trimmed.slice(0, versionAt);
+    const version = versionAt === -1 ? null : trimmed.slice(versionAt + 1) || null;
+    if (!PACKAGE_NAME_PATTERN.test(name)) {
+        throw new Error(`"${name}" is not a valid package name.`);
+    }
+    return { name, version };
+};
+
+export const readDeclaredDependencies = (packageJson: string): DeclaredDependency[] => {
+    let manifest: Partial<Record<DependencyKind, Record<string, string>>>;
+    try {
+        manifest = JSON.parse(packageJson);
+    } catch {
+        throw new Error('package.json is not valid JSON.');
+    }
+    return DEPENDENCY_KINDS.flatMap(kind =>
+        Object.entries(manifest[kind] || {})
+            .map(([name, range]) => ({ name, kind, range: String(range) }))
+            .sort((a, b) => a.name.localeCompare(b.name))
+    );
+};
+
+/** A string that changes whenever the declared dependencies do, or null if package.json cannot be parsed. */
+export const getDependencySignature = (packageJson: string): string | null => {
+    try {
+        return JSON.stringify(readDeclaredDependencies(packageJson).map(({ kind, name, range }) => [kind, name, range]));
+    } catch {
+        return null;
+    }
+};
+
+/** Version of a package in the container's node_modules, or null if it is not installed. */
+export const readInstalledVersion = async (fs: FileSystemAPI, name: string): Promise<string | null> => {
+    try {
+        const manifest = JSON.parse(textDecoder.decode(await fs.readFile(`/node_modules/${name}/package.json`)));
+        return typeof manifest.version === 'string' ? manifest.version : null;
+    } catch {
+        return null;
+    }
+};
+
+/** The `latest` dist-tag of a package, using the abbreviated metadata format every npm registry serves. */
+export const fetchLatestVersion = async (registryUrl: string, name: string): Promise<string> => {
+    const url = `${registryUrl.replace(/\/+$/, '')}/${name.replace('/', '%2f')}`;
+    const response = await fetch(url, { headers: { Accept: 'application/vnd.npm.install-v1+json' } });
+    if (!response.ok) {
+        throw new Error(response.status === 404 ? `${name} was not found in the registry.` : `The registry returned status ${response.status} for ${name}.`);
+    }
+    const metadata = await response.json();
+    const latest = metadata['dist-tags']?.latest;
+    if (typeof latest !== 'string') {
+        throw new Error(`The registry has no latest version of ${name}.`);
+    }
+    return latest;
+};
+
+// Missing parts count as zero, so a range like "^5" compares as 5.0.0.
+const parseVersion = (version: string): number[] | null => {
+    const match = /(\d+)(?:\.(\d+))?(?:\.(\d+))?/.exec(version);
+    return match ? match.slice(1, 4).map(part => Number(part || 0)) : null;
+};
+
+/** True if `latest` is a newer release than `current` (an installed version or a range like "^1.2.0"). */
+export const isOutdated = (current: string, latest: string): boolean => {
+    const a = parseVersion(current);
+    const b = parseVersion(latest);
+    if (!a || !b) return false;
+    for (let i = 0; i < 3; i++) {
+        if (a[i] !== b[i]) return a[i] < b[i];
+    }
+    return false;
+};
+
+// npm reads the registry from its config by default; it is only passed when a different one is set.
+const registryArgs = (registryUrl: string): string[] =>
+    registryUrl && registryUrl !== DEFAULT_REGISTRY_URL ? ['--registry', registryUrl] : [];
+
+export const installArgs = (specs: string[], kind: DependencyKind, registryUrl: string): string[] =>
+    ['install', ...specs, ...(kind === 'devDependencies' ? ['--save-dev'] : []), ...registryArgs(registryUrl)];
+
+export const uninstallArgs = (names: string[], registryUrl: string): string[] =>
+    ['uninstall', ...names, ...registryArgs(registryUrl)];
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import JSZip from 'jszip';
+import { createDeployAdapter, DeployRecord } from './deploy';
+import { MockDeployServer, startMockDeployServer } from './mock-deploy-server';
+
+const TOKEN = 'test-token';
+const encode = (text: string) => new TextEncoder().encode(text);
+const decode = (content: Uint8Array | undefined) => new TextDecoder().decode(content);
+const ignoreProgress = () => {};
+
+const buildOutput = (files: Record<string, string>) => new Map(Object.entries(files).map(([path, text]) => [path, encode(text)]));
+
+let server: MockDeployServer;
+
+beforeEach(async () => {
+    server = await startMockDeployServer({ token: TOKEN, authHeader: 'X-Deploy-Token' });
+});
+
+afterEach(async () => {
+    await server.close();
+});
+
+describe('HTTP adapter', () => {
+    it('uploads the build output as one zip', async () => {
+        const adapter = createDeployAdapter({ adapter: 'http', endpoint: `${server.url}/http/`, authHeader: 'X-Deploy-Token', authValue: TOKEN });
+        const outcome = await adapter.deploy(buildOutput({ 'index.html': '<h1>Hi</h1>', 'assets/app.js': 'run()' }), ignoreProgress);
+
+        expect(outcome.url).toBe(`${server.url}/site/`);
+        expect(server.http.zips).toHaveLength(1);
+        const zip = await JSZip.loadAsync(server.http.zips[0]);
+        expect(await zip.file('index.html')!.async('string')).toBe('<h1>Hi</h1>');
+        expect(await zip.file('assets/app.js')!.async('string')).toBe('run()');
+    });
+
+    it('uploads every file below the endpoint', async () => {
+        const adapter = createDeployAdapter({
+            adapter: 'http',
+            endpoint: `${server.url}/http`,
+            uploadMode: 'files',
+            authHeader: 'X-Deploy-Token',
+            authValue: TOKEN,
+            siteUrl: 'https://example.test/',
+        });
+        const outcome = await adapter.deploy(buildOutput({ 'index.html': 'home', 'docs/a b.html': 'spaced' }), ignoreProgress);
+
+        expect(outcome.url).toBe('https://example.test/');
+        expect(decode(server.http.files.get('index.html'))).toBe('home');
+        expect(decode(server.http.files.get('docs/a b.html'))).toBe('spaced');
+    });
+
+    it('fails with the server status when the token is rejected', async () => {
+        const adapter = createDeployAdapter({ adapter: 'http', endpoint: `${server.url}/http`, authHeader: 'X-Deploy-Token', authValue: 'wrong' });
+        await expect(adapter.deploy(buildOutput({ 'index.html': '' }), ignoreProgress)).rejects.toThrow(/status 401/);
+    });
+});
+
+describe('Netlify adapter', () => {
+    const settings = () => ({ adapter: 'netlify' as const, endpoint: `${server.url}/netlify`, authValue: TOKEN, siteId: 'site-1' });
+
+    it('uploads each content once and publishes the deploy', async () => {
+        const adapter = createDeployAdapter(settings());
+        const outcome = await adapter.deploy(buildOutput({ 'index.html': 'home', 'copy.html': 'home', 'app.js': 'run()' }), ignoreProgress);
+
+        expect(outcome).toEqual({ url: `${server.url}/sites/site-1/`, remoteId: 'deploy-1' });
+        expect(server.netlify.uploads).toHaveLength(2);
+        expect(server.netlify.published.get('site-1')).toBe('deploy-1');
+    });
+
+    it('uploads only the files the server does not have', async () => {
+        const adapter = createDeployAdapter(settings());
+        await adapter.deploy(buildOutput({ 'index.html': 'home', 'app.js': 'run()' }), ignoreProgress);
+        server.netlify.uploads.length = 0;
+
+        const outcome = await adapter.deploy(buildOutput({ 'index.html': 'home', 'app.js': 'run(2)' }), ignoreProgress);
+        expect(outcome.remoteId).toBe('deploy-2');
+        expect(server.netlify.uploads).toEqual(['/app.js']);
+    });
+
+    it('restores an earlier deploy without uploading it again', async () => {
+        const adapter = createDeployAdapter(settings());
+        const first = await adapter.deploy(buildOutput({ 'index.html': 'v1' }), ignoreProgress);
+        await adapter.deploy(buildOutput({ 'index.html': 'v2' }), ignoreProgress);
+        server.netlify.uploads.length = 0;
+
+        const record: DeployRecord = {
+            id: 'record-1',
+            adapter: 'netlify',
+            createdAt: 0,
+            status: 'success',
+            url: first.url,
+            commit: null,
+            snapshot: '',
+            fileCount: 1,
+            remoteId: first.remoteId,
+        };
+        const outcome = await adapter.restore!(record, ignoreProgress);
+
+        expect(outcome.remoteId).toBe('deploy-1');
+        expect(server.netlify.published.get('site-1')).toBe('deploy-1');
+        expect(server.netlify.uploads).toEqual([]);
+    });
+
+    it('fails without a site ID', async () => {
+        const adapter = createDeployAdapter({ ...settings(), siteId: undefined });
+        await expect(adapter.deploy(buildOutput({ 'index.html': '' }), ignoreProgress)).rejects.toThrow('No site ID is configured.');
+    });
+});
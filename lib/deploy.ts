@@ -0,0 +1,229 @@
+import { createBuildZip } from './build';
+
+export type DeployAdapterId = 'http' | 'netlify';
+
+export interface DeploySettings {
+    adapter: DeployAdapterId;
+    endpoint: string; // HTTP: upload URL. Netlify: API base, e.g. https://api.netlify.com/api/v1
+    uploadMode?: 'zip' | 'files'; // HTTP: POST one zip, or PUT every file below the endpoint.
+    authHeader?: string; // HTTP: name of the header carrying `authValue`, defaulting to Authorization.
+    authValue?: string; // HTTP: header value. Netlify: personal access token.
+    siteId?: string; // Netlify
+    siteUrl?: string; // HTTP: public address of the site, for servers that do not report one.
+}
+
+export type DeployStatus = 'success' | 'failed';
+
+export interface DeployRecord {
+    id: string;
+    adapter: DeployAdapterId;
+    createdAt: number;
+    status: DeployStatus;
+    url: string | null;
+    commit: string | null; // HEAD when the deploy was made, if the project is a repository.
+    snapshot: string; // Digest of the build output, so identical deploys can be recognized.
+    fileCount: number;
+    remoteId?: string; // The target's own deploy ID, used to restore it later.
+    rollbackOf?: string; // ID of the record this deploy restored.
+    error?: string;
+}
+
+export interface DeployOutcome {
+    url: string | null;
+    remoteId?: string;
+}
+
+export interface DeployAdapter {
+    id: DeployAdapterId;
+    deploy: (files: Map<string, Uint8Array>, onProgress: (message: string) => void) => Promise<DeployOutcome>;
+    // Publishes an earlier deploy again without uploading it. Adapters without it roll back by redeploying the stored output.
+    restore?: (record: DeployRecord, onProgress: (message: string) => void) => Promise<DeployOutcome>;
+}
+
+export const DEFAULT_NETLIFY_API_URL = 'https://api.netlify.com/api/v1';
+export const MAX_DEPLOY_HISTORY = 10;
+
+const NETLIFY_POLL_INTERVAL_MS = 1000;
+const NETLIFY_POLL_ATTEMPTS = 60;
+
+const hex = (buffer: ArrayBuffer): string =>
+    Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const sha1 = async (content: Uint8Array): Promise<string> =>
+    hex(await crypto.subtle.digest('SHA-1', content as Uint8Array<ArrayBuffer>));
+
+/** SHA-1 of every file, keyed by path. */
+export const digestFiles = async (files: Map<string, Uint8Array>): Promise<Map<string, string>> => {
+    const digests = new Map<string, string>();
+    for (const [path, content] of files) {
+        digests.set(path, await sha1(content));
+    }
+    return digests;
+};
+
+/** A short digest of the whole output; equal for builds with the same files and contents. */
+export const snapshotId = async (digests: Map<string, string>): Promise<string> => {
+    const manifest = Array.from(digests).sort(([a], [b]) => a.localeCompare(b)).map(([path, digest]) => `${path} ${digest}\n`).join('');
+    return (await sha1(new TextEncoder().encode(manifest))).slice(0, 12);
+};
+
+const encodePath = (path: string): string => path.split('/').map(encodeURIComponent).join('/');
+
+const trimSlashes = (url: string): string => url.replace(/\/+$/, '');
+
+const requestOk = async (url: string, init: RequestInit): Promise<Response> => {
+    const response = await fetch(url, init);
+    if (!response.ok) {
+        const detail = (await response.text().catch(() => '')).trim().slice(0, 200);
+        throw new Error(`${init.method || 'GET'} ${url} failed with status ${response.status}${detail ? `: ${detail}` : ''}`);
+    }
+    return response;
+};
+
+// Servers may answer with JSON naming the published address; anything else is ignored.
+const readReportedUrl = async (response: Response): Promise<string | null> => {
+    try {
+        const data = await response.json();
+        return typeof data?.url === 'string' ? data.url : null;
+    } catch {
+        return null;
+    }
+};
+
+// --- Generic HTTP ---
+
+const createHttpAdapter = (settings: DeploySettings): DeployAdapter => {
+    const endpoint = trimSlashes(settings.endpoint);
+    const headers = (contentType: string): Record<string, string> => ({
+        'Content-Type': contentType,
+        ...(settings.authValue ? { [settings.authHeader || 'Authorization']: settings.authValue } : {}),
+    });
+
+    return {
+        id: 'http',
+        deploy: async (files, onProgress) => {
+            if (!endpoint) throw new Error('No upload endpoint is configured.');
+            if (settings.uploadMode === 'files') {
+                let uploaded = 0;
+                let reportedUrl: string | null = null;
+                for (const [path, content] of files) {
+                    onProgress(`Uploading ${path} (${++uploaded}/${files.size})`);
+                    const response = await requestOk(`${endpoint}/${encodePath(path)}`, {
+                        method: 'PUT',
+                        headers: headers('application/octet-stream'),
+                        body: content as Uint8Array<ArrayBuffer>,
+                    });
+                    reportedUrl = (await readReportedUrl(response)) || reportedUrl;
+                }
+                return { url: settings.siteUrl || reportedUrl };
+            }
+            onProgress('Compressing build output');
+            const zip = await createBuildZip(files);
+            onProgress(`Uploading ${Math.ceil(zip.size / 1024)} KB`);
+            const response = await requestOk(endpoint, { method: 'POST', headers: headers('application/zip'), body: zip });
+            return { url: settings.siteUrl || (await readReportedUrl(response)) };
+        },
+    };
+};
+
+// --- Netlify-style file digest ---
+
+interface NetlifyDeploy {
+    id: string;
+    state?: string;
+    required?: string[]; // SHA-1 digests of files the server does not have yet.
+    error_message?: string;
+    deploy_ssl_url?: string;
+    ssl_url?: string;
+    url?: string;
+}
+
+/**
+ * Deploys with the file digest API: the server is sent a manifest of paths and SHA-1
+ * digests and asks only for the files it has not stored before. Restoring an old deploy
+ * republishes it on the server without uploading anything.
+ */
+const createNetlifyAdapter = (settings: DeploySettings): DeployAdapter => {
+    const apiUrl = trimSlashes(settings.endpoint || DEFAULT_NETLIFY_API_URL);
+    const headers = (contentType: string): Record<string, string> => ({
+        'Content-Type': contentType,
+        ...(settings.authValue ? { Authorization: `Bearer ${settings.authValue}` } : {}),
+    });
+    const siteUrl = (deploy: NetlifyDeploy): string | null => deploy.deploy_ssl_url || deploy.ssl_url || deploy.url || null;
+
+    const requireSite = (): string => {
+        if (!settings.siteId) throw new Error('No site ID is configured.');
+        return encodeURIComponent(settings.siteId);
+    };
+
+    const waitUntilReady = async (deploy: NetlifyDeploy, onProgress: (message: string) => void): Promise<NetlifyDeploy> => {
+        let current = deploy;
+        for (let attempt = 0; attempt < NETLIFY_POLL_ATTEMPTS; attempt++) {
+            if (current.state === 'ready' || current.state === undefined) return current;
+            if (current.state === 'error') throw new Error(current.error_message || 'The deploy failed on the server.');
+            onProgress(`Waiting for the deploy to go live (${current.state})`);
+            await new Promise(resolve => setTimeout(resolve, NETLIFY_POLL_INTERVAL_MS));
+            const response = await requestOk(`${apiUrl}/deploys/${encodeURIComponent(current.id)}`, { headers: headers('application/json') });
+            current = await response.json();
+        }
+        throw new Error('Timed out waiting for the deploy to go live.');
+    };
+
+    return {
+        id: 'netlify',
+        deploy: async (files, onProgress) => {
+            const site = requireSite();
+            onProgress('Computing file digests');
+            const digests = await digestFiles(files);
+            const manifest = Object.fromEntries(Array.from(digests, ([path, digest]) => [`/${path}`, digest]));
+            const created: NetlifyDeploy = await (await requestOk(`${apiUrl}/sites/${site}/deploys`, {
+                method: 'POST',
+                headers: headers('application/json'),
+                body: JSON.stringify({ files: manifest }),
+            })).json();
+
+            // Several paths can share a digest; the server needs each content only once.
+            const required = new Set(created.required || []);
+            const uploads = Array.from(digests).filter(([, digest]) => {
+                if (!required.has(digest)) return false;
+                required.delete(digest);
+                return true;
+            });
+            let uploaded = 0;
+            for (const [path] of uploads) {
+                onProgress(`Uploading ${path} (${++uploaded}/${uploads.length})`);
+                await requestOk(`${apiUrl}/deploys/${encodeURIComponent(created.id)}/files/${encodePath(path)}`, {
+                    method: 'PUT',
+                    headers: headers('application/octet-stream'),
+                    body: files.get(path) as Uint8Array<ArrayBuffer>,
+                });
+            }
+            if (uploads.length === 0) onProgress('All files are already on the server');
+
+            const response = await requestOk(`${apiUrl}/deploys/${encodeURIComponent(created.id)}`, { headers: headers('application/json') });
+            const ready = await waitUntilReady(await response.json(), onProgress);
+            return { url: siteUrl(ready), remoteId: created.id };
+        },
+        restore: async (record, onProgress) => {
+            const site = requireSite();
+            if (!record.remoteId) throw new Error('This deploy has no server-side ID to restore.');
+            onProgress('Restoring the previous deploy');
+            const response = await requestOk(`${apiUrl}/sites/${site}/deploys/${encodeURIComponent(record.remoteId)}/restore`, {
+                method: 'POST',
+                headers: headers('application/json'),
+            });
+            const restored = await waitUntilReady(await response.json(), onProgress);
+            return { url: siteUrl(restored) || record.url, remoteId: record.remoteId };
+        },
+    };
+};
+
+export const createDeployAdapter = (settings: DeploySettings): DeployAdapter => {
+    switch (settings.adapter) {
+        case 'netlify':
+            return createNetlifyAdapter(settings);
+        case 'http':
+        default:
+            return createHttpAdapter(settings);
+    }
+};
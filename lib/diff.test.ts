@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { applyHunks, computeLineHunks } from './diff';
+
+describe('computeLineHunks', () => {
+    it('finds no hunks in equal texts', () => {
+        expect(computeLineHunks('a\nb\nc', 'a\nb\nc')).toEqual([]);
+    });
+
+    it('reports a changed line with its position in both texts', () => {
+        expect(computeLineHunks('a\nb\nc', 'a\nB\nc')).toEqual([
+            { id: 0, originalStart: 1, originalLines: ['b'], modifiedStart: 1, modifiedLines: ['B'] },
+        ]);
+    });
+
+    it('keeps separate changes in separate hunks', () => {
+        const hunks = computeLineHunks('a\nb\nc\nd\ne', 'A\nb\nc\nd\nE');
+        expect(hunks.map(hunk => [hunk.originalLines, hunk.modifiedLines])).toEqual([[['a'], ['A']], [['e'], ['E']]]);
+    });
+
+    it('reports insertions and deletions', () => {
+        expect(computeLineHunks('a\nc', 'a\nb\nc')).toEqual([
+            { id: 0, originalStart: 1, originalLines: [], modifiedStart: 1, modifiedLines: ['b'] },
+        ]);
+        expect(computeLineHunks('a\nb\nc', 'a\nc')).toEqual([
+            { id: 0, originalStart: 1, originalLines: ['b'], modifiedStart: 1, modifiedLines: [] },
+        ]);
+    });
+
+    it('treats a new file as one inserted hunk', () => {
+        expect(computeLineHunks('', 'a\nb')).toEqual([
+            { id: 0, originalStart: 0, originalLines: [], modifiedStart: 0, modifiedLines: ['a', 'b'] },
+        ]);
+    });
+
+    it('reports large rewrites as one hunk between the common lines', () => {
+        const lines = (prefix: string) => Array.from({ length: 3000 }, (_, i) => `${prefix}${i}`);
+        const original = ['head', ...lines('old'), 'tail'].join('\n');
+        const modified = ['head', ...lines('new'), 'tail'].join('\n');
+        const hunks = computeLineHunks(original, modified);
+        expect(hunks).toHaveLength(1);
+        expect(hunks[0]).toMatchObject({ originalStart: 1, modifiedStart: 1 });
+        expect(applyHunks(original, hunks, [0])).toBe(modified);
+    });
+});
+
+describe('applyHunks', () => {
+    const original = 'a\nb\nc\nd\ne';
+    const modified = 'A\nb\nc\nd\nE';
+    const hunks = computeLineHunks(original, modified);
+
+    it('rebuilds the modified text when every hunk is accepted', () => {
+        expect(applyHunks(original, hunks, hunks.map(hunk => hunk.id))).toBe(modified);
+    });
+
+    it('keeps the original lines of rejected hunks', () => {
+        expect(applyHunks(original, hunks, [hunks[1].id])).toBe('a\nb\nc\nd\nE');
+        expect(applyHunks(original, hunks, [])).toBe(original);
+    });
+});
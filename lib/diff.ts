@@ -0,0 +1,104 @@
+export interface DiffHunk {
+    id: number;
+    originalStart: number; // 0-based line index in the original text.
+    originalLines: string[];
+    modifiedStart: number; // 0-based line index in the modified text.
+    modifiedLines: string[];
+}
+
+const splitLines = (text: string): string[] => (text === '' ? [] : text.split('\n'));
+
+// The LCS table takes four bytes per cell, so this caps it at 16 MB. Larger middle sections
+// are reported as one hunk replacing all of it.
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Computes the changed regions between two texts, line by line. Common leading and
+ * trailing lines are trimmed before running an LCS over the remaining middle section.
+ */
+export const computeLineHunks = (original: string, modified: string): DiffHunk[] => {
+    const a = splitLines(original);
+    const b = splitLines(modified);
+
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+
+    let suffix = 0;
+    while (
+        suffix < a.length - prefix &&
+        suffix < b.length - prefix &&
+        a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) suffix++;
+
+    const midA = a.slice(prefix, a.length - suffix);
+    const midB = b.slice(prefix, b.length - suffix);
+    const rows = midA.length;
+    const cols = midB.length;
+    if (rows === 0 && cols === 0) return [];
+    if ((rows + 1) * (cols + 1) > MAX_LCS_CELLS) {
+        return [{ id: 0, originalStart: prefix, originalLines: midA, modifiedStart: prefix, modifiedLines: midB }];
+    }
+
+    // lcs[i * (cols + 1) + j] holds the LCS length of midA[i..] and midB[j..].
+    const lcs = new Uint32Array((rows + 1) * (cols + 1));
+    for (let i = rows - 1; i >= 0; i--) {
+        for (let j = cols - 1; j >= 0; j--) {
+            lcs[i * (cols + 1) + j] = midA[i] === midB[j]
+                ? lcs[(i + 1) * (cols + 1) + j + 1] + 1
+                : Math.max(lcs[(i + 1) * (cols + 1) + j], lcs[i * (cols + 1) + j + 1]);
+        }
+    }
+
+    const hunks: DiffHunk[] = [];
+    let current: DiffHunk | null = null;
+    const flush = () => {
+        if (current) {
+            hunks.push(current);
+            current = null;
+        }
+    };
+    const ensureHunk = (i: number, j: number): DiffHunk => {
+        if (!current) {
+            current = { id: hunks.length, originalStart: prefix + i, originalLines: [], modifiedStart: prefix + j, modifiedLines: [] };
+        }
+        return current;
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < cols) {
+        if (i < rows && j < cols && midA[i] === midB[j]) {
+            flush();
+            i++;
+            j++;
+        } else if (j < cols && (i >= rows || lcs[i * (cols + 1) + j + 1] >= lcs[(i + 1) * (cols + 1) + j])) {
+            ensureHunk(i, j).modifiedLines.push(midB[j]);
+            j++;
+        } else {
+            ensureHunk(i, j).originalLines.push(midA[i]);
+            i++;
+        }
+    }
+    flush();
+
+    return hunks;
+};
+
+/**
+ * Rebuilds a text from `original` where only the hunks listed in `acceptedHunkIds`
+ * take their modified lines; every other hunk keeps the original lines.
+ */
+export const applyHunks = (original: string, hunks: DiffHunk[], acceptedHunkIds: number[]): string => {
+    const lines = splitLines(original);
+    const result: string[] = [];
+    let cursor = 0;
+
+    for (const hunk of [...hunks].sort((x, y) => x.originalStart - y.originalStart)) {
+        result.push(...lines.slice(cursor, hunk.originalStart));
+        result.push(...(acceptedHunkIds.includes(hunk.id) ? hunk.modifiedLines : hunk.originalLines));
+        cursor = hunk.originalStart + hunk.originalLines.length;
+    }
+    result.push(...lines.slice(cursor));
+
+    return result.join('\n');
+};
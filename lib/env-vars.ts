@@ -0,0 +1,79 @@
+// Project environment variables, kept outside the file tree so they are never zipped,
+// exported or sent to the AI. They reach the app through the environment of processes
+// spawned in the WebContainer; Vite exposes the `VITE_`-prefixed ones to client code.
+
+export type EnvironmentName = 'development' | 'build';
+
+export interface EnvVariable {
+    key: string;
+    value: string;
+    isSecret: boolean; // Masked in the UI and in process output.
+}
+
+export type ProjectEnv = Record<EnvironmentName, EnvVariable[]>;
+
+export const ENVIRONMENT_NAMES: EnvironmentName[] = ['development', 'build'];
+
+export const EMPTY_PROJECT_ENV: ProjectEnv = { development: [], build: [] };
+
+export const ENV_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+export const CLIENT_ENV_PREFIX = 'VITE_';
+
+export const SECRET_MASK = '••••••';
+// Shorter values would mask unrelated output (e.g. a secret "1" in every number).
+const MIN_MASKED_LENGTH = 4;
+
+/** `.env`, `.env.local`, `.env.production` and so on. Example files meant for sharing are not included. */
+export const isEnvFilePath = (path: string): boolean => {
+    const name = path.split('/').pop() || '';
+    return /^\.env(\..+)?$/.test(name) && !/\.(example|sample|template)$/.test(name);
+};
+
+/** The variables assigned in a `.env` file. Blank lines, comments and malformed lines are skipped. */
+export const parseEnvFile = (content: string): EnvVariable[] =>
+    content.split(/\r?\n/).flatMap(line => {
+        const match = line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/);
+        if (!match) return [];
+        const quoted = match[2].match(/^(["'])(.*)\1$/);
+        const value = quoted ? quoted[2] : match[2].replace(/\s+#.*$/, '');
+        return [{ key: match[1], value, isSecret: true }];
+    });
+
+/** The variables of one environment as a process environment. Later duplicates of a key win. */
+export const getProcessEnv = (env: ProjectEnv | undefined, environment: EnvironmentName): Record<string, string> => {
+    const result: Record<string, string> = {};
+    for (const variable of env?.[environment] || []) {
+        if (ENV_KEY_PATTERN.test(variable.key)) result[variable.key] = variable.value;
+    }
+    return result;
+};
+
+/** Values of every secret in any environment, longest first so overlapping values are masked whole. */
+export const getSecretValues = (env: ProjectEnv | undefined): string[] => {
+    const values = new Set<string>();
+    for (const environment of ENVIRONMENT_NAMES) {
+        for (const variable of env?.[environment] || []) {
+            if (variable.isSecret && variable.value.length >= MIN_MASKED_LENGTH) values.add(variable.value);
+        }
+    }
+    return Array.from(values).sort((a, b) => b.length - a.length);
+};
+
+/**
+ * Replaces every occurrence of a secret value. Output is masked chunk by chunk, so a value
+ * split across two chunks of a stream is not caught.
+ */
+export const maskSecrets = (text: string, secretValues: string[]): string =>
+    secretValues.reduce((masked, secret) => masked.split(secret).join(SECRET_MASK), text);
+
+
+/**
+ * Masks the values of `variables` wherever they appear, and whatever follows `KEY=` for each of
+ * their keys, which also hides values too short to be masked on their own.
+ */
+export const maskEnvVariables = (text: string, variables: EnvVariable[]): string => {
+    const keys = Array.from(new Set(variables.map(variable => variable.key)));
+    const masked = maskSecrets(text, getSecretValues({ development: variables, build: [] }));
+    if (keys.length === 0) return masked;
+    return masked.replace(new RegExp(`\\b(${keys.join('|')})(\\s*=\\s*)\\S[^\\n]*`, 'g'), `$1$2${SECRET_MASK}`);
+};
\ No newline at end of file
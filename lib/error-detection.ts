@@ -0,0 +1,146 @@
+export type DetectedErrorKind = 'typescript' | 'module-not-found' | 'vite' | 'npm';
+
+export interface DetectedError {
+    id: string; // Stable for identical errors, so repeated output does not duplicate them.
+    kind: DetectedErrorKind;
+    message: string;
+    details: string; // Following lines of output, e.g. a code frame.
+    files: string[]; // Project paths (starting with '/') referenced by the error.
+}
+
+export interface ErrorDetector {
+    /** Feeds raw process output. Returns true when the set of detected errors changed. */
+    push: (chunk: string) => boolean;
+    getErrors: () => DetectedError[];
+    clear: () => void;
+}
+
+interface ErrorPattern {
+    kind: DetectedErrorKind;
+    regex: RegExp;
+}
+
+// Checked in order; the first match wins for a given line.
+const ERROR_PATTERNS: ErrorPattern[] = [
+    { kind: 'module-not-found', regex: /Failed to resolve import|Cannot find module|Could not resolve ["']|Module not found/ },
+    { kind: 'typescript', regex: /error TS\d+:/ },
+    { kind: 'vite', regex: /\[vite\] Internal server error|\[plugin:[^\]]+\]|Pre-transform error|\[vite\] error|SyntaxError:|Transform failed/ },
+    { kind: 'npm', regex: /^npm (?:ERR!|error) / },
+];
+
+// Output after which previously reported compile errors are considered stale.
+const RECOMPILE_MARKERS = /\[vite\] (?:hmr update|page reload|\(client\) hmr update)|ready in \d+/;
+
+// eslint-disable-next-line no-control-regex -- ANSI escape sequences start with ESC.
+const ANSI_REGEX = /\u001b\[[0-9;?]*[A-Za-z]|\u001b\][^\u0007]*\u0007/g;
+const FILE_REGEX = /(?:^|[\s"'(/])((?:src|public)\/[\w./@-]+\.(?:tsx?|jsx?|css|json|html|svg)|vite\.config\.ts|package\.json|index\.html|tsconfig(?:\.node)?\.json)/g;
+
+// Vite prefixes log lines with the time of day, which would defeat de-duplication.
+const TIMESTAMP_PREFIX_REGEX = /^\d{1,2}:\d{2}:\d{2}\s*(?:[AP]M)?\s*/;
+
+const MAX_DETAIL_LINES = 12;
+const MAX_ERRORS = 20;
+
+export const DEFAULT_MAX_FIX_ATTEMPTS = 3;
+
+export const stripAnsi = (text: string): string => text.replace(ANSI_REGEX, '');
+
+const extractFiles = (text: string): string[] => {
+    const files = new Set<string>();
+    for (const match of text.matchAll(FILE_REGEX)) {
+        files.add('/' + match[1].replace(/[.:]+$/, ''));
+    }
+    return Array.from(files);
+};
+
+/**
+ * Scans npm and Vite output line by line for TypeScript errors, unresolved imports,
+ * Vite transform/overlay errors and npm failures. A successful HMR update or reload
+ * clears the compile errors seen before it; npm errors stay until `clear()`.
+ */
+export const createErrorDetector = (): ErrorDetector => {
+    let errors: DetectedError[] = [];
+    let partialLine = '';
+    let current: DetectedError | null = null;
+    let detailLines = 0;
+
+    const appendDetail = (error: DetectedError, line: string): DetectedError => {
+        const details = error.details ? `${error.details}\n${line}` : line;
+        const updated = { ...error, details, files: extractFiles(`${error.message}\n${details}`) };
+        errors = errors.map(e => (e.id === error.id ? updated : e));
+        return updated;
+    };
+
+    const processLine = (rawLine: string): boolean => {
+        const line = stripAnsi(rawLine).replace(/\r/g, '');
+
+        if (RECOMPILE_MARKERS.test(line)) {
+            current = null;
+            const remaining = errors.filter(e => e.kind === 'npm');
+            const changed = remaining.length !== errors.length;
+            errors = remaining;
+            return changed;
+        }
+
+        const pattern = ERROR_PATTERNS.find(p => p.regex.test(line));
+        // npm reports one failure over many "npm ERR!" lines; keep them together.
+        if (pattern?.kind === 'npm' && current?.kind === 'npm' && detailLines < MAX_DETAIL_LINES) {
+            current = appendDetail(current, line);
+            detailLines++;
+            return true;
+        }
+        if (pattern) {
+            current = null;
+            const message = line.trim().replace(TIMESTAMP_PREFIX_REGEX, '');
+            const id = `${pattern.kind}:${message}`;
+            if (errors.some(e => e.id === id) || errors.length >= MAX_ERRORS) return false;
+            current = { id, kind: pattern.kind, message, details: '', files: extractFiles(message) };
+            detailLines = 0;
+            errors = [...errors, current];
+            return true;
+        }
+
+        if (current) {
+            if (line.trim() === '' || detailLines >= MAX_DETAIL_LINES) {
+                current = null;
+                return false;
+            }
+            current = appendDetail(current, line);
+            detailLines++;
+            return true;
+        }
+        return false;
+    };
+
+    return {
+        push: (chunk: string) => {
+            const lines = (partialLine + chunk).split('\n');
+            partialLine = lines.pop() || '';
+            let changed = false;
+            for (const line of lines) {
+                if (processLine(line)) changed = true;
+            }
+            return changed;
+        },
+        getErrors: () => errors,
+        clear: () => {
+            errors = [];
+            current = null;
+            partialLine = '';
+        },
+    };
+};
+
+/** Formats detected errors as a prompt asking the assistant to fix them. */
+export const buildFixPrompt = (errors: DetectedError[]): string => {
+    const files = Array.from(new Set(errors.flatMap(e => e.files)));
+    let prompt = 'The development environment reported the following errors. Find the root cause and fix them with the smallest possible change.\n';
+    errors.forEach((error, index) => {
+        prompt += `\n${index + 1}. [${error.kind}] ${error.message}\n`;
+        if (error.details) prompt += `${error.details}\n`;
+    });
+    if (files.length > 0) {
+        prompt += `\nFiles involved: ${files.join(', ')}`;
+    }
+    return prompt;
+};
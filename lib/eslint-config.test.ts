@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { Linter } from 'eslint-linter-browserify';
+import js from '@eslint/js';
+import globals from 'globals';
+import * as tsParser from '@typescript-eslint/parser';
+import reactHooks from 'eslint-plugin-react-hooks';
+import reactRefresh from 'eslint-plugin-react-refresh';
+import { LintModules, loadLintConfig } from './eslint-config';
+
+const modules: LintModules = { js, globals, tsParser, reactHooks, reactRefresh };
+const linter = new Linter({ configType: 'flat', cwd: '/' });
+
+// The eslint.config.js of Vite's React TypeScript template.
+const VITE_TEMPLATE_CONFIG = `import js from '@eslint/js'
+import globals from 'globals'
+import reactHooks from 'eslint-plugin-react-hooks'
+import reactRefresh from 'eslint-plugin-react-refresh'
+import tseslint from 'typescript-eslint'
+import { defineConfig, globalIgnores } from 'eslint/config'
+
+export default defineConfig([
+  globalIgnores(['dist']),
+  {
+    files: ['**/*.{ts,tsx}'],
+    extends: [
+      js.configs.recommended,
+      tseslint.configs.recommended,
+      reactHooks.configs['recommended-latest'],
+      reactRefresh.configs.vite,
+    ],
+    languageOptions: {
+      ecmaVersion: 2020,
+      globals: globals.browser,
+    },
+  },
+])
+`;
+
+const COMPONENT = `import { useState } from 'react';
+
+export const Counter = ({ enabled }: { enabled: boolean }) => {
+    const unused = 1;
+    if (enabled) {
+        const [count] = useState(0);
+        return count;
+    }
+    debugger;
+    console.log(document.title);
+    return null;
+};
+`;
+
+const lint = (config: Linter.Config[], code: string, filename: string) =>
+    linter.verify(code, config, { filename }).map(message => message.ruleId);
+
+describe('loadLintConfig', () => {
+    it('reads the Vite React template config', () => {
+        const { configPath, config, problems } = loadLintConfig(new Map([['/eslint.config.js', VITE_TEMPLATE_CONFIG]]), modules);
+
+        expect(configPath).toBe('/eslint.config.js');
+        // typescript-eslint's own rules are not bundled; the core rules they extend stand in.
+        expect(problems.map(problem => problem.message)).toEqual([expect.stringMatching(/does not include @typescript-eslint\/eslint-plugin/)]);
+        const ruleIds = lint(config, COMPONENT, '/src/Counter.tsx');
+        expect(ruleIds).toContain('no-unused-vars');
+        expect(ruleIds).toContain('react-hooks/rules-of-hooks');
+        expect(ruleIds).toContain('no-debugger');
+        // The template lints TypeScript only. Ignored files get ESLint's "File ignored" warning.
+        expect(lint(config, 'debugger;', '/scripts/build.js')).toEqual([]);
+        expect(lint(config, 'debugger;', '/dist/assets/index.ts')).toEqual([null]);
+    });
+
+    it('converts a legacy .eslintrc', () => {
+        const eslintrc = JSON.stringify({
+            root: true,
+            env: { browser: true, es2020: true },
+            extends: ['eslint:recommended', 'plugin:@typescript-eslint/recommended', 'plugin:react-hooks/recommended'],
+            ignorePatterns: ['dist'],
+            parser: '@typescript-eslint/parser',
+            plugins: ['react-refresh'],
+            rules: { 'react-refresh/only-export-components': 'warn', 'no-console': 'error' },
+            overrides: [{ files: ['*.test.ts'], rules: { 'no-console': 'off' } }],
+        });
+        const { configPath, config, problems } = loadLintConfig(new Map([['/.eslintrc', eslintrc]]), modules);
+
+        expect(configPath).toBe('/.eslintrc');
+        expect(problems.map(problem => problem.message)).toEqual([expect.stringMatching(/does not include @typescript-eslint\/eslint-plugin/)]);
+        const ruleIds = lint(config, COMPONENT, '/src/Counter.tsx');
+        expect(ruleIds).toEqual(expect.arrayContaining(['no-unused-vars', 'react-hooks/rules-of-hooks', 'no-debugger', 'no-console']));
+        expect(ruleIds).not.toContain('no-undef');
+        expect(lint(config, 'console.log(1);', '/src/app.test.ts')).toEqual([]);
+        expect(lint(config, 'debugger;', '/dist/index.ts')).toEqual([null]);
+    });
+
+    it('reads .eslintrc files written in YAML', () => {
+        const yaml = 'env:\n  browser: true\nextends:\n  - eslint:recommended\nrules:\n  eqeqeq: error\n';
+        const { config, problems } = loadLintConfig(new Map([['/.eslintrc.yml', yaml]]), modules);
+
+        expect(problems).toEqual([]);
+        expect(lint(config, 'if (window.name == "a") debugger;\n', '/src/main.js')).toEqual(['eqeqeq', 'no-debugger']);
+    });
+
+    it('skips plugins the editor does not include and reports them', () => {
+        const flatConfig = `import js from '@eslint/js'
+import importPlugin from 'eslint-plugin-import'
+
+export default [
+  js.configs.recommended,
+  importPlugin.flatConfigs.recommended,
+  {
+    plugins: { import: importPlugin },
+    rules: { 'import/no-unresolved': 'error', eqeqeq: 'error' },
+  },
+]
+`;
+        const { configPath, config, problems } = loadLintConfig(new Map([['/eslint.config.js', flatConfig]]), modules);
+
+        expect(configPath).toBe('/eslint.config.js');
+        expect(problems).toHaveLength(1);
+        expect(problems[0]).toMatchObject({ path: '/eslint.config.js', severity: 'info', message: expect.stringMatching(/does not include eslint-plugin-import/) });
+        expect(lint(config, 'import a from "./missing";\nif (a == 1) debugger;\n', '/src/main.js')).toEqual(['eqeqeq', 'no-debugger']);
+    });
+
+    it('reports code it cannot interpret and falls back to the default config', () => {
+        const flatConfig = `import js from '@eslint/js'
+import { readFileSync } from 'node:fs'
+
+export default [js.configs.recommended, JSON.parse(readFileSync('./rules.json', 'utf8'))]
+`;
+        const { configPath, config, problems } = loadLintConfig(new Map([['/eslint.config.js', flatConfig]]), modules);
+
+        expect(configPath).toBeNull();
+        expect(problems).toHaveLength(1);
+        expect(problems[0]).toMatchObject({ path: '/eslint.config.js', severity: 'error', message: expect.stringMatching(/^Failed to read \/eslint\.config\.js: Line 4: .* not supported/) });
+        expect(lint(config, COMPONENT, '/src/Counter.tsx')).toContain('react-hooks/rules-of-hooks');
+    });
+});
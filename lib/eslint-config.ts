@@ -0,0 +1,519 @@
+import type { Linter } from 'eslint-linter-browserify';
+import type { TSESTree } from '@typescript-eslint/types';
+import type eslintJs from '@eslint/js';
+import type eslintGlobals from 'globals';
+import type * as typescriptEslintParser from '@typescript-eslint/parser';
+import type reactHooksPlugin from 'eslint-plugin-react-hooks';
+import type reactRefreshPlugin from 'eslint-plugin-react-refresh';
+import { Problem } from './problems';
+import { parseJsonc } from './tsconfig';
+
+// Reads the project's ESLint config for the editor's linter, without running any of it: a config
+// module is interpreted, not executed, so only imports, literals, spreads, member access and the
+// helpers `defineConfig`, `globalIgnores` and `tseslint.config` are understood. Plugins the editor
+// does not bundle are left out together with their rules, and reported as such. Legacy .eslintrc
+// configs are converted to the flat format. Without any config, the project is linted the way
+// the Vite React template's eslint.config.js would lint it.
+
+type ConfigEntry = Record<string, unknown>;
+
+/** What configs can refer to. Loaded by the linter, since the parser and plugins are large. */
+export interface LintModules {
+    js: typeof eslintJs;
+    globals: typeof eslintGlobals;
+    tsParser: typeof typescriptEslintParser;
+    reactHooks: typeof reactHooksPlugin;
+    reactRefresh: typeof reactRefreshPlugin;
+}
+
+export interface LintConfigResult {
+    configPath: string | null; // Null when the default config is used.
+    config: Linter.Config[];
+    problems: Problem[]; // Unreadable configs and skipped plugins.
+}
+
+const FLAT_CONFIG_PATHS = ['/eslint.config.js', '/eslint.config.mjs', '/eslint.config.cjs', '/eslint.config.ts', '/eslint.config.mts', '/eslint.config.cts'];
+const LEGACY_CONFIG_PATHS = ['/.eslintrc.js', '/.eslintrc.cjs', '/.eslintrc.yaml', '/.eslintrc.yml', '/.eslintrc.json', '/.eslintrc', '/package.json'];
+
+const TS_FILES = ['**/*.ts', '**/*.tsx', '**/*.mts', '**/*.cts'];
+const JS_FILES = ['**/*.js', '**/*.jsx', '**/*.mjs', '**/*.cjs'];
+
+// typescript-eslint's eslint-recommended config: core rules that TypeScript already checks, and a few it makes worthwhile.
+const TS_ESLINT_RECOMMENDED_RULES: Linter.RulesRecord = {
+    'constructor-super': 'off', 'getter-return': 'off', 'no-class-assign': 'off', 'no-const-assign': 'off',
+    'no-dupe-args': 'off', 'no-dupe-class-members': 'off', 'no-dupe-keys': 'off', 'no-func-assign': 'off',
+    'no-import-assign': 'off', 'no-new-native-nonconstructor': 'off', 'no-new-symbol': 'off', 'no-obj-calls': 'off',
+    'no-redeclare': 'off', 'no-setter-return': 'off', 'no-this-before-super': 'off', 'no-undef': 'off',
+    'no-unreachable': 'off', 'no-unsafe-negation': 'off', 'no-var': 'error', 'no-with': 'off',
+    'prefer-const': 'error', 'prefer-rest-params': 'error', 'prefer-spread': 'error',
+};
+
+// typescript-eslint rules that extend a core rule. The core rule stands in for them; with the
+// TypeScript parser it understands type-only usages well enough.
+const CORE_RULE_EQUIVALENTS = ['no-unused-vars', 'no-unused-expressions', 'no-array-constructor'];
+
+/** A value from a module the editor does not bundle. Reading from or calling it yields itself. */
+class Unavailable {
+    constructor(readonly source: string) {}
+}
+
+const isObject = (value: unknown): value is ConfigEntry => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// An own property of a module or config, so `constructor` and friends never resolve.
+const getMember = (object: unknown, key: unknown): unknown => {
+    if (object instanceof Unavailable) return object;
+    if (typeof object !== 'object' && typeof object !== 'function') return undefined;
+    if (object === null || (typeof key !== 'string' && typeof key !== 'number')) return undefined;
+    return Object.prototype.hasOwnProperty.call(object, key) ? (object as Record<string | number, unknown>)[key] : undefined;
+};
+const toArray = <T,>(value: T | T[] | undefined): T[] => (Array.isArray(value) ? value : value === undefined ? [] : [value]);
+
+// `defineConfig` semantics: nested arrays are flattened, and the configs in `extends` are inserted
+// before the one extending them, limited to its files unless they name their own, and to its ignores.
+const defineConfig = (...configs: unknown[]): unknown[] =>
+    configs.flat(Infinity).flatMap(config => {
+        if (!isObject(config) || config.extends === undefined) return [config];
+        const { extends: extended, ...rest } = config;
+        const inherited = (entry: unknown) => {
+            if (!isObject(entry)) return entry;
+            const files = entry.files ?? rest.files;
+            const ignores = [...toArray(rest.ignores as string[]), ...toArray(entry.ignores as string[])];
+            return { ...entry, ...(files ? { files } : {}), ...(ignores.length > 0 ? { ignores } : {}) };
+        };
+        return [...defineConfig(toArray(extended)).map(inherited), rest];
+    });
+
+const globalIgnores = (patterns: string[]): Linter.Config => ({ ignores: patterns });
+
+// The only functions a config may call, by the values its imports resolve to.
+const callableHelpers = new Map<unknown, (...args: unknown[]) => unknown>([
+    [defineConfig, defineConfig],
+    [globalIgnores, (patterns: unknown) => globalIgnores(toArray(patterns as string | string[]))],
+]);
+
+// The modules a config may import, by name.
+const createModuleScope = (modules: LintModules): Record<string, unknown> => {
+    const hooksRecommended = modules.reactHooks.configs['recommended-latest'];
+    const reactHooks = {
+        ...modules.reactHooks,
+        // Version 5 names its legacy config "recommended"; later versions name the flat one so.
+        configs: { ...modules.reactHooks.configs, recommended: hooksRecommended, flat: { recommended: hooksRecommended, 'recommended-latest': hooksRecommended } },
+    };
+    const tsBase = {
+        name: 'typescript-eslint/base',
+        languageOptions: { parser: modules.tsParser, sourceType: 'module' },
+        plugins: { '@typescript-eslint': new Unavailable('@typescript-eslint/eslint-plugin') },
+    };
+    const tsEslintRecommended = { name: 'typescript-eslint/eslint-recommended', files: TS_FILES, rules: TS_ESLINT_RECOMMENDED_RULES };
+    const tsRecommended = [tsBase, tsEslintRecommended, { name: 'typescript-eslint/recommended', rules: { 'no-array-constructor': 'error', 'no-unused-expressions': 'error', 'no-unused-vars': 'error' } }];
+    const tseslint = {
+        config: defineConfig,
+        parser: modules.tsParser,
+        plugin: new Unavailable('@typescript-eslint/eslint-plugin'),
+        configs: {
+            base: tsBase,
+            eslintRecommended: tsEslintRecommended,
+            recommended: tsRecommended,
+            strict: tsRecommended,
+            stylistic: [tsBase, tsEslintRecommended],
+            recommendedTypeChecked: tsRecommended,
+            strictTypeChecked: tsRecommended,
+            stylisticTypeChecked: [tsBase, tsEslintRecommended],
+        },
+    };
+    const configHelpers = { defineConfig, globalIgnores };
+    return {
+        '@eslint/js': modules.js,
+        globals: modules.globals,
+        'eslint-plugin-react-hooks': reactHooks,
+        'eslint-plugin-react-refresh': modules.reactRefresh,
+        'typescript-eslint': tseslint,
+        '@typescript-eslint/parser': modules.tsParser,
+        'eslint/config': configHelpers,
+        '@eslint/config-helpers': configHelpers,
+    };
+};
+
+const unsupported = (node: TSESTree.Node, what: string = node.type): Error =>
+    new Error(`Line ${node.loc.start.line}: ${what} is not supported by the editor's linter.`);
+
+const getPropertyName = (property: TSESTree.Property, evaluate: (node: TSESTree.Node) => unknown): unknown => {
+    if (property.computed) return evaluate(property.key);
+    return property.key.type === 'Identifier' ? property.key.name : property.key.type === 'Literal' ? property.key.value : evaluate(property.key);
+};
+
+/** Interprets a config module and returns its export. */
+const evaluateConfigModule = (code: string, modules: LintModules): unknown => {
+    const moduleScope = createModuleScope(modules);
+    const importModule = (name: unknown): unknown =>
+        typeof name === 'string' && name in moduleScope ? moduleScope[name] : new Unavailable(String(name));
+    const scope = new Map<string, unknown>([['undefined', undefined]]);
+    let exported: unknown;
+
+    const spreadInto = (items: (TSESTree.Node | null)[]): unknown[] =>
+        items.flatMap(item => (!item ? [] : item.type === 'SpreadElement' ? toArray(evaluate(item.argument)) : [evaluate(item)]));
+
+    const evaluate = (node: TSESTree.Node): unknown => {
+        switch (node.type) {
+            case 'Literal':
+                return node.value;
+            case 'TemplateLiteral':
+                return node.quasis.map((quasi, i) => quasi.value.cooked + (i < node.expressions.length ? String(evaluate(node.expressions[i])) : '')).join('');
+            case 'Identifier':
+                if (!scope.has(node.name)) throw unsupported(node, `"${node.name}"`);
+                return scope.get(node.name);
+            case 'ArrayExpression':
+                return spreadInto(node.elements);
+            case 'ObjectExpression': {
+                const object: ConfigEntry = {};
+                for (const property of node.properties) {
+                    if (property.type === 'SpreadElement') {
+                        Object.assign(object, evaluate(property.argument));
+                        continue;
+                    }
+                    if (property.kind !== 'init' || property.method) throw unsupported(property, 'A method');
+                    object[String(getPropertyName(property, evaluate))] = evaluate(property.value);
+                }
+                return object;
+            }
+            case 'MemberExpression':
+                return getMember(evaluate(node.object), node.computed ? evaluate(node.property) : node.property.type === 'Identifier' ? node.property.name : undefined);
+            case 'ChainExpression':
+            case 'TSAsExpression':
+            case 'TSSatisfiesExpression':
+            case 'TSNonNullExpression':
+                return evaluate(node.expression);
+            case 'MetaProperty':
+                // import.meta.dirname, as tsconfigRootDir in typed linting setups.
+                return { dirname: '/', filename: '/eslint.config.js', url: 'file:///eslint.config.js' };
+            case 'CallExpression': {
+                if (node.callee.type === 'Identifier' && node.callee.name === 'require' && !scope.has('require')) {
+                    return importModule(evaluate(node.arguments[0]));
+                }
+                const callee = evaluate(node.callee);
+                if (callee instanceof Unavailable) return callee;
+                const helper = callableHelpers.get(callee);
+                if (!helper) throw unsupported(node, 'Calling a function other than defineConfig');
+                return helper(...spreadInto(node.arguments));
+            }
+            default:
+                throw unsupported(node);
+        }
+    };
+
+    const program = modules.tsParser.parse(code, { ecmaVersion: 'latest', sourceType: 'module', loc: true, range: true });
+    for (const statement of program.body) {
+        switch (statement.type) {
+            case 'ImportDeclaration': {
+                if (statement.importKind === 'type') break;
+                const imported = importModule(statement.source.value);
+                for (const specifier of statement.specifiers) {
+                    const value = specifier.type === 'ImportSpecifier'
+                        ? getMember(imported, specifier.imported.type === 'Identifier' ? specifier.imported.name : specifier.imported.value)
+                        // A CommonJS module's default export is the whole module.
+                        : specifier.type === 'ImportDefaultSpecifier' ? (getMember(imported, 'default') ?? imported) : imported;
+                    scope.set(specifier.local.name, value);
+                }
+                break;
+            }
+            case 'VariableDeclaration':
+                for (const declaration of statement.declarations) {
+                    if (declaration.id.type !== 'Identifier') throw unsupported(declaration.id, 'Destructuring');
+                    scope.set(declaration.id.name, declaration.init ? evaluate(declaration.init) : undefined);
+                }
+                break;
+            case 'ExportDefaultDeclaration':
+                exported = evaluate(statement.declaration);
+                break;
+            case 'ExpressionStatement': {
+                const { expression } = statement;
+                const isModuleExports = expression.type === 'AssignmentExpression' && expression.left.type === 'MemberExpression'
+                    && expression.left.object.type === 'Identifier' && expression.left.object.name === 'module'
+                    && expression.left.property.type === 'Identifier' && expression.left.property.name === 'exports';
+                if (!isModuleExports) throw unsupported(statement, 'A statement other than an export');
+                exported = evaluate(expression.right);
+                break;
+            }
+            case 'TSTypeAliasDeclaration':
+            case 'TSInterfaceDeclaration':
+            case 'EmptyStatement':
+                break;
+            default:
+                throw unsupported(statement);
+        }
+    }
+    if (exported === undefined) throw new Error('The config has no default export.');
+    return exported;
+};
+
+// Block-style YAML as .eslintrc.yaml files use it: nested maps, `- ` lists, scalars and inline [a, b] lists.
+const parseYamlScalar = (value: string): unknown => {
+    if (value.startsWith('[') && value.endsWith(']')) {
+        const inner = value.slice(1, -1).trim();
+        return inner ? inner.split(',').map(item => parseYamlScalar(item.trim())) : [];
+    }
+    if (value === '{}') return {};
+    if (value === 'true' || value === 'false') return value === 'true';
+    if (value === 'null' || value === '~') return null;
+    if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+    const quoted = /^(['"])(.*)\1$/.exec(value);
+    return quoted ? quoted[2] : value;
+};
+
+const YAML_KEY_PATTERN = /^("[^"]*"|'[^']*'|[^\s:][^:]*?)\s*:(?:\s+(.*)|$)/;
+
+export const parseYaml = (text: string): unknown => {
+    const lines = text.split('\n')
+        .map(line => line.replace(/(^|\s)#.*$/, '').trimEnd())
+        .filter(line => line.trim() && line !== '---')
+        .map(line => ({ indent: line.length - line.trimStart().length, text: line.trim() }));
+
+    const parseBlock = (start: number, indent: number): [unknown, number] => {
+        let i = start;
+        if (lines[i].text.startsWith('-')) {
+            const list: unknown[] = [];
+            while (i < lines.length && lines[i].indent === indent && lines[i].text.startsWith('-')) {
+                const rest = lines[i].text.slice(1).trim();
+                if (!rest) {
+                    const [value, next] = i + 1 < lines.length && lines[i + 1].indent > indent ? parseBlock(i + 1, lines[i + 1].indent) : [null, i + 1];
+                    list.push(value);
+                    i = next;
+                } else if (YAML_KEY_PATTERN.test(rest)) {
+                    // A map starting on the dash line continues at the indentation of its first key.
+                    lines[i] = { indent: indent + lines[i].text.indexOf(rest), text: rest };
+                    const [value, next] = parseBlock(i, lines[i].indent);
+                    list.push(value);
+                    i = next;
+                } else {
+                    list.push(parseYamlScalar(rest));
+                    i++;
+                }
+            }
+            return [list, i];
+        }
+        const map: Record<string, unknown> = {};
+        while (i < lines.length && lines[i].indent === indent) {
+            const match = YAML_KEY_PATTERN.exec(lines[i].text);
+            if (!match) throw new Error(`Unexpected YAML: ${lines[i].text}`);
+            const key = match[1].replace(/^(['"])(.*)\1$/, '$2');
+            if (match[2]) {
+                map[key] = parseYamlScalar(match[2]);
+                i++;
+            } else if (i + 1 < lines.length && lines[i + 1].indent > indent) {
+                [map[key], i] = parseBlock(i + 1, lines[i + 1].indent);
+            } else if (i + 1 < lines.length && lines[i + 1].indent === indent && lines[i + 1].text.startsWith('-')) {
+                // A list may sit at the same indentation as its key.
+                [map[key], i] = parseBlock(i + 1, indent);
+            } else {
+                map[key] = null;
+                i++;
+            }
+        }
+        return [map, i];
+    };
+
+    return lines.length === 0 ? {} : parseBlock(0, lines[0].indent)[0];
+};
+
+// .eslintrc patterns without a slash match at any depth; flat config patterns are relative to the root.
+const toFlatPatterns = (patterns: unknown): string[] =>
+    toArray(patterns as string | string[]).flatMap(pattern => {
+        const trimmed = pattern.replace(/^\//, '').replace(/\/$/, '');
+        const base = pattern.includes('/') && !pattern.endsWith('/') ? trimmed : `**/${trimmed}`;
+        return [base, `${base}/**`];
+    });
+
+const PLUGIN_NAMES: Record<string, keyof LintModules> = { 'react-hooks': 'reactHooks', 'react-refresh': 'reactRefresh' };
+
+// "react-hooks" for "eslint-plugin-react-hooks", "@scope" for "@scope/eslint-plugin".
+const getPluginName = (name: string): string =>
+    name.replace(/^eslint-plugin-/, '').replace(/^(@[^/]+)\/eslint-plugin(-(.*))?$/, (_, scope, _suffix, rest) => (rest ? `${scope}/${rest}` : scope));
+
+/** Converts one level of an .eslintrc config, and its overrides, to flat config entries. */
+const convertLegacyConfig = (raw: ConfigEntry, modules: LintModules, scope: Record<string, unknown>): unknown[] => {
+    const tsConfigs = getMember(scope['typescript-eslint'], 'configs');
+    const hooksConfigs = getMember(scope['eslint-plugin-react-hooks'], 'configs');
+    const resolveExtends = (name: string): unknown => {
+        if (name === 'eslint:recommended') return modules.js.configs.recommended;
+        if (name === 'eslint:all') return modules.js.configs.all;
+        const plugin = /^plugin:(.+)\/([^/]+)$/.exec(name);
+        if (plugin?.[1] === 'react-hooks') return getMember(hooksConfigs, plugin[2]) ?? new Unavailable(name);
+        if (plugin?.[1] === 'react-refresh') return getMember(modules.reactRefresh.configs, plugin[2]) ?? new Unavailable(name);
+        if (plugin?.[1] === '@typescript-eslint') {
+            return getMember(tsConfigs, plugin[2].replace(/-(\w)/g, (_, char: string) => char.toUpperCase())) ?? new Unavailable(name);
+        }
+        return new Unavailable(name);
+    };
+
+    const globals: Linter.Globals = {};
+    let ecmaVersion: number | undefined;
+    for (const [env, enabled] of Object.entries(isObject(raw.env) ? raw.env : {})) {
+        if (!enabled) continue;
+        const version = /^es(\d+)$/.exec(env);
+        if (version) ecmaVersion = Number(version[1]) === 6 ? 2015 : Number(version[1]);
+        Object.assign(globals, getMember(modules.globals, env === 'es6' ? 'es2015' : env));
+    }
+    Object.assign(globals, isObject(raw.globals) ? raw.globals : {});
+
+    const parserOptions = isObject(raw.parserOptions) ? raw.parserOptions : {};
+    const parser = raw.parser === undefined || raw.parser === 'espree'
+        ? undefined
+        : raw.parser === '@typescript-eslint/parser' ? modules.tsParser : new Unavailable(String(raw.parser));
+    const plugins = Object.fromEntries(toArray(raw.plugins as string | string[]).map(name => {
+        const pluginName = getPluginName(name);
+        const moduleKey = PLUGIN_NAMES[pluginName];
+        return [pluginName, moduleKey ? modules[moduleKey] : new Unavailable(name)];
+    }));
+
+    const entry: ConfigEntry = {
+        languageOptions: {
+            ...(parser ? { parser } : {}),
+            ...(ecmaVersion || parserOptions.ecmaVersion ? { ecmaVersion: parserOptions.ecmaVersion ?? ecmaVersion } : {}),
+            ...(parserOptions.sourceType ? { sourceType: parserOptions.sourceType } : {}),
+            globals,
+            parserOptions,
+        },
+        plugins,
+        rules: raw.rules || {},
+        ...(isObject(raw.settings) ? { settings: raw.settings } : {}),
+        ...(raw.noInlineConfig !== undefined || raw.reportUnusedDisableDirectives !== undefined
+            ? { linterOptions: { noInlineConfig: raw.noInlineConfig, reportUnusedDisableDirectives: raw.reportUnusedDisableDirectives } }
+            : {}),
+    };
+    const extended = toArray(raw.extends as string | string[]).map(resolveExtends);
+    const overrides = toArray(raw.overrides as ConfigEntry[]).flatMap(override =>
+        defineConfig(convertLegacyConfig(override, modules, scope)).map(converted =>
+            isObject(converted) ? { ...converted, files: toFlatPatterns(override.files), ...(override.excludedFiles ? { ignores: toFlatPatterns(override.excludedFiles) } : {}) } : converted));
+    return [
+        ...(raw.ignorePatterns ? [globalIgnores(toFlatPatterns(raw.ignorePatterns))] : []),
+        ...defineConfig(extended),
+        entry,
+        ...overrides,
+    ];
+};
+
+const getRulePlugin = (ruleId: string): string | null => (ruleId.includes('/') ? ruleId.slice(0, ruleId.lastIndexOf('/')) : null);
+
+/** Drops what refers to unavailable modules, noting their names in `skipped`. */
+const sanitizeConfig = (entries: unknown[], skipped: Set<string>): Linter.Config[] => {
+    const configs: ConfigEntry[] = [];
+    for (const entry of entries) {
+        if (entry instanceof Unavailable) {
+            skipped.add(entry.source);
+            continue;
+        }
+        if (!isObject(entry)) continue;
+        const config: ConfigEntry = { ...entry };
+        if (isObject(config.plugins)) {
+            config.plugins = Object.fromEntries(Object.entries(config.plugins).filter(([, plugin]) => {
+                if (plugin instanceof Unavailable) skipped.add(plugin.source);
+                return !(plugin instanceof Unavailable);
+            }));
+        }
+        if (isObject(config.languageOptions) && config.languageOptions.parser instanceof Unavailable) {
+            skipped.add(config.languageOptions.parser.source);
+            config.languageOptions = { ...config.languageOptions };
+            delete (config.languageOptions as ConfigEntry).parser;
+        }
+        for (const key of ['processor', 'language']) {
+            if (config[key] instanceof Unavailable || typeof config[key] === 'string') delete config[key];
+        }
+        configs.push(config);
+    }
+
+    const pluginNames = new Set(configs.flatMap(config => Object.keys(isObject(config.plugins) ? config.plugins : {})));
+    return configs.map(config => {
+        if (!isObject(config.rules)) return config as Linter.Config;
+        const rules: ConfigEntry = {};
+        for (const [ruleId, setting] of Object.entries(config.rules)) {
+            const plugin = getRulePlugin(ruleId);
+            const coreRule = ruleId.slice(ruleId.lastIndexOf('/') + 1);
+            if (!plugin || pluginNames.has(plugin)) rules[ruleId] = setting;
+            else if (plugin === '@typescript-eslint' && CORE_RULE_EQUIVALENTS.includes(coreRule)) rules[coreRule] = setting;
+        }
+        return { ...config, rules } as Linter.Config;
+    });
+};
+
+const getDefaultConfig = (scope: Record<string, unknown>, modules: LintModules): unknown[] => {
+    const tsRecommended = getMember(getMember(scope['typescript-eslint'], 'configs'), 'recommended');
+    const hooksRecommended = getMember(getMember(scope['eslint-plugin-react-hooks'], 'configs'), 'recommended');
+    return defineConfig([
+        globalIgnores(['dist']),
+        {
+            files: ['**/*.{js,jsx,ts,tsx}'],
+            extends: [modules.js.configs.recommended, tsRecommended, hooksRecommended, modules.reactRefresh.configs.vite],
+            languageOptions: { ecmaVersion: 2020, globals: modules.globals.browser },
+        },
+    ]);
+};
+
+// Parses every file the linter sees: TypeScript with typescript-eslint's parser, JavaScript with JSX enabled.
+const getEditorBaseConfig = (modules: LintModules): Linter.Config[] => [
+    { files: TS_FILES, languageOptions: { parser: modules.tsParser } },
+    { files: JS_FILES, languageOptions: { parserOptions: { ecmaFeatures: { jsx: true } } } },
+];
+
+const readConfigSource = (path: string, text: string, modules: LintModules, scope: Record<string, unknown>): unknown[] | null => {
+    if (FLAT_CONFIG_PATHS.includes(path)) return defineConfig(evaluateConfigModule(text, modules));
+    let raw: unknown;
+    if (path === '/package.json') {
+        try {
+            raw = (JSON.parse(text) as ConfigEntry).eslintConfig;
+        } catch {
+            return null;
+        }
+        if (raw === undefined) return null;
+    } else if (path.endsWith('.js') || path.endsWith('.cjs')) {
+        raw = evaluateConfigModule(text, modules);
+    } else if (path.endsWith('.yaml') || path.endsWith('.yml')) {
+        raw = parseYaml(text);
+    } else {
+        // .eslintrc is JSON or YAML, whichever it turns out to be.
+        try {
+            raw = parseJsonc(text);
+        } catch (error: unknown) {
+            if (path.endsWith('.json')) throw error;
+            raw = parseYaml(text);
+        }
+    }
+    if (!isObject(raw)) throw new Error('The config must be an object.');
+    return convertLegacyConfig(raw, modules, scope);
+};
+
+export const createLintConfigProblem = (path: string, message: string, severity: Problem['severity']): Problem => ({
+    path,
+    line: 1,
+    column: 1,
+    message,
+    code: 'eslint-config',
+    severity,
+    source: 'eslint',
+});
+
+/** The path of the config file the project uses, or null if there is none. */
+export const findLintConfigPath = (files: Map<string, string>): string | null =>
+    [...FLAT_CONFIG_PATHS, ...LEGACY_CONFIG_PATHS].find(path =>
+        files.has(path) && (path !== '/package.json' || /"eslintConfig"\s*:/.test(files.get(path)!))) || null;
+
+/** The flat config to lint the project with. Falls back to the default config if the project's cannot be read. */
+export const loadLintConfig = (files: Map<string, string>, modules: LintModules): LintConfigResult => {
+    const scope = createModuleScope(modules);
+    const configPath = findLintConfigPath(files);
+    const problems: Problem[] = [];
+    let entries: unknown[] | null = null;
+    if (configPath) {
+        try {
+            entries = readConfigSource(configPath, files.get(configPath)!, modules, scope);
+        } catch (error: unknown) {
+            const reason = error instanceof Error ? error.message : String(error);
+            problems.push(createLintConfigProblem(configPath, `Failed to read ${configPath}: ${reason} The default config is used instead.`, 'error'));
+        }
+    }
+    const skipped = new Set<string>();
+    const config = sanitizeConfig(entries ?? getDefaultConfig(scope, modules), skipped);
+    if (entries && skipped.size > 0) {
+        problems.push(createLintConfigProblem(configPath!, `The editor's linter does not include ${Array.from(skipped).join(', ')}; the rules that need them are skipped.`, 'info'));
+    }
+    return { configPath: entries ? configPath : null, config: [...getEditorBaseConfig(modules), ...config], problems };
+};
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { formatFiles, resolvePrettierOptions } from './formatter';
+
+describe('resolvePrettierOptions', () => {
+    it('uses the nearest config above the file', () => {
+        const files = new Map([
+            ['/.prettierrc', '{ "semi": false, "tabWidth": 4 }'],
+            ['/packages/web/.prettierrc.json', '{ "singleQuote": true }'],
+        ]);
+
+        // Configs are not merged: the nearer one replaces the root one entirely.
+        expect(resolvePrettierOptions(files, '/packages/web/src/main.ts')).toEqual({ singleQuote: true });
+        expect(resolvePrettierOptions(files, '/packages/api/index.ts')).toEqual({ semi: false, tabWidth: 4 });
+        expect(resolvePrettierOptions(new Map(), '/src/main.ts')).toEqual({});
+    });
+
+    it('applies the overrides that match the file', () => {
+        const config = {
+            $schema: 'https://json.schemastore.org/prettierrc',
+            printWidth: 100,
+            overrides: [
+                { files: '*.md', options: { proseWrap: 'always' } },
+                { files: ['src/**/*.{ts,tsx}'], excludeFiles: 'src/generated/**', options: { printWidth: 120 } },
+                { files: 'src/legacy/*.ts', options: { semi: false } },
+            ],
+        };
+        const files = new Map([['/.prettierrc.json', JSON.stringify(config)]]);
+
+        expect(resolvePrettierOptions(files, '/src/App.tsx')).toEqual({ printWidth: 120 });
+        expect(resolvePrettierOptions(files, '/src/legacy/old.ts')).toEqual({ printWidth: 120, semi: false });
+        expect(resolvePrettierOptions(files, '/src/generated/api.ts')).toEqual({ printWidth: 100 });
+        // A pattern without a slash matches the file name in any directory.
+        expect(resolvePrettierOptions(files, '/docs/guide/README.md')).toEqual({ printWidth: 100, proseWrap: 'always' });
+    });
+
+    it('reads a .prettierrc written in YAML', () => {
+        const yaml = '# Shared style\nsemi: false\nsingleQuote: true\ntabWidth: 2\ntrailingComma: "all"\nendOfLine: lf # for Windows checkouts\n';
+        const files = new Map([['/.prettierrc', yaml]]);
+
+        expect(resolvePrettierOptions(files, '/src/main.ts')).toEqual({ semi: false, singleQuote: true, tabWidth: 2, trailingComma: 'all', endOfLine: 'lf' });
+    });
+
+    it('rejects nested YAML', () => {
+        const files = new Map([['/.prettierrc.yaml', 'overrides:\n  - files: "*.md"\n']]);
+
+        expect(() => resolvePrettierOptions(files, '/README.md')).toThrow(/^Failed to read \/\.prettierrc\.yaml: Only "option: value" lines/);
+    });
+
+    it('reads the "prettier" key in package.json', () => {
+        const files = new Map([
+            ['/package.json', JSON.stringify({ name: 'app', prettier: { semi: false } })],
+            ['/.prettierrc', '{ "semi": true }'],
+            ['/tools/package.json', JSON.stringify({ name: 'tools' })],
+        ]);
+
+        // package.json comes first, and one without the key is passed over.
+        expect(resolvePrettierOptions(files, '/tools/build.ts')).toEqual({ semi: false });
+    });
+
+    it('rejects a shared config in package.json', () => {
+        const files = new Map([['/package.json', JSON.stringify({ prettier: '@company/prettier-config' })]]);
+
+        expect(() => resolvePrettierOptions(files, '/src/main.ts')).toThrow('uses the shared config "@company/prettier-config"');
+    });
+
+    it('rejects configs that would have to be executed', () => {
+        const files = new Map([
+            ['/.prettierrc', '{ "semi": false }'],
+            ['/app/prettier.config.js', 'export default { semi: true };'],
+        ]);
+
+        expect(() => resolvePrettierOptions(files, '/app/src/main.ts')).toThrow('/app/prettier.config.js cannot be run in the browser; move its options to a .prettierrc file.');
+        expect(resolvePrettierOptions(files, '/lib/index.ts')).toEqual({ semi: false });
+    });
+});
+
+describe('formatFiles', () => {
+    it('formats the files it can and keeps the rest', async () => {
+        const files = new Map([['/.prettierrc', '{ "semi": false, "singleQuote": true }']]);
+        const toFormat = [
+            { path: '/src/main.ts', content: 'const  a = "x";\n', isNew: true },
+            { path: '/src/broken.ts', content: 'const = ;\n', isNew: false },
+            { path: '/public/logo.svg', content: '<svg   />', isNew: false },
+        ];
+
+        const result = await formatFiles(toFormat, files);
+
+        expect(result.files).toEqual([
+            { path: '/src/main.ts', content: "const a = 'x'\n", isNew: true },
+            toFormat[1],
+            toFormat[2],
+        ]);
+        expect(result.errors).toHaveLength(1);
+        expect(result.errors[0]).toMatch(/^\/src\/broken\.ts: /);
+        expect(result.errors[0]).not.toContain('\n');
+    });
+
+    it('reports an unreadable config for every file it applies to', async () => {
+        const files = new Map([['/prettier.config.mjs', 'export default {};']]);
+        const toFormat = [{ path: '/a.ts', content: 'a' }, { path: '/b.css', content: 'b{}' }];
+
+        const result = await formatFiles(toFormat, files);
+
+        expect(result.files).toEqual(toFormat);
+        expect(result.errors).toEqual([
+            '/a.ts: /prettier.config.mjs cannot be run in the browser; move its options to a .prettierrc file.',
+            '/b.css: /prettier.config.mjs cannot be run in the browser; move its options to a .prettierrc file.',
+        ]);
+    });
+});
@@ -0,0 +1,276 @@
+import { Monaco } from '@monaco-editor/react';
+import type { editor, languages } from 'monaco-editor';
+import type { Options, Plugin } from 'prettier';
+import { parseJsonc } from './tsconfig';
+
+// Formatting with Prettier's standalone build, configured the way the Prettier CLI would be: by the
+// nearest .prettierrc (or "prettier" key in package.json) above the file, including its `overrides`.
+// Config files that have to be executed, such as prettier.config.js, cannot be read in the browser.
+// Prettier replaces the formatters built into Monaco's language services, so the editor's own
+// Format Document and Format Selection actions use it.
+
+export interface FormatRange {
+    start: number; // Offsets into the content.
+    end: number;
+}
+
+type PluginName = 'babel' | 'estree' | 'typescript' | 'postcss' | 'html' | 'markdown';
+
+// Imported on first use; together they are several megabytes.
+const PLUGIN_LOADERS: Record<PluginName, () => Promise<Plugin>> = {
+    babel: () => import('prettier/plugins/babel'),
+    estree: () => import('prettier/plugins/estree'),
+    typescript: () => import('prettier/plugins/typescript'),
+    postcss: () => import('prettier/plugins/postcss'),
+    html: () => import('prettier/plugins/html'),
+    markdown: () => import('prettier/plugins/markdown'),
+};
+
+const PARSERS_BY_EXTENSION: Record<string, string> = {
+    ts: 'typescript', tsx: 'typescript', mts: 'typescript', cts: 'typescript',
+    js: 'babel', jsx: 'babel', mjs: 'babel', cjs: 'babel',
+    json: 'json',
+    css: 'css', scss: 'scss', less: 'less',
+    html: 'html', htm: 'html',
+    md: 'markdown', markdown: 'markdown',
+};
+
+// Embedded code (scripts and styles in HTML, code blocks in Markdown) is formatted too when its plugin is loaded.
+const PARSER_PLUGINS: Record<string, PluginName[]> = {
+    typescript: ['typescript', 'estree'],
+    babel: ['babel', 'estree'],
+    json: ['babel', 'estree'],
+    'json-stringify': ['babel', 'estree'],
+    css: ['postcss'],
+    scss: ['postcss'],
+    less: ['postcss'],
+    html: ['html', 'postcss', 'babel', 'estree'],
+    markdown: ['markdown', 'babel', 'estree'],
+};
+
+// The config files Prettier looks for in each directory, in the order it prefers them.
+const CONFIG_FILE_NAMES = ['package.json', '.prettierrc', '.prettierrc.json', '.prettierrc.yaml', '.prettierrc.yml', '.prettierrc.json5'];
+const EXECUTABLE_CONFIG_NAMES = [
+    '.prettierrc.js', '.prettierrc.cjs', '.prettierrc.mjs', '.prettierrc.ts', '.prettierrc.toml',
+    'prettier.config.js', 'prettier.config.cjs', 'prettier.config.mjs', 'prettier.config.ts',
+];
+
+interface ConfigOverride {
+    files: string | string[];
+    excludeFiles?: string | string[];
+    options?: Options;
+}
+
+const dirname = (path: string): string => path.slice(0, path.lastIndexOf('/')) || '/';
+const basename = (path: string): string => path.slice(path.lastIndexOf('/') + 1);
+
+/** The Prettier parser for a file, or null if it is not a language the editor formats. */
+export const getParserForPath = (path: string): string | null => {
+    if (path.includes('/node_modules/')) return null;
+    // package.json is kept in the layout npm writes it in.
+    if (basename(path) === 'package.json') return 'json-stringify';
+    return PARSERS_BY_EXTENSION[path.split('.').pop()?.toLowerCase() || ''] || null;
+};
+
+export const isFormattablePath = (path: string): boolean => getParserForPath(path) !== null;
+
+const parseYamlScalar = (value: string): unknown => {
+    if (value === 'true' || value === 'false') return value === 'true';
+    if (value === 'null' || value === '~') return null;
+    if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+    const quoted = /^(['"])(.*)\1$/.exec(value);
+    return quoted ? quoted[2] : value;
+};
+
+// .prettierrc files written as YAML almost always hold a flat list of options.
+const parseFlatYaml = (text: string): Record<string, unknown> => {
+    const config: Record<string, unknown> = {};
+    for (const rawLine of text.split('\n')) {
+        const line = rawLine.replace(/(^|\s)#.*$/, '').trimEnd();
+        if (!line.trim() || line === '---') continue;
+        const match = /^([\w-]+)\s*:\s*(\S.*)$/.exec(line);
+        if (!match) throw new Error('Only "option: value" lines are supported in YAML; write nested settings such as overrides as JSON.');
+        config[match[1]] = parseYamlScalar(match[2]);
+    }
+    return config;
+};
+
+const parseConfigFile = (path: string, text: string): Record<string, unknown> | null => {
+    const name = basename(path);
+    let config: unknown;
+    if (name === 'package.json') {
+        // A package.json being edited into shape should not stop every file from formatting.
+        try {
+            config = (JSON.parse(text) as Record<string, unknown>).prettier;
+        } catch {
+            return null;
+        }
+        if (config === undefined) return null;
+        if (typeof config === 'string') throw new Error(`${path} uses the shared config "${config}", which cannot be loaded in the browser.`);
+    } else if (name.endsWith('.yaml') || name.endsWith('.yml')) {
+        config = parseFlatYaml(text);
+    } else if (name === '.prettierrc') {
+        // JSON or YAML, whichever it turns out to be.
+        try {
+            config = parseJsonc(text);
+        } catch {
+            config = parseFlatYaml(text);
+        }
+    } else {
+        config = parseJsonc(text);
+    }
+    if (!config || typeof config !== 'object' || Array.isArray(config)) throw new Error(`${path} must contain an object of options.`);
+    return config as Record<string, unknown>;
+};
+
+// Override globs: `*`, `?`, `**/` and `{a,b}`. Like Prettier, a pattern without a slash matches file names.
+const globToRegExp = (pattern: string): RegExp => {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*') {
+            source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+            i += pattern[i + 2] === '/' ? 2 : 1;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            const end = pattern.indexOf('}', i);
+            if (end === -1) {
+                source += '\\{';
+                continue;
+            }
+            source += `(?:${pattern.slice(i + 1, end).split(',').map(part => part.replace(/[.+^$()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*')).join('|')})`;
+            i = end;
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+};
+
+const matchesPatterns = (patterns: string | string[] | undefined, relativePath: string): boolean =>
+    (Array.isArray(patterns) ? patterns : patterns ? [patterns] : []).some(pattern => {
+        const normalized = pattern.replace(/^\.\//, '');
+        return globToRegExp(normalized).test(normalized.includes('/') ? relativePath : basename(relativePath));
+    });
+
+/** The options of the nearest Prettier config above `path`, with the overrides that match it applied. */
+export const resolvePrettierOptions = (files: Map<string, string>, path: string): Options => {
+    for (let dir = dirname(path); ; dir = dirname(dir)) {
+        const prefix = dir === '/' ? '/' : `${dir}/`;
+        for (const name of CONFIG_FILE_NAMES) {
+            const configPath = prefix + name;
+            const text = files.get(configPath);
+            if (text === undefined) continue;
+            let config: Record<string, unknown> | null;
+            try {
+                config = parseConfigFile(configPath, text);
+            } catch (error: unknown) {
+                throw new Error(`Failed to read ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+            if (!config) continue;
+            const { overrides, plugins: _plugins, $schema: _schema, ...options } = config;
+            const relativePath = path.slice(prefix.length);
+            const matching = Array.isArray(overrides)
+                ? (overrides as ConfigOverride[]).filter(override => matchesPatterns(override.files, relativePath) && !matchesPatterns(override.excludeFiles, relativePath))
+                : [];
+            return Object.assign({}, options, ...matching.map(override => override.options || {}));
+        }
+        const executable = EXECUTABLE_CONFIG_NAMES.find(name => files.has(prefix + name));
+        if (executable) {
+            throw new Error(`${prefix}${executable} cannot be run in the browser; move its options to a .prettierrc file.`);
+        }
+        if (dir === '/') return {};
+    }
+};
+
+/**
+ * Formats `content` as the file at `path`, using the project's Prettier config from `files`. With a
+ * range, only the code it covers is reformatted, but the whole content is returned. Throws for
+ * files Prettier cannot parse and for unreadable configs.
+ */
+export const formatCode = async (path: string, content: string, files: Map<string, string>, range?: FormatRange): Promise<string> => {
+    const parser = getParserForPath(path);
+    if (!parser) throw new Error(`${basename(path)} is not a file type the formatter supports.`);
+    const options = resolvePrettierOptions(files, path);
+    const [prettier, ...plugins] = await Promise.all([
+        import('prettier/standalone'),
+        ...PARSER_PLUGINS[parser].map(name => PLUGIN_LOADERS[name]()),
+    ]);
+    return prettier.format(content, {
+        ...options,
+        parser: typeof options.parser === 'string' ? options.parser : parser,
+        filepath: path,
+        plugins: plugins as Plugin[],
+        ...(range ? { rangeStart: range.start, rangeEnd: range.end } : {}),
+    });
+};
+
+/**
+ * Formats the formattable files among `filesToFormat`, keeping the others as they are. Files that
+ * cannot be formatted are kept too, with the reason in `errors`.
+ */
+export const formatFiles = async <T extends { path: string; content: string }>(filesToFormat: T[], files: Map<string, string>): Promise<{ files: T[]; errors: string[] }> => {
+    const errors: string[] = [];
+    const formatted = await Promise.all(filesToFormat.map(async file => {
+        if (!isFormattablePath(file.path)) return file;
+        try {
+            return { ...file, content: await formatCode(file.path, file.content, files) };
+        } catch (error: unknown) {
+            errors.push(`${file.path}: ${error instanceof Error ? error.message.split('\n')[0] : String(error)}`);
+            return file;
+        }
+    }));
+    return { files: formatted, errors };
+};
+
+// The editor's formatting providers are global to the page, so the files they resolve configs
+// against are module state, kept current by the IDE.
+let projectFiles = new Map<string, string>();
+
+export const setFormatterProjectFiles = (files: Map<string, string>) => {
+    projectFiles = files;
+};
+
+const FORMATTED_LANGUAGES = ['typescript', 'javascript', 'css', 'json', 'html', 'markdown'];
+
+const formatModel = async (model: editor.ITextModel, range?: FormatRange): Promise<languages.TextEdit[]> => {
+    const path = model.uri.path;
+    const content = model.getValue();
+    try {
+        const formatted = await formatCode(path, content, projectFiles, range);
+        // Monaco reduces the replacement to the lines that actually changed.
+        return formatted === content ? [] : [{ range: model.getFullModelRange(), text: formatted }];
+    } catch (error: unknown) {
+        console.warn(`Failed to format ${path}:`, error);
+        return [];
+    }
+};
+
+/**
+ * Makes Prettier the document and range formatter of the languages it supports. Must run before
+ * the first model is created: Monaco's language services only read their mode configuration once.
+ */
+export const registerPrettierFormatter = (m: Monaco) => {
+    const { typescript, css, json, html } = m.languages;
+    for (const defaults of [typescript.typescriptDefaults, typescript.javascriptDefaults]) {
+        defaults.setModeConfiguration({ ...defaults.modeConfiguration, documentRangeFormattingEdits: false });
+    }
+    css.cssDefaults.setModeConfiguration({ ...css.cssDefaults.modeConfiguration, documentFormattingEdits: false, documentRangeFormattingEdits: false });
+    json.jsonDefaults.setModeConfiguration({ ...json.jsonDefaults.modeConfiguration, documentFormattingEdits: false, documentRangeFormattingEdits: false });
+    html.htmlDefaults.setModeConfiguration({ ...html.htmlDefaults.modeConfiguration, documentFormattingEdits: false, documentRangeFormattingEdits: false });
+
+    for (const language of FORMATTED_LANGUAGES) {
+        m.languages.registerDocumentFormattingEditProvider(language, {
+            displayName: 'Prettier',
+            provideDocumentFormattingEdits: model => formatModel(model),
+        });
+        m.languages.registerDocumentRangeFormattingEditProvider(language, {
+            displayName: 'Prettier',
+            provideDocumentRangeFormattingEdits: (model, range) =>
+                formatModel(model, { start: model.getOffsetAt(range.getStartPosition()), end: model.getOffsetAt(range.getEndPosition()) }),
+        });
+    }
+};
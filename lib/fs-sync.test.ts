@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FileSystemAPI } from '@webcontainer/api';
+import { FsChange, isIgnoredSyncPath, startFsSync } from './fs-sync';
+
+describe('isIgnoredSyncPath', () => {
+    it('ignores generated directories at the project root', () => {
+        expect(isIgnoredSyncPath('/node_modules/react/index.js')).toBe(true);
+        expect(isIgnoredSyncPath('/dist')).toBe(true);
+        expect(isIgnoredSyncPath('/.git/HEAD')).toBe(true);
+    });
+
+    it('syncs folders of the same name below the root', () => {
+        expect(isIgnoredSyncPath('/src/dist/index.ts')).toBe(false);
+        expect(isIgnoredSyncPath('/src/build/config.ts')).toBe(false);
+    });
+});
+
+// A container filesystem holding text files, whose watcher is triggered by hand.
+const createFakeFs = (files: Map<string, string>) => {
+    let listener: (event: string, filename: string) => void = () => {};
+    const fs = {
+        readdir: async () => {
+            throw new Error('Not a directory');
+        },
+        readFile: async (path: string) => {
+            if (!files.has(path)) throw new Error('No such file');
+            return new TextEncoder().encode(files.get(path));
+        },
+        watch: (_path: string, _options: unknown, callback: typeof listener) => {
+            listener = callback;
+            return { close: () => {} };
+        },
+    };
+    return { fs: fs as unknown as FileSystemAPI, emit: (path: string) => listener('change', path) };
+};
+
+describe('startFsSync', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('drops the echo of a file the IDE wrote', async () => {
+        const files = new Map([['/src/App.tsx', 'typed']]);
+        const { fs, emit } = createFakeFs(files);
+        const batches: FsChange[][] = [];
+        const sync = startFsSync(fs, changes => batches.push(changes));
+
+        sync.recordWrite('/src/App.tsx', 'typed');
+        emit('src/App.tsx');
+        await vi.runAllTimersAsync();
+        expect(batches).toEqual([]);
+
+        files.set('/src/App.tsx', 'formatted by a tool');
+        emit('src/App.tsx');
+        await vi.runAllTimersAsync();
+        expect(batches).toEqual([[{ kind: 'file', path: '/src/App.tsx', content: 'formatted by a tool' }]]);
+        sync.dispose();
+    });
+
+    it('reports a later change back to the written content', async () => {
+        const files = new Map([['/a.txt', 'other']]);
+        const { fs, emit } = createFakeFs(files);
+        const batches: FsChange[][] = [];
+        const sync = startFsSync(fs, changes => batches.push(changes));
+
+        sync.recordWrite('/a.txt', 'mine');
+        emit('a.txt');
+        await vi.runAllTimersAsync();
+        files.set('/a.txt', 'mine');
+        emit('a.txt');
+        await vi.runAllTimersAsync();
+
+        expect(batches.map(batch => batch.map(change => change.kind === 'file' && change.content))).toEqual([['other'], ['mine']]);
+        sync.dispose();
+    });
+});
@@ -0,0 +1,189 @@
+import { FileSystemAPI } from '@webcontainer/api';
+import { FileNode } from '../types';
+import { findFileByPath, addOrUpdateFileByPath, deleteNodeByPath, isBinaryFileName, cloneStructure, isSameFileContent } from './project-utils';
+
+export type FsChange =
+    | { kind: 'file'; path: string; content: string | Uint8Array }
+    | { kind: 'folder'; path: string }
+    | { kind: 'deleted'; path: string };
+
+export interface FsSync {
+    // Call before the IDE writes a file, so the watcher event of that write is not reported back.
+    recordWrite: (path: string, content: string | Uint8Array) => void;
+    dispose: () => void;
+}
+
+// Generated or tool-managed directories at the project root that are never copied into the project tree.
+export const SYNC_IGNORED_DIRECTORIES = ['node_modules', 'dist', '.vite', '.git'];
+
+// A batch is flushed once events have stopped for BATCH_QUIET_MS, or after
+// BATCH_MAX_WAIT_MS at the latest (e.g. during a long `npm install`).
+const BATCH_QUIET_MS = 300;
+const BATCH_MAX_WAIT_MS = 2000;
+
+// Only the project's own directories are ignored; a `src/build/` folder is source like any other.
+export const isIgnoredSyncPath = (path: string): boolean =>
+    SYNC_IGNORED_DIRECTORIES.includes(path.split('/').filter(Boolean)[0]);
+
+const textDecoder = new TextDecoder();
+
+const readFileContent = async (fs: FileSystemAPI, path: string): Promise<string | Uint8Array> => {
+    const bytes = await fs.readFile(path);
+    return isBinaryFileName(path) ? bytes : textDecoder.decode(bytes);
+};
+
+// Reads whatever is at `path` now. A folder that appears in one event (e.g. from `mv` or
+// `cp -r`) may not produce events for its contents, so folders are read recursively.
+const readEntry = async (fs: FileSystemAPI, path: string, changes: FsChange[]): Promise<void> => {
+    let entries;
+    try {
+        entries = await fs.readdir(path, { withFileTypes: true });
+    } catch {
+        try {
+            changes.push({ kind: 'file', path, content: await readFileContent(fs, path) });
+        } catch {
+            changes.push({ kind: 'deleted', path });
+        }
+        return;
+    }
+    changes.push({ kind: 'folder', path });
+    for (const entry of entries) {
+        const childPath = `${path}/${entry.name}`;
+        if (!isIgnoredSyncPath(childPath)) {
+            await readEntry(fs, childPath, changes);
+        }
+    }
+};
+
+/**
+ * Watches the container filesystem recursively and reports what changed, in batches.
+ * Changes are read back from the container, so the caller receives current contents
+ * rather than raw events. A file that still holds what the IDE last wrote to it is an echo
+ * of that write and is not reported; while the user types, the tree is already ahead of it.
+ */
+export const startFsSync = (fs: FileSystemAPI, onChanges: (changes: FsChange[]) => void): FsSync => {
+    const pendingPaths = new Set<string>();
+    const lastWrites = new Map<string, string | Uint8Array>();
+    let quietTimer: ReturnType<typeof setTimeout> | null = null;
+    let maxWaitTimer: ReturnType<typeof setTimeout> | null = null;
+    let isFlushing = false;
+    let isDisposed = false;
+
+    const clearTimers = () => {
+        if (quietTimer) clearTimeout(quietTimer);
+        if (maxWaitTimer) clearTimeout(maxWaitTimer);
+        quietTimer = null;
+        maxWaitTimer = null;
+    };
+
+    const flush = async () => {
+        clearTimers();
+        if (isFlushing || isDisposed || pendingPaths.size === 0) return;
+        isFlushing = true;
+
+        // Parents first, so a new folder is created before the files inside it.
+        const paths = Array.from(pendingPaths).sort((a, b) => a.split('/').length - b.split('/').length);
+        pendingPaths.clear();
+        const changes: FsChange[] = [];
+        const seen = new Set<string>();
+        for (const path of paths) {
+            if (seen.has(path)) continue;
+            const read: FsChange[] = [];
+            await readEntry(fs, path, read);
+            read.filter(change => !seen.has(change.path)).forEach(change => {
+                seen.add(change.path);
+                const lastWrite = lastWrites.get(change.path);
+                if (lastWrite !== undefined && change.kind === 'file' && isSameFileContent(lastWrite, change.content)) return;
+                // Something else changed the file since, so a later write of the same content is no echo.
+                lastWrites.delete(change.path);
+                changes.push(change);
+            });
+        }
+
+        isFlushing = false;
+        if (isDisposed) return;
+        if (changes.length > 0) onChanges(changes);
+        // Events that arrived while reading are handled in the next batch.
+        if (pendingPaths.size > 0) schedule();
+    };
+
+    const schedule = () => {
+        if (quietTimer) clearTimeout(quietTimer);
+        quietTimer = setTimeout(flush, BATCH_QUIET_MS);
+        if (!maxWaitTimer) maxWaitTimer = setTimeout(flush, BATCH_MAX_WAIT_MS);
+    };
+
+    const watcher = fs.watch('/', { recursive: true }, (_event, filename) => {
+        const name = typeof filename === 'string' ? filename : textDecoder.decode(filename);
+        const path = '/' + name.replace(/^\/+/, '');
+        if (path === '/' || isIgnoredSyncPath(path)) return;
+        pendingPaths.add(path);
+        schedule();
+    });
+
+    return {
+        recordWrite: (path, content) => {
+            lastWrites.set(path, content);
+        },
+        dispose: () => {
+            isDisposed = true;
+            clearTimers();
+            watcher.close();
+        },
+    };
+};
+
+/** Whether applying `change` would actually alter the tree. */
+export const isEffectiveChange = (nodes: FileNode[], change: FsChange): boolean => {
+    const node = findFileByPath(nodes, change.path);
+    switch (change.kind) {
+        case 'file':
+            return node?.type !== 'file' || !isSameFileContent(node.content, change.content);
+        case 'folder':
+            return node?.type !== 'folder';
+        case 'deleted':
+            return node !== null;
+    }
+};
+
+const ensureFolder = (nodes: FileNode[], path: string): FileNode[] => {
+    if (findFileByPath(nodes, path)?.type === 'folder') return nodes;
+    // A file may have been replaced by a folder of the same name.
+    const structure = cloneStructure(deleteNodeByPath(nodes, path));
+    let children = structure;
+    let currentPath = '';
+    for (const part of path.split('/').filter(Boolean)) {
+        currentPath += `/${part}`;
+        let folder = children.find(node => node.path === currentPath && node.type === 'folder');
+        if (!folder) {
+            folder = { name: part, type: 'folder', path: currentPath, children: [] };
+            children.push(folder);
+        }
+        folder.children = folder.children || [];
+        children = folder.children;
+    }
+    return structure;
+};
+
+/** Applies container changes to the project tree, skipping ones that are already reflected. */
+export const applyFsChanges = (nodes: FileNode[], changes: FsChange[]): FileNode[] => {
+    let structure = nodes;
+    for (const change of changes) {
+        if (!isEffectiveChange(structure, change)) continue;
+        switch (change.kind) {
+            case 'file': {
+                const existing = findFileByPath(structure, change.path);
+                if (existing?.type === 'folder') structure = deleteNodeByPath(structure, change.path);
+                structure = addOrUpdateFileByPath(structure, change.path, change.content);
+                break;
+            }
+            case 'folder':
+                structure = ensureFolder(structure, change.path);
+                break;
+            case 'deleted':
+                structure = deleteNodeByPath(structure, change.path);
+                break;
+        }
+    }
+    return structure;
+};
@@ -0,0 +1,81 @@
+import { GitCredentials } from './git';
+
+// Remote credentials are kept per project for the current browser session only, so a token
+// never outlives the tab and is not written to disk in plain text.
+const STORAGE_KEY = 'codematic_git_credentials';
+
+const EMPTY_CREDENTIALS: GitCredentials = { username: '', token: '' };
+
+const readSaved = (): Record<string, GitCredentials> => {
+    try {
+        return JSON.parse(sessionStorage.getItem(STORAGE_KEY) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+const writeSaved = (saved: Record<string, GitCredentials>) => {
+    if (Object.keys(saved).length === 0) {
+        sessionStorage.removeItem(STORAGE_KEY);
+    } else {
+        sessionStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+    }
+};
+
+// Earlier versions kept credentials in localStorage. They are dropped rather than moved, so
+// tokens saved that way are removed from disk.
+const removeLegacyCredentials = () => {
+    try {
+        localStorage.removeItem(STORAGE_KEY);
+    } catch {
+        // Storage is unavailable; there is nothing to remove.
+    }
+};
+
+export const loadGitCredentials = (projectId: string): GitCredentials => {
+    removeLegacyCredentials();
+    return readSaved()[projectId] || EMPTY_CREDENTIALS;
+};
+
+export const saveGitCredentials = (projectId: string, credentials: GitCredentials) => {
+    const saved = readSaved();
+    if (credentials.token || credentials.username) {
+        saved[projectId] = credentials;
+    } else {
+        delete saved[projectId];
+    }
+    writeSaved(saved);
+};
+
+/** Removes the credentials of a deleted project. */
+export const forgetGitCredentials = (projectId: string) => {
+    removeLegacyCredentials();
+    const saved = readSaved();
+    if (!(projectId in saved)) return;
+    delete saved[projectId];
+    writeSaved(saved);
+};
+
+const getHost = (url: string): string | null => {
+    try {
+        return new URL(url).host;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Returns the host of `corsProxy` when it is run by someone other than the remote's host or this
+ * app, meaning credentials sent to the remote are readable by that third party.
+ */
+export const getThirdPartyProxyHost = (corsProxy: string, remoteUrl: string): string | null => {
+    const proxyHost = corsProxy ? getHost(corsProxy) : null;
+    if (!proxyHost) return null;
+    return proxyHost === getHost(remoteUrl) || proxyHost === window.location.host ? null : proxyHost;
+};
+
+/** Whether requests with these credentials may go through `corsProxy` without asking the user first. */
+export const isProxyTrusted = (credentials: GitCredentials, corsProxy: string, remoteUrl: string): boolean => {
+    const proxyHost = getThirdPartyProxyHost(corsProxy, remoteUrl);
+    return !credentials.token || !proxyHost || credentials.trustedProxy === proxyHost;
+};
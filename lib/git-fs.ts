@@ -0,0 +1,191 @@
+// A minimal in-memory filesystem implementing the subset of Node's `fs.promises` that
+// isomorphic-git needs. Paths are absolute and use forward slashes.
+
+export interface MemoryFsStats {
+    type: 'file' | 'dir';
+    mode: number;
+    size: number;
+    ino: number;
+    mtimeMs: number;
+    ctimeMs: number;
+    uid: number;
+    gid: number;
+    dev: number;
+    isFile: () => boolean;
+    isDirectory: () => boolean;
+    isSymbolicLink: () => boolean;
+}
+
+export interface MemoryFs {
+    files: Map<string, Uint8Array>;
+    directories: Set<string>;
+    // Writes from outside isomorphic-git, stamped with the current modification time.
+    setFile: (path: string, content: Uint8Array) => void;
+    removeFile: (path: string) => void;
+    // Moves the modification time given to later writes at least a second on, so files changed
+    // from now on are not taken for the versions in the index's stat cache.
+    advanceTimestamp: () => void;
+    // Replaces the directories with `paths`, the parents of every file and the root.
+    resetDirectories: (paths: string[]) => void;
+    promises: {
+        readFile: (path: string, options?: string | { encoding?: string }) => Promise<Uint8Array | string>;
+        writeFile: (path: string, data: string | Uint8Array) => Promise<void>;
+        unlink: (path: string) => Promise<void>;
+        readdir: (path: string) => Promise<string[]>;
+        mkdir: (path: string) => Promise<void>;
+        rmdir: (path: string) => Promise<void>;
+        stat: (path: string) => Promise<MemoryFsStats>;
+        lstat: (path: string) => Promise<MemoryFsStats>;
+        readlink: (path: string) => Promise<string>;
+        symlink: (target: string, path: string) => Promise<void>;
+        chmod: () => Promise<void>;
+    };
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+// isomorphic-git trusts the stat cache in its index when size and mtime match, to the second.
+// Timestamps are handed out at least a second apart, across filesystems, so a file changed
+// after the index recorded it is hashed rather than assumed unchanged.
+let lastTimestamp = 0;
+const nextTimestamp = (): number => {
+    lastTimestamp = Math.max(Date.now(), lastTimestamp + 1000);
+    return lastTimestamp;
+};
+
+const fsError = (code: string, path: string): Error =>
+    Object.assign(new Error(`${code}: ${path}`), { code });
+
+const normalize = (path: string): string => {
+    const segments = path.split('/').filter(segment => segment && segment !== '.');
+    return '/' + segments.join('/');
+};
+
+const parentOf = (path: string): string => path.substring(0, path.lastIndexOf('/')) || '/';
+
+const makeStats = (type: MemoryFsStats['type'], size: number, mtimeMs: number): MemoryFsStats => ({
+    type,
+    mode: type === 'file' ? 0o100644 : 0o40000,
+    size,
+    ino: 0,
+    mtimeMs,
+    ctimeMs: mtimeMs,
+    uid: 1,
+    gid: 1,
+    dev: 1,
+    isFile: () => type === 'file',
+    isDirectory: () => type === 'dir',
+    isSymbolicLink: () => false,
+});
+
+export const createMemoryFs = (initialFiles: Map<string, Uint8Array>, initialDirectories: string[] = []): MemoryFs => {
+    let timestamp = nextTimestamp();
+    const files = new Map<string, Uint8Array>();
+    const mtimes = new Map<string, number>();
+    const directories = new Set<string>(['/']);
+
+    const addDirectory = (path: string) => {
+        for (let dir = path; !directories.has(dir); dir = parentOf(dir)) {
+            directories.add(dir);
+        }
+    };
+
+    const setFile = (path: string, content: Uint8Array) => {
+        files.set(path, content);
+        mtimes.set(path, timestamp);
+        addDirectory(parentOf(path));
+    };
+
+    const removeFile = (path: string): boolean => {
+        mtimes.delete(path);
+        return files.delete(path);
+    };
+
+    for (const [path, content] of initialFiles) {
+        setFile(normalize(path), content);
+    }
+    initialDirectories.forEach(path => addDirectory(normalize(path)));
+
+    const stat = async (rawPath: string): Promise<MemoryFsStats> => {
+        const path = normalize(rawPath);
+        const file = files.get(path);
+        if (file) return makeStats('file', file.byteLength, mtimes.get(path) ?? timestamp);
+        if (directories.has(path)) return makeStats('dir', 0, timestamp);
+        throw fsError('ENOENT', path);
+    };
+
+    return {
+        files,
+        directories,
+        setFile: (path, content) => setFile(normalize(path), content),
+        removeFile: (path) => {
+            removeFile(normalize(path));
+        },
+        advanceTimestamp: () => {
+            timestamp = nextTimestamp();
+        },
+        resetDirectories: (paths) => {
+            directories.clear();
+            directories.add('/');
+            paths.forEach(path => addDirectory(normalize(path)));
+            for (const path of files.keys()) addDirectory(parentOf(path));
+        },
+        promises: {
+            readFile: async (rawPath, options) => {
+                const path = normalize(rawPath);
+                const file = files.get(path);
+                if (!file) throw fsError(directories.has(path) ? 'EISDIR' : 'ENOENT', path);
+                const encoding = typeof options === 'string' ? options : options?.encoding;
+                return encoding === 'utf8' ? textDecoder.decode(file) : file;
+            },
+            writeFile: async (rawPath, data) => {
+                const path = normalize(rawPath);
+                if (directories.has(path)) throw fsError('EISDIR', path);
+                setFile(path, typeof data === 'string' ? textEncoder.encode(data) : data);
+            },
+            unlink: async (rawPath) => {
+                const path = normalize(rawPath);
+                if (!removeFile(path)) throw fsError('ENOENT', path);
+            },
+            readdir: async (rawPath) => {
+                const path = normalize(rawPath);
+                if (files.has(path)) throw fsError('ENOTDIR', path);
+                if (!directories.has(path)) throw fsError('ENOENT', path);
+                const prefix = path === '/' ? '/' : `${path}/`;
+                const names = new Set<string>();
+                for (const entry of [...files.keys(), ...directories]) {
+                    if (entry !== path && entry.startsWith(prefix)) {
+                        names.add(entry.slice(prefix.length).split('/')[0]);
+                    }
+                }
+                return Array.from(names);
+            },
+            mkdir: async (rawPath) => {
+                const path = normalize(rawPath);
+                if (files.has(path) || directories.has(path)) throw fsError('EEXIST', path);
+                if (!directories.has(parentOf(path))) throw fsError('ENOENT', path);
+                directories.add(path);
+            },
+            rmdir: async (rawPath) => {
+                const path = normalize(rawPath);
+                if (!directories.has(path)) throw fsError('ENOENT', path);
+                const prefix = `${path}/`;
+                if ([...files.keys(), ...directories].some(entry => entry.startsWith(prefix))) {
+                    throw fsError('ENOTEMPTY', path);
+                }
+                directories.delete(path);
+            },
+            stat,
+            lstat: stat,
+            // Symbolic links are not supported; a checked-out link becomes a file holding its target.
+            readlink: async (rawPath) => {
+                throw fsError('EINVAL', normalize(rawPath));
+            },
+            symlink: async (target, rawPath) => {
+                setFile(normalize(rawPath), textEncoder.encode(target));
+            },
+            chmod: async () => {},
+        },
+    };
+};
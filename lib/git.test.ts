@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FileNode } from '../types';
+import { addOrUpdateFileByPath, findFileByPath } from './project-utils';
+import { checkoutRef, cloneRepository, commitChanges, createBranch, fetchRemote, getAheadBehind, getLog, getRemoteConfig, getStatus, initRepository, pullRemote, pushBranch, setRemoteConfig, stageFiles } from './git';
+import { MockGitServer, startMockGitServer } from './mock-git-server';
+
+const AUTHOR = { name: 'Test', email: 'test@example.com' };
+
+const createStructure = (): FileNode[] => [
+    { name: 'index.html', type: 'file', path: '/index.html', content: '<div id="root"></div>' },
+    {
+        name: 'src',
+        type: 'folder',
+        path: '/src',
+        children: [{ name: 'main.ts', type: 'file', path: '/src/main.ts', content: 'console.log(1);' }],
+    },
+];
+
+const commitAll = async (structure: FileNode[], gitData: Record<string, Uint8Array>, message: string) => {
+    const status = await getStatus(structure, gitData);
+    const staged = await stageFiles(structure, gitData, status.map(entry => entry.path));
+    return (await commitChanges(structure, staged, message, AUTHOR)).gitData;
+};
+
+describe('git', () => {
+    it('reports an edit of the same size made right after a commit', async () => {
+        const structure = createStructure();
+        const gitData = await commitAll(structure, await initRepository(structure), 'Initial commit');
+        expect(await getStatus(structure, gitData)).toEqual([]);
+
+        const edited = addOrUpdateFileByPath(structure, '/src/main.ts', 'console.log(2);');
+        expect(await getStatus(edited, gitData)).toEqual([{ path: '/src/main.ts', staged: null, unstaged: 'modified' }]);
+        // Going back to the committed content is clean again.
+        expect(await getStatus(structure, gitData)).toEqual([]);
+    });
+
+    it('keeps each project separate when switching between repositories', async () => {
+        const first = createStructure();
+        const firstData = await commitAll(first, await initRepository(first), 'First');
+        const second = addOrUpdateFileByPath(createStructure(), '/README.md', '# Second');
+        const secondData = await initRepository(second);
+
+        expect((await getStatus(second, secondData)).map(entry => entry.unstaged)).toEqual(['untracked', 'untracked', 'untracked']);
+        expect(await getStatus(first, firstData)).toEqual([]);
+        expect((await getLog(firstData)).map(commit => commit.message)).toEqual(['First']);
+        expect(await getLog(secondData)).toEqual([]);
+    });
+
+    it('checks out branches and returns their working tree', async () => {
+        const structure = createStructure();
+        let gitData = await commitAll(structure, await initRepository(structure), 'Initial commit');
+        gitData = await createBranch(gitData, 'feature');
+        ({ gitData } = await checkoutRef(structure, gitData, 'feature'));
+
+        const changed = addOrUpdateFileByPath(structure, '/src/main.ts', 'console.log("feature");');
+        gitData = await commitAll(changed, gitData, 'Change on feature');
+        const onMain = await checkoutRef(changed, gitData, 'main');
+
+        expect(findFileByPath(onMain.structure, '/src/main.ts')?.content).toBe('console.log(1);');
+        expect(await getStatus(onMain.structure, onMain.gitData)).toEqual([]);
+    });
+
+    it('runs concurrent operations one after another', async () => {
+        const structure = createStructure();
+        const gitData = await commitAll(structure, await initRepository(structure), 'Initial commit');
+        const edited = addOrUpdateFileByPath(structure, '/index.html', 'changed');
+
+        const [clean, dirty] = await Promise.all([getStatus(structure, gitData), getStatus(edited, gitData)]);
+        expect(clean).toEqual([]);
+        expect(dirty).toEqual([{ path: '/index.html', staged: null, unstaged: 'modified' }]);
+    });
+
+    it('keeps the CORS proxy with the remote', async () => {
+        const structure = createStructure();
+        let gitData = await initRepository(structure);
+        gitData = await setRemoteConfig(gitData, { url: 'https://git.example.com/app.git', corsProxy: 'https://proxy.example.com' });
+        expect(await getRemoteConfig(gitData)).toEqual({ url: 'https://git.example.com/app.git', corsProxy: 'https://proxy.example.com' });
+
+        gitData = await setRemoteConfig(gitData, { url: null, corsProxy: '' });
+        expect(await getRemoteConfig(gitData)).toEqual({ url: null, corsProxy: '' });
+    });
+});
+
+describe('cloneRepository', () => {
+    let server: MockGitServer;
+
+    beforeEach(async () => {
+        server = await startMockGitServer();
+    });
+
+    afterEach(async () => {
+        await server.close();
+    });
+
+    it('clones a repository over HTTP and reports progress', async () => {
+        server.createRepository('app', { 'index.html': '<div id="root"></div>', 'src/main.ts': 'console.log(1);' });
+        const progress: string[] = [];
+        const { structure, gitData, branch } = await cloneRepository({ url: `${server.url}/app.git`, onProgress: message => progress.push(message) });
+
+        expect(branch).toBe('main');
+        expect(findFileByPath(structure, '/index.html')?.content).toBe('<div id="root"></div>');
+        expect(findFileByPath(structure, '/src/main.ts')?.content).toBe('console.log(1);');
+        expect((await getLog(gitData)).map(commit => commit.oid)).toEqual([server.getHead('app')]);
+        expect(await getStatus(structure, gitData)).toEqual([]);
+        expect(await getRemoteConfig(gitData)).toEqual({ url: `${server.url}/app.git`, corsProxy: '' });
+        expect(progress.length).toBeGreaterThan(0);
+        expect(progress.every(message => /^[\w ]+: \d+/.test(message))).toBe(true);
+    });
+
+    it('stops a clone that goes over the size limit', async () => {
+        // Random bytes do not compress, so the pack is at least as large as the file.
+        const large = new Uint8Array(256 * 1024).map(() => Math.floor(Math.random() * 256));
+        server.createRepository('large', { 'index.html': '<div></div>', 'data.bin': large });
+
+        await expect(cloneRepository({ url: `${server.url}/large.git`, maxBytes: 64 * 1024 })).rejects.toThrow(/larger than the .* import limit/);
+        await expect(cloneRepository({ url: `${server.url}/large.git`, maxBytes: 1024 * 1024 })).resolves.toMatchObject({ branch: 'main' });
+    });
+});
+
+describe('remotes', () => {
+    const TOKEN = 'test-token';
+    const options = { credentials: { username: 'git', token: TOKEN } };
+    let server: MockGitServer;
+
+    beforeEach(async () => {
+        server = await startMockGitServer({ token: TOKEN });
+        server.createRepository('app', { 'index.html': '<div id="root"></div>', 'src/main.ts': 'console.log(1);' });
+    });
+
+    afterEach(async () => {
+        await server.close();
+    });
+
+    // A new repository pointed at the remote, then pulled: the way a project gets connected.
+    const connect = async () => {
+        const empty: FileNode[] = [];
+        const gitData = await setRemoteConfig(await initRepository(empty), { url: `${server.url}/app.git`, corsProxy: '' });
+        return pullRemote(empty, gitData, AUTHOR, true, options);
+    };
+
+    const readContent = (structure: FileNode[], path: string) => findFileByPath(structure, path)?.content;
+
+    it('pulls into a new repository, and only with the token', async () => {
+        const empty: FileNode[] = [];
+        const gitData = await setRemoteConfig(await initRepository(empty), { url: `${server.url}/app.git`, corsProxy: '' });
+        await expect(pullRemote(empty, gitData, AUTHOR, true, {})).rejects.toThrow();
+
+        const result = await connect();
+        expect(result.outcome).toBe('fast-forward');
+        expect(readContent(result.structure, '/src/main.ts')).toBe('console.log(1);');
+        expect((await getLog(result.gitData))[0].oid).toBe(server.getHead('app'));
+        expect(await getAheadBehind(result.gitData)).toEqual({ ahead: 0, behind: 0 });
+    });
+
+    it('fetches remote commits and fast-forwards to them', async () => {
+        const { structure, gitData } = await connect();
+        server.commitFiles('app', { 'README.md': '# App' }, 'Add readme');
+
+        const fetched = await fetchRemote(gitData, options);
+        expect(await getAheadBehind(fetched)).toEqual({ ahead: 0, behind: 1 });
+
+        const pulled = await pullRemote(structure, fetched, AUTHOR, true, options);
+        expect(pulled.outcome).toBe('fast-forward');
+        expect(readContent(pulled.structure, '/README.md')).toBe('# App');
+        expect(await getAheadBehind(pulled.gitData)).toEqual({ ahead: 0, behind: 0 });
+    });
+
+    it('pushes local commits', async () => {
+        const { structure, gitData } = await connect();
+        const edited = addOrUpdateFileByPath(structure, '/src/main.ts', 'console.log(2);');
+        const committed = await commitAll(edited, gitData, 'Log 2');
+        expect(await getAheadBehind(committed)).toEqual({ ahead: 1, behind: 0 });
+
+        const pushed = await pushBranch(committed, options);
+        expect(server.getHead('app')).toBe((await getLog(pushed))[0].oid);
+        expect(server.readFile('app', 'src/main.ts')).toBe('console.log(2);');
+        expect(await getAheadBehind(pushed)).toEqual({ ahead: 0, behind: 0 });
+    });
+
+    it('rejects a push that is not a fast-forward, then merges on pull', async () => {
+        const { structure, gitData } = await connect();
+        server.commitFiles('app', { 'README.md': '# App' }, 'Add readme');
+        const edited = addOrUpdateFileByPath(structure, '/src/main.ts', 'console.log(2);');
+        const committed = await commitAll(edited, gitData, 'Log 2');
+        const remoteHead = server.getHead('app');
+
+        await expect(pushBranch(committed, options)).rejects.toThrow(/Pull, then push again/);
+        expect(server.getHead('app')).toBe(remoteHead);
+        await expect(pullRemote(edited, committed, AUTHOR, true, options)).rejects.toThrow(/diverged/);
+
+        const merged = await pullRemote(edited, committed, AUTHOR, false, options);
+        expect(merged.outcome).toBe('merged');
+        expect(readContent(merged.structure, '/README.md')).toBe('# App');
+        expect(readContent(merged.structure, '/src/main.ts')).toBe('console.log(2);');
+        expect(await getAheadBehind(merged.gitData)).toEqual({ ahead: 2, behind: 0 });
+
+        await pushBranch(merged.gitData, options);
+        expect(server.readFile('app', 'README.md')).toBe('# App');
+        expect(server.readFile('app', 'src/main.ts')).toBe('console.log(2);');
+    });
+});
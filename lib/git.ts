@@ -0,0 +1,636 @@
+import git, { HttpClient, GitProgressEvent } from 'isomorphic-git';
+import http from 'isomorphic-git/http/web';
+import { Buffer } from 'buffer';
+import { FileNode } from '../types';
+import { createMemoryFs, MemoryFs } from './git-fs';
+import { isBinaryFileName, getAllPaths } from './project-utils';
+
+// isomorphic-git relies on a global Buffer, which browsers do not provide.
+const globalScope = globalThis as typeof globalThis & { Buffer?: typeof Buffer };
+if (!globalScope.Buffer) {
+    globalScope.Buffer = Buffer;
+}
+
+/** The contents of a project's `.git` directory, keyed by path inside it (e.g. "/HEAD"). */
+export type GitData = Record<string, Uint8Array>;
+
+export type GitChangeKind = 'added' | 'modified' | 'deleted' | 'untracked';
+
+export interface GitStatusEntry {
+    path: string; // Project path, e.g. "/src/App.tsx".
+    staged: GitChangeKind | null; // Change between HEAD and the index.
+    unstaged: GitChangeKind | null; // Change between the index and the working tree.
+}
+
+export interface GitCommit {
+    oid: string;
+    message: string;
+    authorName: string;
+    authorEmail: string;
+    timestamp: number; // Milliseconds since the epoch.
+}
+
+export interface GitAuthor {
+    name: string;
+    email: string;
+}
+
+export const DEFAULT_GIT_AUTHOR: GitAuthor = { name: 'Codematic User', email: 'user@codematic.local' };
+export const DEFAULT_BRANCH = 'main';
+// Imports larger than this (downloaded, or checked out) are refused rather than filling browser storage.
+export const MAX_CLONE_BYTES = 50 * 1024 * 1024;
+
+const DIR = '/';
+const GITDIR = '/.git';
+const LOG_DEPTH = 100;
+// Hold the commit being merged and the suggested message while conflicts are resolved, as in Git itself.
+const MERGE_HEAD = '/MERGE_HEAD';
+const MERGE_MSG = '/MERGE_MSG';
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+// Git's own heuristic: a NUL byte near the start means the file is binary.
+const BINARY_SNIFF_BYTES = 8000;
+const looksBinary = (bytes: Uint8Array): boolean => bytes.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+
+const toRepoPath = (path: string): string => path.replace(/^\/+/, '');
+const toProjectPath = (filepath: string): string => `/${filepath}`;
+
+const isGitDirPath = (path: string): boolean => path === GITDIR || path.startsWith(GITDIR + '/');
+
+// The open project's repository stays in one filesystem between operations. Each operation
+// brings it in line with the tree and `.git` contents it is given, rewriting only what changed,
+// so files the index has hashed keep their stats and a status check only hashes edited files.
+interface RepoCache {
+    fs: MemoryFs;
+    workingTree: Map<string, FileNode['content']>; // The tree content each working tree file holds.
+}
+
+let repoCache: RepoCache | null = null;
+let repoQueue: Promise<unknown> = Promise.resolve();
+
+const syncWorkingTree = ({ fs, workingTree }: RepoCache, structure: FileNode[]): string[] => {
+    const folders: string[] = [];
+    const paths = new Set<string>();
+    let hasNewTimestamp = false;
+    const walk = (nodes: FileNode[]) => {
+        for (const node of nodes) {
+            if (node.type === 'folder') {
+                folders.push(node.path);
+                if (node.children) walk(node.children);
+                continue;
+            }
+            const content = node.content ?? '';
+            paths.add(node.path);
+            if (workingTree.get(node.path) === content) continue;
+            if (!hasNewTimestamp) {
+                fs.advanceTimestamp();
+                hasNewTimestamp = true;
+            }
+            fs.setFile(node.path, typeof content === 'string' ? textEncoder.encode(content) : content);
+            workingTree.set(node.path, content);
+        }
+    };
+    walk(structure);
+    for (const path of Array.from(workingTree.keys())) {
+        if (paths.has(path)) continue;
+        fs.removeFile(path);
+        workingTree.delete(path);
+    }
+    return folders;
+};
+
+const syncGitDir = (fs: MemoryFs, gitData: GitData) => {
+    for (const path of Array.from(fs.files.keys())) {
+        if (isGitDirPath(path) && !(path.slice(GITDIR.length) in gitData)) fs.removeFile(path);
+    }
+    for (const [path, content] of Object.entries(gitData)) {
+        if (fs.files.get(GITDIR + path) !== content) fs.setFile(GITDIR + path, content);
+    }
+};
+
+/**
+ * Runs `operation` on the repository filesystem once the operations before it are done, with
+ * `.git` holding `gitData` and, unless `structure` is null, the working tree holding `structure`.
+ * A failed operation may leave the filesystem half changed, so the next one starts afresh.
+ */
+const withRepo = <T>(structure: FileNode[] | null, gitData: GitData, operation: (fs: MemoryFs) => Promise<T>): Promise<T> => {
+    const result = repoQueue.then(async () => {
+        const cache = repoCache || (repoCache = { fs: createMemoryFs(new Map()), workingTree: new Map() });
+        const folders = structure
+            ? syncWorkingTree(cache, structure)
+            : Array.from(cache.fs.directories).filter(path => !isGitDirPath(path));
+        syncGitDir(cache.fs, gitData);
+        cache.fs.resetDirectories([...folders, GITDIR]);
+        try {
+            return await operation(cache.fs);
+        } catch (error) {
+            repoCache = null;
+            throw error;
+        }
+    });
+    repoQueue = result.catch(() => {});
+    return result;
+};
+
+const readGitData = (fs: MemoryFs): GitData => {
+    const data: GitData = {};
+    for (const [path, content] of fs.files) {
+        if (path.startsWith(GITDIR + '/')) data[path.slice(GITDIR.length)] = content;
+    }
+    return data;
+};
+
+/**
+ * Rebuilds the project tree from the working tree of `fs`. Entries that existed in
+ * `previous` keep their order; new ones are appended alphabetically.
+ */
+const readWorkingTree = (fs: MemoryFs, previous: FileNode[]): FileNode[] => {
+    const workingTree = new Map<string, FileNode['content']>();
+    const root: FileNode[] = [];
+    const folders = new Map<string, FileNode>();
+    const previousOrder = new Map(getAllPaths(previous).map((path, index) => [path, index]));
+    const orderOf = (path: string) => previousOrder.get(path) ?? Number.MAX_SAFE_INTEGER;
+    const paths = [
+        ...Array.from(fs.directories).map(path => ({ path, type: 'folder' as const })),
+        ...Array.from(fs.files.keys()).map(path => ({ path, type: 'file' as const })),
+    ]
+        .filter(({ path }) => path !== '/' && !isGitDirPath(path))
+        .sort((a, b) => a.path.split('/').length - b.path.split('/').length || orderOf(a.path) - orderOf(b.path) || a.path.localeCompare(b.path));
+
+    for (const { path, type } of paths) {
+        const parentPath = path.substring(0, path.lastIndexOf('/'));
+        const siblings = parentPath ? folders.get(parentPath)?.children : root;
+        if (!siblings) continue;
+        const name = path.split('/').pop() || path;
+        if (type === 'folder') {
+            const folder: FileNode = { name, type, path, children: [] };
+            folders.set(path, folder);
+            siblings.push(folder);
+        } else {
+            const bytes = fs.files.get(path)!;
+            const isBinary = isBinaryFileName(name) || looksBinary(bytes);
+            const content = isBinary ? bytes : textDecoder.decode(bytes);
+            siblings.push({ name, type, path, content });
+            workingTree.set(path, content);
+        }
+    }
+    // The returned tree is what the next operation will be given.
+    if (repoCache?.fs === fs) repoCache.workingTree = workingTree;
+    return root;
+};
+
+const toChangeKinds = (head: number, workdir: number, stage: number): Omit<GitStatusEntry, 'path'> => {
+    // See isomorphic-git's statusMatrix: head 0/1, workdir 0/1 (same as HEAD)/2 (different),
+    // stage 0 (absent)/1 (same as HEAD)/2 (same as workdir)/3 (different from both).
+    let staged: GitChangeKind | null = null;
+    if (head === 0 && stage !== 0) staged = 'added';
+    else if (head === 1 && stage === 0) staged = 'deleted';
+    else if (head === 1 && stage >= 2 && !(stage === 2 && workdir === 1)) staged = 'modified';
+
+    let unstaged: GitChangeKind | null = null;
+    if (workdir === 0) unstaged = stage !== 0 ? 'deleted' : null;
+    else if (stage === 0) unstaged = 'untracked';
+    else if (stage === 3 || (stage === 1 && workdir === 2)) unstaged = 'modified';
+
+    return { staged, unstaged };
+};
+
+export const isRepository = (gitData: GitData | undefined): gitData is GitData =>
+    !!gitData && '/HEAD' in gitData;
+
+export const initRepository = (structure: FileNode[]): Promise<GitData> => withRepo(structure, {}, async fs => {
+    await git.init({ fs, dir: DIR, defaultBranch: DEFAULT_BRANCH });
+    return readGitData(fs);
+});
+
+export const getStatus = (structure: FileNode[], gitData: GitData): Promise<GitStatusEntry[]> => withRepo(structure, gitData, async fs => {
+    const matrix = await git.statusMatrix({ fs, dir: DIR });
+    return matrix
+        .map(([filepath, head, workdir, stage]) => ({ path: toProjectPath(filepath), ...toChangeKinds(head, workdir, stage) }))
+        .filter(entry => entry.staged || entry.unstaged);
+});
+
+export const stageFiles = (structure: FileNode[], gitData: GitData, paths: string[]): Promise<GitData> => withRepo(structure, gitData, async fs => {
+    for (const path of paths) {
+        if (fs.files.has(path)) {
+            await git.add({ fs, dir: DIR, filepath: toRepoPath(path) });
+        } else {
+            await git.remove({ fs, dir: DIR, filepath: toRepoPath(path) });
+        }
+    }
+    return readGitData(fs);
+});
+
+export const unstageFiles = (structure: FileNode[], gitData: GitData, paths: string[]): Promise<GitData> => withRepo(structure, gitData, async fs => {
+    for (const path of paths) {
+        await git.resetIndex({ fs, dir: DIR, filepath: toRepoPath(path) });
+    }
+    return readGitData(fs);
+});
+
+/** Commits the index. While a merge is in progress, the result is the merge commit. */
+export const commitChanges = (structure: FileNode[], gitData: GitData, message: string, author: GitAuthor): Promise<{ gitData: GitData; oid: string }> => withRepo(structure, gitData, async fs => {
+    const mergeHead = getMergeHead(gitData);
+    const parent = mergeHead ? [await git.resolveRef({ fs, dir: DIR, ref: 'HEAD' }), mergeHead] : undefined;
+    const oid = await git.commit({ fs, dir: DIR, message, author, parent });
+    fs.removeFile(GITDIR + MERGE_HEAD);
+    fs.removeFile(GITDIR + MERGE_MSG);
+    return { gitData: readGitData(fs), oid };
+});
+
+/** Commits reachable from HEAD, newest first. Empty for a repository without commits. */
+export const getLog = (gitData: GitData): Promise<GitCommit[]> => withRepo(null, gitData, async fs => {
+    try {
+        const entries = await git.log({ fs, dir: DIR, depth: LOG_DEPTH });
+        // History shared by both parents of a merge is listed once per parent.
+        const seen = new Set<string>();
+        return entries.filter(({ oid }) => !seen.has(oid) && !!seen.add(oid)).map(({ oid, commit }) => ({
+            oid,
+            message: commit.message.trim(),
+            authorName: commit.author.name,
+            authorEmail: commit.author.email,
+            timestamp: commit.author.timestamp * 1000,
+        }));
+    } catch (error) {
+        if ((error as { code?: string }).code === 'NotFoundError') return [];
+        throw error;
+    }
+});
+
+export const getCurrentBranch = (gitData: GitData): Promise<string | null> => withRepo(null, gitData, async fs =>
+    (await git.currentBranch({ fs, dir: DIR })) || null
+);
+
+export const listBranches = (gitData: GitData): Promise<string[]> => withRepo(null, gitData, async fs =>
+    (await git.listBranches({ fs, dir: DIR })).sort()
+);
+
+/** Creates a branch at HEAD without switching to it. */
+export const createBranch = (gitData: GitData, name: string): Promise<GitData> => withRepo(null, gitData, async fs => {
+    await git.branch({ fs, dir: DIR, ref: name });
+    return readGitData(fs);
+});
+
+export const deleteBranch = (gitData: GitData, name: string): Promise<GitData> => withRepo(null, gitData, async fs => {
+    if ((await git.currentBranch({ fs, dir: DIR })) === name) {
+        throw new Error(`Cannot delete "${name}" while it is checked out.`);
+    }
+    await git.deleteBranch({ fs, dir: DIR, ref: name });
+    return readGitData(fs);
+});
+
+// Stash commits record an author, which isomorphic-git reads from the repository config.
+const setAuthorConfig = async (fs: MemoryFs, author: GitAuthor) => {
+    await git.setConfig({ fs, dir: DIR, path: 'user.name', value: author.name });
+    await git.setConfig({ fs, dir: DIR, path: 'user.email', value: author.email });
+};
+
+/** Stashes uncommitted changes to tracked files and resets them to HEAD. */
+export const stashChanges = (structure: FileNode[], gitData: GitData, author: GitAuthor, message = ''): Promise<{ structure: FileNode[]; gitData: GitData }> => withRepo(structure, gitData, async fs => {
+    await setAuthorConfig(fs, author);
+    await git.stash({ fs, dir: DIR, op: 'push', message });
+    return { structure: readWorkingTree(fs, structure), gitData: readGitData(fs) };
+});
+
+/** Stash descriptions, newest (index 0) first. */
+export const listStashes = (gitData: GitData): Promise<string[]> => withRepo(null, gitData, async fs => {
+    const entries = await git.stash({ fs, dir: DIR, op: 'list' });
+    return Array.isArray(entries) ? entries.map(String) : [];
+});
+
+/** Applies a stash to the working tree. `pop` also drops it once applied. */
+export const applyStash = (structure: FileNode[], gitData: GitData, index: number, pop: boolean): Promise<{ structure: FileNode[]; gitData: GitData }> => withRepo(structure, gitData, async fs => {
+    await git.stash({ fs, dir: DIR, op: pop ? 'pop' : 'apply', refIdx: index });
+    return { structure: readWorkingTree(fs, structure), gitData: readGitData(fs) };
+});
+
+export const dropStash = (gitData: GitData, index: number): Promise<GitData> => withRepo(null, gitData, async fs => {
+    await git.stash({ fs, dir: DIR, op: 'drop', refIdx: index });
+    return readGitData(fs);
+});
+
+export type MergeOutcome = 'up-to-date' | 'fast-forward' | 'merged' | 'conflicts';
+
+export interface MergeResult {
+    outcome: MergeOutcome;
+    structure: FileNode[];
+    gitData: GitData;
+    conflicts: string[]; // Project paths left with conflict markers.
+}
+
+/** The commit being merged while conflicts are resolved, or null when no merge is in progress. */
+export const getMergeHead = (gitData: GitData): string | null => {
+    const content = gitData[MERGE_HEAD];
+    return content ? textDecoder.decode(content).trim() : null;
+};
+
+// When a merge stops on conflicts, isomorphic-git writes the merged files but only records
+// the conflicts in the index. Stage everything else the other branch changed (including its
+// deletions) so that committing after resolving the conflicts produces the complete merge.
+const stageCleanMergeChanges = async (fs: MemoryFs, ours: string, theirs: string, conflicts: string[], untracked: Set<string>) => {
+    const [base] = await git.findMergeBase({ fs, dir: DIR, oids: [await git.resolveRef({ fs, dir: DIR, ref: ours }), theirs] });
+    const [baseFiles, theirFiles] = await Promise.all([
+        base ? git.listFiles({ fs, dir: DIR, ref: base }) : Promise.resolve([]),
+        git.listFiles({ fs, dir: DIR, ref: theirs }),
+    ]);
+    const theirSet = new Set(theirFiles);
+    for (const filepath of baseFiles) {
+        if (theirSet.has(filepath) || conflicts.includes(filepath)) continue;
+        fs.removeFile(toProjectPath(filepath));
+        await git.remove({ fs, dir: DIR, filepath });
+    }
+    const matrix = await git.statusMatrix({ fs, dir: DIR });
+    for (const [filepath, head, workdir, stage] of matrix) {
+        if (conflicts.includes(filepath) || untracked.has(filepath) || workdir === 0) continue;
+        if (head === 0 || workdir !== 1 || stage !== 1) await git.add({ fs, dir: DIR, filepath });
+    }
+};
+
+/** The suggested commit message for a merge in progress. */
+export const getMergeMessage = (gitData: GitData): string | null => {
+    const content = gitData[MERGE_MSG];
+    return content ? textDecoder.decode(content).trim() : null;
+};
+
+// Merges `branch` into the current branch of `fs`, whose working tree holds `structure`.
+const mergeInto = async (fs: MemoryFs, structure: FileNode[], branch: string, author: GitAuthor, fastForwardOnly: boolean): Promise<MergeResult> => {
+    const ours = await git.currentBranch({ fs, dir: DIR });
+    if (!ours) throw new Error('Switch to a branch before merging.');
+    if (fs.files.has(GITDIR + MERGE_HEAD)) throw new Error('A merge is already in progress. Commit or abort it first.');
+    const matrix = await git.statusMatrix({ fs, dir: DIR });
+    if (matrix.some(([, head, workdir, stage]) => head === 1 && (workdir !== 1 || stage !== 1))) {
+        throw new Error('Commit or stash your changes before merging.');
+    }
+    const untracked = new Set(matrix.filter(([, head, , stage]) => head === 0 && stage === 0).map(([filepath]) => filepath));
+
+    const theirs = await git.resolveRef({ fs, dir: DIR, ref: branch });
+    try {
+        const result = await git.merge({ fs, dir: DIR, ours, theirs: branch, author, fastForwardOnly, abortOnConflict: false });
+        if (result.alreadyMerged) {
+            return { outcome: 'up-to-date', structure, gitData: readGitData(fs), conflicts: [] };
+        }
+        // The merge only moves the branch; bring the working tree and index up to date.
+        await git.checkout({ fs, dir: DIR, ref: ours });
+        return {
+            outcome: result.fastForward ? 'fast-forward' : 'merged',
+            structure: readWorkingTree(fs, structure),
+            gitData: readGitData(fs),
+            conflicts: [],
+        };
+    } catch (error) {
+        if ((error as { code?: string }).code === 'FastForwardError') {
+            throw new Error(`"${ours}" and "${branch}" have diverged and cannot be fast-forwarded. Merge them instead.`);
+        }
+        if ((error as { code?: string }).code !== 'MergeConflictError') throw error;
+        const { filepaths } = (error as { data: { filepaths: string[] } }).data;
+        await stageCleanMergeChanges(fs, ours, theirs, filepaths, untracked);
+        fs.setFile(GITDIR + MERGE_HEAD, textEncoder.encode(`${theirs}\n`));
+        fs.setFile(GITDIR + MERGE_MSG, textEncoder.encode(`Merge branch '${branch}' into ${ours}\n`));
+        return {
+            outcome: 'conflicts',
+            structure: readWorkingTree(fs, structure),
+            gitData: readGitData(fs),
+            conflicts: filepaths.map(toProjectPath),
+        };
+    }
+};
+
+/**
+ * Merges `branch` into the current branch. Conflicting files are written to the working
+ * tree with conflict markers; committing once they are resolved completes the merge.
+ */
+export const mergeBranch = (structure: FileNode[], gitData: GitData, branch: string, author: GitAuthor, fastForwardOnly = false): Promise<MergeResult> =>
+    withRepo(structure, gitData, fs => mergeInto(fs, structure, branch, author, fastForwardOnly));
+
+const REMOTE = 'origin';
+// Commits walked on each side when counting how far a branch is ahead of or behind its remote.
+const AHEAD_BEHIND_DEPTH = 1000;
+
+export interface GitCredentials {
+    username: string; // Many hosts accept any username with a token as the password.
+    token: string;
+    trustedProxy?: string; // Host of a third-party CORS proxy the user agreed to send the token through.
+}
+
+export interface GitRemoteOptions {
+    credentials?: GitCredentials;
+    corsProxy?: string;
+    onProgress?: (message: string) => void;
+}
+
+export interface AheadBehind {
+    ahead: number; // Local commits not on the remote branch.
+    behind: number; // Remote commits not on the local branch.
+}
+
+const remoteRequestOptions = ({ credentials, corsProxy, onProgress }: GitRemoteOptions) => ({
+    http,
+    corsProxy: corsProxy || undefined,
+    onProgress: onProgress ? (event: GitProgressEvent) => onProgress(formatProgress(event)) : undefined,
+    onAuth: credentials?.token ? () => ({ username: credentials.username || 'git', password: credentials.token }) : undefined,
+});
+
+const requireBranch = async (fs: MemoryFs): Promise<string> => {
+    const branch = await git.currentBranch({ fs, dir: DIR });
+    if (!branch) throw new Error('Switch to a branch first.');
+    return branch;
+};
+
+// Proxy for remote requests of this repository, for hosts that do not send CORS headers.
+const CORS_PROXY_CONFIG = 'http.corsProxy';
+
+export interface GitRemoteConfig {
+    url: string | null;
+    corsProxy: string; // Empty when requests go to the host directly.
+}
+
+export const getRemoteConfig = (gitData: GitData): Promise<GitRemoteConfig> => withRepo(null, gitData, async fs => ({
+    url: (await git.getConfig({ fs, dir: DIR, path: `remote.${REMOTE}.url` })) || null,
+    corsProxy: (await git.getConfig({ fs, dir: DIR, path: CORS_PROXY_CONFIG })) || '',
+}));
+
+/** Points the "origin" remote at `url`, or removes it when `url` is empty, and sets the proxy used to reach it. */
+export const setRemoteConfig = (gitData: GitData, { url, corsProxy }: GitRemoteConfig): Promise<GitData> => withRepo(null, gitData, async fs => {
+    if (url) {
+        await git.addRemote({ fs, dir: DIR, remote: REMOTE, url, force: true });
+    } else if (await git.getConfig({ fs, dir: DIR, path: `remote.${REMOTE}.url` })) {
+        await git.deleteRemote({ fs, dir: DIR, remote: REMOTE });
+    }
+    await git.setConfig({ fs, dir: DIR, path: CORS_PROXY_CONFIG, value: corsProxy || undefined });
+    return readGitData(fs);
+});
+
+const fetchInto = async (fs: MemoryFs, options: GitRemoteOptions): Promise<string> => {
+    const branch = await requireBranch(fs);
+    await git.fetch({ fs, dir: DIR, remote: REMOTE, ref: branch, singleBranch: true, tags: false, ...remoteRequestOptions(options) });
+    return branch;
+};
+
+/** Updates the remote-tracking branch for the current branch. */
+export const fetchRemote = (gitData: GitData, options: GitRemoteOptions): Promise<GitData> => withRepo(null, gitData, async fs => {
+    await fetchInto(fs, options);
+    return readGitData(fs);
+});
+
+/** Fetches, then merges the remote branch into the current one. */
+export const pullRemote = (structure: FileNode[], gitData: GitData, author: GitAuthor, fastForwardOnly: boolean, options: GitRemoteOptions): Promise<MergeResult> => withRepo(structure, gitData, async fs => {
+    const branch = await fetchInto(fs, options);
+    const hasCommits = await git.resolveRef({ fs, dir: DIR, ref: branch }).then(() => true, () => false);
+    if (!hasCommits) {
+        // Nothing to merge into yet: start the branch at the remote's commit.
+        const remoteOid = await git.resolveRef({ fs, dir: DIR, ref: `${REMOTE}/${branch}` });
+        await git.writeRef({ fs, dir: DIR, ref: `refs/heads/${branch}`, value: remoteOid });
+        await git.checkout({ fs, dir: DIR, ref: branch });
+        return { outcome: 'fast-forward', structure: readWorkingTree(fs, structure), gitData: readGitData(fs), conflicts: [] };
+    }
+    return mergeInto(fs, structure, `${REMOTE}/${branch}`, author, fastForwardOnly);
+});
+
+/** Pushes the current branch. The remote rejects it if it has commits that are not merged locally. */
+export const pushBranch = (gitData: GitData, options: GitRemoteOptions): Promise<GitData> => withRepo(null, gitData, async fs => {
+    const branch = await requireBranch(fs);
+    const result = await git.push({ fs, dir: DIR, remote: REMOTE, ref: branch, ...remoteRequestOptions(options) }).catch((error: unknown) => {
+        if ((error as { code?: string }).code === 'PushRejectedError') {
+            throw new Error(`The remote "${branch}" has commits that are not here yet. Pull, then push again.`);
+        }
+        throw error;
+    });
+    if (!result.ok) {
+        throw new Error(result.error || `The remote rejected the push of "${branch}".`);
+    }
+    return readGitData(fs);
+});
+
+/** How the current branch compares with its remote-tracking branch, or null if there is none. */
+export const getAheadBehind = (gitData: GitData): Promise<AheadBehind | null> => withRepo(null, gitData, async fs => {
+    const branch = await git.currentBranch({ fs, dir: DIR });
+    if (!branch) return null;
+    const collect = async (ref: string) =>
+        (await git.log({ fs, dir: DIR, ref, depth: AHEAD_BEHIND_DEPTH })).map(entry => entry.oid);
+    let remoteOids: string[];
+    try {
+        remoteOids = await collect(`refs/remotes/${REMOTE}/${branch}`);
+    } catch (error) {
+        if ((error as { code?: string }).code === 'NotFoundError') return null;
+        throw error;
+    }
+    let localOids: string[];
+    try {
+        localOids = await collect(branch);
+    } catch (error) {
+        if ((error as { code?: string }).code !== 'NotFoundError') throw error;
+        localOids = []; // No commits yet.
+    }
+    const remoteSet = new Set(remoteOids);
+    const localSet = new Set(localOids);
+    return {
+        ahead: localOids.filter(oid => !remoteSet.has(oid)).length,
+        behind: remoteOids.filter(oid => !localSet.has(oid)).length,
+    };
+});
+
+/** Abandons a merge in progress, restoring the working tree to HEAD. */
+export const abortMerge = (structure: FileNode[], gitData: GitData): Promise<{ structure: FileNode[]; gitData: GitData }> => withRepo(structure, gitData, async fs => {
+    const ref = (await git.currentBranch({ fs, dir: DIR })) || await git.resolveRef({ fs, dir: DIR, ref: 'HEAD' });
+    await git.checkout({ fs, dir: DIR, ref, force: true });
+    fs.removeFile(GITDIR + MERGE_HEAD);
+    fs.removeFile(GITDIR + MERGE_MSG);
+    return { structure: readWorkingTree(fs, structure), gitData: readGitData(fs) };
+});
+
+export interface CloneOptions {
+    url: string;
+    branch?: string; // Defaults to the remote's default branch.
+    shallow?: boolean; // Fetch only the latest commit. Defaults to true.
+    corsProxy?: string; // Needed for hosts that do not send CORS headers.
+    maxBytes?: number; // Defaults to MAX_CLONE_BYTES.
+    onProgress?: (message: string) => void;
+}
+
+export interface CloneResult {
+    structure: FileNode[];
+    gitData: GitData;
+    branch: string | null;
+}
+
+const formatMegabytes = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+const formatProgress = ({ phase, loaded, total }: GitProgressEvent): string =>
+    total ? `${phase}: ${Math.round((loaded / total) * 100)}% (${loaded}/${total})` : `${phase}: ${loaded}`;
+
+// The fetch-based client, failing as soon as the responses together exceed `limit` bytes.
+const createLimitedHttp = (limit: number): HttpClient => {
+    let received = 0;
+    return {
+        request: async (request) => {
+            const response = await http.request(request);
+            const body = response.body;
+            if (!body) return response;
+            const limited = async function* () {
+                for await (const chunk of body) {
+                    received += chunk.byteLength;
+                    if (received > limit) {
+                        throw new Error(`The repository is larger than the ${formatMegabytes(limit)} import limit.`);
+                    }
+                    yield chunk;
+                }
+            };
+            return { ...response, body: limited() };
+        },
+    };
+};
+
+/** Clones a repository over smart HTTP into a new project tree and repository. */
+export const cloneRepository = async ({ url, branch, shallow = true, corsProxy, maxBytes = MAX_CLONE_BYTES, onProgress }: CloneOptions): Promise<CloneResult> => {
+    const fs = createMemoryFs(new Map());
+    await git.clone({
+        fs,
+        http: createLimitedHttp(maxBytes),
+        dir: DIR,
+        url,
+        ref: branch || undefined,
+        singleBranch: true,
+        depth: shallow ? 1 : undefined,
+        corsProxy: corsProxy || undefined,
+        onProgress: onProgress ? (event) => onProgress(formatProgress(event)) : undefined,
+    });
+    // Later fetches and pushes go through the same proxy.
+    if (corsProxy) await git.setConfig({ fs, dir: DIR, path: CORS_PROXY_CONFIG, value: corsProxy });
+
+    let workingTreeBytes = 0;
+    for (const [path, content] of fs.files) {
+        if (!path.startsWith(GITDIR + '/')) workingTreeBytes += content.byteLength;
+    }
+    if (workingTreeBytes > maxBytes) {
+        throw new Error(`The checked out files are larger than the ${formatMegabytes(maxBytes)} import limit.`);
+    }
+
+    return {
+        structure: readWorkingTree(fs, []),
+        gitData: readGitData(fs),
+        branch: (await git.currentBranch({ fs, dir: DIR })) || null,
+    };
+};
+
+/** Content of `path` at HEAD, or null if the file is not in HEAD (or there are no commits). */
+export const readHeadFile = (gitData: GitData, path: string): Promise<Uint8Array | null> => withRepo(null, gitData, async fs => {
+    try {
+        const oid = await git.resolveRef({ fs, dir: DIR, ref: 'HEAD' });
+        const { blob } = await git.readBlob({ fs, dir: DIR, oid, filepath: toRepoPath(path) });
+        return blob;
+    } catch (error) {
+        if ((error as { code?: string }).code === 'NotFoundError') return null;
+        throw error;
+    }
+});
+
+/**
+ * Checks out a branch or commit (detaching HEAD for a commit). Fails with a checkout
+ * conflict if uncommitted changes would be overwritten.
+ */
+export const checkoutRef = (structure: FileNode[], gitData: GitData, ref: string): Promise<{ structure: FileNode[]; gitData: GitData }> => withRepo(structure, gitData, async fs => {
+    await git.checkout({ fs, dir: DIR, ref });
+    return { structure: readWorkingTree(fs, structure), gitData: readGitData(fs) };
+});
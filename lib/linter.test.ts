@@ -0,0 +1,61 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Linter } from 'eslint-linter-browserify';
+import { clearLintResults, collectLintProblems } from './linter';
+
+const CONFIG = `import js from '@eslint/js'
+
+export default [js.configs.recommended, { rules: { eqeqeq: 'error' } }]
+`;
+
+describe('collectLintProblems', () => {
+    const verify = vi.spyOn(Linter.prototype, 'verify');
+
+    beforeEach(() => {
+        clearLintResults();
+        verify.mockClear();
+    });
+
+    afterAll(() => {
+        verify.mockRestore();
+    });
+
+    const lintedPaths = () => verify.mock.calls.map(call => (call[2] as { filename: string }).filename);
+
+    it('relints only the files that changed', async () => {
+        const files = new Map([
+            ['/eslint.config.js', CONFIG],
+            ['/src/a.js', 'export const a = 1;\n'],
+            ['/src/b.js', 'export const b = (x) => x == 1;\n'],
+        ]);
+        const problems = await collectLintProblems(files);
+        expect(problems.map(problem => `${problem.path}:${problem.code}`)).toEqual(['/src/b.js:eqeqeq']);
+        expect(lintedPaths()).toEqual(['/eslint.config.js', '/src/a.js', '/src/b.js']);
+
+        verify.mockClear();
+        const edited = new Map(files).set('/src/a.js', 'debugger;\n');
+        const next = await collectLintProblems(edited);
+        expect(lintedPaths()).toEqual(['/src/a.js']);
+        expect(next.map(problem => `${problem.path}:${problem.code}`)).toEqual(['/src/a.js:no-debugger', '/src/b.js:eqeqeq']);
+
+        // A changed config relints everything.
+        verify.mockClear();
+        await collectLintProblems(new Map(edited).set('/eslint.config.js', CONFIG.replace('eqeqeq', 'no-debugger')));
+        expect(lintedPaths()).toHaveLength(3);
+    });
+
+    it('keeps the results of the newer run when an older one finishes later', async () => {
+        const older = new Map([
+            ['/src/a.js', 'export const a = 1;\n'],
+            ['/src/b.js', 'export const b = 2;\n'],
+            ['/src/c.js', 'export const c = 3;\n'],
+        ]);
+        const newer = new Map([['/src/a.js', 'export const a = 2;\n']]);
+        // The older run has more files to lint, so it finishes last.
+        await Promise.all([collectLintProblems(older), collectLintProblems(newer)]);
+
+        // Had the older run replaced the newer one's results, a.js would be linted again.
+        verify.mockClear();
+        await collectLintProblems(newer);
+        expect(lintedPaths()).toEqual([]);
+    });
+});
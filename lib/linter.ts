@@ -0,0 +1,213 @@
+import { Monaco } from '@monaco-editor/react';
+import type { editor, languages } from 'monaco-editor';
+import type { Linter } from 'eslint-linter-browserify';
+import { Problem } from './problems';
+import { createLintConfigProblem, findLintConfigPath, loadLintConfig, LintModules } from './eslint-config';
+import { isTypeScriptPath } from './typescript-project';
+
+// Lints the project with ESLint in the browser, configured by the project's eslint.config.js or
+// .eslintrc (see eslint-config.ts). The last results of every file are kept, so the editor's
+// code actions can offer the fixes ESLint computed for the content it linted. Code actions are
+// registered for the whole page, so the results are module state rather than per editor.
+
+const LINTABLE_FILE_PATTERN = /\.(js|jsx|mjs|cjs|ts|tsx|mts|cts)$/;
+const NO_MATCHING_CONFIG = 'No matching configuration found';
+
+export const isLintablePath = (path: string): boolean => LINTABLE_FILE_PATTERN.test(path) && !path.includes('/node_modules/');
+
+interface LintEngine {
+    linter: Linter;
+    modules: LintModules;
+}
+
+let engine: LintEngine | null = null;
+let enginePromise: Promise<LintEngine> | null = null;
+
+// The linter and the TypeScript parser are large, so they are loaded when the project is first linted.
+const loadLintEngine = (): Promise<LintEngine> => {
+    enginePromise = enginePromise || (async () => {
+        const [{ Linter }, js, globals, tsParser, reactHooks, reactRefresh] = await Promise.all([
+            import('eslint-linter-browserify'),
+            import('@eslint/js'),
+            import('globals'),
+            import('@typescript-eslint/parser'),
+            import('eslint-plugin-react-hooks'),
+            import('eslint-plugin-react-refresh'),
+        ]);
+        engine = {
+            linter: new Linter({ configType: 'flat', cwd: '/' }),
+            modules: {
+                js: js.default,
+                globals: globals.default,
+                tsParser,
+                reactHooks: reactHooks.default,
+                reactRefresh: reactRefresh.default,
+            },
+        };
+        return engine;
+    })();
+    enginePromise.catch(() => {
+        enginePromise = null;
+    });
+    return enginePromise;
+};
+
+interface LintResult {
+    content: string;
+    messages: Linter.LintMessage[];
+}
+
+// What one run of `collectLintProblems` produced. Each run builds its own, reusing the results
+// of the last finished run for unchanged files, and publishes it when done; code actions read
+// the published one. A run that finishes after a newer one has published is discarded.
+interface LintRun {
+    id: number;
+    configKey: string; // Changes to the config file relint every file.
+    config: Linter.Config[];
+    configProblems: Problem[];
+    results: Map<string, LintResult>;
+}
+
+let lastRunId = 0;
+let publishedRun: LintRun | null = null;
+let firstPublishableRunId = 0; // Runs started before the last clear are discarded too.
+
+const getConfigKey = (files: Map<string, string>): string => {
+    const configPath = findLintConfigPath(files);
+    return configPath ? `${configPath}\n${files.get(configPath)}` : '';
+};
+
+const toProblem = (path: string, message: Linter.LintMessage): Problem => ({
+    path,
+    line: message.line,
+    column: message.column,
+    endLine: message.endLine,
+    endColumn: message.endColumn,
+    message: message.message,
+    code: message.ruleId || 'eslint',
+    severity: message.severity === 2 ? 'error' : 'warning',
+    source: 'eslint',
+});
+
+// Linting a large project takes a while, so the UI gets a turn between files.
+const yieldToUI = () => new Promise(resolve => setTimeout(resolve));
+
+/**
+ * ESLint problems for the JavaScript and TypeScript files in `files`, plus any problems with the
+ * config itself. Syntax errors in TypeScript files are left out; the TypeScript service reports them.
+ */
+export const collectLintProblems = async (files: Map<string, string>): Promise<Problem[]> => {
+    const id = ++lastRunId;
+    const { linter, modules } = await loadLintEngine();
+    const previous = publishedRun;
+    const configKey = getConfigKey(files);
+    const { config, problems: configProblems } = previous?.configKey === configKey
+        ? { config: previous.config, problems: previous.configProblems }
+        : loadLintConfig(files, modules);
+    const run: LintRun = { id, configKey, config, configProblems, results: new Map() };
+
+    // ESLint validates the config for each file it applies to, so an invalid rule can fail every
+    // file, or only the ones its entry matches. Each distinct error is reported once.
+    const configErrors = new Set<string>();
+    const problems: Problem[] = [];
+    for (const [path, content] of files) {
+        if (!isLintablePath(path)) continue;
+        let result = previous?.configKey === configKey ? previous.results.get(path) : undefined;
+        if (result?.content !== content) {
+            try {
+                result = { content, messages: linter.verify(content, config, { filename: path }) };
+            } catch (error: unknown) {
+                configErrors.add(error instanceof Error ? error.message : String(error));
+                continue;
+            }
+            await yieldToUI();
+        }
+        run.results.set(path, result);
+        for (const message of result.messages) {
+            if (message.ruleId === null && message.message.startsWith(NO_MATCHING_CONFIG)) continue;
+            if (message.fatal && isTypeScriptPath(path)) continue;
+            problems.push(toProblem(path, message));
+        }
+    }
+
+    if (id >= firstPublishableRunId && (!publishedRun || publishedRun.id < id)) publishedRun = run;
+    const configPath = findLintConfigPath(files) || '/';
+    return [
+        ...configProblems,
+        ...Array.from(configErrors, reason => createLintConfigProblem(configPath, `ESLint rejected the config: ${reason}`, 'error')),
+        ...problems,
+    ];
+};
+
+export const clearLintResults = () => {
+    publishedRun = null;
+    firstPublishableRunId = lastRunId + 1;
+};
+
+const toRange = (model: editor.ITextModel, [start, end]: [number, number]) => {
+    const startPosition = model.getPositionAt(start);
+    const endPosition = model.getPositionAt(end);
+    return {
+        startLineNumber: startPosition.lineNumber,
+        startColumn: startPosition.column,
+        endLineNumber: endPosition.lineNumber,
+        endColumn: endPosition.column,
+    };
+};
+
+const createAction = (model: editor.ITextModel, title: string, kind: string, fix: NonNullable<Linter.LintMessage['fix']>, isPreferred = false): languages.CodeAction => ({
+    title,
+    kind,
+    isPreferred,
+    edit: {
+        edits: [{ resource: model.uri, textEdit: { range: toRange(model, fix.range), text: fix.text }, versionId: model.getVersionId() }],
+    },
+});
+
+// Rule messages on the lines of `range`.
+const getMessagesInRange = (messages: Linter.LintMessage[], range: { startLineNumber: number; endLineNumber: number }) =>
+    messages.filter(message => message.ruleId && message.line <= range.endLineNumber && (message.endLine ?? message.line) >= range.startLineNumber);
+
+/** Offers ESLint's fixes and suggestions, and disabling a rule for a line, as code actions. */
+export const registerLintCodeActions = (m: Monaco) => {
+    const provider: languages.CodeActionProvider = {
+        provideCodeActions: (model, range) => {
+            const path = model.uri.path;
+            const run = publishedRun;
+            const result = run?.results.get(path);
+            // The results only apply to the content that was linted.
+            if (!result || result.content !== model.getValue()) return { actions: [], dispose: () => {} };
+
+            const actions: languages.CodeAction[] = [];
+            for (const message of getMessagesInRange(result.messages, range)) {
+                if (message.fix) {
+                    actions.push(createAction(model, `Fix this ${message.ruleId} problem`, 'quickfix', message.fix, true));
+                }
+                for (const suggestion of message.suggestions || []) {
+                    actions.push(createAction(model, suggestion.desc, 'quickfix', suggestion.fix));
+                }
+                const lineStart = model.getOffsetAt({ lineNumber: message.line, column: 1 });
+                const indent = model.getLineContent(message.line).match(/^\s*/)![0];
+                actions.push(createAction(model, `Disable ${message.ruleId} for this line`, 'quickfix', {
+                    range: [lineStart, lineStart],
+                    text: `${indent}// eslint-disable-next-line ${message.ruleId}\n`,
+                }));
+            }
+
+            if (engine && run && result.messages.some(message => message.fix)) {
+                const { fixed, output } = engine.linter.verifyAndFix(result.content, run.config, { filename: path });
+                if (fixed) {
+                    actions.push({
+                        title: 'Fix all auto-fixable problems',
+                        kind: 'source.fixAll.eslint',
+                        edit: { edits: [{ resource: model.uri, textEdit: { range: model.getFullModelRange(), text: output }, versionId: model.getVersionId() }] },
+                    });
+                }
+            }
+            return { actions, dispose: () => {} };
+        },
+    };
+    for (const language of ['javascript', 'typescript']) {
+        m.languages.registerCodeActionProvider(language, provider, { providedCodeActionKinds: ['quickfix', 'source.fixAll.eslint'] });
+    }
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { hasConflictMarkers, parseConflicts, resolveConflicts } from './merge-conflicts';
+
+const conflicted = [
+    'before',
+    '<<<<<<< main',
+    'ours',
+    '=======',
+    'theirs',
+    '>>>>>>> feature',
+    'between',
+    '<<<<<<< main',
+    'ours 2',
+    '=======',
+    'theirs 2',
+    '>>>>>>> feature',
+    'after',
+].join('\n');
+
+describe('parseConflicts', () => {
+    it('finds every conflict with its sides, labels and marker lines', () => {
+        const conflicts = parseConflicts(conflicted);
+        expect(conflicts).toHaveLength(2);
+        expect(conflicts[0]).toEqual({
+            startLine: 2,
+            separatorLine: 4,
+            endLine: 6,
+            currentLabel: 'main',
+            incomingLabel: 'feature',
+            current: ['ours'],
+            incoming: ['theirs'],
+        });
+        expect(conflicts[1].startLine).toBe(8);
+    });
+
+    it('ignores incomplete markers', () => {
+        expect(hasConflictMarkers('<<<<<<< main\nours\n=======\ntheirs')).toBe(false);
+        expect(hasConflictMarkers('a\n=======\nb')).toBe(false);
+    });
+});
+
+describe('resolveConflicts', () => {
+    it('resolves every conflict with the chosen side', () => {
+        expect(resolveConflicts(conflicted, 'current')).toBe('before\nours\nbetween\nours 2\nafter');
+        expect(resolveConflicts(conflicted, 'incoming')).toBe('before\ntheirs\nbetween\ntheirs 2\nafter');
+        expect(resolveConflicts(conflicted, 'both')).toBe('before\nours\ntheirs\nbetween\nours 2\ntheirs 2\nafter');
+    });
+
+    it('resolves only the conflict starting at the given line', () => {
+        const resolved = resolveConflicts(conflicted, 'incoming', 8);
+        expect(resolved).toContain('theirs 2');
+        expect(parseConflicts(resolved)).toHaveLength(1);
+    });
+
+    it('keeps CRLF line endings', () => {
+        expect(resolveConflicts(conflicted.replace(/\n/g, '\r\n'), 'current')).toBe('before\r\nours\r\nbetween\r\nours 2\r\nafter');
+    });
+});
@@ -0,0 +1,76 @@
+// Parsing and resolving the conflict markers Git writes into files during a merge:
+//
+//   <<<<<<< current
+//   ...our lines...
+//   =======
+//   ...their lines...
+//   >>>>>>> incoming
+
+export interface MergeConflict {
+    startLine: number; // 1-based line of the `<<<<<<<` marker.
+    separatorLine: number; // Line of the `=======` marker.
+    endLine: number; // Line of the `>>>>>>>` marker.
+    currentLabel: string;
+    incomingLabel: string;
+    current: string[];
+    incoming: string[];
+}
+
+export type ConflictResolution = 'current' | 'incoming' | 'both';
+
+const START_MARKER = /^<{7}(?: (.*))?$/;
+const SEPARATOR_MARKER = /^={7}$/;
+const END_MARKER = /^>{7}(?: (.*))?$/;
+
+const splitLines = (content: string): string[] => content.split(/\r?\n/);
+
+export const parseConflicts = (content: string): MergeConflict[] => {
+    const lines = splitLines(content);
+    const conflicts: MergeConflict[] = [];
+    let open: { startLine: number; currentLabel: string; separatorLine: number | null } | null = null;
+
+    lines.forEach((line, index) => {
+        const lineNumber = index + 1;
+        const start = START_MARKER.exec(line);
+        if (start) {
+            open = { startLine: lineNumber, currentLabel: start[1] || '', separatorLine: null };
+            return;
+        }
+        if (!open) return;
+        if (open.separatorLine === null && SEPARATOR_MARKER.test(line)) {
+            open.separatorLine = lineNumber;
+            return;
+        }
+        const end = END_MARKER.exec(line);
+        if (end && open.separatorLine !== null) {
+            conflicts.push({
+                startLine: open.startLine,
+                separatorLine: open.separatorLine,
+                endLine: lineNumber,
+                currentLabel: open.currentLabel,
+                incomingLabel: end[1] || '',
+                current: lines.slice(open.startLine, open.separatorLine - 1),
+                incoming: lines.slice(open.separatorLine, lineNumber - 1),
+            });
+            open = null;
+        }
+    });
+    return conflicts;
+};
+
+export const hasConflictMarkers = (content: string): boolean => parseConflicts(content).length > 0;
+
+/** Replaces the conflict starting at `startLine` (or every conflict, if null) with the chosen side. */
+export const resolveConflicts = (content: string, resolution: ConflictResolution, startLine: number | null = null): string => {
+    const lineBreak = content.includes('\r\n') ? '\r\n' : '\n';
+    const lines = splitLines(content);
+    const conflicts = parseConflicts(content).filter(conflict => startLine === null || conflict.startLine === startLine);
+    // Resolve from the bottom up so earlier line numbers stay valid.
+    for (const conflict of conflicts.reverse()) {
+        const replacement = resolution === 'current' ? conflict.current
+            : resolution === 'incoming' ? conflict.incoming
+            : [...conflict.current, ...conflict.incoming];
+        lines.splice(conflict.startLine - 1, conflict.endLine - conflict.startLine + 1, ...replacement);
+    }
+    return lines.join(lineBreak);
+};
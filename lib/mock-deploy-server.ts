@@ -0,0 +1,132 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { createHash } from 'node:crypto';
+import { AddressInfo } from 'node:net';
+
+// A local stand-in for the deploy targets in deploy.ts, for tests. It runs in Node, not the
+// browser. Under `/http` it takes zip uploads (POST) and single files (PUT). Under `/netlify` it
+// implements the part of Netlify's file digest API the adapter uses. Every request must carry
+// `token`: as a Bearer token for Netlify, and in `authHeader` for the HTTP routes.
+
+export interface MockNetlifyDeploy {
+    id: string;
+    siteId: string;
+    files: Record<string, string>; // Path, starting with `/`, to SHA-1 digest.
+    state: 'uploading' | 'ready';
+}
+
+export interface MockDeployServer {
+    url: string;
+    http: {
+        zips: Uint8Array[];
+        files: Map<string, Uint8Array>;
+    };
+    netlify: {
+        blobs: Map<string, Uint8Array>; // Uploaded contents by SHA-1 digest.
+        deploys: Map<string, MockNetlifyDeploy>;
+        published: Map<string, string>; // Site ID to the ID of its live deploy.
+        uploads: string[]; // Paths in upload order, across all deploys.
+    };
+    close: () => Promise<void>;
+}
+
+export interface MockDeployServerOptions {
+    token: string;
+    authHeader?: string;
+}
+
+const readBody = async (request: IncomingMessage): Promise<Uint8Array> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) chunks.push(chunk as Buffer);
+    return new Uint8Array(Buffer.concat(chunks));
+};
+
+const sha1 = (content: Uint8Array): string => createHash('sha1').update(content).digest('hex');
+
+const send = (response: ServerResponse, status: number, body: unknown) => {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+};
+
+export const startMockDeployServer = async ({ token, authHeader = 'authorization' }: MockDeployServerOptions): Promise<MockDeployServer> => {
+    let url = '';
+    const http: MockDeployServer['http'] = { zips: [], files: new Map() };
+    const netlify: MockDeployServer['netlify'] = { blobs: new Map(), deploys: new Map(), published: new Map(), uploads: [] };
+
+    const siteUrl = (siteId: string) => `${url}/sites/${siteId}/`;
+    const missingDigests = (deploy: MockNetlifyDeploy) =>
+        Array.from(new Set(Object.values(deploy.files))).filter(digest => !netlify.blobs.has(digest));
+    const describeDeploy = (deploy: MockNetlifyDeploy) => {
+        const required = missingDigests(deploy);
+        if (deploy.state === 'uploading' && required.length === 0) {
+            deploy.state = 'ready';
+            netlify.published.set(deploy.siteId, deploy.id);
+        }
+        return { id: deploy.id, state: deploy.state, required, ssl_url: siteUrl(deploy.siteId) };
+    };
+
+    const handleHttp = async (request: IncomingMessage, response: ServerResponse, path: string) => {
+        if (request.headers[authHeader.toLowerCase()] !== token) return send(response, 401, { error: 'Unauthorized' });
+        const body = await readBody(request);
+        if (request.method === 'POST' && path === '') {
+            http.zips.push(body);
+            return send(response, 200, { url: `${url}/site/` });
+        }
+        if (request.method === 'PUT' && path.startsWith('/')) {
+            http.files.set(decodeURIComponent(path.slice(1)), body);
+            return send(response, 200, {});
+        }
+        send(response, 404, { error: 'Not found' });
+    };
+
+    const handleNetlify = async (request: IncomingMessage, response: ServerResponse, path: string) => {
+        if (request.headers.authorization !== `Bearer ${token}`) return send(response, 401, { error: 'Unauthorized' });
+        const body = await readBody(request);
+        let match: RegExpMatchArray | null;
+
+        if (request.method === 'POST' && (match = path.match(/^\/sites\/([^/]+)\/deploys$/))) {
+            const { files } = JSON.parse(new TextDecoder().decode(body));
+            const deploy: MockNetlifyDeploy = { id: `deploy-${netlify.deploys.size + 1}`, siteId: decodeURIComponent(match[1]), files, state: 'uploading' };
+            netlify.deploys.set(deploy.id, deploy);
+            // Like Netlify, a deploy goes live once all its files are uploaded and it is fetched again.
+            return send(response, 200, { id: deploy.id, state: deploy.state, required: missingDigests(deploy) });
+        }
+        if (request.method === 'PUT' && (match = path.match(/^\/deploys\/([^/]+)\/files\/(.+)$/))) {
+            const deploy = netlify.deploys.get(decodeURIComponent(match[1]));
+            const filePath = `/${match[2].split('/').map(decodeURIComponent).join('/')}`;
+            if (!deploy || !(filePath in deploy.files)) return send(response, 404, { error: 'Not found' });
+            if (sha1(body) !== deploy.files[filePath]) return send(response, 422, { error: `Digest mismatch for ${filePath}` });
+            netlify.blobs.set(deploy.files[filePath], body);
+            netlify.uploads.push(filePath);
+            return send(response, 200, {});
+        }
+        if (request.method === 'GET' && (match = path.match(/^\/deploys\/([^/]+)$/))) {
+            const deploy = netlify.deploys.get(decodeURIComponent(match[1]));
+            return deploy ? send(response, 200, describeDeploy(deploy)) : send(response, 404, { error: 'Not found' });
+        }
+        if (request.method === 'POST' && (match = path.match(/^\/sites\/([^/]+)\/deploys\/([^/]+)\/restore$/))) {
+            const deploy = netlify.deploys.get(decodeURIComponent(match[2]));
+            if (!deploy || deploy.siteId !== decodeURIComponent(match[1]) || deploy.state !== 'ready') return send(response, 404, { error: 'Not found' });
+            netlify.published.set(deploy.siteId, deploy.id);
+            return send(response, 200, describeDeploy(deploy));
+        }
+        send(response, 404, { error: 'Not found' });
+    };
+
+    const server = createServer((request, response) => {
+        const path = new URL(request.url || '/', 'http://localhost').pathname;
+        const handled = path.startsWith('/http') ? handleHttp(request, response, path.slice('/http'.length))
+            : path.startsWith('/netlify') ? handleNetlify(request, response, path.slice('/netlify'.length))
+            : Promise.resolve(send(response, 404, { error: 'Not found' }));
+        handled.catch(error => send(response, 500, { error: String(error) }));
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    return {
+        url,
+        http,
+        netlify,
+        close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+    };
+};
@@ -0,0 +1,141 @@
+import { createServer, IncomingMessage } from 'node:http';
+import { spawn, execFileSync } from 'node:child_process';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { AddressInfo } from 'node:net';
+
+// A local git host for tests, serving bare repositories over smart HTTP through the system's
+// `git http-backend`. It runs in Node, not the browser. With `token` set, every request must
+// carry it as the Basic auth password, the way hosted remotes take access tokens.
+
+export interface MockGitServer {
+    url: string; // Repositories are served at `${url}/<name>.git`.
+    /** Creates a repository whose main branch has one commit with `files`. */
+    createRepository: (name: string, files: Record<string, string | Uint8Array>) => void;
+    /** Adds a commit with `files` to a branch of the repository, as someone else pushing would. */
+    commitFiles: (name: string, files: Record<string, string | Uint8Array>, message: string, branch?: string) => void;
+    /** The commit a branch of the repository points at. */
+    getHead: (name: string, branch?: string) => string;
+    /** The content of `path` in the latest commit of a branch. */
+    readFile: (name: string, path: string, branch?: string) => string;
+    close: () => Promise<void>;
+}
+
+export interface MockGitServerOptions {
+    token?: string;
+}
+
+const AUTHOR_ENV = {
+    GIT_AUTHOR_NAME: 'Remote',
+    GIT_AUTHOR_EMAIL: 'remote@example.com',
+    GIT_COMMITTER_NAME: 'Remote',
+    GIT_COMMITTER_EMAIL: 'remote@example.com',
+};
+
+const readBody = async (request: IncomingMessage): Promise<Buffer> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks);
+};
+
+export const startMockGitServer = async ({ token }: MockGitServerOptions = {}): Promise<MockGitServer> => {
+    const root = mkdtempSync(join(tmpdir(), 'mock-git-server-'));
+    // The user's git config must not change how the fixture behaves.
+    const gitEnv = { PATH: process.env.PATH || '', HOME: root, GIT_CONFIG_NOSYSTEM: '1', ...AUTHOR_ENV };
+    const runGit = (args: string[], cwd = root) => execFileSync('git', args, { cwd, env: gitEnv, encoding: 'utf8' }).trim();
+
+    const commitFiles: MockGitServer['commitFiles'] = (name, files, message, branch = 'main') => {
+        const work = mkdtempSync(join(root, 'work-'));
+        try {
+            runGit(['init', '--quiet', '--initial-branch', branch, work]);
+            const hasBranch = runGit(['ls-remote', '--heads', join(root, `${name}.git`), branch]) !== '';
+            if (hasBranch) {
+                runGit(['fetch', '--quiet', join(root, `${name}.git`), branch], work);
+                runGit(['reset', '--quiet', '--hard', 'FETCH_HEAD'], work);
+            }
+            for (const [path, content] of Object.entries(files)) {
+                const filePath = join(work, path);
+                mkdirSync(dirname(filePath), { recursive: true });
+                writeFileSync(filePath, content);
+            }
+            runGit(['add', '--all'], work);
+            runGit(['commit', '--quiet', '--message', message], work);
+            runGit(['push', '--quiet', join(root, `${name}.git`), `HEAD:refs/heads/${branch}`], work);
+        } finally {
+            rmSync(work, { recursive: true, force: true });
+        }
+    };
+
+    const createRepository: MockGitServer['createRepository'] = (name, files) => {
+        runGit(['init', '--quiet', '--bare', '--initial-branch', 'main', `${name}.git`]);
+        commitFiles(name, files, 'Initial commit');
+    };
+
+    const server = createServer(async (request, response) => {
+        try {
+            const [, encoded = ''] = request.headers.authorization?.match(/^Basic (.+)$/) || [];
+            const password = Buffer.from(encoded, 'base64').toString().split(':').slice(1).join(':');
+            if (token && password !== token) {
+                response.writeHead(401, { 'WWW-Authenticate': 'Basic realm="git"' });
+                response.end();
+                return;
+            }
+            const url = new URL(request.url || '/', 'http://localhost');
+            const body = await readBody(request);
+            const backend = spawn('git', ['http-backend'], {
+                env: {
+                    ...gitEnv,
+                    GIT_PROJECT_ROOT: root,
+                    GIT_HTTP_EXPORT_ALL: '1',
+                    REMOTE_USER: 'git', // Enables pushes.
+                    REQUEST_METHOD: request.method || 'GET',
+                    PATH_INFO: decodeURIComponent(url.pathname),
+                    QUERY_STRING: url.search.slice(1),
+                    CONTENT_TYPE: request.headers['content-type'] || '',
+                    CONTENT_LENGTH: String(body.byteLength),
+                },
+            });
+            const output: Buffer[] = [];
+            backend.stdout.on('data', (chunk: Buffer) => output.push(chunk));
+            backend.stdin.end(body);
+            await new Promise<void>((resolve, reject) => {
+                backend.on('error', reject);
+                backend.on('close', () => resolve());
+            });
+
+            // CGI output: headers, a blank line, then the body.
+            const raw = Buffer.concat(output);
+            const separator = raw.indexOf('\r\n\r\n');
+            const headerText = raw.subarray(0, separator).toString();
+            const headers: Record<string, string> = {};
+            let status = 200;
+            for (const line of headerText.split('\r\n')) {
+                const [key, ...rest] = line.split(':');
+                const value = rest.join(':').trim();
+                if (key.toLowerCase() === 'status') status = parseInt(value, 10);
+                else headers[key] = value;
+            }
+            response.writeHead(status, headers);
+            response.end(raw.subarray(separator + 4));
+        } catch (error) {
+            response.writeHead(500);
+            response.end(String(error));
+        }
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    return {
+        url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        createRepository,
+        commitFiles,
+        getHead: (name, branch = 'main') => runGit(['rev-parse', branch], join(root, `${name}.git`)),
+        readFile: (name, path, branch = 'main') => runGit(['show', `${branch}:${path}`], join(root, `${name}.git`)),
+        close: () => new Promise<void>((resolve, reject) => server.close(error => {
+            rmSync(root, { recursive: true, force: true });
+            if (error) reject(error);
+            else resolve();
+        })),
+    };
+};
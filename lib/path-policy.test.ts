@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { applyPathPolicy, normalizeProjectPath } from './path-policy';
+
+describe('normalizeProjectPath', () => {
+    it('returns the canonical form of a project path', () => {
+        expect(normalizeProjectPath('src\\components/./App.tsx')).toBe('/src/components/App.tsx');
+    });
+
+    it('rejects paths outside the project or in tool directories', () => {
+        expect(() => normalizeProjectPath('../secrets.txt')).toThrow('Paths must not contain ".." segments.');
+        expect(() => normalizeProjectPath('C:/Windows/win.ini')).toThrow('Only paths inside the project are allowed.');
+        expect(() => normalizeProjectPath('/.git/config')).toThrow('Files under .git are managed by tooling and cannot be changed.');
+    });
+});
+
+describe('applyPathPolicy', () => {
+    it('accepts the files of a new project and rejects the rest', () => {
+        const policy = applyPathPolicy([
+            { path: 'index.html', content: '<div id="root"></div>' },
+            { path: '/.git/hooks/post-checkout', content: 'rm -rf ~' },
+            { path: '../outside.txt', content: '' },
+            { path: '/.env', content: 'API_KEY=1' },
+        ], [], []);
+
+        expect(policy.filesToUpdate).toEqual([{ path: '/index.html', content: '<div id="root"></div>' }]);
+        expect(policy.rejected.map(op => op.path)).toEqual(['/.git/hooks/post-checkout', '../outside.txt', '/.env']);
+    });
+
+    it('keeps environment files out of edits', () => {
+        const structure = [{ name: '.env.local', type: 'file' as const, path: '/.env.local', content: 'SECRET=1' }];
+        const policy = applyPathPolicy([{ path: '/.env.example', content: 'SECRET=' }], ['/.env.local'], structure);
+
+        expect(policy.filesToUpdate.map(file => file.path)).toEqual(['/.env.example']);
+        expect(policy.rejected).toEqual([
+            { path: '/.env.local', operation: 'delete', reason: 'Environment files can hold secrets; manage variables in the Environment panel.' },
+        ]);
+    });
+});
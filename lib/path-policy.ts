@@ -0,0 +1,145 @@
+import { FileNode, RejectedOperation } from '../types';
+import { findFileByPath, isBinaryContent } from './project-utils';
+import { AiFile } from './ai';
+import { isEnvFilePath } from './env-vars';
+
+// Core items of the Vite template that can be edited but never deleted or renamed.
+export const PROTECTED_PATHS = ['/package.json', '/src', '/public', '/index.html', '/vite.config.ts'];
+
+export const MAX_AI_FILE_SIZE_BYTES = 512 * 1024;
+export const MAX_AI_FILES_PER_RESPONSE = 50;
+
+// Environment files hold secrets the AI never sees, so it must not overwrite or delete them either.
+const ENV_FILE_REASON = 'Environment files can hold secrets; manage variables in the Environment panel.';
+
+// Directories managed by tools rather than by the project's source.
+const RESERVED_DIRECTORIES = ['/node_modules', '/.git', '/dist'];
+
+export const isProtectedPath = (path: string): boolean => PROTECTED_PATHS.includes(path);
+
+/**
+ * Turns a path proposed by the AI into the project's canonical form ("/src/App.tsx"):
+ * backslashes become slashes, a leading slash is added, and "." and empty segments are
+ * dropped. Throws for paths that could escape the project or are otherwise unusable.
+ */
+export const normalizeProjectPath = (rawPath: string): string => {
+    const trimmed = rawPath.trim().replace(/\\/g, '/');
+    if (!trimmed) {
+        throw new Error('The path is empty.');
+    }
+    // eslint-disable-next-line no-control-regex -- Control characters are exactly what is rejected.
+    if (/[\u0000-\u001f]/.test(trimmed)) {
+        throw new Error('The path contains control characters.');
+    }
+    if (/^[a-zA-Z]:/.test(trimmed) || trimmed.startsWith('~')) {
+        throw new Error('Only paths inside the project are allowed.');
+    }
+
+    const segments: string[] = [];
+    for (const segment of trimmed.split('/')) {
+        if (!segment || segment === '.') continue;
+        if (segment === '..') {
+            throw new Error('Paths must not contain ".." segments.');
+        }
+        segments.push(segment);
+    }
+    if (segments.length === 0) {
+        throw new Error('The path points to the project root.');
+    }
+
+    const path = '/' + segments.join('/');
+    if (RESERVED_DIRECTORIES.some(dir => path === dir || path.startsWith(dir + '/'))) {
+        throw new Error(`Files under ${path.split('/')[1]} are managed by tooling and cannot be changed.`);
+    }
+    return path;
+};
+
+const getAncestorPaths = (path: string): string[] => {
+    const segments = path.split('/').filter(Boolean);
+    return segments.slice(0, -1).map((_, index) => '/' + segments.slice(0, index + 1).join('/'));
+};
+
+export interface PolicyResult {
+    filesToUpdate: AiFile[];
+    pathsToDelete: string[];
+    rejected: RejectedOperation[];
+}
+
+/**
+ * Checks a set of AI-proposed writes and deletes against the project: paths are normalized,
+ * environment files are off limits, protected core items and folders cannot be deleted,
+ * oversized files are refused and the number of operations per response is capped. Only the
+ * accepted operations are returned.
+ */
+export const applyPathPolicy = (filesToUpdate: AiFile[], pathsToDelete: string[], projectStructure: FileNode[]): PolicyResult => {
+    const rejected: RejectedOperation[] = [];
+    const updates = new Map<string, string>();
+    const deletes: string[] = [];
+    let operationCount = 0;
+
+    const reject = (path: string, operation: RejectedOperation['operation'], reason: string) => {
+        rejected.push({ path, operation, reason });
+    };
+
+    for (const rawPath of pathsToDelete) {
+        let path: string;
+        try {
+            path = normalizeProjectPath(rawPath);
+        } catch (error) {
+            reject(rawPath, 'delete', (error as Error).message);
+            continue;
+        }
+        const node = findFileByPath(projectStructure, path);
+        if (isProtectedPath(path)) {
+            reject(path, 'delete', 'This is a core project item and cannot be deleted.');
+        } else if (isEnvFilePath(path)) {
+            reject(path, 'delete', ENV_FILE_REASON);
+        } else if (!node) {
+            reject(path, 'delete', 'The file does not exist.');
+        } else if (node.type === 'folder') {
+            reject(path, 'delete', 'Folders cannot be deleted by the AI; delete the files inside instead.');
+        } else if (operationCount >= MAX_AI_FILES_PER_RESPONSE) {
+            reject(path, 'delete', `A single response may change at most ${MAX_AI_FILES_PER_RESPONSE} files.`);
+        } else if (!deletes.includes(path)) {
+            deletes.push(path);
+            operationCount++;
+        }
+    }
+
+    for (const file of filesToUpdate) {
+        let path: string;
+        try {
+            path = normalizeProjectPath(file.path);
+        } catch (error) {
+            reject(file.path, 'update', (error as Error).message);
+            continue;
+        }
+        const node = findFileByPath(projectStructure, path);
+        const size = new Blob([file.content]).size;
+        const fileAncestor = getAncestorPaths(path).find(ancestor => findFileByPath(projectStructure, ancestor)?.type === 'file');
+        if (isEnvFilePath(path)) {
+            reject(path, 'update', ENV_FILE_REASON);
+        } else if (node?.type === 'folder') {
+            reject(path, 'update', 'A folder with this path already exists.');
+        } else if (node && isBinaryContent(node.content)) {
+            reject(path, 'update', 'This is a binary file and cannot be replaced with text.');
+        } else if (fileAncestor) {
+            reject(path, 'update', `${fileAncestor} is a file, not a folder.`);
+        } else if (size > MAX_AI_FILE_SIZE_BYTES) {
+            reject(path, 'update', `The file is ${Math.round(size / 1024)} KB; the limit is ${MAX_AI_FILE_SIZE_BYTES / 1024} KB.`);
+        } else if (deletes.includes(path)) {
+            reject(path, 'update', 'The same response also deletes this file.');
+        } else if (!updates.has(path) && operationCount >= MAX_AI_FILES_PER_RESPONSE) {
+            reject(path, 'update', `A single response may change at most ${MAX_AI_FILES_PER_RESPONSE} files.`);
+        } else {
+            if (!updates.has(path)) operationCount++;
+            updates.set(path, file.content);
+        }
+    }
+
+    return {
+        filesToUpdate: Array.from(updates, ([path, content]) => ({ path, content })),
+        pathsToDelete: deletes,
+        rejected,
+    };
+};
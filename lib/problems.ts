@@ -0,0 +1,57 @@
+// Diagnostics from the editor's language services, collected for the whole project rather
+// than only the open file.
+
+export type ProblemSeverity = 'error' | 'warning' | 'info';
+
+export interface Problem {
+    path: string;
+    line: number; // 1-based, like Monaco positions.
+    column: number;
+    endLine?: number; // Where the reporting service gives a range.
+    endColumn?: number;
+    message: string;
+    code: string; // e.g. "TS2304", or an ESLint rule id.
+    severity: ProblemSeverity;
+    source: string; // The service that reported it, e.g. "typescript".
+}
+
+export interface ProblemCounts {
+    errors: number;
+    warnings: number;
+}
+
+const SEVERITY_ORDER: Record<ProblemSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+export const countProblems = (problems: Problem[]): ProblemCounts => ({
+    errors: problems.filter(problem => problem.severity === 'error').length,
+    warnings: problems.filter(problem => problem.severity === 'warning').length,
+});
+
+/** Problems grouped by file, most severe files first, each file's problems in line order. */
+export const groupProblemsByPath = (problems: Problem[]): { path: string; problems: Problem[]; counts: ProblemCounts }[] => {
+    const groups = new Map<string, Problem[]>();
+    for (const problem of problems) {
+        groups.set(problem.path, [...(groups.get(problem.path) || []), problem]);
+    }
+    return Array.from(groups, ([path, fileProblems]) => ({
+        path,
+        problems: [...fileProblems].sort((a, b) => a.line - b.line || a.column - b.column || SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]),
+        counts: countProblems(fileProblems),
+    })).sort((a, b) => b.counts.errors - a.counts.errors || b.counts.warnings - a.counts.warnings || a.path.localeCompare(b.path));
+};
+
+/** Counts per file and per ancestor folder, so a collapsed folder still shows what is inside it. */
+export const getProblemCountsByPath = (problems: Problem[]): Record<string, ProblemCounts> => {
+    const counts: Record<string, ProblemCounts> = {};
+    for (const problem of problems) {
+        if (problem.severity === 'info') continue;
+        const segments = problem.path.split('/');
+        for (let i = 2; i <= segments.length; i++) {
+            const path = segments.slice(0, i).join('/');
+            counts[path] = counts[path] || { errors: 0, warnings: 0 };
+            if (problem.severity === 'error') counts[path].errors++;
+            else counts[path].warnings++;
+        }
+    }
+    return counts;
+};
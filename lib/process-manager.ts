@@ -0,0 +1,111 @@
+import { WebContainer, WebContainerProcess } from '@webcontainer/api';
+
+export type WebContainerStatus = 'booting' | 'installing' | 'starting-server' | 'ready' | 'error' | 'idle';
+
+export interface ProcessManagerOptions {
+    getEnv: () => Record<string, string>; // Read on every spawn, so changes apply to the next start.
+    onOutput: (data: string) => void;
+    // Reports every transition except 'ready', which the caller sets when the server announces itself.
+    onStatus: (status: WebContainerStatus, message: string) => void;
+    onError: (error: unknown) => void;
+}
+
+export interface ProcessManager {
+    start: () => Promise<void>; // npm install, then the dev server.
+    stop: () => void;
+    restartServer: () => Promise<void>;
+    reinstall: () => Promise<void>;
+    cleanInstall: () => Promise<void>; // Removes node_modules first.
+    isServerRunning: () => boolean;
+}
+
+/**
+ * Owns the install and dev server processes of a WebContainer. Only one lifecycle operation
+ * runs at a time: starting a new one kills the processes of the previous one, which then
+ * stops at its next step without reporting anything.
+ */
+export const createProcessManager = (wc: WebContainer, options: ProcessManagerOptions): ProcessManager => {
+    let installProcess: WebContainerProcess | null = null;
+    let serverProcess: WebContainerProcess | null = null;
+    let generation = 0;
+
+    const spawn = async (command: string, args: string[]): Promise<WebContainerProcess> => {
+        const process = await wc.spawn(command, args, { env: options.getEnv() });
+        process.output.pipeTo(new WritableStream({ write: options.onOutput }));
+        return process;
+    };
+
+    const killAll = () => {
+        installProcess?.kill();
+        installProcess = null;
+        serverProcess?.kill();
+        serverProcess = null;
+    };
+
+    // Resolves to false if the operation was superseded while npm ran.
+    const runInstall = async (run: number, args: string[]): Promise<boolean> => {
+        options.onStatus('installing', `Running npm ${args.join(' ')}...`);
+        const process = await spawn('npm', args);
+        if (run !== generation) {
+            process.kill();
+            return false;
+        }
+        installProcess = process;
+        const exitCode = await process.exit;
+        if (installProcess === process) installProcess = null;
+        if (run !== generation) return false;
+        if (exitCode !== 0) {
+            throw new Error(`Installation failed with exit code: ${exitCode}`);
+        }
+        return true;
+    };
+
+    const runServer = async (run: number): Promise<void> => {
+        options.onStatus('starting-server', 'Starting development server...');
+        const process = await spawn('npm', ['run', 'dev']);
+        if (run !== generation) {
+            process.kill();
+            return;
+        }
+        serverProcess = process;
+        process.exit.then(exitCode => {
+            if (serverProcess !== process) return; // Stopped or replaced on purpose.
+            serverProcess = null;
+            options.onStatus('error', `The dev server exited with code ${exitCode}.`);
+        });
+    };
+
+    const operation = (steps: (run: number) => Promise<void>) => async (): Promise<void> => {
+        killAll();
+        const run = ++generation;
+        try {
+            await steps(run);
+        } catch (error: unknown) {
+            if (run === generation) options.onError(error);
+        }
+    };
+
+    const installAndServe = operation(async run => {
+        if (await runInstall(run, ['install'])) await runServer(run);
+    });
+
+    return {
+        start: installAndServe,
+        stop: () => {
+            killAll();
+            generation++;
+            options.onStatus('idle', 'The dev server is stopped.');
+        },
+        restartServer: operation(runServer),
+        reinstall: installAndServe,
+        cleanInstall: operation(async run => {
+            options.onStatus('installing', 'Removing node_modules...');
+            await wc.fs.rm('/node_modules', { recursive: true, force: true });
+            // `npm ci` installs exactly what the lockfile lists; without one, a plain install has to resolve versions.
+            const hasLockfile = await wc.fs.readFile('/package-lock.json').then(() => true, () => false);
+            if (run !== generation) return;
+            if (await runInstall(run, hasLockfile ? ['ci'] : ['install'])) await runServer(run);
+        }),
+        isServerRunning: () => serverProcess !== null,
+    };
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { Project } from '../App';
+import { parseProjectExport, serializeProjectExport } from './project-export';
+
+const createProject = (): Project => ({
+    id: 'proj_1',
+    name: 'App',
+    description: 'A project.',
+    structure: [
+        { name: 'index.html', type: 'file', path: '/index.html', content: '<div id="root"></div>' },
+        { name: 'logo.png', type: 'file', path: '/logo.png', content: new Uint8Array([137, 80, 78, 71, 0, 255]) },
+    ],
+    lastModified: 1,
+    git: { '/.git/HEAD': new TextEncoder().encode('ref: refs/heads/main\n') },
+    aiSettings: { provider: 'gemini', model: 'gemini-2.5-flash', apiKey: 'secret' },
+    env: { development: [{ key: 'TOKEN', value: 'secret', isSecret: true }], build: [] },
+});
+
+describe('project export', () => {
+    it('writes binary content as base64', () => {
+        const json = serializeProjectExport(createProject());
+        expect(json).toContain('"$base64": "iVBORwD/"');
+        expect(json).not.toContain('"0": 137');
+    });
+
+    it('reads back binary files and the repository', () => {
+        const imported = parseProjectExport(serializeProjectExport(createProject()));
+        expect(imported.structure?.[1].content).toEqual(new Uint8Array([137, 80, 78, 71, 0, 255]));
+        expect(new TextDecoder().decode(imported.git?.['/.git/HEAD'])).toBe('ref: refs/heads/main\n');
+        expect(imported.aiSettings).toEqual({ provider: 'gemini', model: 'gemini-2.5-flash' });
+    });
+
+    it('leaves secrets out', () => {
+        const json = serializeProjectExport(createProject());
+        expect(json).not.toContain('secret');
+    });
+
+    it('rejects files that are not project exports', () => {
+        expect(() => parseProjectExport('{"name": "App"}')).toThrow('The file is not a project export.');
+        expect(() => parseProjectExport('not json')).toThrow('The file is not valid JSON.');
+    });
+});
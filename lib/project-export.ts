@@ -0,0 +1,80 @@
+import { Project } from '../App';
+import { AiProviderSettings } from './ai-providers';
+import { DeploySettings } from './deploy';
+
+// The JSON export of a project. It is built from an allowlist rather than by removing fields, so a
+// field added to `Project` later is left out until someone decides it is safe to share. Provider
+// keys, deploy tokens and environment variables never leave the browser this way. Deploy history
+// is left out too: it describes this browser's deploys, whose artifacts are stored here.
+
+// The provider and model travel with the project; the key belongs to whoever set it.
+const withoutApiKey = ({ apiKey, ...settings }: AiProviderSettings): AiProviderSettings => settings;
+
+// The target is kept, so a deploy only needs the token again.
+const withoutAuthValue = ({ authValue, ...settings }: DeploySettings): DeploySettings => settings;
+
+/** The project as written to an exported JSON file. */
+export const createProjectExport = (project: Project): Partial<Project> => ({
+    id: project.id,
+    name: project.name,
+    description: project.description,
+    structure: project.structure,
+    lastModified: project.lastModified,
+    conversation: project.conversation,
+    aiSettings: project.aiSettings && withoutApiKey(project.aiSettings),
+    git: project.git,
+    deploySettings: project.deploySettings && withoutAuthValue(project.deploySettings),
+});
+
+// JSON has no binary type, and `JSON.stringify` would write a Uint8Array as an object with one key
+// per byte. Binary files and the repository are written as `{ "$base64": "..." }` instead.
+const BINARY_KEY = '$base64';
+
+const encodeBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    // Chunked, since spreading a large array into one call overflows the stack.
+    for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const decodeBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const replaceBinary = (_key: string, value: unknown): unknown =>
+    value instanceof Uint8Array ? { [BINARY_KEY]: encodeBase64(value) } : value;
+
+const reviveBinary = (_key: string, value: unknown): unknown => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return value;
+    const keys = Object.keys(value);
+    const encoded = (value as Record<string, unknown>)[BINARY_KEY];
+    return keys.length === 1 && typeof encoded === 'string' ? decodeBase64(encoded) : value;
+};
+
+export const serializeProjectExport = (project: Project): string => JSON.stringify(createProjectExport(project), replaceBinary, 2);
+
+/**
+ * Reads a file written by `serializeProjectExport`. Only the exported fields are taken over;
+ * the caller gives the project a new ID.
+ */
+export const parseProjectExport = (json: string): Partial<Project> => {
+    let data: unknown;
+    try {
+        data = JSON.parse(json, reviveBinary);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    const exported = data as Partial<Project> | null;
+    if (!exported || typeof exported !== 'object' || !Array.isArray(exported.structure)) {
+        throw new Error('The file is not a project export.');
+    }
+    return {
+        name: exported.name,
+        description: exported.description,
+        structure: exported.structure,
+        conversation: exported.conversation,
+        aiSettings: exported.aiSettings,
+        git: exported.git,
+        deploySettings: exported.deploySettings,
+    };
+};
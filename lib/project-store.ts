@@ -0,0 +1,313 @@
+import { FileNode } from '../types';
+import { Project } from '../App';
+import { isSameFileContent } from './project-utils';
+import { GitData } from './git';
+
+const DB_NAME = 'codematic';
+const DB_VERSION = 4;
+const PROJECTS_STORE = 'projects';
+const FILES_STORE = 'files';
+const GIT_STORE = 'git'; // Contents of each project's .git directory, added in version 2.
+const DEPLOYS_STORE = 'deploys'; // Build output of past deploys, for rollback. Added in version 3.
+const TYPES_STORE = 'types'; // Type declarations of npm packages by name@version, shared by all projects. Added in version 4.
+
+const MAX_CACHED_TYPE_PACKAGES = 300;
+
+// Projects used to be saved as one JSON blob under this key.
+const LEGACY_STORAGE_KEY = 'codematic_projects';
+
+type FileContent = string | Uint8Array;
+
+interface TreeEntry {
+    path: string;
+    type: FileNode['type'];
+}
+
+// Everything about a project except file and repository contents. `entries` lists every file and folder
+// in tree order, so empty folders and the original ordering survive a reload.
+interface ProjectRecord extends Omit<Project, 'structure' | 'git'> {
+    entries: TreeEntry[];
+}
+
+interface DeployArtifactRecord {
+    projectId: string;
+    deployId: string;
+    files: Map<string, Uint8Array>;
+}
+
+interface PackageTypesRecord {
+    id: string; // name@version
+    files: Map<string, string>;
+    usedAt: number;
+}
+
+interface FileRecord {
+    projectId: string;
+    path: string;
+    content: FileContent;
+}
+
+export interface StorageEstimate {
+    usage: number; // Bytes used by this origin.
+    quota: number; // Bytes the browser allows this origin to use.
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+// Contents as last written for each project, so a save only touches files that changed.
+const savedContents = new Map<string, Map<string, FileContent>>();
+const savedGitData = new Map<string, GitData | undefined>();
+const latestSaves = new Map<string, Project>();
+const saveChains = new Map<string, Promise<void>>();
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error || new Error('The storage transaction was aborted.'));
+    });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+        databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available in this browser.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+                    db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(FILES_STORE)) {
+                    db.createObjectStore(FILES_STORE, { keyPath: ['projectId', 'path'] });
+                }
+                if (!db.objectStoreNames.contains(GIT_STORE)) {
+                    db.createObjectStore(GIT_STORE, { keyPath: ['projectId', 'path'] });
+                }
+                if (!db.objectStoreNames.contains(DEPLOYS_STORE)) {
+                    db.createObjectStore(DEPLOYS_STORE, { keyPath: ['projectId', 'deployId'] });
+                }
+                if (!db.objectStoreNames.contains(TYPES_STORE)) {
+                    db.createObjectStore(TYPES_STORE, { keyPath: 'id' }).createIndex('usedAt', 'usedAt');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+            request.onblocked = () => reject(new Error('Project storage is blocked by another open tab.'));
+        });
+        // Allow a later call to retry if opening failed.
+        databasePromise.catch(() => { databasePromise = null; });
+    }
+    return databasePromise;
+};
+
+// Every file, git or deploy record of a project, using its [projectId, path or deployId] primary key.
+const projectFilesRange = (projectId: string): IDBKeyRange =>
+    IDBKeyRange.bound([projectId, ''], [projectId, '\uffff']);
+
+const flattenStructure = (nodes: FileNode[]): { entries: TreeEntry[]; files: Map<string, FileContent> } => {
+    const entries: TreeEntry[] = [];
+    const files = new Map<string, FileContent>();
+    const walk = (items: FileNode[]) => {
+        for (const item of items) {
+            entries.push({ path: item.path, type: item.type });
+            if (item.type === 'file') {
+                files.set(item.path, item.content ?? '');
+            } else if (item.children) {
+                walk(item.children);
+            }
+        }
+    };
+    walk(nodes);
+    return { entries, files };
+};
+
+const buildStructure = (entries: TreeEntry[], files: Map<string, FileContent>): FileNode[] => {
+    const root: FileNode[] = [];
+    const folders = new Map<string, FileNode>();
+    for (const { path, type } of entries) {
+        const parentPath = path.substring(0, path.lastIndexOf('/'));
+        const siblings = parentPath ? folders.get(parentPath)?.children : root;
+        if (!siblings) continue; // Parent missing; the record is inconsistent.
+        const node: FileNode = type === 'folder'
+            ? { name: path.split('/').pop() || path, type, path, children: [] }
+            : { name: path.split('/').pop() || path, type, path, content: files.get(path) ?? '' };
+        if (type === 'folder') folders.set(path, node);
+        siblings.push(node);
+    }
+    return root;
+};
+
+// Brings the records of one project in `store` in line with `contents`. Without knowledge
+// of what was written before, all of the project's records are replaced.
+const writeRecords = (store: IDBObjectStore, projectId: string, previous: Map<string, FileContent> | undefined, contents: Map<string, FileContent>) => {
+    if (!previous) {
+        store.delete(projectFilesRange(projectId));
+    } else {
+        for (const path of previous.keys()) {
+            if (!contents.has(path)) store.delete([projectId, path]);
+        }
+    }
+    for (const [path, content] of contents) {
+        if (previous && isSameFileContent(previous.get(path), content)) continue;
+        const fileRecord: FileRecord = { projectId, path, content };
+        store.put(fileRecord);
+    }
+};
+
+const writeProject = async (project: Project): Promise<void> => {
+    const db = await openDatabase();
+    const { structure, git: gitData, ...metadata } = project;
+    const { entries, files } = flattenStructure(structure);
+    // The repository only changes on git operations, so it is skipped while it is untouched.
+    const isGitChanged = !savedGitData.has(project.id) || savedGitData.get(project.id) !== gitData;
+
+    const transaction = db.transaction([PROJECTS_STORE, FILES_STORE, GIT_STORE], 'readwrite');
+    const record: ProjectRecord = { ...metadata, entries };
+    transaction.objectStore(PROJECTS_STORE).put(record);
+    writeRecords(transaction.objectStore(FILES_STORE), project.id, savedContents.get(project.id), files);
+    if (isGitChanged) {
+        const previousGit = savedGitData.get(project.id);
+        writeRecords(
+            transaction.objectStore(GIT_STORE),
+            project.id,
+            savedGitData.has(project.id) ? new Map(Object.entries(previousGit || {})) : undefined,
+            new Map(Object.entries(gitData || {}))
+        );
+    }
+
+    await transactionDone(transaction);
+    savedContents.set(project.id, files);
+    savedGitData.set(project.id, gitData);
+};
+
+const readProject = async (db: IDBDatabase, record: ProjectRecord): Promise<Project> => {
+    const transaction = db.transaction([FILES_STORE, GIT_STORE], 'readonly');
+    const [fileRecords, gitRecords] = await Promise.all([
+        requestToPromise<FileRecord[]>(transaction.objectStore(FILES_STORE).getAll(projectFilesRange(record.id))),
+        requestToPromise<FileRecord[]>(transaction.objectStore(GIT_STORE).getAll(projectFilesRange(record.id))),
+    ]);
+    const files = new Map(fileRecords.map(file => [file.path, file.content]));
+    const gitData: GitData | undefined = gitRecords.length > 0
+        ? Object.fromEntries(gitRecords.map(file => [file.path, file.content as Uint8Array]))
+        : undefined;
+    savedContents.set(record.id, files);
+    savedGitData.set(record.id, gitData);
+
+    const { entries, ...metadata } = record;
+    return { ...metadata, structure: buildStructure(entries, files), git: gitData };
+};
+
+// Moves projects saved by older versions out of localStorage. The legacy key is only
+// removed once every project has been written, so a failure leaves the data in place.
+const migrateLegacyProjects = async (): Promise<void> => {
+    const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!saved) return;
+    const legacyProjects: Project[] = JSON.parse(saved);
+    for (const project of legacyProjects) {
+        await writeProject(project);
+    }
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+/** Loads every stored project, migrating data from localStorage on first use. */
+export const loadProjects = async (): Promise<Project[]> => {
+    const db = await openDatabase();
+    await migrateLegacyProjects();
+    const transaction = db.transaction(PROJECTS_STORE, 'readonly');
+    const records = await requestToPromise<ProjectRecord[]>(transaction.objectStore(PROJECTS_STORE).getAll());
+    return Promise.all(records.map(record => readProject(db, record)));
+};
+
+/**
+ * Persists a project. Saves of the same project run one after another, and a save that
+ * is superseded by a newer one before it starts is skipped.
+ */
+export const saveProject = (project: Project): Promise<void> => {
+    latestSaves.set(project.id, project);
+    const chain = (saveChains.get(project.id) || Promise.resolve())
+        .catch(() => undefined)
+        .then(() => (latestSaves.get(project.id) === project ? writeProject(project) : undefined));
+    saveChains.set(project.id, chain);
+    return chain;
+};
+
+export const deleteProject = async (projectId: string): Promise<void> => {
+    latestSaves.delete(projectId);
+    await (saveChains.get(projectId) || Promise.resolve()).catch(() => undefined);
+    saveChains.delete(projectId);
+
+    const db = await openDatabase();
+    const transaction = db.transaction([PROJECTS_STORE, FILES_STORE, GIT_STORE, DEPLOYS_STORE], 'readwrite');
+    transaction.objectStore(PROJECTS_STORE).delete(projectId);
+    transaction.objectStore(FILES_STORE).delete(projectFilesRange(projectId));
+    transaction.objectStore(GIT_STORE).delete(projectFilesRange(projectId));
+    transaction.objectStore(DEPLOYS_STORE).delete(projectFilesRange(projectId));
+    await transactionDone(transaction);
+    savedContents.delete(projectId);
+    savedGitData.delete(projectId);
+};
+
+/** Stores the output of a deploy and removes that of deploys no longer in `keepDeployIds`. */
+export const saveDeployArtifact = async (projectId: string, deployId: string, files: Map<string, Uint8Array>, keepDeployIds: string[]): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(DEPLOYS_STORE, 'readwrite');
+    const store = transaction.objectStore(DEPLOYS_STORE);
+    const keys = await requestToPromise(store.getAllKeys(projectFilesRange(projectId)));
+    for (const key of keys) {
+        const [, storedId] = key as [string, string];
+        if (!keepDeployIds.includes(storedId)) store.delete(key);
+    }
+    const record: DeployArtifactRecord = { projectId, deployId, files };
+    store.put(record);
+    await transactionDone(transaction);
+};
+
+/** The stored output of a deploy, or null if it was never stored or has been pruned. */
+export const loadDeployArtifact = async (projectId: string, deployId: string): Promise<Map<string, Uint8Array> | null> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(DEPLOYS_STORE, 'readonly');
+    const record = await requestToPromise<DeployArtifactRecord | undefined>(transaction.objectStore(DEPLOYS_STORE).get([projectId, deployId]));
+    return record ? record.files : null;
+};
+
+/** Caches the type declarations of one package version, evicting the least recently used packages beyond the limit. */
+export const savePackageTypes = async (id: string, files: Map<string, string>): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(TYPES_STORE, 'readwrite');
+    const store = transaction.objectStore(TYPES_STORE);
+    const record: PackageTypesRecord = { id, files, usedAt: Date.now() };
+    store.put(record);
+    const count = await requestToPromise(store.count());
+    if (count > MAX_CACHED_TYPE_PACKAGES) {
+        const oldestKeys = await requestToPromise(store.index('usedAt').getAllKeys(null, count - MAX_CACHED_TYPE_PACKAGES));
+        for (const key of oldestKeys) store.delete(key);
+    }
+    await transactionDone(transaction);
+};
+
+/** The cached type declarations of a package version, or null if they were never cached or have been evicted. */
+export const loadPackageTypes = async (id: string): Promise<Map<string, string> | null> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(TYPES_STORE, 'readwrite');
+    const store = transaction.objectStore(TYPES_STORE);
+    const record = await requestToPromise<PackageTypesRecord | undefined>(store.get(id));
+    if (record) store.put({ ...record, usedAt: Date.now() });
+    await transactionDone(transaction);
+    return record ? record.files : null;
+};
+
+/** Storage used and available for this origin, or null if the browser does not report it. */
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+    if (!navigator.storage?.estimate) return null;
+    const { usage, quota } = await navigator.storage.estimate();
+    return usage !== undefined && quota !== undefined ? { usage, quota } : null;
+};
@@ -2,6 +2,7 @@
 
 import { FileNode, SearchResult, SearchMatch } from '../types';
 import JSZip from 'jszip';
+import type { FileSystemTree } from '@webcontainer/api';
 import { AiFile } from './ai';
 
 export const FILE_ICONS: { [key: string]: string } = {
@@ -20,6 +21,36 @@ export const FILE_ICONS: { [key: string]: string } = {
   ico: 'image',
 };
 
+// Files with these extensions are stored as raw bytes rather than text.
+const BINARY_FILE_EXTENSIONS = new Set([
+  'png', 'jpg', 'jpeg', 'gif', 'webp', 'avif', 'bmp', 'ico',
+  'woff', 'woff2', 'ttf', 'otf', 'eot',
+  'mp3', 'mp4', 'wav', 'ogg', 'webm',
+  'pdf', 'zip', 'gz', 'wasm',
+]);
+
+export const isBinaryFileName = (fileName: string): boolean =>
+    BINARY_FILE_EXTENSIONS.has(fileName.split('.').pop()?.toLowerCase() || '');
+
+export const isBinaryContent = (content: FileNode['content']): content is Uint8Array => content instanceof Uint8Array;
+
+/** The text of a file, or an empty string for folders and binary files. */
+export const getTextContent = (node: FileNode | null | undefined): string =>
+    typeof node?.content === 'string' ? node.content : '';
+
+export const getContentSize = (content: FileNode['content']): number => {
+    if (content === undefined) return 0;
+    return isBinaryContent(content) ? content.byteLength : new Blob([content]).size;
+};
+
+export const isSameFileContent = (a: FileNode['content'], b: FileNode['content']): boolean => {
+    if (!isBinaryContent(a) || !isBinaryContent(b)) return a === b;
+    return a.byteLength === b.byteLength && a.every((byte, index) => byte === b[index]);
+};
+
+// structuredClone rather than a JSON round trip, so binary contents survive.
+export const cloneStructure = (nodes: FileNode[]): FileNode[] => structuredClone(nodes);
+
 const VITE_INDEX_HTML = `<!doctype html>
 <html lang="en">
   <head>
@@ -301,8 +332,8 @@ export const findFileByPath = (nodes: FileNode[], path: string): FileNode | null
     return null;
 };
 
-export const addOrUpdateFileByPath = (nodes: FileNode[], path: string, newContent: string): FileNode[] => {
-    const newStructure = JSON.parse(JSON.stringify(nodes)) as FileNode[];
+export const addOrUpdateFileByPath = (nodes: FileNode[], path: string, newContent: string | Uint8Array): FileNode[] => {
+    const newStructure = cloneStructure(nodes);
     const pathParts = path.split('/').filter(p => p);
     const fileName = pathParts.pop();
 
@@ -407,7 +438,7 @@ export const findMentionedFiles = (prompt: string, projectFiles: FileNode[]): Fi
 };
 
 export const addNodeToTree = (nodes: FileNode[], parentPath: string, nodeName: string, type: 'file' | 'folder'): FileNode[] => {
-    const newStructure = JSON.parse(JSON.stringify(nodes));
+    const newStructure = cloneStructure(nodes);
     const newNodePath = parentPath === '/' ? `/${nodeName}` : `${parentPath}/${nodeName}`;
 
     if (findFileByPath(newStructure, newNodePath)) {
@@ -432,7 +463,7 @@ export const addNodeToTree = (nodes: FileNode[], parentPath: string, nodeName: s
     return newStructure;
 };
 
-export const addFileToTree = (nodes: FileNode[], parentPath: string, file: { name: string; content: string }): FileNode[] => {
+export const addFileToTree = (nodes: FileNode[], parentPath: string, file: { name: string; content: string | Uint8Array }): FileNode[] => {
     const filePath = parentPath === '/' ? `/${file.name}` : `${parentPath}/${file.name}`;
     return addOrUpdateFileByPath(nodes, filePath, file.content);
 };
@@ -443,12 +474,12 @@ export const searchInProject = (nodes: FileNode[], query: string, options: { isC
     const results: SearchResult[] = [];
     let regex: RegExp;
     try {
-        let pattern = options.isRegex ? query : query.replace(/[-\/\\^$*+?.()|[\]{}]/g, '\\$&');
+        let pattern = options.isRegex ? query : query.replace(/[-/\\^$*+?.()|[\]{}]/g, '\\$&');
         if (!options.isRegex && options.isWholeWord) {
             pattern = `\\b${pattern}\\b`;
         }
         regex = new RegExp(pattern, options.isCaseSensitive ? 'g' : 'gi');
-    } catch (e) {
+    } catch {
         return [];
     }
     
@@ -511,67 +542,16 @@ export const getLanguageForFile = (fileName: string): string => {
     }
 };
 
-export const projectStructureToWebContainerFiles = (nodes: FileNode[]): any => {
-    const root: any = {};
-    const buildTree = (currentNodes: FileNode[], parentDir: any) => {
-        for (const node of currentNodes) {
-            const nodeName = node.name;
-            if (node.type === 'file') {
-                parentDir[nodeName] = {
-                    file: {
-                        contents: node.content || ''
-                    }
-                };
-            } else if (node.type === 'folder') {
-                parentDir[nodeName] = {
-                    directory: {}
-                };
-                if (node.children) {
-                    buildTree(node.children, parentDir[nodeName].directory);
-                }
-            }
+export const projectStructureToWebContainerFiles = (nodes: FileNode[]): FileSystemTree => {
+    const tree: FileSystemTree = {};
+    for (const node of nodes) {
+        if (node.type === 'file') {
+            tree[node.name] = { file: { contents: node.content || '' } };
+        } else {
+            tree[node.name] = { directory: projectStructureToWebContainerFiles(node.children || []) };
         }
-    };
-    buildTree(nodes, root);
-    return root;
-};
-
-export const formatProjectStructureForAI = (nodes: FileNode[]): string => {
-    let structureString = 'This is the current project structure and content:\n\n';
-
-    const buildString = (fileNodes: FileNode[], indent: string) => {
-        fileNodes.sort((a, b) => {
-            if (a.type === b.type) return a.name.localeCompare(b.name);
-            return a.type === 'folder' ? -1 : 1;
-        }).forEach(node => {
-            if (node.type === 'folder') {
-                structureString += `${indent}📁 ${node.name}/\n`;
-                if (node.children) {
-                    buildString(node.children, indent + '  ');
-                }
-            } else {
-                 structureString += `${indent}📄 ${node.name}\n`;
-            }
-        });
-    };
-    
-    const addFileContents = (fileNodes: FileNode[]) => {
-      fileNodes.forEach(node => {
-          if (node.type === 'file') {
-              structureString += `\n--- START OF FILE: ${node.path} ---\n`;
-              structureString += `${node.content || ''}\n`;
-              structureString += `--- END OF FILE: ${node.path} ---\n`;
-          } else if (node.type === 'folder' && node.children) {
-              addFileContents(node.children);
-          }
-      });
-    };
-
-    buildString(nodes, '');
-    structureString += '\n--- FILE CONTENTS ---\n';
-    addFileContents(nodes);
-
-    return structureString;
+    }
+    return tree;
 };
 
 export const getAllPaths = (nodes: FileNode[]): string[] => {
@@ -588,6 +568,23 @@ export const getAllPaths = (nodes: FileNode[]): string[] => {
     return paths;
 };
 
+/** Content of every text file by path. Binary files are left out. */
+export const getTextFiles = (nodes: FileNode[]): Map<string, string> => {
+    const files = new Map<string, string>();
+    const walk = (items: FileNode[]) => {
+        for (const item of items) {
+            if (item.type === 'file' && typeof item.content === 'string') {
+                files.set(item.path, item.content);
+            }
+            if (item.children) {
+                walk(item.children);
+            }
+        }
+    };
+    walk(nodes);
+    return files;
+};
+
 
 export const unzipAndParse = async (zipFile: File): Promise<FileNode[]> => {
     const zip = await JSZip.loadAsync(zipFile);
@@ -627,7 +624,7 @@ export const unzipAndParse = async (zipFile: File): Promise<FileNode[]> => {
         }
 
         const fileName = pathParts[pathParts.length - 1];
-        const fileContent = await zipEntry.async('string');
+        const fileContent = isBinaryFileName(relativePath) ? await zipEntry.async('uint8array') : await zipEntry.async('string');
         const filePath = `/${relativePath}`;
         
         parentCollection.push({
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import { getPrimaryProject, isIncludedInProject, loadTsConfig, parseJsonc, TsConfigProject } from './tsconfig';
+import { toCompilerOptions } from './typescript-project';
+
+// The solution-style setup of Vite's React template: a root with `"files": []` that references
+// one config for the app and one for vite.config.ts.
+const VITE_TEMPLATE_FILES = new Map([
+    ['/tsconfig.json', `{
+        "files": [],
+        "references": [{ "path": "./tsconfig.app.json" }, { "path": "./tsconfig.node.json" }]
+    }`],
+    ['/tsconfig.base.json', `{
+        "compilerOptions": {
+            "target": "ES2020",
+            "lib": ["ES2020", "DOM", "DOM.Iterable"],
+            "moduleResolution": "bundler",
+            "strict": true,
+        },
+    }`],
+    ['/tsconfig.app.json', `{
+        // Options of the base config apply unless overridden here.
+        "extends": "./tsconfig.base.json",
+        "compilerOptions": { "jsx": "react-jsx", "strict": false, "paths": { "@/*": ["./src/*"] } },
+        "include": ["src"],
+        "exclude": ["src/**/*.test.ts"]
+    }`],
+    ['/tsconfig.node.json', `{
+        "extends": "./tsconfig.base.json",
+        "compilerOptions": { "lib": ["ES2023"], "types": ["node"] },
+        "include": ["vite.config.ts"]
+    }`],
+]);
+
+const project = (overrides: Partial<TsConfigProject>): TsConfigProject => ({
+    configPath: '/tsconfig.json',
+    compilerOptions: {},
+    files: null,
+    include: ['/**/*'],
+    exclude: [],
+    ...overrides,
+});
+
+describe('parseJsonc', () => {
+    it('accepts comments and trailing commas', () => {
+        const text = `{
+            // Line comment
+            "compilerOptions": { "strict": true, /* block */ },
+            "include": ["src",],
+        }`;
+        expect(parseJsonc(text)).toEqual({ compilerOptions: { strict: true }, include: ['src'] });
+    });
+
+    it('keeps commas and comment markers inside strings', () => {
+        const text = '{ "a": "x,}", "b": "[1,]", "c": "//not a comment", "d": "say \\",]\\"" }';
+        expect(parseJsonc(text)).toEqual({ a: 'x,}', b: '[1,]', c: '//not a comment', d: 'say ",]"' });
+    });
+});
+
+describe('loadTsConfig', () => {
+    it('follows extends and references', () => {
+        const { projects, problems } = loadTsConfig(VITE_TEMPLATE_FILES);
+
+        expect(problems).toEqual([]);
+        expect(projects.map(entry => entry.configPath)).toEqual(['/tsconfig.json', '/tsconfig.app.json', '/tsconfig.node.json']);
+        const [root, app, node] = projects;
+        expect(root).toMatchObject({ files: [], include: [] });
+        expect(app).toMatchObject({
+            compilerOptions: { target: 'ES2020', moduleResolution: 'bundler', strict: false, jsx: 'react-jsx', pathsBasePath: '/' },
+            include: ['/src'],
+            exclude: ['/src/**/*.test.ts'],
+        });
+        expect(node).toMatchObject({
+            compilerOptions: { target: 'ES2020', lib: ['ES2023'], types: ['node'], strict: true },
+            include: ['/vite.config.ts'],
+            exclude: ['/node_modules', '/bower_components', '/jspm_packages'],
+        });
+    });
+
+    it('reports references and extends it cannot follow', () => {
+        const files = new Map([
+            ['/tsconfig.json', '{ "extends": "@tsconfig/strictest/tsconfig.json", "references": [{ "path": "./tsconfig.missing.json" }] }'],
+        ]);
+        const { projects, problems } = loadTsConfig(files);
+
+        expect(projects).toHaveLength(1);
+        expect(problems.map(problem => problem.message)).toEqual([
+            expect.stringMatching(/cannot resolve "extends": "@tsconfig\/strictest\/tsconfig.json"/),
+            'Referenced project "./tsconfig.missing.json" was not found.',
+        ]);
+    });
+
+    it('has no projects without a root tsconfig.json', () => {
+        expect(loadTsConfig(new Map([['/src/main.ts', '']]))).toEqual({ projects: [], problems: [] });
+    });
+});
+
+describe('isIncludedInProject', () => {
+    it('matches include and exclude globs', () => {
+        const app = project({ include: ['/src/**/*.ts', '/src/**/*.tsx', '/types/*.d.ts'], exclude: ['/src/**/*.test.ts'] });
+
+        expect(isIncludedInProject(app, '/src/main.ts')).toBe(true);
+        expect(isIncludedInProject(app, '/src/components/deep/Button.tsx')).toBe(true);
+        expect(isIncludedInProject(app, '/src/components/Button.test.ts')).toBe(false);
+        expect(isIncludedInProject(app, '/types/env.d.ts')).toBe(true);
+        expect(isIncludedInProject(app, '/types/nested/env.d.ts')).toBe(false);
+        expect(isIncludedInProject(app, '/vite.config.ts')).toBe(false);
+    });
+
+    it('treats a pattern without wildcards or extension as a directory', () => {
+        const app = project({ include: ['/src'], exclude: ['/src/legacy'] });
+
+        expect(isIncludedInProject(app, '/src/App.tsx')).toBe(true);
+        expect(isIncludedInProject(app, '/src/pages/Home.tsx')).toBe(true);
+        expect(isIncludedInProject(app, '/src/legacy/Old.tsx')).toBe(false);
+        expect(isIncludedInProject(app, '/srcs/App.tsx')).toBe(false);
+    });
+
+    it('includes listed files and single-character wildcards', () => {
+        const app = project({ files: ['/vite.config.ts'], include: ['/src/?.ts'] });
+
+        expect(isIncludedInProject(app, '/vite.config.ts')).toBe(true);
+        expect(isIncludedInProject(app, '/src/a.ts')).toBe(true);
+        expect(isIncludedInProject(app, '/src/ab.ts')).toBe(false);
+    });
+});
+
+describe('getPrimaryProject', () => {
+    it('picks the referenced config that compiles the sources over a root with "files": []', () => {
+        const { projects } = loadTsConfig(VITE_TEMPLATE_FILES);
+
+        expect(getPrimaryProject(projects, ['/src/main.tsx', '/src/App.tsx', '/vite.config.ts'])?.configPath).toBe('/tsconfig.app.json');
+        expect(getPrimaryProject(projects, ['/vite.config.ts'])?.configPath).toBe('/tsconfig.node.json');
+        // Without sources the root config is used.
+        expect(getPrimaryProject(projects, [])?.configPath).toBe('/tsconfig.json');
+        expect(getPrimaryProject([], ['/src/main.ts'])).toBeNull();
+    });
+});
+
+describe('toCompilerOptions', () => {
+    it('maps enum options, lib names and ignores emit options', () => {
+        const options = toCompilerOptions(project({
+            compilerOptions: { target: 'ES2020', module: 'ESNext', moduleResolution: 'Bundler', jsx: 'react-jsx', lib: ['ES2020', 'DOM.Iterable'], strict: true, outDir: '/dist', moduleDetection: 'unknown' },
+        }));
+
+        expect(options).toEqual({
+            allowNonTsExtensions: true,
+            target: 7,
+            module: 99,
+            moduleResolution: 100,
+            jsx: 4,
+            lib: ['lib.es2020.d.ts', 'lib.dom.iterable.d.ts'],
+            strict: true,
+        });
+    });
+
+    it('turns paths and baseUrl into file:// URIs', () => {
+        const nested = new Map([
+            ['/tsconfig.json', '{ "references": [{ "path": "./packages/app" }] }'],
+            ['/packages/app/tsconfig.json', '{ "compilerOptions": { "baseUrl": ".", "paths": { "@/*": ["src/*"] }, "typeRoots": ["./types"] } }'],
+        ]);
+        const [, app] = loadTsConfig(nested).projects;
+        expect(toCompilerOptions(app)).toMatchObject({ baseUrl: 'file:///packages/app', paths: { '@/*': ['src/*'] }, typeRoots: ['file:///packages/app/types'] });
+
+        // Without a baseUrl, paths resolve against the config that declares them.
+        const [, appConfig] = loadTsConfig(VITE_TEMPLATE_FILES).projects;
+        const options = toCompilerOptions(appConfig);
+        expect(options.baseUrl).toBe('file:///');
+        expect(options.pathsBasePath).toBeUndefined();
+    });
+});
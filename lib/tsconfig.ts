@@ -0,0 +1,248 @@
+import { Problem } from './problems';
+
+// Reads the project's tsconfig.json the way tsc does, as far as the editor needs it: `extends`
+// chains, `references` to other configs, include/exclude/files and the compiler options.
+// Monaco runs a single TypeScript program, so one project's options apply to every file.
+
+export const ROOT_TSCONFIG_PATH = '/tsconfig.json';
+
+export interface TsConfigProject {
+    configPath: string;
+    compilerOptions: Record<string, unknown>; // As written, merged through `extends`; paths made absolute.
+    files: string[] | null; // Absolute paths.
+    include: string[]; // Absolute glob patterns.
+    exclude: string[];
+}
+
+export interface TsConfigResult {
+    projects: TsConfigProject[]; // The root config first, then its references.
+    problems: Problem[]; // Unreadable configs, reported alongside the type errors.
+}
+
+const DEFAULT_EXCLUDE = ['node_modules', 'bower_components', 'jspm_packages'];
+const MAX_EXTENDS_DEPTH = 10;
+
+// Options holding one path, or a list of them, relative to the config that sets them.
+const PATH_OPTIONS = ['baseUrl', 'rootDir', 'outDir', 'declarationDir', 'tsBuildInfoFile'];
+const PATH_LIST_OPTIONS = ['typeRoots', 'rootDirs'];
+
+const dirname = (path: string): string => path.slice(0, path.lastIndexOf('/')) || '/';
+
+/** Resolves `relative` against the directory `base`, collapsing `.` and `..` segments. */
+export const resolvePath = (base: string, relative: string): string => {
+    const segments: string[] = [];
+    for (const segment of (relative.startsWith('/') ? relative : `${base}/${relative}`).split('/')) {
+        if (segment === '..') segments.pop();
+        else if (segment && segment !== '.') segments.push(segment);
+    }
+    return '/' + segments.join('/');
+};
+
+/** JSON with comments and trailing commas, as tsconfig files allow. */
+export const parseJsonc = (text: string): unknown => {
+    let result = '';
+    // Index in `result` of a comma that is only followed by whitespace and comments so far.
+    let pendingComma = -1;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (char === '"') {
+            const start = i;
+            for (i++; i < text.length && text[i] !== '"'; i++) {
+                if (text[i] === '\\') i++;
+            }
+            result += text.slice(start, i + 1);
+            pendingComma = -1;
+        } else if (char === '/' && text[i + 1] === '/') {
+            while (i < text.length && text[i] !== '\n') i++;
+            result += '\n';
+        } else if (char === '/' && text[i + 1] === '*') {
+            const end = text.indexOf('*/', i + 2);
+            i = end === -1 ? text.length : end + 1;
+        } else {
+            // Trailing commas are dropped here, outside strings, so ",}" inside a string value survives.
+            if ((char === '}' || char === ']') && pendingComma !== -1) {
+                result = result.slice(0, pendingComma) + result.slice(pendingComma + 1);
+            }
+            if (char === ',') {
+                pendingComma = result.length;
+            } else if (!/\s/.test(char)) {
+                pendingComma = -1;
+            }
+            result += char;
+        }
+    }
+    return JSON.parse(result);
+};
+
+const configProblem = (path: string, message: string): Problem => ({
+    path,
+    line: 1,
+    column: 1,
+    message,
+    code: 'tsconfig',
+    severity: 'error',
+    source: 'tsconfig',
+});
+
+interface RawConfig {
+    extends?: string | string[];
+    compilerOptions?: Record<string, unknown>;
+    files?: string[];
+    include?: string[];
+    exclude?: string[];
+    references?: { path: string }[];
+}
+
+// A referenced or extended config may be named by its directory or without the .json extension.
+const findConfigPath = (files: Map<string, string>, path: string): string | null =>
+    [path, `${path}.json`, `${path}/tsconfig.json`].find(candidate => files.has(candidate)) || null;
+
+const readRawConfig = (files: Map<string, string>, path: string, problems: Problem[]): RawConfig | null => {
+    try {
+        const config = parseJsonc(files.get(path) || '');
+        if (!config || typeof config !== 'object' || Array.isArray(config)) throw new Error('The file must contain a JSON object.');
+        return config as RawConfig;
+    } catch (error: unknown) {
+        problems.push(configProblem(path, `Failed to parse ${path}: ${error instanceof Error ? error.message : String(error)}`));
+        return null;
+    }
+};
+
+// Makes the path-valued options of one config level absolute, so they survive merging with a config elsewhere.
+const resolveOptionPaths = (options: Record<string, unknown>, configDir: string): Record<string, unknown> => {
+    const resolved = { ...options };
+    for (const key of PATH_OPTIONS) {
+        if (typeof resolved[key] === 'string') resolved[key] = resolvePath(configDir, resolved[key] as string);
+    }
+    for (const key of PATH_LIST_OPTIONS) {
+        if (Array.isArray(resolved[key])) resolved[key] = (resolved[key] as string[]).map(path => resolvePath(configDir, path));
+    }
+    // Without a baseUrl, `paths` are relative to the config that declares them.
+    if (resolved.paths && typeof resolved.baseUrl !== 'string') resolved.pathsBasePath = configDir;
+    return resolved;
+};
+
+interface ConfigLevel {
+    compilerOptions: Record<string, unknown>;
+    files: string[] | null; // Null where neither the config nor anything it extends sets the field.
+    include: string[] | null;
+    exclude: string[] | null;
+    references: string[];
+}
+
+const readConfigLevel = (files: Map<string, string>, configPath: string, problems: Problem[], depth = 0): ConfigLevel | null => {
+    const raw = readRawConfig(files, configPath, problems);
+    if (!raw) return null;
+    const configDir = dirname(configPath);
+    const resolveAll = (paths: string[] | undefined) => (paths ? paths.map(path => resolvePath(configDir, path)) : null);
+
+    // Later entries of an `extends` list override earlier ones, and the config itself overrides them all.
+    let base = null as ConfigLevel | null;
+    const extendsPaths = Array.isArray(raw.extends) ? raw.extends : raw.extends ? [raw.extends] : [];
+    for (const extendsPath of extendsPaths) {
+        if (depth >= MAX_EXTENDS_DEPTH) {
+            problems.push(configProblem(configPath, `${configPath} extends too many configs; check for a cycle.`));
+            break;
+        }
+        // Package configs such as "@tsconfig/strictest" live in node_modules, which is not part of the project tree.
+        const resolved = extendsPath.startsWith('.') || extendsPath.startsWith('/') ? findConfigPath(files, resolvePath(configDir, extendsPath)) : null;
+        if (!resolved) {
+            problems.push(configProblem(configPath, `The editor cannot resolve "extends": "${extendsPath}"; its options are ignored.`));
+            continue;
+        }
+        const extended = readConfigLevel(files, resolved, problems, depth + 1);
+        if (!extended) continue;
+        base = {
+            compilerOptions: { ...base?.compilerOptions, ...extended.compilerOptions },
+            files: extended.files ?? base?.files ?? null,
+            include: extended.include ?? base?.include ?? null,
+            exclude: extended.exclude ?? base?.exclude ?? null,
+            references: [],
+        };
+    }
+
+    return {
+        compilerOptions: { ...base?.compilerOptions, ...resolveOptionPaths(raw.compilerOptions || {}, configDir) },
+        files: resolveAll(raw.files) ?? base?.files ?? null,
+        include: resolveAll(raw.include) ?? base?.include ?? null,
+        exclude: resolveAll(raw.exclude) ?? base?.exclude ?? null,
+        references: (raw.references || []).map(reference => reference.path),
+    };
+};
+
+/** The root tsconfig.json and every config it references, or no projects if there is no root config. */
+export const loadTsConfig = (files: Map<string, string>): TsConfigResult => {
+    const problems: Problem[] = [];
+    const projects: TsConfigProject[] = [];
+    const pending = files.has(ROOT_TSCONFIG_PATH) ? [ROOT_TSCONFIG_PATH] : [];
+    const visited = new Set<string>();
+    while (pending.length > 0) {
+        const configPath = pending.shift()!;
+        if (visited.has(configPath)) continue;
+        visited.add(configPath);
+        const level = readConfigLevel(files, configPath, problems);
+        if (!level) continue;
+        const configDir = dirname(configPath);
+        projects.push({
+            configPath,
+            compilerOptions: level.compilerOptions,
+            files: level.files,
+            // Without `files` or `include`, tsc compiles everything below the config.
+            include: level.include ?? (level.files ? [] : [resolvePath(configDir, '**/*')]),
+            exclude: level.exclude ?? DEFAULT_EXCLUDE.map(name => resolvePath(configDir, name)),
+        });
+        for (const reference of level.references) {
+            const referencePath = findConfigPath(files, resolvePath(configDir, reference));
+            if (referencePath) pending.push(referencePath);
+            else problems.push(configProblem(configPath, `Referenced project "${reference}" was not found.`));
+        }
+    }
+    return { projects, problems };
+};
+
+const globToRegExp = (pattern: string): RegExp => {
+    // A last segment without wildcards or an extension names a directory: everything below it is included.
+    const lastSegment = pattern.slice(pattern.lastIndexOf('/') + 1);
+    const fullPattern = /[*?]/.test(lastSegment) || lastSegment.includes('.') ? pattern : `${pattern}/**/*`;
+    let source = '';
+    for (let i = 0; i < fullPattern.length; i++) {
+        const char = fullPattern[i];
+        if (char === '*' && fullPattern[i + 1] === '*' && fullPattern[i + 2] === '/') {
+            source += '(?:.*/)?';
+            i += 2;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+};
+
+const matchesAnyPattern = (patterns: string[], path: string): boolean =>
+    patterns.some(pattern => globToRegExp(pattern).test(path) || path.startsWith(pattern + '/'));
+
+/** Whether tsc would compile `path` as part of `project`. */
+export const isIncludedInProject = (project: TsConfigProject, path: string): boolean => {
+    if (project.files?.includes(path)) return true;
+    return matchesAnyPattern(project.include, path) && !matchesAnyPattern(project.exclude, path);
+};
+
+/**
+ * The project whose options the editor uses: the one that compiles the most of the given source
+ * files, so a solution-style root with `"files": []` defers to the config for the app's sources.
+ */
+export const getPrimaryProject = (projects: TsConfigProject[], sourcePaths: string[]): TsConfigProject | null => {
+    let primary: TsConfigProject | null = null;
+    let primaryCount = 0;
+    for (const project of projects) {
+        const count = sourcePaths.filter(path => isIncludedInProject(project, path)).length;
+        if (count > primaryCount) {
+            primary = project;
+            primaryCount = count;
+        }
+    }
+    return primary || projects[0] || null;
+};
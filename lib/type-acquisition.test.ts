@@ -0,0 +1,138 @@
+import { describe, expect, it, vi } from 'vitest';
+import { acquireTypes, createLockfileTypeSource, findImportedPackages, getPackageName, getTypesPackageName, TypeSource } from './type-acquisition';
+
+// The IndexedDB cache, kept in memory.
+const storedTypes = vi.hoisted(() => new Map<string, Map<string, string>>());
+vi.mock('./project-store', () => ({
+    loadPackageTypes: async (id: string) => storedTypes.get(id) || null,
+    savePackageTypes: async (id: string, files: Map<string, string>) => {
+        storedTypes.set(id, files);
+    },
+}));
+
+interface FakePackage {
+    version: string;
+    files: Record<string, string>; // By path inside the package.
+}
+
+const createFakeSource = (packages: Record<string, FakePackage>) => {
+    const versionLookups: string[] = [];
+    const source: TypeSource = {
+        getVersion: async name => {
+            versionLookups.push(name);
+            return packages[name]?.version || null;
+        },
+        readPackage: async name => {
+            const files = Object.entries(packages[name].files).map(([path, content]) => [`/node_modules/${name}/${path}`, content] as const);
+            return new Map(files);
+        },
+    };
+    return { source, versionLookups };
+};
+
+describe('getPackageName', () => {
+    it('returns the package of a specifier', () => {
+        expect(getPackageName('react')).toBe('react');
+        expect(getPackageName('react/jsx-runtime')).toBe('react');
+        expect(getPackageName('@babel/core')).toBe('@babel/core');
+        expect(getPackageName('@types/node/fs')).toBe('@types/node');
+        expect(getPackageName('@mui/material/styles/createTheme')).toBe('@mui/material');
+    });
+
+    it('maps node: specifiers to node', () => {
+        expect(getPackageName('node:fs')).toBe('node');
+        expect(getPackageName('node:fs/promises')).toBe('node');
+    });
+
+    it('returns null for relative and absolute paths', () => {
+        expect(getPackageName('./types')).toBeNull();
+        expect(getPackageName('../index')).toBeNull();
+        expect(getPackageName('/node_modules/react/index.d.ts')).toBeNull();
+    });
+});
+
+describe('getTypesPackageName', () => {
+    it('names the DefinitelyTyped package', () => {
+        expect(getTypesPackageName('react')).toBe('@types/react');
+        expect(getTypesPackageName('@babel/core')).toBe('@types/babel__core');
+    });
+});
+
+describe('findImportedPackages', () => {
+    it('finds every kind of import and reference once', () => {
+        const declaration = `/// <reference types="node" />
+import * as CSS from 'csstype';
+import type { Props } from "prop-types/lib";
+export { default } from '@emotion/react';
+export * from './global';
+import 'side-effect';
+type Lazy = typeof import('scheduler');
+import assign = require("object-assign");
+import { Readable } from 'node:stream';
+`;
+        expect(findImportedPackages(declaration).sort()).toEqual(['@emotion/react', 'csstype', 'node', 'object-assign', 'prop-types', 'scheduler', 'side-effect']);
+    });
+});
+
+describe('acquireTypes', () => {
+    it('follows imports to other packages and their @types packages', async () => {
+        const { source, versionLookups } = createFakeSource({
+            react: { version: '18.3.1', files: { 'package.json': '{"name":"react"}' } },
+            '@types/react': { version: '18.3.3', files: { 'package.json': '{"name":"@types/react"}', 'index.d.ts': "import * as CSS from 'csstype';\nimport './global';\n", 'global.d.ts': '' } },
+            csstype: { version: '3.1.3', files: { 'package.json': '{"name":"csstype"}', 'index.d.ts': 'export interface Properties {}\n' } },
+        });
+
+        const files = await acquireTypes(source, ['react']);
+
+        // react has no declarations of its own, so its package.json is left out too.
+        expect(Array.from(files.keys()).sort()).toEqual([
+            '/node_modules/@types/react/global.d.ts',
+            '/node_modules/@types/react/index.d.ts',
+            '/node_modules/@types/react/package.json',
+            '/node_modules/csstype/index.d.ts',
+            '/node_modules/csstype/package.json',
+        ]);
+        expect(versionLookups).toEqual(['react', '@types/react', 'csstype', '@types/csstype']);
+        expect(storedTypes.get('csstype@3.1.3')?.get('/node_modules/csstype/index.d.ts')).toBe('export interface Properties {}\n');
+    });
+
+    it('stops after MAX_TYPE_PACKAGES packages', async () => {
+        const chain: Record<string, FakePackage> = {};
+        for (let i = 0; i < 300; i++) {
+            chain[`@types/chain-${i}`] = { version: '1.0.0', files: { 'index.d.ts': `export * from '@types/chain-${i + 1}';\n` } };
+        }
+        const { source, versionLookups } = createFakeSource(chain);
+
+        const files = await acquireTypes(source, ['@types/chain-0']);
+
+        expect(versionLookups).toHaveLength(200);
+        expect(files.has('/node_modules/@types/chain-199/index.d.ts')).toBe(true);
+        expect(files.has('/node_modules/@types/chain-200/index.d.ts')).toBe(false);
+    });
+
+    it('finds only cached packages through the lockfile', async () => {
+        const { source } = createFakeSource({
+            'lock-a': { version: '1.0.0', files: { 'index.d.ts': 'export declare const a: number;\n' } },
+        });
+        await acquireTypes(source, ['lock-a']);
+        // Cached by an earlier session.
+        storedTypes.set('lock-b@2.0.0', new Map([['/node_modules/lock-b/index.d.ts', 'export declare const b: string;\n']]));
+
+        const lockfile = JSON.stringify({
+            packages: {
+                '': { name: 'app' },
+                'node_modules/lock-a': { version: '1.0.0' },
+                'node_modules/lock-b': { version: '2.0.0' },
+                // Installed, but never read, so not cached.
+                'node_modules/lock-c': { version: '3.0.0' },
+            },
+        });
+        const files = await acquireTypes(createLockfileTypeSource(lockfile), ['lock-a', 'lock-b', 'lock-c']);
+
+        expect(Array.from(files.keys()).sort()).toEqual(['/node_modules/lock-a/index.d.ts', '/node_modules/lock-b/index.d.ts']);
+    });
+
+    it('finds nothing through an unreadable lockfile', async () => {
+        expect((await acquireTypes(createLockfileTypeSource('{'), ['lock-a'])).size).toBe(0);
+    });
+});
@@ -0,0 +1,170 @@
+import { FileSystemAPI } from '@webcontainer/api';
+import { loadPackageTypes, savePackageTypes } from './project-store';
+
+// Automatic type acquisition: the declaration files of the project's dependencies, read from the
+// WebContainer's node_modules, for the editor's TypeScript service. Starting from the declared
+// dependencies (and their @types packages), every package their declarations import is included
+// too, e.g. csstype for @types/react. Declarations are cached per package version, so reopening
+// a project has its types before `npm install` has finished.
+
+export interface TypeSource {
+    getVersion: (name: string) => Promise<string | null>; // Null if the package is not installed.
+    // Declaration files and package.json files by absolute path, or null if they could not be read.
+    // Only called on a cache miss.
+    readPackage: (name: string) => Promise<Map<string, string> | null>;
+}
+
+const DECLARATION_FILE_PATTERN = /\.d\.[cm]?ts$/;
+const MAX_TYPE_PACKAGES = 200;
+// Packages with more declarations than this, such as typescript itself, are tooling rather than
+// libraries. They are treated as having none.
+const MAX_PACKAGE_TYPE_BYTES = 4 * 1024 * 1024;
+
+// The package.json fields that module resolution reads.
+const RESOLUTION_FIELDS = ['name', 'version', 'type', 'main', 'module', 'types', 'typings', 'typesVersions', 'exports'];
+
+const memoryCache = new Map<string, Map<string, string>>();
+const textDecoder = new TextDecoder();
+
+/** "react" for "react/jsx-runtime", "@types/node" for "@types/node/fs", null for relative paths. */
+export const getPackageName = (specifier: string): string | null => {
+    if (specifier.startsWith('.') || specifier.startsWith('/')) return null;
+    const name = specifier.replace(/^node:.*/, 'node').split('/').slice(0, specifier.startsWith('@') ? 2 : 1).join('/');
+    return name || null;
+};
+
+/** The DefinitelyTyped package for a name: "@types/react", or "@types/babel__core" for "@babel/core". */
+export const getTypesPackageName = (name: string): string =>
+    `@types/${name.startsWith('@') ? name.slice(1).replace('/', '__') : name}`;
+
+// A package and the DefinitelyTyped package that may hold its types.
+const withTypesPackage = (name: string): string[] => (name.startsWith('@types/') ? [name] : [name, getTypesPackageName(name)]);
+
+const IMPORT_PATTERNS = [
+    /(?:import|export)\s[^'"]*?from\s*['"]([^'"]+)['"]/g,
+    /import\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+    /import\s+['"]([^'"]+)['"]/g,
+    /require\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+    /\/\/\/\s*<reference\s+types\s*=\s*['"]([^'"]+)['"]/g,
+];
+
+/** Packages imported or referenced by a declaration file. */
+export const findImportedPackages = (content: string): string[] => {
+    const names = new Set<string>();
+    for (const pattern of IMPORT_PATTERNS) {
+        for (const match of content.matchAll(pattern)) {
+            const name = getPackageName(match[1]);
+            if (name) names.add(name);
+        }
+    }
+    return Array.from(names);
+};
+
+const trimPackageJson = (content: string): string => {
+    try {
+        const manifest = JSON.parse(content);
+        return JSON.stringify(Object.fromEntries(RESOLUTION_FIELDS.filter(field => field in manifest).map(field => [field, manifest[field]])));
+    } catch {
+        return content;
+    }
+};
+
+/** Reads packages from the container's node_modules. */
+export const createNodeModulesTypeSource = (fs: FileSystemAPI): TypeSource => {
+    const readText = async (path: string) => textDecoder.decode(await fs.readFile(path));
+
+    return {
+        getVersion: async name => {
+            try {
+                const version = JSON.parse(await readText(`/node_modules/${name}/package.json`)).version;
+                return typeof version === 'string' ? version : null;
+            } catch {
+                return null;
+            }
+        },
+        readPackage: async name => {
+            const files = new Map<string, string>();
+            let totalBytes = 0;
+            const walk = async (dir: string): Promise<boolean> => {
+                for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+                    const path = `${dir}/${entry.name}`;
+                    if (entry.isDirectory()) {
+                        // Nested node_modules hold other packages, at versions the editor cannot tell apart.
+                        if (entry.name !== 'node_modules' && !(await walk(path))) return false;
+                    } else if (DECLARATION_FILE_PATTERN.test(entry.name) || entry.name === 'package.json') {
+                        const content = await readText(path);
+                        totalBytes += content.length;
+                        if (totalBytes > MAX_PACKAGE_TYPE_BYTES) return false;
+                        files.set(path, entry.name === 'package.json' ? trimPackageJson(content) : content);
+                    }
+                }
+                return true;
+            };
+            try {
+                return (await walk(`/node_modules/${name}`)) ? files : new Map();
+            } catch {
+                return null;
+            }
+        },
+    };
+};
+
+/**
+ * Resolves versions from package-lock.json and reads nothing, so only cached packages are found.
+ * Used while node_modules is still being installed.
+ */
+export const createLockfileTypeSource = (packageLockJson: string): TypeSource => {
+    let packages: Record<string, { version?: string }> = {};
+    try {
+        packages = JSON.parse(packageLockJson).packages || {};
+    } catch {
+        // An unreadable lockfile just means nothing can be taken from the cache.
+    }
+    return {
+        getVersion: async name => packages[`node_modules/${name}`]?.version || null,
+        readPackage: async () => null,
+    };
+};
+
+const getPackageTypes = async (source: TypeSource, name: string): Promise<Map<string, string> | null> => {
+    const version = await source.getVersion(name);
+    if (!version) return null;
+    const id = `${name}@${version}`;
+    const cached = memoryCache.get(id);
+    if (cached) return cached;
+
+    let files = await loadPackageTypes(id).catch(() => null);
+    if (!files) {
+        files = await source.readPackage(name);
+        // A package without declarations is cached as empty, so it is not read again.
+        if (files) savePackageTypes(id, files).catch(error => console.warn(`Failed to cache the types of ${id}:`, error));
+    }
+    if (files) memoryCache.set(id, files);
+    return files;
+};
+
+const hasDeclarations = (files: Map<string, string>): boolean =>
+    Array.from(files.keys()).some(path => DECLARATION_FILE_PATTERN.test(path));
+
+/** Declaration and package.json files, by absolute node_modules path, of `packageNames` and everything their declarations import. */
+export const acquireTypes = async (source: TypeSource, packageNames: string[]): Promise<Map<string, string>> => {
+    const result = new Map<string, string>();
+    const queue = packageNames.flatMap(withTypesPackage);
+    const seen = new Set<string>();
+    while (queue.length > 0 && seen.size < MAX_TYPE_PACKAGES) {
+        const name = queue.shift()!;
+        if (seen.has(name)) continue;
+        seen.add(name);
+        const files = await getPackageTypes(source, name);
+        if (!files || !hasDeclarations(files)) continue;
+        for (const [path, content] of files) {
+            result.set(path, content);
+            if (DECLARATION_FILE_PATTERN.test(path)) {
+                for (const imported of findImportedPackages(content)) {
+                    if (!seen.has(imported)) queue.push(...withTypesPackage(imported));
+                }
+            }
+        }
+    }
+    return result;
+};
@@ -0,0 +1,176 @@
+import { Monaco } from '@monaco-editor/react';
+import type { IDisposable, languages } from 'monaco-editor';
+import { Problem, ProblemSeverity } from './problems';
+import { TsConfigProject, isIncludedInProject } from './tsconfig';
+
+// Project files are registered with Monaco's TypeScript defaults as extra libs, which makes them
+// part of one program in the TypeScript worker: imports resolve across files, and every file can
+// be checked, not only the ones open in an editor. Dependency types from node_modules are
+// registered the same way. The defaults are global to the page, so the registrations are module
+// state rather than per editor.
+
+const toFileUri = (path: string): string => `file://${path}`;
+
+const createLibRegistry = () => {
+    const registered = new Map<string, { content: string; lib: IDisposable }>();
+    return {
+        // Registers new and changed files and removes the ones no longer in `files`.
+        sync: (m: Monaco, files: Map<string, string>) => {
+            for (const [path, content] of files) {
+                const current = registered.get(path);
+                if (current?.content === content) continue;
+                current?.lib.dispose();
+                registered.set(path, { content, lib: m.languages.typescript.typescriptDefaults.addExtraLib(content, toFileUri(path)) });
+            }
+            for (const [path, current] of registered) {
+                if (!files.has(path)) {
+                    current.lib.dispose();
+                    registered.delete(path);
+                }
+            }
+        },
+        clear: () => {
+            for (const current of registered.values()) {
+                current.lib.dispose();
+            }
+            registered.clear();
+        },
+    };
+};
+
+const projectLibs = createLibRegistry();
+const dependencyTypeLibs = createLibRegistry();
+
+const TYPESCRIPT_FILE_PATTERN = /\.(ts|tsx|mts|cts)$/;
+
+export const isTypeScriptPath = (path: string): boolean => TYPESCRIPT_FILE_PATTERN.test(path);
+
+/** Registers new and changed project files and removes the ones no longer in `files`. */
+export const syncProjectFiles = (m: Monaco, files: Map<string, string>) => projectLibs.sync(m, files);
+
+/** Registers declaration files acquired from node_modules, keyed by their node_modules path. */
+export const syncDependencyTypes = (m: Monaco, files: Map<string, string>) => dependencyTypeLibs.sync(m, files);
+
+export const clearProjectFiles = () => {
+    projectLibs.clear();
+    dependencyTypeLibs.clear();
+    appliedOptionsKey = null;
+};
+
+// tsconfig.json spells enum options as strings; the compiler wants TypeScript's numeric enum values.
+// Monaco's own enums only cover part of them (no "bundler" resolution, for instance).
+const ENUM_OPTIONS: Record<string, Record<string, number>> = {
+    target: { es3: 0, es5: 1, es6: 2, es2015: 2, es2016: 3, es2017: 4, es2018: 5, es2019: 6, es2020: 7, es2021: 8, es2022: 9, es2023: 10, esnext: 99 },
+    module: { none: 0, commonjs: 1, amd: 2, umd: 3, system: 4, es6: 5, es2015: 5, es2020: 6, es2022: 7, esnext: 99, node16: 100, nodenext: 199, preserve: 200 },
+    moduleResolution: { classic: 1, node: 2, node10: 2, node16: 3, nodenext: 99, bundler: 100 },
+    jsx: { preserve: 1, react: 2, 'react-native': 3, 'react-jsx': 4, 'react-jsxdev': 5 },
+    moduleDetection: { legacy: 1, auto: 2, force: 3 },
+    newLine: { crlf: 0, lf: 1 },
+};
+
+// Options that only affect emitted output; the editor never emits.
+const IGNORED_OPTIONS = new Set(['outDir', 'declarationDir', 'tsBuildInfoFile', 'incremental', 'composite', 'declaration', 'declarationMap', 'sourceMap', 'plugins']);
+
+/** Used when the project has no tsconfig.json. */
+const getDefaultCompilerOptions = (m: Monaco): languages.typescript.CompilerOptions => ({
+    target: m.languages.typescript.ScriptTarget.ESNext,
+    moduleResolution: m.languages.typescript.ModuleResolutionKind.NodeJs,
+    jsx: m.languages.typescript.JsxEmit.ReactJSX,
+    allowSyntheticDefaultImports: true,
+    esModuleInterop: true,
+    allowNonTsExtensions: true,
+});
+
+/** Converts a project's tsconfig options into compiler options for the TypeScript worker. */
+export const toCompilerOptions = (project: TsConfigProject): languages.typescript.CompilerOptions => {
+    const options: languages.typescript.CompilerOptions = { allowNonTsExtensions: true };
+    for (const [key, value] of Object.entries(project.compilerOptions)) {
+        if (IGNORED_OPTIONS.has(key)) continue;
+        if (ENUM_OPTIONS[key]) {
+            const enumValue = typeof value === 'string' ? ENUM_OPTIONS[key][value.toLowerCase()] : undefined;
+            if (enumValue !== undefined) options[key] = enumValue;
+        } else if (key === 'lib' && Array.isArray(value)) {
+            // "DOM.Iterable" is the lib file "lib.dom.iterable.d.ts".
+            options.lib = value.map(name => `lib.${String(name).toLowerCase()}.d.ts`);
+        } else if (key === 'baseUrl' || key === 'pathsBasePath') {
+            options[key] = toFileUri(value as string);
+        } else if (key === 'typeRoots' || key === 'rootDirs') {
+            options[key] = (value as string[]).map(toFileUri);
+        } else {
+            options[key] = value as languages.typescript.CompilerOptionsValue;
+        }
+    }
+    // Project files are registered as file:// URIs, so `paths` only resolve against a file:// base.
+    if (options.paths && !options.baseUrl) {
+        options.baseUrl = (options.pathsBasePath as string | undefined) || toFileUri('/');
+        delete options.pathsBasePath;
+    }
+    return options;
+};
+
+let appliedOptionsKey: string | null = null;
+
+/** Applies the primary tsconfig project's options, or the defaults without one. A no-op if nothing changed. */
+export const applyCompilerOptions = (m: Monaco, project: TsConfigProject | null) => {
+    const options = project ? toCompilerOptions(project) : getDefaultCompilerOptions(m);
+    const key = JSON.stringify(options);
+    if (key === appliedOptionsKey) return;
+    appliedOptionsKey = key;
+    m.languages.typescript.typescriptDefaults.setCompilerOptions(options);
+};
+
+const getTypeScriptWorker = async (m: Monaco): Promise<languages.typescript.TypeScriptWorker> => {
+    const getWorker = await m.languages.typescript.getTypeScriptWorker().catch(() => {
+        // Monaco only starts the TypeScript worker once a TypeScript model exists.
+        m.editor.createModel('', 'typescript').dispose();
+        return m.languages.typescript.getTypeScriptWorker();
+    });
+    return getWorker();
+};
+
+const flattenMessage = (message: string | languages.typescript.DiagnosticMessageChain, indent = ''): string => {
+    if (typeof message === 'string') return message;
+    const next = (message.next || []).map(chain => flattenMessage(chain, indent + '  '));
+    return [indent + message.messageText, ...next].join('\n');
+};
+
+// Diagnostic categories: warning = 0, error = 1, suggestion = 2, message = 3.
+const SEVERITIES: Record<number, ProblemSeverity> = { 0: 'warning', 1: 'error', 2: 'info', 3: 'info' };
+
+const toPosition = (content: string, offset: number): { line: number; column: number } => {
+    const before = content.slice(0, offset);
+    const lineStart = before.lastIndexOf('\n') + 1;
+    return { line: before.split('\n').length, column: offset - lineStart + 1 };
+};
+
+/**
+ * Syntactic and semantic diagnostics for the TypeScript files in `files` that tsc would compile
+ * as part of one of `projects` (all of them without a tsconfig). The files must already be
+ * registered with `syncProjectFiles`. Suggestions are left out; they are hints, not problems.
+ */
+export const collectTypeScriptProblems = async (m: Monaco, files: Map<string, string>, projects: TsConfigProject[]): Promise<Problem[]> => {
+    const worker = await getTypeScriptWorker(m);
+    const { noSyntaxValidation, noSemanticValidation, diagnosticCodesToIgnore = [] } = m.languages.typescript.typescriptDefaults.getDiagnosticsOptions();
+    const problems: Problem[] = [];
+    for (const [path, content] of files) {
+        if (!isTypeScriptPath(path)) continue;
+        if (projects.length > 0 && !projects.some(project => isIncludedInProject(project, path))) continue;
+        const uri = toFileUri(path);
+        const diagnostics = [
+            ...(noSyntaxValidation ? [] : await worker.getSyntacticDiagnostics(uri)),
+            ...(noSemanticValidation ? [] : await worker.getSemanticDiagnostics(uri)),
+        ];
+        for (const diagnostic of diagnostics) {
+            if (diagnosticCodesToIgnore.includes(diagnostic.code)) continue;
+            problems.push({
+                path,
+                ...toPosition(content, diagnostic.start ?? 0),
+                message: flattenMessage(diagnostic.messageText),
+                code: `TS${diagnostic.code}`,
+                severity: SEVERITIES[diagnostic.category] || 'info',
+                source: 'typescript',
+            });
+        }
+    }
+    return problems;
+};
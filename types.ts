@@ -5,7 +5,7 @@ export interface FileNode {
   type: 'file' | 'folder';
   path: string;
   children?: FileNode[];
-  content?: string;
+  content?: string | Uint8Array; // Uint8Array for binary files such as images.
 }
 
 export type ToastType = 'success' | 'error' | 'info' | 'warning';
@@ -22,6 +22,46 @@ export interface Attachment {
   content: string; // For text, raw content. For images, base64 data URL.
 }
 
+export interface ChatContextFile {
+  path: string;
+  mode: 'full' | 'truncated' | 'summary';
+  tokens: number; // Estimated tokens this file contributed to the prompt.
+}
+
+export interface ChatContextSummary {
+  files: ChatContextFile[];
+  omittedCount: number;
+  totalTokens: number;
+  tokenBudget: number;
+}
+
+export interface AgentStep {
+  tool: string;
+  input: string; // Summary of the arguments, e.g. a path or command line.
+  output: string;
+  isError: boolean;
+  durationMs: number;
+}
+
+export interface RejectedOperation {
+  path: string;
+  operation: 'update' | 'delete';
+  reason: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number;
+  attachments?: Attachment[];
+  changedFiles?: string[]; // Paths updated or deleted by this assistant turn.
+  status?: 'cancelled' | 'error' | 'discarded'; // Failed turns are shown but never sent back to the model; discarded reviews are, marked as discarded.
+  context?: ChatContextSummary; // Project files sent along with this user message.
+  agentSteps?: AgentStep[]; // Tool calls made in agent mode before this assistant reply.
+  rejectedOperations?: RejectedOperation[]; // AI file operations blocked by the path policy.
+}
+
 export interface SearchMatch {
   lineNumber: number;
   content: string;